@@ -8,12 +8,24 @@ import { Application, Container } from 'pixi.js';
 import { initLayoutManager, mountLayout } from './managers/LayoutManager';
 import { initHeaderManager, mountHeader } from './managers/HeaderManager';
 import { AssetManager } from './managers/AssetManager';
+import { AudioManager } from './managers/AudioManager';
 import { LoadingUI } from './components/LoadingUI';
 import { Router } from './router/Router';
 import { SceneManager } from './managers/SceneManager';
 import { CloudsManager } from './managers/CloudsManager';
 import { CursorEffectComponent } from './components/CursorEffectComponent';
 import { SiteGame } from '../src/game/core/SiteGame';
+import { SeededRandom, getSeedFromURL } from './utils/Random';
+import { ReplayData } from './game/core/Replay';
+import { ObjectPool, PoolStats } from './utils/ObjectPool';
+
+declare global
+{
+  interface Window
+  {
+    poolStats?: () => PoolStats[]; // Console debug helper
+  }
+}
 
 export class App
 {
@@ -77,6 +89,9 @@ export class App
 
       // Initialize Cursor Manager
       this.initCursorManager();
+      
+      // Pool sizes for debugging (run poolStats() in the console)
+      window.poolStats = () => ObjectPool.getAllStats();
 
       // NOTE: Game is NOT initialized here anymore
       // It will be initialized when navigating to home page
@@ -198,6 +213,9 @@ export class App
     
     // Load all assets
     await this.assetManager.loadAll();
+    
+    // Sounds load in the background (the site works without them)
+    AudioManager.getInstance().loadAll();
   }
   
   private initLayout(): void
@@ -220,8 +238,9 @@ export class App
   
   /**
    * Initialize the game (called when navigating to home page)
+   * Pass a replay to watch a recorded run instead of playing
    */
-  initializeGame(): void
+  initializeGame(replay?: ReplayData): void
   {
     if (this.gameInitialized)
     {
@@ -238,6 +257,7 @@ export class App
     console.log('[App] Initializing game for home page...');
     
     // Pass restart callback that handles full game reset
+    // A ?seed= URL param pins the run seed (restarts replay the same run)
     this.siteGame = new SiteGame(
       this.gameApp, 
       this.assetManager,
@@ -247,7 +267,9 @@ export class App
         setTimeout(() => {
           this.initializeGame();
         }, 100);
-      }
+      },
+      getSeedFromURL() ?? undefined,
+      replay
     );
     
     this.siteGame.initialize();
@@ -275,6 +297,19 @@ export class App
     this.gameInitialized = false;
   }
   
+  /**
+   * Restart the home page game as a replay
+   */
+  playReplay(replay: ReplayData): void
+  {
+    console.log(`[App] Loading replay (seed ${replay.seed})...`);
+    
+    this.destroyGame();
+    setTimeout(() => {
+      this.initializeGame(replay);
+    }, 100);
+  }
+  
   /**
    * Check if game is currently initialized
    */
@@ -335,7 +370,8 @@ export class App
       this.bgApp,
       backgroundGroup,
       this.assetManager!,
-      this.sceneManager
+      this.sceneManager,
+      new SeededRandom(getSeedFromURL() ?? undefined)
     );
     
     // Link CloudsManager to SceneManager
@@ -5,6 +5,7 @@
 
 import { Application, Container, Sprite, Graphics, Ticker } from 'pixi.js';
 import { AssetManager } from '../managers/AssetManager';
+import { ObjectPool } from '../utils/ObjectPool';
 
 interface Particle
 {
@@ -59,6 +60,17 @@ export class CursorEffectComponent
   private particles: Particle[] = [];
   private bloodDrops: BloodDrop[] = [];
   private particleContainer: Container;
+  private graphicsPool: ObjectPool<Graphics> = new ObjectPool<Graphics>({
+    name: 'cursor-particles',
+    create: () => new Graphics(),
+    reset: (graphics) =>
+    {
+      graphics.clear();
+      graphics.rotation = 0;
+      graphics.scale.set(1);
+    },
+    dispose: (graphics) => graphics.destroy()
+  });
   
   // Mouse state
   private cursorPos = { x: 0, y: 0 };
@@ -275,6 +287,7 @@ export class CursorEffectComponent
       if (p.life <= 0)
       {
         this.particleContainer.removeChild(p.graphics);
+        this.graphicsPool.release(p.graphics);
         this.particles.splice(i, 1);
       }
     }
@@ -314,6 +327,7 @@ export class CursorEffectComponent
       if (drop.life <= 0)
       {
         this.particleContainer.removeChild(drop.graphics);
+        this.graphicsPool.release(drop.graphics);
         this.bloodDrops.splice(i, 1);
       }
     }
@@ -332,7 +346,7 @@ export class CursorEffectComponent
   
   private addParticle(x: number, y: number): void
   {
-    const graphics = new Graphics();
+    const graphics = this.graphicsPool.acquire();
     
     if (this.currentTheme === 'dark')
     {
@@ -516,6 +530,8 @@ export class CursorEffectComponent
     this.bloodDrops.forEach(d => d.graphics.destroy());
     this.bloodDrops = [];
     
+    this.graphicsPool.destroy();
+    
     if (this.particleContainer)
     {
       this.particleContainer.destroy({ children: true });
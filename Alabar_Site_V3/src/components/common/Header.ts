@@ -69,6 +69,9 @@ export class Header
             <a href="/contact" data-link class="nav-link font-pixel pixel-font pixel-shadow text-base text-rpg-text hover:text-rpg-accent transition-all duration-200 hover:scale-110">
               Contact
             </a>
+            <a href="/leaderboard" data-link class="nav-link font-pixel pixel-font pixel-shadow text-base text-rpg-text hover:text-rpg-accent transition-all duration-200 hover:scale-110">
+              Leaderboard
+            </a>
             
             <!-- Projects Dropdown -->
             <div class="relative group">
@@ -188,6 +191,14 @@ export class Header
               Contact
             </a>
 
+            <a href="/leaderboard" data-link
+              class="w-full max-w-[320px] px-4 py-3 rounded-lg
+                      bg-white/10 hover:bg-white/20
+                      text-rpg-text hover:text-rpg-accent
+                      font-pixel pixel-shadow text-base transition-all text-center">
+              Leaderboard
+            </a>
+
             <!-- Projects -->
             <p class="font-pixel pixel-shadow text-rpg-accent text-sm pt-2">
               Projects:
@@ -17,6 +17,7 @@ export interface AreaEffectConfig
   spritesheetKey: string;
   scale?: number;
   followTarget?: { getPosition: () => { x: number; y: number } }; // For following player (aura)
+  sourceId?: string; // Power id that spawned it (damage tracking)
 }
 
 export class AreaEffect extends Container
@@ -24,6 +25,7 @@ export class AreaEffect extends Container
   private sprite: AnimatedSprite | null = null;
   private radius: number;
   private damage: number;
+  private sourceId: string;
   private duration: number;
   private tickRate: number;
   private elapsed: number = 0;
@@ -37,6 +39,7 @@ export class AreaEffect extends Container
     
     this.radius = config.radius;
     this.damage = config.damage;
+    this.sourceId = config.sourceId ?? 'unknown';
     this.duration = config.duration;
     this.tickRate = config.tickRate;
     this.followTarget = config.followTarget;
@@ -141,6 +144,14 @@ export class AreaEffect extends Container
     return this.damage;
   }
   
+  /**
+   * Get id of the power that spawned this effect
+   */
+  getSourceId(): string
+  {
+    return this.sourceId;
+  }
+  
   /**
    * Get position
    */
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { BOSSES, getBossDefinition, getBossPhase, getVolleyAngles } from './Bosses';
+import { WAVE_SCHEMA } from './Waves';
+
+describe('Bosses', () =>
+{
+  it('gives every scheduled boss an encounter', () =>
+  {
+    for (const entry of WAVE_SCHEMA.bosses)
+    {
+      expect(getBossDefinition(entry.boss)).not.toBeNull();
+    }
+  });
+
+  it.each(BOSSES.map(b => [b.id, b] as const))('%s starts at full health with descending phases', (_id, boss) =>
+  {
+    expect(boss.phases[0].belowHealth).toBe(1);
+
+    for (let i = 1; i < boss.phases.length; i++)
+    {
+      expect(boss.phases[i].belowHealth).toBeLessThan(boss.phases[i - 1].belowHealth);
+    }
+  });
+
+  it('picks the deepest phase reached', () =>
+  {
+    const warlord = getBossDefinition('warlord')!;
+
+    expect(getBossPhase(warlord, 1)).toBe(0);
+    expect(getBossPhase(warlord, 0.67)).toBe(0);
+    expect(getBossPhase(warlord, 0.66)).toBe(1);
+    expect(getBossPhase(warlord, 0.1)).toBe(2);
+  });
+
+  it('fans a volley evenly around the aim angle', () =>
+  {
+    const angles = getVolleyAngles(5, Math.PI / 2, 0);
+
+    expect(angles).toHaveLength(5);
+    expect(angles[0]).toBeCloseTo(-Math.PI / 4, 10);
+    expect(angles[2]).toBeCloseTo(0, 10);
+    expect(angles[4]).toBeCloseTo(Math.PI / 4, 10);
+  });
+
+  it('spreads a full-circle volley without doubling the first shot', () =>
+  {
+    const angles = getVolleyAngles(4, Math.PI * 2, 0);
+
+    expect(angles).toHaveLength(4);
+    expect(angles[1]).toBeCloseTo(Math.PI / 2, 10);
+    expect(angles[3]).toBeCloseTo(Math.PI * 1.5, 10);
+  });
+
+  it('aims a single shot straight and fires nothing for zero', () =>
+  {
+    expect(getVolleyAngles(1, Math.PI, 0.5)).toEqual([0.5]);
+    expect(getVolleyAngles(0, Math.PI, 0.5)).toEqual([]);
+  });
+});
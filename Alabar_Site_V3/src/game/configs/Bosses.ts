@@ -0,0 +1,114 @@
+/**
+ * Bosses.ts - Boss encounter design
+ * Attack patterns and HP phases for bosses scheduled in Waves.ts (MonsterBase runs them)
+ */
+
+import { MonsterType } from '../systems/EnemySpawner';
+import { OnHitEffect } from './StatusEffects';
+
+export type BossAttack = 'charge' | 'volley' | 'summon';
+
+/**
+ * One boss phase, active once HP drops to `belowHealth` (fraction of max HP)
+ */
+export interface BossPhase
+{
+  belowHealth: number; // 1 = from the start
+  attacks: BossAttack[]; // Picked at random every attackInterval
+  attackInterval: number; // Seconds between special attacks
+  speedMultiplier: number; // On top of the boss base speed
+  volleyCount: number; // Projectiles per volley
+  summonCount: number; // Adds per summon
+}
+
+export interface BossDefinition
+{
+  id: string;
+  name: string;
+  phases: BossPhase[]; // Ordered by belowHealth, highest first
+  charge: {
+    telegraph: number; // Seconds of wind-up (direction is locked at the start)
+    distance: number;
+    duration: number;
+  };
+  volley: {
+    spread: number; // Fan width in radians
+    speed: number;
+    damageMultiplier: number; // Of the boss contact damage
+    statusEffects?: OnHitEffect[]; // Applied to the player on hit
+  };
+  summon: {
+    types: MonsterType[];
+    radius: number; // Distance from the boss
+  };
+}
+
+export const BOSSES: BossDefinition[] = [
+  {
+    id: 'warlord',
+    name: 'The Warlord',
+    phases: [
+      { belowHealth: 1, attacks: ['charge'], attackInterval: 4, speedMultiplier: 1, volleyCount: 0, summonCount: 0 },
+      { belowHealth: 0.66, attacks: ['charge', 'volley'], attackInterval: 3.2, speedMultiplier: 1.15, volleyCount: 5, summonCount: 0 },
+      { belowHealth: 0.33, attacks: ['charge', 'volley', 'summon'], attackInterval: 2.4, speedMultiplier: 1.3, volleyCount: 8, summonCount: 4 }
+    ],
+    charge: { telegraph: 0.8, distance: 260, duration: 0.35 },
+    volley: { spread: Math.PI / 2, speed: 4, damageMultiplier: 0.5 },
+    summon: { types: ['Slime3', 'Orc1'], radius: 90 }
+  },
+  {
+    id: 'matriarch',
+    name: 'The Matriarch',
+    phases: [
+      { belowHealth: 1, attacks: ['volley'], attackInterval: 3, speedMultiplier: 1, volleyCount: 6, summonCount: 0 },
+      { belowHealth: 0.6, attacks: ['volley', 'summon'], attackInterval: 2.6, speedMultiplier: 1.1, volleyCount: 9, summonCount: 3 },
+      { belowHealth: 0.25, attacks: ['charge', 'volley', 'summon'], attackInterval: 2, speedMultiplier: 1.25, volleyCount: 12, summonCount: 5 }
+    ],
+    charge: { telegraph: 0.7, distance: 220, duration: 0.3 },
+    volley: { spread: Math.PI * 2, speed: 3.5, damageMultiplier: 0.4, statusEffects: [{ type: 'slow', duration: 1.5 }] },
+    summon: { types: ['Vampire1', 'Vampire2', 'Plant1'], radius: 120 }
+  }
+];
+
+/**
+ * Find a boss definition by id
+ */
+export function getBossDefinition(id: string): BossDefinition | null
+{
+  return BOSSES.find(boss => boss.id === id) ?? null;
+}
+
+/**
+ * Index of the phase for an HP fraction (the deepest phase reached)
+ */
+export function getBossPhase(boss: BossDefinition, healthPercentage: number): number
+{
+  let phase = 0;
+
+  boss.phases.forEach((def, index) => {
+    if (healthPercentage <= def.belowHealth)
+    {
+      phase = index;
+    }
+  });
+
+  return phase;
+}
+
+/**
+ * Angles for a fan of projectiles centered on the aim angle
+ * A full circle spreads them evenly without doubling up the first and last shot
+ */
+export function getVolleyAngles(count: number, spread: number, aimAngle: number): number[]
+{
+  if (count <= 1)
+  {
+    return count === 1 ? [aimAngle] : [];
+  }
+
+  const fullCircle = spread >= Math.PI * 2;
+  const step = fullCircle ? spread / count : spread / (count - 1);
+  const start = fullCircle ? aimAngle : aimAngle - spread / 2;
+
+  return Array.from({ length: count }, (_, i) => start + i * step);
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { CHARACTERS, DEFAULT_CHARACTER_ID, GrukkCharacter, getCharacter } from './Characters';
+import { ALL_WEAPONS } from './Weapons';
+import { Player } from '../entities/Player';
+import { PowerManager } from '../systems/PowerManager';
+import { DEFAULT_LOADOUT } from './MetaShop';
+import { SeededRandom } from '../../utils/Random';
+import { createStubAssetManager, StubInput } from '../../test/stubs';
+
+describe('Characters', () =>
+{
+  it('gives every character a unique id and an existing starting weapon', () =>
+  {
+    expect(new Set(CHARACTERS.map(c => c.id)).size).toBe(CHARACTERS.length);
+
+    for (const character of CHARACTERS)
+    {
+      expect(ALL_WEAPONS.map(w => w.id)).toContain(character.startingWeapon);
+    }
+  });
+
+  it('falls back to the default character for unknown ids', () =>
+  {
+    expect(getCharacter('nobody').id).toBe(DEFAULT_CHARACTER_ID);
+    expect(getCharacter(undefined).id).toBe(DEFAULT_CHARACTER_ID);
+    expect(getCharacter('grukk')).toBe(GrukkCharacter);
+  });
+
+  it('applies base stats and passive on top of shop bonuses', () =>
+  {
+    const player = new Player(createStubAssetManager(), { startX: 0, startY: 0, speed: 2, inputSource: new StubInput() });
+    new PowerManager(player, new SeededRandom(1), { ...DEFAULT_LOADOUT, maxHealthBonus: 20 });
+
+    player.applyCharacter(GrukkCharacter);
+
+    expect(player.getMaxHealth()).toBe(GrukkCharacter.health + 20);
+    expect(player.getHealth()).toBe(player.getMaxHealth());
+    expect(player.getAttackRange()).toBe(GrukkCharacter.attackRange);
+    expect(player.stats.armor).toBe(2);
+    expect(player.stats.moveSpeedMultiplier).toBeCloseTo(GrukkCharacter.moveSpeed);
+    expect(player.getDamage()).toBe(GrukkCharacter.damage);
+    expect(player.getCharacter()).toBe(GrukkCharacter);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Characters.ts - Playable character roster
+ * Each character has its own sprite, base stats, starting weapon and a unique passive
+ */
+
+import type { Player } from '../entities/Player';
+
+export interface CharacterPassive
+{
+  name: string;
+  description: string;
+  apply: (player: Player) => void; // Applied once when the run starts
+}
+
+export interface CharacterDefinition
+{
+  id: string;
+  name: string;
+  title: string; // Shown under the name on the select screen
+
+  // Visuals (any spritesheet with <prefix>_<idle|walk|atk|hurt>_<direction> animations)
+  spritesheetKey: string;
+  animationPrefix: string;
+
+  // Base stats
+  health: number;
+  damage: number; // Melee damage
+  attackRange: number;
+  moveSpeed: number; // Multiplier on the base player speed
+
+  startingWeapon: string; // Weapon id in ALL_WEAPONS (locked in the shop = character locked)
+  passive: CharacterPassive;
+}
+
+export const DEFAULT_CHARACTER_ID = "leo";
+
+/**
+ * LEO
+ * Balanced knight, fast weapons
+ */
+export const LeoCharacter: CharacterDefinition = {
+  id: "leo",
+  name: "Leo",
+  title: "Wandering Knight",
+
+  spritesheetKey: "player_spritesheet",
+  animationPrefix: "Leo_Hero",
+
+  health: 120,
+  damage: 8,
+  attackRange: 50,
+  moveSpeed: 1.0,
+
+  startingWeapon: "dagger",
+  passive: {
+    name: "Quick Hands",
+    description: "Weapons and powers recharge 8% faster.",
+    apply: (player) =>
+    {
+      player.stats.cooldownReduction += 0.08;
+    }
+  }
+};
+
+/**
+ * GRUKK
+ * Slow, tough and hits hard up close
+ */
+export const GrukkCharacter: CharacterDefinition = {
+  id: "grukk",
+  name: "Grukk",
+  title: "Orc Brute",
+
+  spritesheetKey: "orc1_spritesheet",
+  animationPrefix: "Orc1",
+
+  health: 160,
+  damage: 12,
+  attackRange: 55,
+  moveSpeed: 0.85,
+
+  startingWeapon: "axe",
+  passive: {
+    name: "Thick Hide",
+    description: "+2 armor.",
+    apply: (player) =>
+    {
+      player.stats.armor += 2;
+    }
+  }
+};
+
+/**
+ * BRAMBLE
+ * Fragile but precise, keeps blades circling
+ */
+export const BrambleCharacter: CharacterDefinition = {
+  id: "bramble",
+  name: "Bramble",
+  title: "Thorn Sprout",
+
+  spritesheetKey: "plant1_spritesheet",
+  animationPrefix: "Plant1",
+
+  health: 100,
+  damage: 7,
+  attackRange: 45,
+  moveSpeed: 1.1,
+
+  startingWeapon: "shuriken",
+  passive: {
+    name: "Keen Senses",
+    description: "+10% critical hit chance.",
+    apply: (player) =>
+    {
+      player.stats.critChance += 0.10;
+    }
+  }
+};
+
+/**
+ * EXPORT ROSTER (select screen order)
+ */
+export const CHARACTERS: CharacterDefinition[] = [
+  LeoCharacter,
+  GrukkCharacter,
+  BrambleCharacter
+];
+
+/**
+ * Look up a character (unknown ids fall back to the default character)
+ */
+export function getCharacter(id: string | null | undefined): CharacterDefinition
+{
+  return CHARACTERS.find(c => c.id === id) ?? LeoCharacter;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { CONTROL_PRESETS, cloneBindings, fillMissingBindings, findConflict, findUnboundActions, formatKeyCode } from './Controls';
+
+describe('Controls', () =>
+{
+  const defaults = CONTROL_PRESETS[0].bindings;
+
+  it('finds the action already using a key', () =>
+  {
+    expect(findConflict(defaults, 'KeyW')).toBe('up');
+    expect(findConflict(defaults, 'KeyW', 'up')).toBeNull();
+    expect(findConflict(defaults, 'KeyQ')).toBeNull();
+  });
+
+  it('reports actions without keys', () =>
+  {
+    const bindings = cloneBindings(defaults);
+    bindings.attack = [];
+
+    expect(findUnboundActions(defaults)).toEqual([]);
+    expect(findUnboundActions(bindings)).toEqual(['attack']);
+  });
+
+  it('copies bindings without sharing key lists', () =>
+  {
+    const copy = cloneBindings(defaults);
+    copy.up.push('KeyZ');
+
+    expect(defaults.up).not.toContain('KeyZ');
+  });
+
+  it('gives actions missing from saved bindings their free default keys', () =>
+  {
+    const saved: Partial<typeof defaults> = cloneBindings(defaults);
+    delete saved.reroll;
+    delete saved.skip;
+    saved.attack = ['KeyR'];
+
+    const bindings = fillMissingBindings(saved, defaults);
+
+    expect(bindings.reroll).toEqual([]);
+    expect(bindings.skip).toEqual(defaults.skip);
+    expect(bindings.attack).toEqual(['KeyR']);
+  });
+
+  it('presets have no conflicting keys', () =>
+  {
+    for (const preset of CONTROL_PRESETS)
+    {
+      const codes = Object.values(preset.bindings).flat();
+      expect(new Set(codes).size).toBe(codes.length);
+    }
+  });
+
+  it('formats key codes for display', () =>
+  {
+    expect(formatKeyCode('KeyW')).toBe('W');
+    expect(formatKeyCode('Digit1')).toBe('1');
+    expect(formatKeyCode('ArrowUp')).toBe('Up');
+    expect(formatKeyCode('Numpad0')).toBe('Num 0');
+    expect(formatKeyCode('Escape')).toBe('Escape');
+    expect(formatKeyCode('KeyW', new Map([['KeyW', 'z']]))).toBe('Z');
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Controls.ts - Keyboard actions, preset control profiles and binding helpers
+ * Each action has up to two keys, stored as KeyboardEvent codes (physical positions),
+ * so the default WASD profile is ZQSD on an AZERTY keyboard; labels come from the layout map
+ */
+
+export type InputAction =
+  | 'up' | 'down' | 'left' | 'right'
+  | 'attack' | 'pause'
+  | 'card_1' | 'card_2' | 'card_3'
+  | 'reroll' | 'banish' | 'skip';
+
+export type KeyBindings = Record<InputAction, string[]>;
+
+export const BINDING_SLOTS = 2;
+
+/**
+ * Actions in display order with their labels
+ */
+export const INPUT_ACTIONS: Array<{ action: InputAction; label: string }> = [
+  { action: 'up', label: 'Move Up' },
+  { action: 'down', label: 'Move Down' },
+  { action: 'left', label: 'Move Left' },
+  { action: 'right', label: 'Move Right' },
+  { action: 'attack', label: 'Attack' },
+  { action: 'pause', label: 'Pause' },
+  { action: 'card_1', label: 'Pick Card 1' },
+  { action: 'card_2', label: 'Pick Card 2' },
+  { action: 'card_3', label: 'Pick Card 3' },
+  { action: 'reroll', label: 'Reroll Cards' },
+  { action: 'banish', label: 'Banish Card' },
+  { action: 'skip', label: 'Skip Level-up' }
+];
+
+export interface ControlProfile
+{
+  id: string;
+  name: string;
+  bindings: KeyBindings;
+}
+
+/**
+ * Built-in profiles (the custom profile starts as a copy of one of these)
+ */
+export const CONTROL_PRESETS: ControlProfile[] = [
+  {
+    id: 'default',
+    name: 'Default (WASD)',
+    bindings: {
+      up: ['KeyW', 'ArrowUp'],
+      down: ['KeyS', 'ArrowDown'],
+      left: ['KeyA', 'ArrowLeft'],
+      right: ['KeyD', 'ArrowRight'],
+      attack: ['KeyE'],
+      pause: ['Escape', 'KeyP'],
+      card_1: ['Digit1', 'Numpad1'],
+      card_2: ['Digit2', 'Numpad2'],
+      card_3: ['Digit3', 'Numpad3'],
+      reroll: ['KeyR'],
+      banish: ['KeyB'],
+      skip: ['KeyX']
+    }
+  },
+  {
+    // Mirror of the default: move with the right hand on IJKL, attack on U
+    id: 'left_handed',
+    name: 'Left-handed (IJKL)',
+    bindings: {
+      up: ['KeyI', 'ArrowUp'],
+      down: ['KeyK', 'ArrowDown'],
+      left: ['KeyJ', 'ArrowLeft'],
+      right: ['KeyL', 'ArrowRight'],
+      attack: ['KeyU', 'Numpad0'],
+      pause: ['Escape', 'KeyP'],
+      card_1: ['Digit1', 'Numpad1'],
+      card_2: ['Digit2', 'Numpad2'],
+      card_3: ['Digit3', 'Numpad3'],
+      reroll: ['KeyR'],
+      banish: ['KeyB'],
+      skip: ['KeyX']
+    }
+  }
+];
+
+export const CUSTOM_PROFILE_ID = 'custom';
+
+/**
+ * Deep copy of a binding table
+ */
+export function cloneBindings(bindings: KeyBindings): KeyBindings
+{
+  const copy = {} as KeyBindings;
+
+  for (const { action } of INPUT_ACTIONS)
+  {
+    copy[action] = [...(bindings[action] ?? [])];
+  }
+
+  return copy;
+}
+
+/**
+ * Copy of saved bindings where actions added since they were saved get their default keys
+ * (defaults already taken by another action are left out)
+ */
+export function fillMissingBindings(saved: Partial<KeyBindings>, defaults: KeyBindings): KeyBindings
+{
+  const bindings = cloneBindings(saved as KeyBindings);
+
+  for (const { action } of INPUT_ACTIONS)
+  {
+    if (saved[action] === undefined)
+    {
+      bindings[action] = defaults[action].filter(code => findConflict(bindings, code) === null);
+    }
+  }
+
+  return bindings;
+}
+
+/**
+ * Action already using a key (null if free), optionally ignoring one action
+ */
+export function findConflict(bindings: KeyBindings, code: string, ignore?: InputAction): InputAction | null
+{
+  for (const { action } of INPUT_ACTIONS)
+  {
+    if (action !== ignore && bindings[action]?.includes(code))
+    {
+      return action;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Actions with no key at all (unplayable if a movement/attack action is among them)
+ */
+export function findUnboundActions(bindings: KeyBindings): InputAction[]
+{
+  return INPUT_ACTIONS
+    .filter(({ action }) => (bindings[action] ?? []).length === 0)
+    .map(({ action }) => action);
+}
+
+/**
+ * Short display name for a key code ('KeyW' -> 'W', 'ArrowUp' -> 'Up')
+ * A keyboard layout map (code -> printed key) shows the user's own labels, e.g. 'Z' for KeyW on AZERTY
+ */
+export function formatKeyCode(code: string, layout?: ReadonlyMap<string, string>): string
+{
+  const printed = layout?.get(code);
+  if (printed && printed.trim().length > 0)
+  {
+    return printed.toUpperCase();
+  }
+
+  if (code.startsWith('Key'))
+  {
+    return code.slice(3);
+  }
+
+  if (code.startsWith('Digit'))
+  {
+    return code.slice(5);
+  }
+
+  if (code.startsWith('Arrow'))
+  {
+    return code.slice(5);
+  }
+
+  if (code.startsWith('Numpad'))
+  {
+    return `Num ${code.slice(6)}`;
+  }
+
+  return code;
+}
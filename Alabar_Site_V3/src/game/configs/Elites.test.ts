@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ELITE_MODIFIER_IDS, ELITE_STATS, getEliteName } from './Elites';
+import { WAVE_SCHEMA, getEliteChance, getEliteModifierCount } from './Waves';
+import { Slime1 } from '../entities/monsters/Slime1';
+import { EliteHooks } from '../entities/monsters/MonsterBase';
+import { SeededRandom } from '../../utils/Random';
+import { createStubAssetManager } from '../../test/stubs';
+
+const assetManager = createStubAssetManager();
+
+function createHooks(): EliteHooks
+{
+  return { fireProjectile: vi.fn(), split: vi.fn() };
+}
+
+describe('Elites', () =>
+{
+  it('starts promoting at the curve start and caps the chance', () =>
+  {
+    const { fromWave, baseChance, maxChance } = WAVE_SCHEMA.elites;
+
+    expect(getEliteChance(WAVE_SCHEMA, fromWave - 1)).toBe(0);
+    expect(getEliteChance(WAVE_SCHEMA, fromWave)).toBeCloseTo(baseChance);
+    expect(getEliteChance(WAVE_SCHEMA, 200)).toBe(maxChance);
+  });
+
+  it('adds modifiers as waves go on, up to the cap', () =>
+  {
+    const { fromWave, modifierEvery, maxModifiers } = WAVE_SCHEMA.elites;
+
+    expect(getEliteModifierCount(WAVE_SCHEMA, fromWave)).toBe(1);
+    expect(getEliteModifierCount(WAVE_SCHEMA, fromWave + modifierEvery)).toBe(2);
+    expect(getEliteModifierCount(WAVE_SCHEMA, 200)).toBe(maxModifiers);
+    expect(maxModifiers).toBeLessThanOrEqual(ELITE_MODIFIER_IDS.length);
+  });
+
+  it('names elites after their modifiers', () =>
+  {
+    expect(getEliteName(['armored', 'fast'])).toBe('Armored Swift');
+  });
+
+  it('lets armored elites take reduced damage', () =>
+  {
+    const slime = new Slime1(assetManager, { startX: 0, startY: 0 });
+    slime.scaleStats(10, 1);
+    slime.setAsElite(['armored'], createHooks());
+
+    const health = slime.getHealth();
+    slime.takeDamage(10);
+
+    expect(slime.isElite()).toBe(true);
+    expect(health - slime.getHealth()).toBeCloseTo(10 * ELITE_STATS.armoredDamageTaken);
+  });
+
+  it('heals vampiric elites when their touch lands', () =>
+  {
+    const slime = new Slime1(assetManager, { startX: 0, startY: 0 });
+    slime.setAsElite(['vampiric'], createHooks());
+    slime.takeDamage(slime.getMaxHealth() / 2);
+
+    const health = slime.getHealth();
+    slime.onTouchHit(5);
+
+    expect(slime.getHealth()).toBeCloseTo(health + slime.getMaxHealth() * ELITE_STATS.vampiricHeal);
+  });
+
+  it('splits splitting elites on death', () =>
+  {
+    const hooks = createHooks();
+    const slime = new Slime1(assetManager, { startX: 40, startY: 60 });
+    slime.setAsElite(['splitting'], hooks);
+
+    slime.takeDamage(slime.getMaxHealth());
+
+    expect(hooks.split).toHaveBeenCalledWith(40, 60);
+  });
+
+  it('reflects only with the reflecting modifier and a target', () =>
+  {
+    const hooks = createHooks();
+    const plain = new Slime1(assetManager, { startX: 0, startY: 0 });
+    const reflecting = new Slime1(assetManager, { startX: 0, startY: 0 });
+    reflecting.setAsElite(['reflecting'], hooks);
+    reflecting.setRandom(new SeededRandom(1));
+
+    expect(plain.reflectProjectile()).toBe(false);
+    expect(reflecting.reflectProjectile()).toBe(false);
+
+    reflecting.setTarget(new Slime1(assetManager, { startX: 100, startY: 0 }));
+    const reflected = Array.from({ length: 200 }, () => reflecting.reflectProjectile()).filter(Boolean).length;
+
+    expect(reflected / 200).toBeCloseTo(ELITE_STATS.reflectChance, 1);
+    expect(hooks.fireProjectile).toHaveBeenCalledTimes(reflected);
+  });
+});
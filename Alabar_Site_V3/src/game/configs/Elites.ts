@@ -0,0 +1,53 @@
+/**
+ * Elites.ts - Elite monster design
+ * Modifiers and stat bonuses for regular spawns promoted by EnemySpawner (chance per wave in Waves.ts)
+ */
+
+export type EliteModifier = 'armored' | 'fast' | 'vampiric' | 'splitting' | 'reflecting';
+
+export interface EliteModifierDefinition
+{
+  id: EliteModifier;
+  name: string; // Shown on the name tag
+  color: number; // Outline color (first modifier wins)
+}
+
+export const ELITE_MODIFIERS: Record<EliteModifier, EliteModifierDefinition> = {
+  armored: { id: 'armored', name: 'Armored', color: 0x9aa4b1 },
+  fast: { id: 'fast', name: 'Swift', color: 0x66ddff },
+  vampiric: { id: 'vampiric', name: 'Vampiric', color: 0xcc2244 },
+  splitting: { id: 'splitting', name: 'Splitting', color: 0x77dd55 },
+  reflecting: { id: 'reflecting', name: 'Reflecting', color: 0xcc88ff }
+};
+
+export const ELITE_MODIFIER_IDS = Object.keys(ELITE_MODIFIERS) as EliteModifier[];
+
+/**
+ * Stat bonuses shared by every elite, and the numbers behind each modifier
+ */
+export const ELITE_STATS = {
+  healthMultiplier: 3,
+  damageMultiplier: 1.5,
+  tint: 0xffe08a, // Gold sheen on the sprite
+
+  armoredDamageTaken: 0.6, // Fraction of each hit that gets through
+  fastSpeedMultiplier: 1.4,
+  vampiricHeal: 0.1, // Fraction of max HP healed per touch hit on the player
+  splitCount: 2,
+  splitHealth: 0.35, // Fraction of the parent's max HP per child
+  reflectChance: 0.5, // Per projectile hit
+  reflectDamageMultiplier: 0.5 // Of the elite's contact damage
+};
+
+/**
+ * Name tag text (e.g. "Armored Swift")
+ */
+export function getEliteName(modifiers: readonly EliteModifier[]): string
+{
+  return modifiers.map(id => ELITE_MODIFIERS[id].name).join(' ');
+}
+
+export function isEliteModifier(value: unknown): value is EliteModifier
+{
+  return typeof value === 'string' && value in ELITE_MODIFIERS;
+}
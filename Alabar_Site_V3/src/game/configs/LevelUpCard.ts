@@ -11,6 +11,7 @@ export interface LevelUpCardConfig
 {
   powerUp: PowerUp;
   isNew: boolean;
+  isEvolution?: boolean;
   x: number;
   y: number;
   onSelect: () => void;
@@ -20,6 +21,7 @@ export class LevelUpCard extends Container
 {
   private powerUp: PowerUp;
   private isNew: boolean;
+  private isEvolution: boolean;
   private assetManager: AssetManager;
   
   // UI elements
@@ -44,6 +46,7 @@ export class LevelUpCard extends Container
     this.assetManager = assetManager;
     this.powerUp = config.powerUp;
     this.isNew = config.isNew;
+    this.isEvolution = config.isEvolution ?? false;
     this.onSelectCallback = config.onSelect;
     
     this.position.set(config.x, config.y);
@@ -205,13 +208,21 @@ export class LevelUpCard extends Container
     this.addChild(this.nameText);
     
     // Level indicator
-    const levelLabel = this.isNew ? "NEW" : this.powerUp.getLevelText();
+    let levelLabel = this.isNew ? "NEW" : this.powerUp.getLevelText();
+    let levelColor = this.isNew ? 0x4AFF88 : 0xe0e0e0;
+    
+    if (this.isEvolution)
+    {
+      levelLabel = "EVOLUTION";
+      levelColor = 0xffcc33;
+    }
+    
     this.levelText = new Text({
       text: levelLabel,
       style: {
         fontFamily: 'VT323',
         fontSize: 18,
-        fill: this.isNew ? 0x4AFF88 : 0xe0e0e0,
+        fill: levelColor,
         align: 'center'
       }
     });
@@ -327,6 +338,29 @@ export class LevelUpCard extends Container
    * Click handler
    */
   private onPointerDown(): void
+  {
+    this.select();
+  }
+  
+  /**
+   * Highlight as hovered (gamepad focus)
+   */
+  setHighlighted(highlighted: boolean): void
+  {
+    if (highlighted)
+    {
+      this.onPointerOver();
+    }
+    else
+    {
+      this.onPointerOut();
+    }
+  }
+  
+  /**
+   * Pick this card
+   */
+  select(): void
   {
     console.log(`[LevelUpCard] Selected: ${this.powerUp.name}`);
     this.onSelectCallback();
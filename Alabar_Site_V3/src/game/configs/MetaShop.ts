@@ -0,0 +1,94 @@
+/**
+ * MetaShop.ts - Meta progression catalogue
+ * Gold rewards per run, permanent stat upgrades and weapon/power unlocks
+ */
+
+/**
+ * Gold earned at the end of a run
+ */
+export const RUN_REWARDS = {
+  perKill: 1,
+  perMinute: 10,
+  perChest: 15
+};
+
+export type ShopUpgradeStat = 'max_health' | 'might' | 'move_speed';
+
+export interface ShopUpgrade
+{
+  id: string;
+  name: string;
+  description: string;
+  stat: ShopUpgradeStat;
+  perRank: number; // HP for max_health, multiplier step for might/move_speed
+  costs: number[]; // Cost of each rank (length = max rank)
+}
+
+export interface ShopUnlock
+{
+  id: string; // PowerUp id in ALL_WEAPONS / ALL_POWERS
+  name: string;
+  description: string;
+  cost: number;
+}
+
+/**
+ * Permanent bonuses applied at the start of every run
+ */
+export const SHOP_UPGRADES: ShopUpgrade[] = [
+  {
+    id: 'vitality',
+    name: 'Vitality',
+    description: '+10 starting HP per rank',
+    stat: 'max_health',
+    perRank: 10,
+    costs: [50, 100, 175, 275, 400]
+  },
+  {
+    id: 'might',
+    name: 'Might',
+    description: '+5% damage per rank',
+    stat: 'might',
+    perRank: 0.05,
+    costs: [75, 150, 250, 375, 550]
+  },
+  {
+    id: 'swiftness',
+    name: 'Swiftness',
+    description: '+5% move speed per rank',
+    stat: 'move_speed',
+    perRank: 0.05,
+    costs: [60, 140, 260]
+  }
+];
+
+/**
+ * Weapons and powers that stay out of level-up cards until bought
+ */
+export const SHOP_UNLOCKS: ShopUnlock[] = [
+  { id: 'sword', name: 'Sword', description: 'Unlocks the boomerang sword weapon', cost: 150 },
+  { id: 'magic_field', name: 'Magic Field', description: 'Unlocks the magic field power', cost: 200 },
+  { id: 'shuriken', name: 'Shuriken', description: 'Unlocks the orbiting shuriken weapon', cost: 250 },
+  { id: 'aura', name: 'Aura', description: 'Unlocks the damaging aura power', cost: 300 }
+];
+
+/**
+ * Starting bonuses and locked content for one run (fed to PowerManager)
+ */
+export interface MetaLoadout
+{
+  maxHealthBonus: number;
+  damageMultiplier: number;
+  moveSpeedMultiplier: number;
+  lockedPowerUps: string[];
+}
+
+/**
+ * No bonuses, everything unlocked (tests, simulation)
+ */
+export const DEFAULT_LOADOUT: MetaLoadout = {
+  maxHealthBonus: 0,
+  damageMultiplier: 1.0,
+  moveSpeedMultiplier: 1.0,
+  lockedPowerUps: []
+};
@@ -239,6 +239,60 @@ export const PiercingShotPassive = new PowerUp({
   }
 });
 
+/**
+ * KEEN EYE
+ * Chance for any hit to be critical
+ */
+export const CritChancePassive = new PowerUp({
+  id: "crit_chance",
+  name: "Keen Eye",
+  description: "+5% chance for ANY hit to be critical per level.",
+  type: "passive",
+  
+  spritesheet: "powers_spritesheet",
+  animationBase: "Power_firebolt", // Using firebolt as placeholder icon
+  hasLeveledAnimations: false,
+  frameCount: 1,
+  
+  maxLevel: 10,
+  rarity: "common",
+  
+  applyEffect: (player) =>
+  {
+    player.stats.critChance = player.stats.critChance || 0;
+    player.stats.critChance += 0.05;
+    
+    console.log(`[KeenEye] Crit chance: ${(player.stats.critChance * 100).toFixed(0)}%`);
+  }
+});
+
+/**
+ * RUTHLESS
+ * Critical hits deal more damage
+ */
+export const CritDamagePassive = new PowerUp({
+  id: "crit_damage",
+  name: "Ruthless",
+  description: "Critical hits deal +15% damage per level.",
+  type: "passive",
+  
+  spritesheet: "powers_spritesheet",
+  animationBase: "Power_darkbolt", // Using darkbolt as placeholder icon
+  hasLeveledAnimations: false,
+  frameCount: 1,
+  
+  maxLevel: 8,
+  rarity: "uncommon",
+  
+  applyEffect: (player) =>
+  {
+    player.stats.critMultiplier = player.stats.critMultiplier || 1.5;
+    player.stats.critMultiplier += 0.15;
+    
+    console.log(`[Ruthless] Crit multiplier: ${player.stats.critMultiplier.toFixed(2)}x`);
+  }
+});
+
 /**
  * WEAPON-SPECIFIC PASSIVES
  * Only appear if player has the weapon. Max 5 levels.
@@ -363,7 +417,9 @@ export const GENERIC_PASSIVES = [
   ArmorPassive,
   ProjectileSpeedPassive,
   ExtraProjectilePassive, // RARE
-  PiercingShotPassive
+  PiercingShotPassive,
+  CritChancePassive,
+  CritDamagePassive
 ];
 
 export const WEAPON_SPECIFIC_PASSIVES = [
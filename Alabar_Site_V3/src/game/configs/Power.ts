@@ -38,7 +38,7 @@ function generateLinearScaling(base: number, increment: number, levels: number):
 export const ExplosionPower = new PowerUp({
   id: "explosion",
   name: "Arcane Explosion",
-  description: "A powerful explosion occurs near you periodically.",
+  description: "A powerful explosion occurs near you periodically, setting enemies ablaze.",
   type: "power",
   
   // Visuals
@@ -57,6 +57,8 @@ export const ExplosionPower = new PowerUp({
   cooldownPerLevel: generateScaling(5.0, -0.03, 12), // -3% per level (gets faster)
   countPerLevel: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12], // +1 explosion per level
   
+  onHitEffects: [{ type: "burn", duration: 2, damagePerTick: 2 }], // Stacks up to 5
+  
   applyEffect: (player, level) =>
   {
     // Remove old explosion power if exists
@@ -103,7 +105,7 @@ export const ExplosionPower = new PowerUp({
 export const MagicFieldPower = new PowerUp({
   id: "magic_field",
   name: "Magic Field",
-  description: "Creates a damaging field at your feet that persists for a duration.",
+  description: "Creates a damaging field at your feet that slows enemies inside it.",
   type: "power",
   
   // Visuals
@@ -123,6 +125,8 @@ export const MagicFieldPower = new PowerUp({
   cooldownPerLevel: generateScaling(5.0, -0.04, 12), // -4% per level
   tickRatePerLevel: Array(12).fill(0.5), // Ticks every 0.5s at all levels
   
+  onHitEffects: [{ type: "slow", duration: 1 }], // Re-applied every tick while inside
+  
   applyEffect: (player, level) =>
   {
     // Remove old magic field power if exists
@@ -169,7 +173,7 @@ export const MagicFieldPower = new PowerUp({
 export const WindCutPower = new PowerUp({
   id: "wind_cut",
   name: "Wind Cut",
-  description: "Launches a blade toward the nearest enemy.",
+  description: "Launches a freezing blade toward the nearest enemy.",
   type: "power",
   
   // Visuals
@@ -189,6 +193,8 @@ export const WindCutPower = new PowerUp({
   piercePerLevel: [1, 2, 3, 5, 6, 7, 9, 10, 11, 13, 14, 15],
   countPerLevel: [1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3],
   
+  onHitEffects: [{ type: "freeze", duration: 0.5 }],
+  
   applyEffect: (player, level) =>
   {
     // Remove old wind cut power if exists
@@ -223,6 +229,14 @@ export const WindCutPower = new PowerUp({
           
           const nearestMonsters = player.getNearestMonsters(count);
           
+          // Nothing to aim at: cut along the facing direction (8-way)
+          if (nearestMonsters.length === 0)
+          {
+            const pos = player.getPosition();
+            const angle = player.getFacingAngle();
+            nearestMonsters.push({ x: pos.x + Math.cos(angle) * 200, y: pos.y + Math.sin(angle) * 200 });
+          }
+          
           // Spawn wind cuts toward each target
           for (let i = 0; i < nearestMonsters.length; i++)
           {
@@ -234,7 +248,8 @@ export const WindCutPower = new PowerUp({
               damage: damage,
               speed: speed,
               pierce: pierce,
-              animationName: stats.getAnimationName()
+              animationName: stats.getAnimationName(),
+              sourceId: "wind_cut"
             });
           }
         }
@@ -3,6 +3,8 @@
  * Updated with visual system and level-based progression
  */
 
+import { OnHitEffect } from './StatusEffects';
+
 export type PowerUpType = "weapon" | "power" | "passive";
 
 export interface PowerUpEffect
@@ -23,6 +25,7 @@ export interface PowerUpConfig
   hasLeveledAnimations: boolean; // true for explosion/magicfield/etc
   animationTiers?: string[]; // ["lvl1", "lvl2", "lvl3"] or []
   frameCount?: number; // Number of frames in animation
+  weaponFrame?: string; // Fixed weapon frame (evolved weapons don't change with level)
   
   // Progression
   maxLevel?: number; // Default 12 for powers/weapons, 5 for weapon-specific passives
@@ -41,6 +44,9 @@ export interface PowerUpConfig
   piercePerLevel?: number[];
   tickRatePerLevel?: number[];
   
+  // Status effects applied to every monster it hits
+  onHitEffects?: OnHitEffect[];
+  
   // Effect application
   applyEffect: PowerUpEffect;
 }
@@ -58,6 +64,7 @@ export class PowerUp
   hasLeveledAnimations: boolean;
   animationTiers: string[];
   frameCount: number;
+  weaponFrame: string | null;
   
   // Progression
   level: number;
@@ -77,6 +84,9 @@ export class PowerUp
   piercePerLevel: number[];
   tickRatePerLevel: number[];
   
+  // On-hit status effects
+  onHitEffects: OnHitEffect[];
+  
   // Effect
   applyEffect: PowerUpEffect;
   
@@ -93,6 +103,7 @@ export class PowerUp
     this.hasLeveledAnimations = config.hasLeveledAnimations;
     this.animationTiers = config.animationTiers ?? [];
     this.frameCount = config.frameCount ?? 1;
+    this.weaponFrame = config.weaponFrame ?? null;
     
     // Progression
     this.level = 0;
@@ -111,6 +122,7 @@ export class PowerUp
     this.countPerLevel = config.countPerLevel ?? [];
     this.piercePerLevel = config.piercePerLevel ?? [];
     this.tickRatePerLevel = config.tickRatePerLevel ?? [];
+    this.onHitEffects = config.onHitEffects ?? [];
     
     // Effect
     this.applyEffect = config.applyEffect;
@@ -161,6 +173,11 @@ export class PowerUp
       return `${this.animationBase}_0`;
     }
     
+    if (this.weaponFrame)
+    {
+      return this.weaponFrame;
+    }
+    
     if (this.level <= 3) return `${this.animationBase}_0`;
     if (this.level <= 6) return `${this.animationBase}_1`;
     if (this.level <= 9) return `${this.animationBase}_2`;
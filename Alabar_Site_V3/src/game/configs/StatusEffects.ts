@@ -0,0 +1,54 @@
+/**
+ * StatusEffects.ts - Status effect design (burn, poison, slow, freeze, stun)
+ * Stacking rules, tick timing, modifiers and tints (StatusEffectSet runs them on each entity)
+ */
+
+export type StatusEffectType = 'burn' | 'poison' | 'slow' | 'freeze' | 'stun';
+
+/**
+ * How a re-applied effect combines with the one already running
+ * - refresh: single instance, duration becomes the longer of the two
+ * - stack: adds a stack (up to maxStacks) and restarts the duration
+ */
+export type StatusStacking = 'refresh' | 'stack';
+
+export interface StatusEffectDefinition
+{
+  type: StatusEffectType;
+  stacking: StatusStacking;
+  maxStacks: number;
+  tickInterval: number; // Seconds between damage ticks (0 = no tick damage)
+  moveMultiplier: number; // Movement (and AI) speed while active
+  attackSpeedMultiplier: number; // Attack and weapon cooldown speed while active
+  stuns: boolean; // No movement or actions at all (bosses are immune)
+  tint: number; // Sprite tint while active
+}
+
+/**
+ * Effect applied when a weapon/power (or enemy projectile) hits
+ */
+export interface OnHitEffect
+{
+  type: StatusEffectType;
+  duration: number; // Seconds
+  damagePerTick?: number; // Per stack, for burn/poison
+}
+
+/**
+ * Ordered by tint priority: the first active effect colours the sprite
+ */
+export const STATUS_EFFECTS: StatusEffectDefinition[] = [
+  { type: 'freeze', stacking: 'refresh', maxStacks: 1, tickInterval: 0, moveMultiplier: 0, attackSpeedMultiplier: 0, stuns: true, tint: 0x88ddff },
+  { type: 'stun', stacking: 'refresh', maxStacks: 1, tickInterval: 0, moveMultiplier: 0, attackSpeedMultiplier: 0, stuns: true, tint: 0xffee66 },
+  { type: 'burn', stacking: 'stack', maxStacks: 5, tickInterval: 0.5, moveMultiplier: 1, attackSpeedMultiplier: 1, stuns: false, tint: 0xff8844 },
+  { type: 'poison', stacking: 'stack', maxStacks: 10, tickInterval: 1, moveMultiplier: 1, attackSpeedMultiplier: 1, stuns: false, tint: 0x88ee66 },
+  { type: 'slow', stacking: 'refresh', maxStacks: 1, tickInterval: 0, moveMultiplier: 0.6, attackSpeedMultiplier: 0.75, stuns: false, tint: 0x8899ff }
+];
+
+/**
+ * Find a status effect definition by type
+ */
+export function getStatusEffectDefinition(type: StatusEffectType): StatusEffectDefinition
+{
+  return STATUS_EFFECTS.find(effect => effect.type === type)!;
+}
@@ -0,0 +1,362 @@
+/**
+ * Waves.ts - Data-driven wave design
+ * EnemySpawner interprets this schema; add or rebalance waves here without touching spawner code
+ */
+
+import { MonsterType } from '../systems/EnemySpawner';
+
+/**
+ * Which waves an event fires on
+ * Fires on `from`, then every `every` waves (if set) until `until` (inclusive, if set)
+ */
+export interface WaveSchedule
+{
+  from: number;
+  every?: number;
+  until?: number;
+}
+
+/**
+ * Spawn interval curve: max(min, base - wave * decayPerWave)
+ */
+export interface SpawnIntervalCurve
+{
+  base: number;
+  decayPerWave: number;
+  min: number;
+}
+
+/**
+ * Spawn count curve: base + floor(wave * perWave) + random(0..randomExtra)
+ */
+export interface SpawnCountCurve
+{
+  base: number;
+  perWave: number;
+  randomExtra: number;
+}
+
+/**
+ * Automatic weights for waves without an explicit monster table
+ * unlockedCount = min(order.length, unlockBase + wave * unlockPerWave)
+ * weight = max(minWeight, (index + 1) * weightPerIndex + wave * weightPerWave) * typeModifiers[type]
+ */
+export interface ProgressionWeights
+{
+  order: MonsterType[];
+  unlockBase: number;
+  unlockPerWave: number;
+  weightPerIndex: number;
+  weightPerWave: number;
+  minWeight: number;
+  typeModifiers: Partial<Record<MonsterType, number>>;
+}
+
+/**
+ * Per-wave overrides (any field left out falls back to the schema defaults)
+ */
+export interface WaveDefinition
+{
+  wave: number;
+  name?: string;
+  duration?: number; // Seconds
+  spawnInterval?: number; // Fixed interval (ignores curve)
+  spawnIntervalMultiplier?: number;
+  spawnCount?: { min: number; max: number }; // Fixed range (ignores curve)
+  monsters?: Partial<Record<MonsterType, number>>; // Explicit weights (ignores progression)
+  focus?: { types: MonsterType[]; weightMultiplier: number }; // Only these types spawn
+  spawnModifiers?: {
+    appliesTo: MonsterType[];
+    projectileSpeedMultiplier?: number;
+    attackCooldownMultiplier?: number;
+  };
+}
+
+/**
+ * Monster pool for a pack, picked by the highest tier unlocked
+ */
+export interface PackTier
+{
+  fromWave: number;
+  types: MonsterType[];
+}
+
+/**
+ * Pack event
+ * - wave_start: spawned once when a scheduled wave begins
+ * - spawn_roll: replaces a regular spawn with `chance` during scheduled waves
+ */
+export interface PackEvent
+{
+  id: string;
+  trigger: 'wave_start' | 'spawn_roll';
+  schedule: WaveSchedule;
+  chance?: number;
+  formation: 'cluster' | 'edge_charge';
+  size: { min: number; max: number };
+  clusterRadius?: number;
+  tiers: PackTier[];
+}
+
+/**
+ * Boss entry (spawned when a scheduled wave begins)
+ * Leave monster out to pick from the current wave pool
+ */
+export interface BossEntry
+{
+  boss: string; // Encounter id in Bosses.ts (attacks and phases)
+  schedule: WaveSchedule;
+  monster?: MonsterType;
+  healthMultiplier: number;
+  damageMultiplier: number;
+  speedMultiplier: number;
+  scale: number;
+}
+
+/**
+ * Elite promotion of regular spawns (modifiers and stats in Elites.ts)
+ * Chance = min(maxChance, baseChance + (wave - fromWave) * chancePerWave)
+ * Modifiers per elite = 1 + one more every modifierEvery waves, up to maxModifiers
+ */
+export interface EliteCurve
+{
+  fromWave: number;
+  baseChance: number;
+  chancePerWave: number;
+  maxChance: number;
+  modifierEvery: number;
+  maxModifiers: number;
+}
+
+export interface WaveSchema
+{
+  defaultDuration: number;
+  spawnInterval: SpawnIntervalCurve;
+  spawnCount: SpawnCountCurve;
+  passiveSpawn: { chance: number; types: MonsterType[] };
+  progression: ProgressionWeights;
+  waves: WaveDefinition[];
+  packs: PackEvent[];
+  bosses: BossEntry[];
+  elites: EliteCurve;
+}
+
+/**
+ * DEFAULT WAVE SCHEMA
+ */
+export const WAVE_SCHEMA: WaveSchema = {
+  defaultDuration: 60,
+
+  spawnInterval: { base: 2, decayPerWave: 0.1, min: 0.3 },
+
+  spawnCount: { base: 1, perWave: 0.15, randomExtra: 1 },
+
+  // 3% chance to spawn a passive creature from wave 1 onwards
+  passiveSpawn: { chance: 0.03, types: ['Turkey', 'Pig'] },
+
+  progression: {
+    order: [
+      'Slime1', 'Slime2', 'Slime3',
+      'Plant1', 'Plant2', 'Plant3',
+      'Vampire1', 'Vampire2', 'Vampire3',
+      'Orc1', 'Orc2', 'Orc3'
+    ],
+    unlockBase: 3,
+    unlockPerWave: 0.3,
+    weightPerIndex: 0.8,
+    weightPerWave: 0.25,
+    minWeight: 1,
+    // Plant weight penalties
+    typeModifiers: {
+      'Plant1': 0.12,
+      'Plant2': 0.07,
+      'Plant3': 0.05
+    }
+  },
+
+  waves: [
+    {
+      wave: 1,
+      spawnInterval: 2,
+      monsters: { 'Slime1': 0.95, 'Slime2': 0.04, 'Slime3': 0.01 }
+    },
+    {
+      wave: 2,
+      monsters: { 'Slime1': 0.80, 'Slime2': 0.15, 'Slime3': 0.05 }
+    },
+    {
+      wave: 3,
+      monsters: { 'Slime1': 0.60, 'Slime2': 0.30, 'Slime3': 0.10 }
+    },
+    {
+      wave: 4,
+      monsters: { 'Slime2': 0.55, 'Slime3': 0.30, 'Plant1': 0.05, 'Vampire1': 0.05, 'Orc1': 0.05 }
+    },
+    {
+      wave: 5,
+      monsters: { 'Slime2': 0.15, 'Slime3': 0.50, 'Plant1': 0.10, 'Plant2': 0.05, 'Vampire1': 0.10, 'Orc1': 0.10 }
+    },
+    {
+      wave: 25,
+      name: 'Plant Barrage',
+      spawnIntervalMultiplier: 0.8,
+      spawnCount: { min: 3, max: 5 },
+      focus: { types: ['Plant1', 'Plant2', 'Plant3'], weightMultiplier: 2 },
+      spawnModifiers: {
+        appliesTo: ['Plant1', 'Plant2', 'Plant3'],
+        projectileSpeedMultiplier: 1.3,
+        attackCooldownMultiplier: 0.7
+      }
+    }
+  ],
+
+  packs: [
+    {
+      // 5 plants in a tight cluster (12, 18, 24, 30...)
+      id: 'plant_pack',
+      trigger: 'wave_start',
+      schedule: { from: 12, every: 6 },
+      formation: 'cluster',
+      size: { min: 5, max: 5 },
+      clusterRadius: 150,
+      tiers: [
+        { fromWave: 1, types: ['Plant1'] },
+        { fromWave: 7, types: ['Plant2'] },
+        { fromWave: 10, types: ['Plant3'] }
+      ]
+    },
+    {
+      // 3-4 vampires charging from a map edge
+      id: 'vampire_pack',
+      trigger: 'spawn_roll',
+      schedule: { from: 8, every: 1 },
+      chance: 0.15,
+      formation: 'edge_charge',
+      size: { min: 3, max: 4 },
+      tiers: [
+        { fromWave: 1, types: ['Vampire1'] },
+        { fromWave: 8, types: ['Vampire1', 'Vampire2', 'Vampire3'] }
+      ]
+    }
+  ],
+
+  bosses: [
+    {
+      // Waves 15, 25, 35...
+      boss: 'warlord',
+      schedule: { from: 15, every: 10 },
+      healthMultiplier: 4,
+      damageMultiplier: 2,
+      speedMultiplier: 1.2,
+      scale: 1.5
+    },
+    {
+      // Waves 20, 30, 40...
+      boss: 'matriarch',
+      schedule: { from: 20, every: 10 },
+      healthMultiplier: 4,
+      damageMultiplier: 2,
+      speedMultiplier: 1.2,
+      scale: 1.5
+    }
+  ],
+
+  // 1% of regular spawns from wave 3, +0.25% per wave up to 5%; a second modifier from wave 11, a third from wave 19
+  elites: { fromWave: 3, baseChance: 0.01, chancePerWave: 0.0025, maxChance: 0.05, modifierEvery: 8, maxModifiers: 3 }
+};
+
+/**
+ * Check if a schedule fires on a wave
+ */
+export function isWaveScheduled(schedule: WaveSchedule, wave: number): boolean
+{
+  if (wave < schedule.from)
+  {
+    return false;
+  }
+
+  if (schedule.until !== undefined && wave > schedule.until)
+  {
+    return false;
+  }
+
+  if (!schedule.every)
+  {
+    return wave === schedule.from;
+  }
+
+  return (wave - schedule.from) % schedule.every === 0;
+}
+
+/**
+ * Get overrides for a wave (null if the wave uses defaults)
+ */
+export function getWaveDefinition(schema: WaveSchema, wave: number): WaveDefinition | null
+{
+  return schema.waves.find(def => def.wave === wave) ?? null;
+}
+
+/**
+ * Get wave duration in seconds
+ */
+export function getWaveDuration(schema: WaveSchema, wave: number): number
+{
+  return getWaveDefinition(schema, wave)?.duration ?? schema.defaultDuration;
+}
+
+/**
+ * Get spawn interval in seconds for a wave
+ */
+export function getSpawnInterval(schema: WaveSchema, wave: number): number
+{
+  const def = getWaveDefinition(schema, wave);
+  const curve = schema.spawnInterval;
+
+  const interval = def?.spawnInterval ?? Math.max(curve.min, curve.base - wave * curve.decayPerWave);
+
+  return interval * (def?.spawnIntervalMultiplier ?? 1);
+}
+
+/**
+ * Get pack monster pool for a wave (highest unlocked tier)
+ */
+export function getPackTypes(pack: PackEvent, wave: number): MonsterType[]
+{
+  let types: MonsterType[] = [];
+
+  for (const tier of pack.tiers)
+  {
+    if (wave >= tier.fromWave)
+    {
+      types = tier.types;
+    }
+  }
+
+  return types;
+}
+
+/**
+ * Chance for a regular spawn to be promoted to elite on a wave
+ */
+export function getEliteChance(schema: WaveSchema, wave: number): number
+{
+  const curve = schema.elites;
+
+  if (wave < curve.fromWave)
+  {
+    return 0;
+  }
+
+  return Math.min(curve.maxChance, curve.baseChance + (wave - curve.fromWave) * curve.chancePerWave);
+}
+
+/**
+ * Number of modifiers an elite gets on a wave
+ */
+export function getEliteModifierCount(schema: WaveSchema, wave: number): number
+{
+  const curve = schema.elites;
+  const extra = Math.floor(Math.max(0, wave - curve.fromWave) / curve.modifierEvery);
+
+  return Math.min(curve.maxModifiers, 1 + extra);
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { ALL_WEAPONS, WEAPON_EVOLUTIONS } from './Weapons';
+import { ALL_PASSIVES } from './Passive';
+
+describe('Weapons', () =>
+{
+  it.each(ALL_WEAPONS.map(w => [w.id, w] as const))('%s has a stat for every level', (_id, weapon) =>
+  {
+    expect(weapon.maxLevel).toBe(12);
+
+    for (const stats of [weapon.damagePerLevel, weapon.areaPerLevel, weapon.cooldownPerLevel, weapon.speedPerLevel])
+    {
+      expect(stats).toHaveLength(weapon.maxLevel);
+    }
+  });
+
+  it.each(ALL_WEAPONS.map(w => [w.id, w] as const))('%s scales +5% damage, +3% area, -2% cooldown per level', (_id, weapon) =>
+  {
+    for (let i = 1; i < weapon.maxLevel; i++)
+    {
+      expect(weapon.damagePerLevel[i] / weapon.damagePerLevel[i - 1]).toBeCloseTo(1.05, 10);
+      expect(weapon.areaPerLevel[i] / weapon.areaPerLevel[i - 1]).toBeCloseTo(1.03, 10);
+      expect(weapon.cooldownPerLevel[i] / weapon.cooldownPerLevel[i - 1]).toBeCloseTo(0.98, 10);
+    }
+  });
+
+  it('gives the axe +5 pierce every 3 levels', () =>
+  {
+    const axe = ALL_WEAPONS.find(w => w.id === 'axe')!;
+
+    expect(axe.piercePerLevel).toEqual([5, 5, 5, 10, 10, 10, 15, 15, 15, 20, 20, 20]);
+  });
+
+  it('keeps projectile speed constant across levels', () =>
+  {
+    for (const weapon of ALL_WEAPONS)
+    {
+      expect(new Set(weapon.speedPerLevel).size).toBe(1);
+    }
+  });
+
+  it('pairs every evolution with an existing weapon and passive', () =>
+  {
+    const passiveIds = ALL_PASSIVES.map(p => p.id);
+
+    for (const recipe of WEAPON_EVOLUTIONS)
+    {
+      expect(ALL_WEAPONS.map(w => w.id)).toContain(recipe.weaponId);
+      expect(passiveIds).toContain(recipe.passiveId);
+      expect(ALL_WEAPONS).not.toContain(recipe.evolved);
+      expect(recipe.evolved.maxLevel).toBe(1);
+    }
+
+    expect(new Set(WEAPON_EVOLUTIONS.map(r => r.weaponId)).size).toBe(WEAPON_EVOLUTIONS.length);
+  });
+});
@@ -62,7 +62,7 @@ const axeStats = generateWeaponStats(6, 1.2, 1.8);
 export const AxeWeapon = new PowerUp({
   id: "axe",
   name: "Battle Axe",
-  description: "Throws an axe that arcs through the air.",
+  description: "Throws an axe that arcs through the air, briefly stunning what it hits.",
   type: "weapon",
   
   spritesheet: "powers_spritesheet",
@@ -79,6 +79,8 @@ export const AxeWeapon = new PowerUp({
   speedPerLevel: Array(12).fill(5), // Speed stays constant
   piercePerLevel: [5, 5, 5, 10, 10, 10, 15, 15, 15, 20, 20, 20], // +5 pierce every 3 levels
   
+  onHitEffects: [{ type: "stun", duration: 0.3 }],
+  
   applyEffect: (player, level) =>
   {
     const stats = AxeWeapon;
@@ -116,7 +118,7 @@ const daggerStats = generateWeaponStats(4, 0.8, 0.6);
 export const DaggerWeapon = new PowerUp({
   id: "dagger",
   name: "Dagger",
-  description: "Throws a dagger in a straight line.",
+  description: "Throws a poisoned dagger in a straight line.",
   type: "weapon",
   
   spritesheet: "powers_spritesheet",
@@ -132,6 +134,8 @@ export const DaggerWeapon = new PowerUp({
   cooldownPerLevel: daggerStats.cooldown,
   speedPerLevel: Array(12).fill(8), // Speed stays constant
   
+  onHitEffects: [{ type: "poison", duration: 4, damagePerTick: 1 }], // Stacks up to 10
+  
   applyEffect: (player, level) =>
   {
     const stats = DaggerWeapon;
@@ -484,4 +488,205 @@ export const ALL_WEAPONS = [
   DaggerWeapon,
   SwordWeapon,
   ShurikenWeapon
-];
\ No newline at end of file
+];
+
+/**
+ * WEAPON EVOLUTIONS
+ * A max level weapon plus its paired passive (any level) evolves into a stronger weapon
+ * Evolved weapons are offered as a level-up card or granted by a boss chest, never as regular cards
+ */
+export interface WeaponEvolution
+{
+  weaponId: string; // Base weapon, must be max level
+  passiveId: string; // Paired passive, must be owned
+  evolved: PowerUp;
+}
+
+/**
+ * DEATH SPIRAL (Battle Axe + Armor)
+ * Behavior: Ring of axes flying out in every direction
+ */
+export const DeathSpiralWeapon = new PowerUp({
+  id: "death_spiral",
+  name: "Death Spiral",
+  description: "Evolved Battle Axe. Hurls a ring of axes in every direction.",
+  type: "weapon",
+  
+  spritesheet: "powers_spritesheet",
+  animationBase: "Weapon_axe",
+  hasLeveledAnimations: false,
+  frameCount: 5,
+  weaponFrame: "Weapon_axe_4",
+  
+  maxLevel: 1,
+  rarity: "rare",
+  
+  damagePerLevel: [axeStats.damage[11] * 1.5],
+  areaPerLevel: [axeStats.area[11]],
+  cooldownPerLevel: [axeStats.cooldown[11]],
+  speedPerLevel: [5],
+  
+  onHitEffects: [{ type: "stun", duration: 0.5 }],
+  
+  applyEffect: (player) =>
+  {
+    const stats = DeathSpiralWeapon;
+    
+    player.evolveWeapon("axe", {
+      id: "death_spiral",
+      name: "Death Spiral",
+      level: 1,
+      damage: stats.damagePerLevel[0],
+      area: stats.areaPerLevel[0],
+      cooldown: stats.cooldownPerLevel[0],
+      speed: stats.speedPerLevel[0],
+      behavior: "spiral",
+      frameName: stats.getWeaponFrame(),
+      statsId: "axe" // Keeps axe pierce and Extra Axe projectiles
+    });
+  }
+});
+
+/**
+ * SHADOW EDGE (Dagger + Cooldown)
+ * Behavior: Fast stream of blades in the facing direction
+ */
+export const ShadowEdgeWeapon = new PowerUp({
+  id: "shadow_edge",
+  name: "Shadow Edge",
+  description: "Evolved Dagger. Fires a relentless stream of venomous shadow blades.",
+  type: "weapon",
+  
+  spritesheet: "powers_spritesheet",
+  animationBase: "Weapon_dagger",
+  hasLeveledAnimations: false,
+  frameCount: 1,
+  weaponFrame: "Power_darkbolt_0",
+  
+  maxLevel: 1,
+  rarity: "rare",
+  
+  damagePerLevel: [daggerStats.damage[11] * 1.3],
+  areaPerLevel: [daggerStats.area[11]],
+  cooldownPerLevel: [0.35],
+  speedPerLevel: [10],
+  
+  onHitEffects: [{ type: "poison", duration: 4, damagePerTick: 2 }],
+  
+  applyEffect: (player) =>
+  {
+    const stats = ShadowEdgeWeapon;
+    
+    player.evolveWeapon("dagger", {
+      id: "shadow_edge",
+      name: "Shadow Edge",
+      level: 1,
+      damage: stats.damagePerLevel[0],
+      area: stats.areaPerLevel[0],
+      cooldown: stats.cooldownPerLevel[0],
+      speed: stats.speedPerLevel[0],
+      behavior: "barrage",
+      frameName: stats.getWeaponFrame(),
+      statsId: "dagger"
+    });
+  }
+});
+
+/**
+ * RADIANT CROSS (Mystic Sword + Might)
+ * Behavior: Blades in all four directions (eight with extra projectiles)
+ */
+export const RadiantCrossWeapon = new PowerUp({
+  id: "radiant_cross",
+  name: "Radiant Cross",
+  description: "Evolved Mystic Sword. Sends blades out in a cross around you.",
+  type: "weapon",
+  
+  spritesheet: "powers_spritesheet",
+  animationBase: "Weapon_sword",
+  hasLeveledAnimations: false,
+  frameCount: 5,
+  weaponFrame: "Weapon_sword_4",
+  
+  maxLevel: 1,
+  rarity: "rare",
+  
+  damagePerLevel: [swordStats.damage[11] * 1.5],
+  areaPerLevel: [swordStats.area[11] * 1.2],
+  cooldownPerLevel: [swordStats.cooldown[11]],
+  speedPerLevel: [7],
+  
+  applyEffect: (player) =>
+  {
+    const stats = RadiantCrossWeapon;
+    
+    player.evolveWeapon("sword", {
+      id: "radiant_cross",
+      name: "Radiant Cross",
+      level: 1,
+      damage: stats.damagePerLevel[0],
+      area: stats.areaPerLevel[0],
+      cooldown: stats.cooldownPerLevel[0],
+      speed: stats.speedPerLevel[0],
+      behavior: "cross",
+      frameName: stats.getWeaponFrame(),
+      statsId: "sword"
+    });
+  }
+});
+
+/**
+ * BLADE STORM (Orbiting Shuriken + Move Speed)
+ * Behavior: Faster orbit that swings in and out
+ */
+export const BladeStormWeapon = new PowerUp({
+  id: "blade_storm",
+  name: "Blade Storm",
+  description: "Evolved Orbiting Shuriken. A wide, pulsing storm of blades circles you.",
+  type: "weapon",
+  
+  spritesheet: "powers_spritesheet",
+  animationBase: "Weapon_shuriken",
+  hasLeveledAnimations: false,
+  frameCount: 5,
+  weaponFrame: "Weapon_shuriken_4",
+  
+  maxLevel: 1,
+  rarity: "rare",
+  
+  damagePerLevel: [shurikenStats.damage[11] * 1.5],
+  areaPerLevel: [shurikenStats.area[11] * 1.2],
+  cooldownPerLevel: [shurikenStats.cooldown[11]],
+  speedPerLevel: [0],
+  
+  applyEffect: (player) =>
+  {
+    const stats = BladeStormWeapon;
+    
+    player.evolveWeapon("shuriken", {
+      id: "blade_storm",
+      name: "Blade Storm",
+      level: 1,
+      damage: stats.damagePerLevel[0],
+      area: stats.areaPerLevel[0],
+      cooldown: stats.cooldownPerLevel[0],
+      speed: 0,
+      behavior: "orbital",
+      frameName: stats.getWeaponFrame(),
+      orbitRadius: 110,
+      orbitSpeed: 3.0,
+      orbitPulse: 0.4, // Swings between 66 and 154
+      statsId: "shuriken"
+    });
+  }
+});
+
+/**
+ * EXPORT ALL EVOLUTION RECIPES
+ */
+export const WEAPON_EVOLUTIONS: WeaponEvolution[] = [
+  { weaponId: "axe", passiveId: "armor", evolved: DeathSpiralWeapon },
+  { weaponId: "dagger", passiveId: "cooldown_reduction", evolved: ShadowEdgeWeapon },
+  { weaponId: "sword", passiveId: "might", evolved: RadiantCrossWeapon },
+  { weaponId: "shuriken", passiveId: "move_speed", evolved: BladeStormWeapon }
+];
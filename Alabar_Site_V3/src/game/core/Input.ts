@@ -1,27 +1,109 @@
 /**
- * Input.ts - Keyboard input manager
- * Handles WASD, Arrow keys, and E key for player controls
+ * Input.ts - Keyboard and gamepad input manager
+ * Keyboard actions come from a rebindable control profile (saved in localStorage)
+ * Gamepads (standard mapping) are polled each frame: stick/D-pad move, A attacks, Start pauses
+ * Touch controls push their joystick/button state through setTouchInput()
+ * Movement is a vector: keys combine into 8 directions, stick and joystick are analog
  */
 
-export type Direction = 'up' | 'down' | 'left' | 'right' | null;
+import {
+  BINDING_SLOTS,
+  CONTROL_PRESETS,
+  CUSTOM_PROFILE_ID,
+  ControlProfile,
+  InputAction,
+  KeyBindings,
+  cloneBindings,
+  fillMissingBindings,
+  findConflict,
+  formatKeyCode
+} from '../configs/Controls';
+import { MoveVector, createMoveVector, isZeroMove } from '../systems/Movement';
 
-export class InputManager
+const CONTROLS_STORAGE_KEY = 'alabar_controls';
+
+interface ControlsSaveData
+{
+  profileId: string;
+  custom: KeyBindings | null;
+}
+
+/**
+ * Outcome of a rebind (conflict = action already using the key)
+ */
+export type RebindResult = { ok: true } | { ok: false; conflict: InputAction };
+
+type KeyboardLayoutNavigator = Navigator & {
+  keyboard?: { getLayoutMap(): Promise<ReadonlyMap<string, string>> };
+};
+
+/**
+ * Gamepad buttons reported once per press (menus, pause, level-up actions)
+ */
+export type GamepadAction = 'confirm' | 'start' | 'left' | 'right' | 'reroll' | 'banish' | 'skip';
+
+// Standard gamepad mapping button indices
+const PAD_A = 0;
+const PAD_B = 1;
+const PAD_X = 2;
+const PAD_Y = 3;
+const PAD_START = 9;
+const PAD_UP = 12;
+const PAD_DOWN = 13;
+const PAD_LEFT = 14;
+const PAD_RIGHT = 15;
+
+/**
+ * Input read by the player each frame
+ * Implemented by InputManager (keyboard) and ReplayInputManager (recorded runs)
+ */
+export interface InputSource
+{
+  getMoveVector(): MoveVector;
+  isAttackPressed(): boolean;
+  isMoving(): boolean;
+}
+
+export class InputManager implements InputSource
 {
   private static instance: InputManager;
   
   // Key states
   private keys: Map<string, boolean> = new Map();
   
-  // Key mappings
-  private readonly KEY_UP = ['KeyW', 'ArrowUp'];
-  private readonly KEY_DOWN = ['KeyS', 'ArrowDown'];
-  private readonly KEY_LEFT = ['KeyA', 'ArrowLeft'];
-  private readonly KEY_RIGHT = ['KeyD', 'ArrowRight'];
-  private readonly KEY_ATTACK = ['KeyE'];
+  // Gamepad state (refreshed by update())
+  private padMove: MoveVector = { x: 0, y: 0 };
+  private padAttack: boolean = false;
+  private padActions: Set<GamepadAction> = new Set();
+  private padActionsPressed: Set<GamepadAction> = new Set();
+  
+  private readonly STICK_DEADZONE = 0.2;
+  private readonly MENU_STICK_THRESHOLD = 0.5; // Stick push that counts as left/right in menus
+  
+  // Touch state (on-screen joystick and attack button)
+  private touchMove: MoveVector = { x: 0, y: 0 };
+  private touchAttack: boolean = false;
+  
+  // Key mappings (active control profile)
+  private profileId: string = CONTROL_PRESETS[0].id;
+  private customBindings: KeyBindings | null = null;
+  private bindings: KeyBindings = cloneBindings(CONTROL_PRESETS[0].bindings);
+  
+  // Keys pressed since the last update() / during the current frame (menu actions)
+  private keyPresses: Set<string> = new Set();
+  private frameKeyPresses: Set<string> = new Set();
+  
+  // Rebinding: next key press goes here instead of the game
+  private captureCallback: ((code: string) => void) | null = null;
+  
+  // Printed key labels for the user's layout (when the browser exposes them)
+  private layoutMap: ReadonlyMap<string, string> | null = null;
   
   private constructor()
   {
+    this.loadControls();
     this.setupEventListeners();
+    this.loadLayoutMap();
   }
   
   static getInstance(): InputManager
@@ -41,6 +123,15 @@ export class InputManager
     window.addEventListener('keydown', this.handleKeyDown.bind(this));
     window.addEventListener('keyup', this.handleKeyUp.bind(this));
     
+    window.addEventListener('gamepadconnected', (e) =>
+    {
+      console.log(`[InputManager] Gamepad connected: ${e.gamepad.id}`);
+    });
+    window.addEventListener('gamepaddisconnected', (e) =>
+    {
+      console.log(`[InputManager] Gamepad disconnected: ${e.gamepad.id}`);
+    });
+    
     // Prevent default behavior for arrow keys (scrolling)
     window.addEventListener('keydown', (e) =>
     {
@@ -56,7 +147,21 @@ export class InputManager
    */
   private handleKeyDown(event: KeyboardEvent): void
   {
+    if (this.captureCallback)
+    {
+      event.preventDefault();
+      const callback = this.captureCallback;
+      this.captureCallback = null;
+      callback(event.code);
+      return;
+    }
+    
     this.keys.set(event.code, true);
+    
+    if (!event.repeat)
+    {
+      this.keyPresses.add(event.code);
+    }
   }
   
   /**
@@ -68,37 +173,306 @@ export class InputManager
   }
   
   /**
-   * Check if a specific key is pressed
+   * Poll connected gamepads and latch key presses (call once per frame, before reading input)
    */
-  private isKeyPressed(keyCodes: string[]): boolean
+  update(): void
   {
-    return keyCodes.some(code => this.keys.get(code) === true);
+    this.frameKeyPresses = this.keyPresses;
+    this.keyPresses = new Set();
+    
+    const pad = this.getGamepad();
+    const held = new Set<GamepadAction>();
+    
+    this.padMove = { x: 0, y: 0 };
+    this.padAttack = false;
+    
+    if (pad)
+    {
+      const pressed = (index: number) => pad.buttons[index]?.pressed === true;
+      
+      // Analog stick: radial deadzone, magnitude rescaled so the edge of the deadzone is 0
+      const x = pad.axes[0] ?? 0;
+      const y = pad.axes[1] ?? 0;
+      const magnitude = Math.sqrt(x * x + y * y);
+      
+      if (magnitude > this.STICK_DEADZONE)
+      {
+        const scale = Math.min(1, (magnitude - this.STICK_DEADZONE) / (1 - this.STICK_DEADZONE)) / magnitude;
+        this.padMove = createMoveVector(x * scale, y * scale);
+      }
+      
+      // D-pad overrides the stick (full speed, diagonals allowed)
+      const dpadX = Number(pressed(PAD_RIGHT)) - Number(pressed(PAD_LEFT));
+      const dpadY = Number(pressed(PAD_DOWN)) - Number(pressed(PAD_UP));
+      if (dpadX !== 0 || dpadY !== 0)
+      {
+        this.padMove = this.digitalMove(dpadX, dpadY);
+      }
+      
+      this.padAttack = pressed(PAD_A) || pressed(PAD_X);
+      
+      if (pressed(PAD_A)) held.add('confirm');
+      if (pressed(PAD_START)) held.add('start');
+      if (pressed(PAD_Y)) held.add('reroll');
+      if (pressed(PAD_X)) held.add('banish');
+      if (pressed(PAD_B)) held.add('skip');
+      if (this.padMove.x <= -this.MENU_STICK_THRESHOLD) held.add('left');
+      if (this.padMove.x >= this.MENU_STICK_THRESHOLD) held.add('right');
+    }
+    
+    // Actions fire on the frame they go down
+    this.padActionsPressed.clear();
+    for (const action of held)
+    {
+      if (!this.padActions.has(action))
+      {
+        this.padActionsPressed.add(action);
+      }
+    }
+    this.padActions = held;
+  }
+  
+  /**
+   * Set on-screen touch control state
+   */
+  setTouchInput(move: MoveVector, attack: boolean): void
+  {
+    this.touchMove = createMoveVector(move.x, move.y);
+    this.touchAttack = attack;
   }
   
   /**
-   * Get current movement direction (4-directional, no diagonals)
-   * Priority: Up > Down > Left > Right
+   * First connected gamepad (null if none)
    */
-  getDirection(): Direction
+  private getGamepad(): Gamepad | null
   {
-    if (this.isKeyPressed(this.KEY_UP))
+    if (typeof navigator === 'undefined' || !navigator.getGamepads)
     {
-      return 'up';
+      return null;
     }
-    if (this.isKeyPressed(this.KEY_DOWN))
+    
+    for (const pad of navigator.getGamepads())
     {
-      return 'down';
+      if (pad && pad.connected)
+      {
+        return pad;
+      }
     }
-    if (this.isKeyPressed(this.KEY_LEFT))
+    
+    return null;
+  }
+  
+  /**
+   * Check if a gamepad action was pressed this frame
+   */
+  wasGamepadPressed(action: GamepadAction): boolean
+  {
+    return this.padActionsPressed.has(action);
+  }
+  
+  /**
+   * Check if a keyboard action was pressed this frame
+   */
+  wasActionPressed(action: InputAction): boolean
+  {
+    return this.bindings[action].some(code => this.frameKeyPresses.has(code));
+  }
+  
+  /**
+   * Read the saved control profile (default profile if missing/corrupt)
+   */
+  private loadControls(): void
+  {
+    if (typeof localStorage === 'undefined')
     {
-      return 'left';
+      return;
     }
-    if (this.isKeyPressed(this.KEY_RIGHT))
+    
+    try
     {
-      return 'right';
+      const raw = localStorage.getItem(CONTROLS_STORAGE_KEY);
+      if (!raw)
+      {
+        return;
+      }
+      
+      const data = JSON.parse(raw) as ControlsSaveData;
+      // Actions added since the custom profile was saved get their default keys
+      this.customBindings = data.custom ? fillMissingBindings(data.custom, CONTROL_PRESETS[0].bindings) : null;
+      this.applyProfile(data.profileId);
+    }
+    catch (error)
+    {
+      console.error('[InputManager] Failed to load controls:', error);
+    }
+  }
+  
+  private saveControls(): void
+  {
+    if (typeof localStorage === 'undefined')
+    {
+      return;
     }
     
-    return null;
+    const data: ControlsSaveData = { profileId: this.profileId, custom: this.customBindings };
+    localStorage.setItem(CONTROLS_STORAGE_KEY, JSON.stringify(data));
+  }
+  
+  /**
+   * Switch the active bindings (unknown ids fall back to the default preset)
+   */
+  private applyProfile(profileId: string): void
+  {
+    const profile = this.getProfiles().find(p => p.id === profileId) ?? CONTROL_PRESETS[0];
+    
+    this.profileId = profile.id;
+    this.bindings = cloneBindings(profile.bindings);
+    this.keys.clear();
+  }
+  
+  /**
+   * Fetch printed key labels (Chromium only, other browsers show code names)
+   */
+  private loadLayoutMap(): void
+  {
+    const keyboard = (navigator as KeyboardLayoutNavigator).keyboard;
+    
+    keyboard?.getLayoutMap()
+      .then((map) => {
+        this.layoutMap = map;
+      })
+      .catch(() => {
+        this.layoutMap = null;
+      });
+  }
+  
+  /**
+   * Preset profiles plus the player's custom one (once created)
+   */
+  getProfiles(): ControlProfile[]
+  {
+    const profiles = [...CONTROL_PRESETS];
+    
+    if (this.customBindings)
+    {
+      profiles.push({ id: CUSTOM_PROFILE_ID, name: 'Custom', bindings: this.customBindings });
+    }
+    
+    return profiles;
+  }
+  
+  getProfileId(): string
+  {
+    return this.profileId;
+  }
+  
+  /**
+   * Activate a profile and remember it
+   */
+  setProfile(profileId: string): void
+  {
+    this.applyProfile(profileId);
+    this.saveControls();
+    
+    console.log(`[InputManager] Control profile: ${this.profileId}`);
+  }
+  
+  getBindings(): Readonly<KeyBindings>
+  {
+    return this.bindings;
+  }
+  
+  /**
+   * Bind a key to an action slot (editing a preset copies it into the custom profile)
+   * Fails if another action already uses the key
+   */
+  rebind(action: InputAction, slot: number, code: string): RebindResult
+  {
+    const conflict = findConflict(this.bindings, code, action);
+    if (conflict)
+    {
+      return { ok: false, conflict };
+    }
+    
+    const keys = this.bindings[action].filter(existing => existing !== code);
+    const index = Math.min(slot, keys.length, BINDING_SLOTS - 1);
+    keys[index] = code;
+    
+    this.updateCustomBinding(action, keys);
+    return { ok: true };
+  }
+  
+  /**
+   * Remove the key in an action slot
+   */
+  clearBinding(action: InputAction, slot: number): void
+  {
+    this.updateCustomBinding(action, this.bindings[action].filter((_, index) => index !== slot));
+  }
+  
+  private updateCustomBinding(action: InputAction, keys: string[]): void
+  {
+    const custom = cloneBindings(this.bindings);
+    custom[action] = keys;
+    
+    this.customBindings = custom;
+    this.applyProfile(CUSTOM_PROFILE_ID);
+    this.saveControls();
+  }
+  
+  /**
+   * Send the next key press to a callback instead of the game (rebinding)
+   */
+  captureNextKey(callback: (code: string) => void): void
+  {
+    this.captureCallback = callback;
+  }
+  
+  cancelCapture(): void
+  {
+    this.captureCallback = null;
+  }
+  
+  /**
+   * Display label for a key code, using the player's keyboard layout when known
+   */
+  getKeyLabel(code: string): string
+  {
+    return formatKeyCode(code, this.layoutMap ?? undefined);
+  }
+  
+  /**
+   * Check if a specific key is pressed
+   */
+  private isKeyPressed(keyCodes: string[]): boolean
+  {
+    return keyCodes.some(code => this.keys.get(code) === true);
+  }
+  
+  /**
+   * Unit vector for digital input (-1/0/1 per axis, diagonals normalized)
+   */
+  private digitalMove(x: number, y: number): MoveVector
+  {
+    const length = Math.sqrt(x * x + y * y);
+    return length > 0 ? createMoveVector(x / length, y / length) : { x: 0, y: 0 };
+  }
+  
+  /**
+   * Get current movement vector
+   * Priority: keyboard (opposite keys cancel out) > touch > gamepad
+   */
+  getMoveVector(): MoveVector
+  {
+    const x = Number(this.isKeyPressed(this.bindings.right)) - Number(this.isKeyPressed(this.bindings.left));
+    const y = Number(this.isKeyPressed(this.bindings.down)) - Number(this.isKeyPressed(this.bindings.up));
+    
+    if (x !== 0 || y !== 0)
+    {
+      return this.digitalMove(x, y);
+    }
+    
+    return isZeroMove(this.touchMove) ? this.padMove : this.touchMove;
   }
   
   /**
@@ -106,7 +480,7 @@ export class InputManager
    */
   isAttackPressed(): boolean
   {
-    return this.isKeyPressed(this.KEY_ATTACK);
+    return this.isKeyPressed(this.bindings.attack) || this.touchAttack || this.padAttack;
   }
   
   /**
@@ -114,7 +488,7 @@ export class InputManager
    */
   isMoving(): boolean
   {
-    return this.getDirection() !== null;
+    return !isZeroMove(this.getMoveVector());
   }
   
   /**
@@ -123,6 +497,14 @@ export class InputManager
   reset(): void
   {
     this.keys.clear();
+    this.keyPresses.clear();
+    this.frameKeyPresses.clear();
+    this.padMove = { x: 0, y: 0 };
+    this.padAttack = false;
+    this.touchMove = { x: 0, y: 0 };
+    this.touchAttack = false;
+    this.padActions.clear();
+    this.padActionsPressed.clear();
   }
   
   /**
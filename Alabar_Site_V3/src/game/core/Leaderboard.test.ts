@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LEADERBOARD_SIZE, Leaderboard, LeaderboardEntry, getTotalKills } from './Leaderboard';
+
+/**
+ * Minimal run entry (survival time decides the rank)
+ */
+function makeEntry(survivalTime: number, seed: number = survivalTime): LeaderboardEntry
+{
+  return {
+    survivalTime,
+    level: 1,
+    wave: 1,
+    kills: { Slime1: 3, Orc1: 1 },
+    build: [{ id: 'axe', name: 'Axe', level: 1 }],
+    seed,
+    date: 1000 + seed
+  };
+}
+
+describe('Leaderboard', () =>
+{
+  const board = Leaderboard.getInstance();
+
+  afterEach(() =>
+  {
+    board.clear();
+  });
+
+  it('ranks runs by survival time', () =>
+  {
+    board.submit(makeEntry(60));
+    board.submit(makeEntry(120));
+
+    expect(board.submit(makeEntry(90))).toBe(1);
+    expect(board.getEntries().map(e => e.survivalTime)).toEqual([120, 90, 60]);
+  });
+
+  it('keeps only the top entries', () =>
+  {
+    for (let i = 1; i <= LEADERBOARD_SIZE; i++)
+    {
+      board.submit(makeEntry(i * 10));
+    }
+
+    expect(board.submit(makeEntry(5))).toBe(-1);
+    expect(board.getEntries()).toHaveLength(LEADERBOARD_SIZE);
+  });
+
+  it('sums kills across monster types', () =>
+  {
+    expect(getTotalKills(makeEntry(10))).toBe(4);
+  });
+
+  it('round-trips through export/import without duplicates', () =>
+  {
+    board.submit(makeEntry(60));
+    board.submit(makeEntry(30));
+    const json = board.export();
+
+    board.clear();
+    board.submit(makeEntry(45));
+
+    expect(board.import(json)).toBe(true);
+    expect(board.import(json)).toBe(true);
+    expect(board.getEntries().map(e => e.survivalTime)).toEqual([60, 45, 30]);
+  });
+
+  it('keeps per-character records over every run', () =>
+  {
+    for (let i = 1; i <= LEADERBOARD_SIZE + 2; i++)
+    {
+      board.submit({ ...makeEntry(i * 10), character: 'grukk', level: i });
+    }
+    board.submit(makeEntry(5));
+
+    expect(board.getCharacterRecord('grukk')).toEqual({ runs: LEADERBOARD_SIZE + 2, bestTime: 120, bestLevel: 12, bestKills: 4 });
+    expect(board.getCharacterRecord('leo')?.runs).toBe(1);
+    expect(board.getCharacterRecord('bramble')).toBeNull();
+  });
+
+  it('rejects invalid board files', () =>
+  {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(board.import('not json')).toBe(false);
+    expect(board.import(JSON.stringify({ version: 99, entries: [] }))).toBe(false);
+  });
+});
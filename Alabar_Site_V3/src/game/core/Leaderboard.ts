@@ -0,0 +1,307 @@
+/**
+ * Leaderboard.ts - Local high-score table (localStorage)
+ * Keeps the top runs with a breakdown of kills and build, exportable/importable as JSON
+ * Also tracks per-character records over every run (not just the ones on the board)
+ */
+
+import { MonsterType } from '../systems/DropManager';
+import { DEFAULT_CHARACTER_ID } from '../configs/Characters';
+
+const STORAGE_KEY = 'alabar_leaderboard';
+const BOARD_VERSION = 1;
+
+export const LEADERBOARD_SIZE = 10;
+
+export interface LeaderboardEntry
+{
+  survivalTime: number; // Seconds
+  level: number;
+  wave: number;
+  kills: Partial<Record<MonsterType, number>>;
+  build: Array<{ id: string; name: string; level: number }>;
+  seed: number;
+  date: number; // Unix ms when the run ended
+  character?: string; // Playable character id (runs from before the roster were played as the default)
+}
+
+export interface CharacterRecord
+{
+  runs: number;
+  bestTime: number; // Seconds
+  bestLevel: number;
+  bestKills: number;
+}
+
+interface LeaderboardData
+{
+  version: number;
+  entries: LeaderboardEntry[];
+  records?: Record<string, CharacterRecord>; // Missing in boards exported before the roster
+}
+
+/**
+ * Total kills across all monster types
+ */
+export function getTotalKills(entry: Pick<LeaderboardEntry, 'kills'>): number
+{
+  return Object.values(entry.kills).reduce((sum, count) => sum + (count ?? 0), 0);
+}
+
+/**
+ * Ranking order: longest survival, then highest level, then most kills
+ */
+function compareEntries(a: LeaderboardEntry, b: LeaderboardEntry): number
+{
+  return (b.survivalTime - a.survivalTime) ||
+    (b.level - a.level) ||
+    (getTotalKills(b) - getTotalKills(a));
+}
+
+function isValidEntry(value: unknown): value is LeaderboardEntry
+{
+  const entry = value as Partial<LeaderboardEntry> | null;
+
+  return !!entry &&
+    typeof entry.survivalTime === 'number' &&
+    typeof entry.level === 'number' &&
+    typeof entry.wave === 'number' &&
+    typeof entry.seed === 'number' &&
+    typeof entry.date === 'number' &&
+    typeof entry.kills === 'object' && entry.kills !== null &&
+    Array.isArray(entry.build) &&
+    (entry.character === undefined || typeof entry.character === 'string');
+}
+
+function isValidRecord(value: unknown): value is CharacterRecord
+{
+  const record = value as Partial<CharacterRecord> | null;
+
+  return !!record &&
+    typeof record.runs === 'number' &&
+    typeof record.bestTime === 'number' &&
+    typeof record.bestLevel === 'number' &&
+    typeof record.bestKills === 'number';
+}
+
+/**
+ * Character a run was played with
+ */
+export function getEntryCharacter(entry: Pick<LeaderboardEntry, 'character'>): string
+{
+  return entry.character ?? DEFAULT_CHARACTER_ID;
+}
+
+export class Leaderboard
+{
+  private static instance: Leaderboard;
+
+  private entries: LeaderboardEntry[] = [];
+  private records: Record<string, CharacterRecord> = {};
+
+  private constructor()
+  {
+    this.load();
+  }
+
+  static getInstance(): Leaderboard
+  {
+    if (!Leaderboard.instance)
+    {
+      Leaderboard.instance = new Leaderboard();
+    }
+    return Leaderboard.instance;
+  }
+
+  /**
+   * Read board from localStorage (empty if missing/corrupt)
+   */
+  private load(): void
+  {
+    if (typeof localStorage === 'undefined')
+    {
+      return;
+    }
+
+    try
+    {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      const data = raw ? this.parse(raw) : null;
+
+      if (data)
+      {
+        this.entries = data.entries;
+        this.records = data.records ?? {};
+      }
+    }
+    catch (error)
+    {
+      console.error('[Leaderboard] Failed to load board:', error);
+    }
+  }
+
+  private save(): void
+  {
+    if (typeof localStorage === 'undefined')
+    {
+      return;
+    }
+
+    localStorage.setItem(STORAGE_KEY, this.export());
+  }
+
+  /**
+   * Parse and validate board JSON (null if invalid)
+   */
+  private parse(json: string): LeaderboardData | null
+  {
+    try
+    {
+      const data = JSON.parse(json) as LeaderboardData;
+
+      if (data.version !== BOARD_VERSION || !Array.isArray(data.entries))
+      {
+        console.error('[Leaderboard] Invalid leaderboard data');
+        return null;
+      }
+
+      const records: Record<string, CharacterRecord> = {};
+      for (const [id, record] of Object.entries(data.records ?? {}))
+      {
+        if (isValidRecord(record))
+        {
+          records[id] = record;
+        }
+      }
+
+      return { version: data.version, entries: data.entries.filter(isValidEntry), records };
+    }
+    catch (error)
+    {
+      console.error('[Leaderboard] Failed to parse leaderboard:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Sort and keep the top entries
+   */
+  private trim(entries: LeaderboardEntry[]): LeaderboardEntry[]
+  {
+    return entries.sort(compareEntries).slice(0, LEADERBOARD_SIZE);
+  }
+
+  /**
+   * Record a finished run, returns its rank (0-based) or -1 if it didn't make the board
+   */
+  submit(entry: LeaderboardEntry): number
+  {
+    this.recordRun(entry);
+    this.entries = this.trim([...this.entries, entry]);
+    this.save();
+
+    const rank = this.entries.indexOf(entry);
+    console.log(`[Leaderboard] Run submitted - rank ${rank >= 0 ? rank + 1 : 'none'}`);
+    return rank;
+  }
+
+  getEntries(): readonly LeaderboardEntry[]
+  {
+    return this.entries;
+  }
+
+  /**
+   * Best results with a character (null if it was never played)
+   */
+  getCharacterRecord(characterId: string): CharacterRecord | null
+  {
+    return this.records[characterId] ?? null;
+  }
+
+  /**
+   * Fold a finished run into its character's record
+   */
+  private recordRun(entry: LeaderboardEntry): void
+  {
+    const id = getEntryCharacter(entry);
+    const record = this.records[id] ?? { runs: 0, bestTime: 0, bestLevel: 0, bestKills: 0 };
+
+    this.records[id] = {
+      runs: record.runs + 1,
+      bestTime: Math.max(record.bestTime, entry.survivalTime),
+      bestLevel: Math.max(record.bestLevel, entry.level),
+      bestKills: Math.max(record.bestKills, getTotalKills(entry))
+    };
+  }
+
+  /**
+   * Serialize the board as JSON
+   */
+  export(): string
+  {
+    const data: LeaderboardData = { version: BOARD_VERSION, entries: this.entries, records: this.records };
+    return JSON.stringify(data);
+  }
+
+  /**
+   * Merge an exported board into this one (duplicate runs are skipped)
+   * Character records keep the best of both, run counts are not added up (boards may share runs)
+   * Returns false if the JSON is not a valid board
+   */
+  import(json: string): boolean
+  {
+    const imported = this.parse(json);
+
+    if (!imported)
+    {
+      return false;
+    }
+
+    const known = new Set(this.entries.map(e => `${e.seed}:${e.date}`));
+    const fresh = imported.entries.filter(e => !known.has(`${e.seed}:${e.date}`));
+
+    for (const [id, record] of Object.entries(imported.records ?? {}))
+    {
+      const current = this.records[id];
+      this.records[id] = current ? {
+        runs: Math.max(current.runs, record.runs),
+        bestTime: Math.max(current.bestTime, record.bestTime),
+        bestLevel: Math.max(current.bestLevel, record.bestLevel),
+        bestKills: Math.max(current.bestKills, record.bestKills)
+      } : { ...record };
+    }
+
+    this.entries = this.trim([...this.entries, ...fresh]);
+    this.save();
+
+    console.log(`[Leaderboard] Imported ${fresh.length} runs`);
+    return true;
+  }
+
+  /**
+   * Remove every entry
+   */
+  clear(): void
+  {
+    this.entries = [];
+    this.records = {};
+    this.save();
+  }
+}
+
+/**
+ * Download the board as a JSON file
+ */
+export function downloadLeaderboard(json: string): void
+{
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'alabar-leaderboard.json';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MetaProgression } from './MetaProgression';
+import { RUN_REWARDS, SHOP_UNLOCKS, SHOP_UPGRADES } from '../configs/MetaShop';
+
+const vitality = SHOP_UPGRADES.find(u => u.id === 'vitality')!;
+const might = SHOP_UPGRADES.find(u => u.id === 'might')!;
+const sword = SHOP_UNLOCKS.find(u => u.id === 'sword')!;
+
+/**
+ * In-memory localStorage (the test environment has none)
+ */
+function createStorage(): Storage
+{
+  const items = new Map<string, string>();
+
+  return {
+    get length() { return items.size; },
+    key: (index: number) => Array.from(items.keys())[index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear()
+  };
+}
+
+describe('MetaProgression', () =>
+{
+  let storage: Storage;
+
+  beforeEach(() =>
+  {
+    storage = createStorage();
+    vi.stubGlobal('localStorage', storage);
+  });
+
+  afterEach(() =>
+  {
+    vi.unstubAllGlobals();
+  });
+
+  /**
+   * Fresh singleton reading the current storage (as on a page load)
+   */
+  async function loadMeta(): Promise<MetaProgression>
+  {
+    vi.resetModules();
+    const { MetaProgression } = await import('./MetaProgression');
+    return MetaProgression.getInstance();
+  }
+
+  it('earns gold for kills, minutes survived and chests', async () =>
+  {
+    const meta = await loadMeta();
+
+    const earned = meta.awardRun({ kills: 30, survivalTime: 120, chestsBroken: 2 });
+
+    expect(earned).toBe(30 * RUN_REWARDS.perKill + 2 * RUN_REWARDS.perMinute + 2 * RUN_REWARDS.perChest);
+    expect(meta.getGold()).toBe(earned);
+  });
+
+  it('buys upgrade ranks it can afford until maxed', async () =>
+  {
+    const meta = await loadMeta();
+    const total = vitality.costs.reduce((sum, cost) => sum + cost, 0);
+    meta.awardRun({ kills: total, survivalTime: 0, chestsBroken: 0 });
+
+    expect(meta.buyUpgrade(might)).toBe(true);
+    expect(meta.getGold()).toBe(total - might.costs[0]);
+
+    while (meta.buyUpgrade(vitality))
+    {
+      // Buy every rank the gold allows
+    }
+
+    expect(meta.getUpgradeRank(vitality.id)).toBe(vitality.costs.length - 1);
+    expect(meta.getNextUpgradeCost(vitality)).toBe(vitality.costs[vitality.costs.length - 1]);
+    expect(meta.getLoadout()).toMatchObject({
+      maxHealthBonus: (vitality.costs.length - 1) * vitality.perRank,
+      damageMultiplier: 1 + might.perRank
+    });
+  });
+
+  it('unlocks a weapon once and stops locking it', async () =>
+  {
+    const meta = await loadMeta();
+    expect(meta.getLoadout().lockedPowerUps).toEqual(SHOP_UNLOCKS.map(u => u.id));
+
+    expect(meta.buyUnlock(sword)).toBe(false);
+
+    meta.awardRun({ kills: sword.cost * 2, survivalTime: 0, chestsBroken: 0 });
+    expect(meta.buyUnlock(sword)).toBe(true);
+    expect(meta.buyUnlock(sword)).toBe(false);
+
+    expect(meta.isUnlocked(sword.id)).toBe(true);
+    expect(meta.getLoadout().lockedPowerUps).not.toContain(sword.id);
+    expect(meta.getGold()).toBe(sword.cost);
+  });
+
+  it('keeps gold, ranks and unlocks across page loads', async () =>
+  {
+    const meta = await loadMeta();
+    meta.awardRun({ kills: 500, survivalTime: 0, chestsBroken: 0 });
+    meta.buyUpgrade(vitality);
+    meta.buyUnlock(sword);
+
+    const reloaded = await loadMeta();
+
+    expect(reloaded).not.toBe(meta);
+    expect(reloaded.getGold()).toBe(meta.getGold());
+    expect(reloaded.getUpgradeRank(vitality.id)).toBe(1);
+    expect(reloaded.isUnlocked(sword.id)).toBe(true);
+  });
+
+  it('starts fresh from a corrupt save', async () =>
+  {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    storage.setItem('alabar_meta', '{not json');
+
+    const meta = await loadMeta();
+
+    expect(meta.getGold()).toBe(0);
+    expect(meta.getLoadout().lockedPowerUps).toHaveLength(SHOP_UNLOCKS.length);
+  });
+
+  it('keeps playing when the storage refuses to save', async () =>
+  {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    storage.setItem = () => { throw new DOMException('Quota exceeded', 'QuotaExceededError'); };
+
+    const meta = await loadMeta();
+
+    expect(() => meta.awardRun({ kills: 10, survivalTime: 0, chestsBroken: 0 })).not.toThrow();
+    expect(meta.getGold()).toBe(10);
+    expect(error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * MetaProgression.ts - Persistent gold, shop upgrades and unlocks (localStorage)
+ */
+
+import { MetaLoadout, RUN_REWARDS, SHOP_UNLOCKS, SHOP_UPGRADES, ShopUnlock, ShopUpgrade } from '../configs/MetaShop';
+
+const STORAGE_KEY = 'alabar_meta';
+const SAVE_VERSION = 1;
+
+interface MetaSaveData
+{
+  version: number;
+  gold: number;
+  upgrades: Record<string, number>; // Upgrade id -> rank
+  unlocks: string[];
+}
+
+export interface RunSummary
+{
+  kills: number;
+  survivalTime: number; // Seconds
+  chestsBroken: number;
+}
+
+export class MetaProgression
+{
+  private static instance: MetaProgression;
+
+  private data: MetaSaveData;
+
+  private constructor()
+  {
+    this.data = this.load();
+  }
+
+  static getInstance(): MetaProgression
+  {
+    if (!MetaProgression.instance)
+    {
+      MetaProgression.instance = new MetaProgression();
+    }
+    return MetaProgression.instance;
+  }
+
+  /**
+   * Read save from localStorage (fresh save if missing/corrupt)
+   */
+  private load(): MetaSaveData
+  {
+    const fresh: MetaSaveData = { version: SAVE_VERSION, gold: 0, upgrades: {}, unlocks: [] };
+
+    if (typeof localStorage === 'undefined')
+    {
+      return fresh;
+    }
+
+    try
+    {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (!raw)
+      {
+        return fresh;
+      }
+
+      const parsed = JSON.parse(raw) as MetaSaveData;
+      if (parsed.version !== SAVE_VERSION)
+      {
+        console.warn('[MetaProgression] Unknown save version, starting fresh');
+        return fresh;
+      }
+
+      return {
+        version: SAVE_VERSION,
+        gold: parsed.gold ?? 0,
+        upgrades: parsed.upgrades ?? {},
+        unlocks: parsed.unlocks ?? []
+      };
+    }
+    catch (error)
+    {
+      console.error('[MetaProgression] Failed to load save:', error);
+      return fresh;
+    }
+  }
+
+  /**
+   * Write save to localStorage (a full or blocked storage keeps the progress for this session only)
+   */
+  private save(): void
+  {
+    if (typeof localStorage === 'undefined')
+    {
+      return;
+    }
+
+    try
+    {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.data));
+    }
+    catch (error)
+    {
+      console.error('[MetaProgression] Failed to save:', error);
+    }
+  }
+
+  /**
+   * Gold a run is worth
+   */
+  calculateReward(run: RunSummary): number
+  {
+    return run.kills * RUN_REWARDS.perKill +
+      Math.floor(run.survivalTime / 60 * RUN_REWARDS.perMinute) +
+      run.chestsBroken * RUN_REWARDS.perChest;
+  }
+
+  /**
+   * Bank a finished run, returns gold earned
+   */
+  awardRun(run: RunSummary): number
+  {
+    const earned = this.calculateReward(run);
+
+    this.data.gold += earned;
+    this.save();
+
+    console.log(`[MetaProgression] Run earned ${earned} gold (total ${this.data.gold})`);
+    return earned;
+  }
+
+  getGold(): number
+  {
+    return this.data.gold;
+  }
+
+  getUpgradeRank(upgradeId: string): number
+  {
+    return this.data.upgrades[upgradeId] ?? 0;
+  }
+
+  /**
+   * Cost of the next rank (null when maxed)
+   */
+  getNextUpgradeCost(upgrade: ShopUpgrade): number | null
+  {
+    const rank = this.getUpgradeRank(upgrade.id);
+    return rank < upgrade.costs.length ? upgrade.costs[rank] : null;
+  }
+
+  isUnlocked(powerUpId: string): boolean
+  {
+    return this.data.unlocks.includes(powerUpId);
+  }
+
+  /**
+   * Buy the next rank of an upgrade
+   */
+  buyUpgrade(upgrade: ShopUpgrade): boolean
+  {
+    const cost = this.getNextUpgradeCost(upgrade);
+
+    if (cost === null || cost > this.data.gold)
+    {
+      return false;
+    }
+
+    this.data.gold -= cost;
+    this.data.upgrades[upgrade.id] = this.getUpgradeRank(upgrade.id) + 1;
+    this.save();
+
+    console.log(`[MetaProgression] Bought ${upgrade.name} rank ${this.data.upgrades[upgrade.id]}`);
+    return true;
+  }
+
+  /**
+   * Buy a weapon/power unlock
+   */
+  buyUnlock(unlock: ShopUnlock): boolean
+  {
+    if (this.isUnlocked(unlock.id) || unlock.cost > this.data.gold)
+    {
+      return false;
+    }
+
+    this.data.gold -= unlock.cost;
+    this.data.unlocks.push(unlock.id);
+    this.save();
+
+    console.log(`[MetaProgression] Unlocked ${unlock.name}`);
+    return true;
+  }
+
+  /**
+   * Starting bonuses and locked content for the next run
+   */
+  getLoadout(): MetaLoadout
+  {
+    const loadout: MetaLoadout = {
+      maxHealthBonus: 0,
+      damageMultiplier: 1.0,
+      moveSpeedMultiplier: 1.0,
+      lockedPowerUps: SHOP_UNLOCKS.filter(u => !this.isUnlocked(u.id)).map(u => u.id)
+    };
+
+    for (const upgrade of SHOP_UPGRADES)
+    {
+      const bonus = this.getUpgradeRank(upgrade.id) * upgrade.perRank;
+
+      switch (upgrade.stat)
+      {
+        case 'max_health': loadout.maxHealthBonus += bonus; break;
+        case 'might': loadout.damageMultiplier += bonus; break;
+        case 'move_speed': loadout.moveSpeedMultiplier += bonus; break;
+      }
+    }
+
+    return loadout;
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { ReplayPlayer, ReplayRecorder, parseReplay } from './Replay';
+import { DEFAULT_LOADOUT, MetaLoadout } from '../configs/MetaShop';
+import { StubInput } from '../../test/stubs';
+
+const FIELD = { width: 800, height: 600 };
+
+describe('Replay', () =>
+{
+  it('round-trips the shop loadout a run was played with', () =>
+  {
+    const loadout: MetaLoadout = {
+      maxHealthBonus: 20,
+      damageMultiplier: 1.1,
+      moveSpeedMultiplier: 1.05,
+      lockedPowerUps: ['axe', 'lightning']
+    };
+    const recorder = new ReplayRecorder(42, FIELD, 'grukk', loadout);
+    recorder.recordFrame(16.67, new StubInput());
+
+    // Later changes to the live loadout don't leak into the recording
+    loadout.lockedPowerUps.pop();
+
+    const data = parseReplay(JSON.stringify(recorder.export()));
+    expect(data).not.toBeNull();
+
+    const player = new ReplayPlayer(data!);
+    expect(player.getLoadout()).toEqual({ ...loadout, lockedPowerUps: ['axe', 'lightning'] });
+    expect(player.getCharacter()).toBe('grukk');
+  });
+
+  it('plays recordings without a loadout with the default one', () =>
+  {
+    const data = new ReplayRecorder(42, FIELD, 'leo').export();
+    delete data.loadout;
+
+    expect(new ReplayPlayer(parseReplay(JSON.stringify(data))!).getLoadout()).toEqual(DEFAULT_LOADOUT);
+  });
+
+  it('rejects a malformed loadout', () =>
+  {
+    const data = { ...new ReplayRecorder(42, FIELD, 'leo').export(), loadout: { maxHealthBonus: 'lots' } };
+
+    expect(parseReplay(JSON.stringify(data))).toBeNull();
+  });
+});
@@ -0,0 +1,412 @@
+/**
+ * Replay.ts - Input recording and playback
+ * Records per-frame delta + input, level-up choices and the run seed so a run can be reproduced frame-for-frame
+ */
+
+import { InputSource } from './Input';
+import { MOVE_STEPS, MoveVector, isZeroMove } from '../systems/Movement';
+import { LevelUpChoice } from '../systems/PowerManager';
+import { DEFAULT_LOADOUT, MetaLoadout } from '../configs/MetaShop';
+
+export const REPLAY_VERSION = 2;
+
+// Version 1 recorded 4-directional input, still playable
+const LEGACY_REPLAY_VERSION = 1;
+
+/**
+ * Compact replay file format
+ * - deltas: run-length encoded frame deltas in ms ("16.67*20,16.66")
+ * - inputs: run-length encoded input states ("0/0*120,71/-71a*3" - move x/y in 1/MOVE_STEPS, "a" = attacking)
+ *   (version 1: "n120,U3" - letter = direction, uppercase = attacking)
+ * - choices: [frameIndex, choice] for every level-up screen choice: a picked powerUpId,
+ *   or "!reroll", "!banish:<powerUpId>", "!skip" for the limited-use actions
+ * - character: playable character id (older recordings have none and start without a character kit)
+ * - loadout: shop bonuses and locked power-ups the run was played with (older recordings have none and play with DEFAULT_LOADOUT)
+ */
+export interface ReplayData
+{
+  version: number;
+  seed: number;
+  field: { width: number; height: number };
+  frameCount: number;
+  deltas: string;
+  inputs: string;
+  choices: Array<[number, string]>;
+  character?: string;
+  loadout?: MetaLoadout;
+}
+
+export interface ReplayFrame
+{
+  deltaMS: number;
+  move: MoveVector;
+  attack: boolean;
+}
+
+const LEGACY_DIRECTION_CODES: Record<string, MoveVector> = {
+  'n': { x: 0, y: 0 },
+  'u': { x: 0, y: -1 },
+  'd': { x: 0, y: 1 },
+  'l': { x: -1, y: 0 },
+  'r': { x: 1, y: 0 }
+};
+
+/**
+ * Encode a frame input ("x/y", "a" suffix when attacking)
+ */
+function encodeInput(move: MoveVector, attack: boolean): string
+{
+  const code = `${Math.round(move.x * MOVE_STEPS)}/${Math.round(move.y * MOVE_STEPS)}`;
+  return attack ? `${code}a` : code;
+}
+
+/**
+ * Decode a frame input (either format)
+ */
+function decodeInput(code: string, version: number): { move: MoveVector; attack: boolean }
+{
+  if (version === LEGACY_REPLAY_VERSION)
+  {
+    return {
+      move: LEGACY_DIRECTION_CODES[code.toLowerCase()] ?? { x: 0, y: 0 },
+      attack: code !== code.toLowerCase()
+    };
+  }
+
+  const attack = code.endsWith('a');
+  const [x, y] = (attack ? code.slice(0, -1) : code).split('/').map(Number);
+
+  return {
+    move: { x: (x || 0) / MOVE_STEPS, y: (y || 0) / MOVE_STEPS },
+    attack
+  };
+}
+
+/**
+ * Encode a level-up choice (picks stay plain power-up ids, as in older recordings)
+ */
+function encodeChoice(choice: LevelUpChoice): string
+{
+  switch (choice.type)
+  {
+    case 'pick': return choice.powerUpId;
+    case 'banish': return `!banish:${choice.powerUpId}`;
+    default: return `!${choice.type}`;
+  }
+}
+
+/**
+ * Decode a recorded level-up choice
+ */
+function decodeChoice(code: string): LevelUpChoice
+{
+  if (code === '!reroll' || code === '!skip')
+  {
+    return { type: code.slice(1) as 'reroll' | 'skip' };
+  }
+
+  if (code.startsWith('!banish:'))
+  {
+    return { type: 'banish', powerUpId: code.slice('!banish:'.length) };
+  }
+
+  return { type: 'pick', powerUpId: code };
+}
+
+/**
+ * Append a value to a run-length encoded list
+ */
+function pushRun(runs: Array<{ value: string; count: number }>, value: string): void
+{
+  const last = runs[runs.length - 1];
+
+  if (last && last.value === value)
+  {
+    last.count++;
+  }
+  else
+  {
+    runs.push({ value, count: 1 });
+  }
+}
+
+/**
+ * Expand a run-length encoded string
+ */
+function expandRuns(encoded: string, separator: string): string[]
+{
+  const values: string[] = [];
+
+  if (encoded.length === 0)
+  {
+    return values;
+  }
+
+  for (const run of encoded.split(','))
+  {
+    const [value, count] = separator ? run.split(separator) : [run.charAt(0), run.slice(1)];
+    const repeat = count ? parseInt(count, 10) : 1;
+
+    for (let i = 0; i < repeat; i++)
+    {
+      values.push(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Records a live run
+ */
+export class ReplayRecorder
+{
+  private seed: number;
+  private field: { width: number; height: number };
+  private character: string;
+  private loadout: MetaLoadout;
+  private frameCount: number = 0;
+  private deltaRuns: Array<{ value: string; count: number }> = [];
+  private inputRuns: Array<{ value: string; count: number }> = [];
+  private choices: Array<[number, string]> = [];
+  private isRecording: boolean = true;
+
+  constructor(seed: number, field: { width: number; height: number }, character: string, loadout: MetaLoadout = DEFAULT_LOADOUT)
+  {
+    this.seed = seed;
+    this.field = { ...field };
+    this.character = character;
+    this.loadout = { ...loadout, lockedPowerUps: [...loadout.lockedPowerUps] };
+  }
+
+  /**
+   * Record one frame (call at the start of every tick)
+   */
+  recordFrame(deltaMS: number, input: InputSource): void
+  {
+    if (!this.isRecording)
+    {
+      return;
+    }
+
+    pushRun(this.deltaRuns, String(deltaMS));
+    pushRun(this.inputRuns, encodeInput(input.getMoveVector(), input.isAttackPressed()));
+    this.frameCount++;
+  }
+
+  /**
+   * Record a level-up screen choice (applied before the next recorded frame)
+   */
+  recordChoice(choice: LevelUpChoice): void
+  {
+    if (!this.isRecording)
+    {
+      return;
+    }
+
+    this.choices.push([this.frameCount, encodeChoice(choice)]);
+  }
+
+  /**
+   * Stop recording (run is over)
+   */
+  stop(): void
+  {
+    this.isRecording = false;
+  }
+
+  /**
+   * Export recording
+   */
+  export(): ReplayData
+  {
+    return {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      field: { ...this.field },
+      frameCount: this.frameCount,
+      deltas: this.deltaRuns.map(run => run.count > 1 ? `${run.value}*${run.count}` : run.value).join(','),
+      inputs: this.inputRuns.map(run => run.count > 1 ? `${run.value}*${run.count}` : run.value).join(','),
+      choices: this.choices.map(choice => [choice[0], choice[1]] as [number, string]),
+      character: this.character,
+      loadout: { ...this.loadout, lockedPowerUps: [...this.loadout.lockedPowerUps] }
+    };
+  }
+}
+
+/**
+ * Fake input manager fed from a recording
+ */
+export class ReplayInputManager implements InputSource
+{
+  private move: MoveVector = { x: 0, y: 0 };
+  private attack: boolean = false;
+
+  /**
+   * Set input state for the current frame
+   */
+  setFrame(frame: ReplayFrame): void
+  {
+    this.move = frame.move;
+    this.attack = frame.attack;
+  }
+
+  getMoveVector(): MoveVector
+  {
+    return this.move;
+  }
+
+  isAttackPressed(): boolean
+  {
+    return this.attack;
+  }
+
+  isMoving(): boolean
+  {
+    return !isZeroMove(this.move);
+  }
+}
+
+/**
+ * Steps through a recording frame by frame
+ */
+export class ReplayPlayer
+{
+  private data: ReplayData;
+  private deltas: number[];
+  private inputs: string[];
+  private frameIndex: number = 0;
+  private choiceIndex: number = 0;
+
+  constructor(data: ReplayData)
+  {
+    this.data = data;
+    this.deltas = expandRuns(data.deltas, '*').map(Number);
+    this.inputs = expandRuns(data.inputs, data.version === LEGACY_REPLAY_VERSION ? '' : '*');
+  }
+
+  /**
+   * Check if there are frames left
+   */
+  hasNext(): boolean
+  {
+    return this.frameIndex < this.deltas.length;
+  }
+
+  /**
+   * Level-up choices recorded right before the next frame
+   */
+  takeChoices(): LevelUpChoice[]
+  {
+    const picked: LevelUpChoice[] = [];
+
+    while (this.choiceIndex < this.data.choices.length && this.data.choices[this.choiceIndex][0] <= this.frameIndex)
+    {
+      picked.push(decodeChoice(this.data.choices[this.choiceIndex][1]));
+      this.choiceIndex++;
+    }
+
+    return picked;
+  }
+
+  /**
+   * Advance to the next frame
+   */
+  next(): ReplayFrame
+  {
+    const deltaMS = this.deltas[this.frameIndex];
+    const input = decodeInput(this.inputs[this.frameIndex] ?? '', this.data.version);
+    this.frameIndex++;
+
+    return { deltaMS, ...input };
+  }
+
+  getSeed(): number
+  {
+    return this.data.seed;
+  }
+
+  getField(): { width: number; height: number }
+  {
+    return this.data.field;
+  }
+
+  /**
+   * Character the run was played with (null for recordings made before the roster)
+   */
+  getCharacter(): string | null
+  {
+    return this.data.character ?? null;
+  }
+
+  /**
+   * Shop loadout the run was played with (DEFAULT_LOADOUT for recordings made before it was saved)
+   */
+  getLoadout(): MetaLoadout
+  {
+    return this.data.loadout ?? DEFAULT_LOADOUT;
+  }
+
+  getProgress(): number
+  {
+    return this.deltas.length > 0 ? this.frameIndex / this.deltas.length : 1;
+  }
+}
+
+function isValidLoadout(value: unknown): value is MetaLoadout
+{
+  const loadout = value as Partial<MetaLoadout> | null;
+
+  return !!loadout &&
+    typeof loadout.maxHealthBonus === 'number' &&
+    typeof loadout.damageMultiplier === 'number' &&
+    typeof loadout.moveSpeedMultiplier === 'number' &&
+    Array.isArray(loadout.lockedPowerUps) &&
+    loadout.lockedPowerUps.every(id => typeof id === 'string');
+}
+
+/**
+ * Parse and validate a replay file
+ */
+export function parseReplay(json: string): ReplayData | null
+{
+  try
+  {
+    const data = JSON.parse(json) as ReplayData;
+
+    if ((data.version !== REPLAY_VERSION && data.version !== LEGACY_REPLAY_VERSION) || typeof data.seed !== 'number' ||
+        typeof data.deltas !== 'string' || typeof data.inputs !== 'string' ||
+        !Array.isArray(data.choices) || !data.field ||
+        (data.character !== undefined && typeof data.character !== 'string') ||
+        (data.loadout !== undefined && !isValidLoadout(data.loadout)))
+    {
+      console.error('[Replay] Invalid replay file');
+      return null;
+    }
+
+    return data;
+  }
+  catch (error)
+  {
+    console.error('[Replay] Failed to parse replay:', error);
+    return null;
+  }
+}
+
+/**
+ * Download a replay as a JSON file
+ */
+export function downloadReplay(data: ReplayData): void
+{
+  const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `alabar-replay-${data.seed}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
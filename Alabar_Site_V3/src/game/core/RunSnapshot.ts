@@ -0,0 +1,134 @@
+/**
+ * RunSnapshot.ts - In-progress run saved across page navigation (sessionStorage)
+ * SiteGame writes a snapshot when the home page game is destroyed mid-run and offers it back on the next visit
+ */
+
+import { MonsterType } from '../systems/DropManager';
+import { FoodTier } from '../entities/Food';
+import { LevelUpCharges, SavedCard } from '../systems/PowerManager';
+import type { ChestType } from '../entities/Chest';
+import { EliteModifier } from '../configs/Elites';
+
+const STORAGE_KEY = 'alabar_run';
+const SNAPSHOT_VERSION = 7;
+
+export interface MonsterSnapshot
+{
+  type: MonsterType;
+  x: number;
+  y: number;
+  health: number;
+  maxHealth: number;
+  damage: number;
+  speed: number; // Base speed (boss phase bonuses are re-applied from health)
+  boss: string | null; // Boss encounter id (Bosses.ts), '' for a flag-only boss
+  elite: EliteModifier[]; // Elite modifiers (empty for regular monsters)
+}
+
+export type PickupSnapshot =
+  | { kind: 'crystal'; x: number; y: number; tier: number; xpValue: number }
+  | { kind: 'food'; x: number; y: number; tier: FoodTier }
+  | { kind: 'star'; x: number; y: number }
+  | { kind: 'skull'; x: number; y: number };
+
+export interface RunSnapshot
+{
+  version: number;
+  seed: number;
+  randomState: number; // RNG position so the run continues its own sequence
+  field: { width: number; height: number }; // Positions are rescaled if the field size changed
+  time: number; // Elapsed run time in seconds
+  character: string; // Playable character id (applied before the power-ups are re-applied)
+  player: { x: number; y: number; health: number; level: number; xp: number };
+  powerUps: string[]; // Every power-up pick in order (re-applied to rebuild stats and weapons)
+  levelUpCards: SavedCard[]; // Hand on the open level-up screen (empty if none, re-shown as dealt)
+  levelUpCharges: LevelUpCharges; // Rerolls/banishes/skips left
+  banished: string[]; // Power-ups removed from the pool
+  wave: number;
+  waveTimer: number;
+  monsters: MonsterSnapshot[];
+  pickups: PickupSnapshot[];
+  rewardChests: Array<{ x: number; y: number; type: ChestType }>; // Unbroken boss/elite reward chests
+  kills: Partial<Record<MonsterType, number>>;
+  chestsBroken: number;
+}
+
+/**
+ * Parse and validate snapshot JSON (null if invalid or from another version)
+ */
+export function parseRunSnapshot(json: string): RunSnapshot | null
+{
+  try
+  {
+    const data = JSON.parse(json) as Partial<RunSnapshot> | null;
+
+    if (!data || data.version !== SNAPSHOT_VERSION ||
+        typeof data.seed !== 'number' || typeof data.randomState !== 'number' ||
+        typeof data.time !== 'number' || typeof data.character !== 'string' || typeof data.wave !== 'number' || typeof data.waveTimer !== 'number' ||
+        !data.field || !data.player || typeof data.player.level !== 'number' ||
+        !Array.isArray(data.powerUps) || !Array.isArray(data.monsters) || !Array.isArray(data.pickups) ||
+        !Array.isArray(data.rewardChests) || !Array.isArray(data.banished) || !Array.isArray(data.levelUpCards) ||
+        !data.levelUpCharges || typeof data.levelUpCharges.reroll !== 'number' ||
+        typeof data.levelUpCharges.banish !== 'number' || typeof data.levelUpCharges.skip !== 'number' ||
+        typeof data.kills !== 'object' || data.kills === null)
+    {
+      console.error('[RunSnapshot] Invalid snapshot');
+      return null;
+    }
+
+    return data as RunSnapshot;
+  }
+  catch (error)
+  {
+    console.error('[RunSnapshot] Failed to parse snapshot:', error);
+    return null;
+  }
+}
+
+/**
+ * Read the saved run (null if there is none)
+ */
+export function loadRunSnapshot(): RunSnapshot | null
+{
+  if (typeof sessionStorage === 'undefined')
+  {
+    return null;
+  }
+
+  const raw = sessionStorage.getItem(STORAGE_KEY);
+  return raw ? parseRunSnapshot(raw) : null;
+}
+
+/**
+ * Save a run (replaces any previous one)
+ */
+export function saveRunSnapshot(snapshot: Omit<RunSnapshot, 'version'>): void
+{
+  if (typeof sessionStorage === 'undefined')
+  {
+    return;
+  }
+
+  try
+  {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify({ version: SNAPSHOT_VERSION, ...snapshot }));
+    console.log(`[RunSnapshot] Run saved (${snapshot.monsters.length} monsters, ${snapshot.pickups.length} pickups)`);
+  }
+  catch (error)
+  {
+    console.error('[RunSnapshot] Failed to save run:', error);
+  }
+}
+
+/**
+ * Forget the saved run (resumed, declined or finished)
+ */
+export function clearRunSnapshot(): void
+{
+  if (typeof sessionStorage === 'undefined')
+  {
+    return;
+  }
+
+  sessionStorage.removeItem(STORAGE_KEY);
+}
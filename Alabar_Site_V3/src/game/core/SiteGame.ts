@@ -3,11 +3,13 @@
  * With Drop System and Pickup Integration
  */
 
-import { Application, Container } from 'pixi.js';
+import { Application, Container, Graphics, Text, Ticker } from 'pixi.js';
 import { AssetManager } from '../../managers/AssetManager';
+import { AudioManager } from '../../managers/AudioManager';
 import { Player } from '../entities/Player';
 import { MonsterBase } from '../entities/monsters/MonsterBase';
 import { CollisionSystem } from '../systems/Collision';
+import { SpatialHash } from '../systems/SpatialHash';
 import { DropManager, MonsterType } from '../systems/DropManager';
 import { PickupBase } from '../entities/PickupBase';
 import { CrystalPickup } from '../entities/Crystal';
@@ -16,13 +18,31 @@ import { StarPickup } from '../entities/Star';
 import { SkullPickup } from '../entities/Skull'; 
 import { EnemySpawner } from '../systems/EnemySpawner';
 import { EnemyProjectileManager } from '../systems/EnemyProjectileManager';
-import { PowerManager } from '../systems/PowerManager';
+import { CardOption, ChestRewardOption, LevelUpChoice, PowerManager } from '../systems/PowerManager';
 import { LevelUpUI } from '../ui/LevelUpUI';
+import { ChestRewardUI } from '../ui/ChestRewardUI';
 import { WeaponSystem } from '../systems/WeaponSystem';
 import { AreaEffectSystem } from '../systems/AreaEffectSystem';
-import { Chest } from '../entities/Chest';
+import { Chest, ChestType } from '../entities/Chest';
 import { GameTimer } from '../ui/GameTimer';
 import { GameOverUI } from '../ui/GameOverUI';
+import { ShopUI } from '../ui/ShopUI';
+import { ControlsUI } from '../ui/ControlsUI';
+import { PauseMenuUI, PauseMenuInfo } from '../ui/PauseMenuUI';
+import { ResumeRunUI } from '../ui/ResumeRunUI';
+import { CharacterSelectUI } from '../ui/CharacterSelectUI';
+import { BossHealthBar } from '../ui/BossHealthBar';
+import { DamageNumbers, DamageNumberStyle } from '../ui/DamageNumbers';
+import { TouchControls } from '../ui/TouchControls';
+import { SeededRandom } from '../../utils/Random';
+import { ObjectPool } from '../../utils/ObjectPool';
+import { InputManager } from './Input';
+import { MetaProgression } from './MetaProgression';
+import { DEFAULT_LOADOUT, MetaLoadout } from '../configs/MetaShop';
+import { Leaderboard, getTotalKills } from './Leaderboard';
+import { ReplayData, ReplayRecorder, ReplayPlayer, ReplayInputManager, downloadReplay } from './Replay';
+import { RunSnapshot, PickupSnapshot, loadRunSnapshot, saveRunSnapshot, clearRunSnapshot } from './RunSnapshot';
+import { CHARACTERS, CharacterDefinition, DEFAULT_CHARACTER_ID, getCharacter } from '../configs/Characters';
 
 interface MonsterSpawnData
 {
@@ -41,12 +61,19 @@ export class SiteGame
   
   // Systems
   private collisionSystem: CollisionSystem;
+  
+  // Broadphase grids, rebuilt every frame (monsters for hits/separation/targeting, pickups for magnets)
+  private monsterGrid = new SpatialHash<MonsterBase>({ cellSize: 128, padding: 32, getPosition: (monster) => monster.getPosition() });
+  private pickupGrid = new SpatialHash<PickupBase>({ cellSize: 128, getPosition: (pickup) => pickup.getPosition() });
   private dropManager: DropManager;
   private enemySpawner!: EnemySpawner;
   private enemyProjectileManager!: EnemyProjectileManager;
   private enemyProjectileContainer!: Container;
   private powerManager!: PowerManager;
   private levelUpUI!: LevelUpUI;
+  private levelUpCards: CardOption[] = []; // Hand on the level-up screen (saved with the run)
+  private chestRewardUI!: ChestRewardUI;
+  private chestRewardQueue: Array<{ type: ChestType; rewards: ChestRewardOption[] }> = []; // Chests opened during a reveal
   private weaponSystem!: WeaponSystem;
   private playerProjectileContainer!: Container;
   private areaEffectSystem!: AreaEffectSystem;
@@ -54,23 +81,75 @@ export class SiteGame
   
   // Entities
   private player: Player | null = null;
+  private character: CharacterDefinition | null = null; // null until picked (and for replays recorded before the roster)
+  private loadout: MetaLoadout = DEFAULT_LOADOUT; // Shop bonuses and locks of this run (recorded in the replay)
   private monsters: MonsterSpawnData[] = [];
   private pickups: PickupBase[] = [];
+  
+  // Pickups are pooled by kind and reset for each drop
+  private crystalPool = this.createPickupPool('crystals', () => new CrystalPickup(this.assetManager, { x: 0, y: 0, tier: 1, xpValue: 0 }));
+  private foodPool = this.createPickupPool('food', () => new FoodPickup(this.assetManager, { x: 0, y: 0, tier: 'eggs' }));
+  private starPool = this.createPickupPool('stars', () => new StarPickup(this.assetManager, { x: 0, y: 0 }));
+  private skullPool = this.createPickupPool('skulls', () => new SkullPickup(this.assetManager, { x: 0, y: 0 }));
   private chest: Chest | null = null;
   private chestMonsterData: MonsterSpawnData | null = null; // Track chest in monsters array
+  private rewardChests: Chest[] = []; // Reward chests dropped by bosses and elites (melee only, kept out of monsters)
   
   // UI
   private gameTimer: GameTimer | null = null;
+  private bossHealthBar: BossHealthBar | null = null;
+  private damageNumbers: DamageNumbers | null = null;
   private gameOverUI: GameOverUI | null = null;
+  private shopUI: ShopUI | null = null;
+  private controlsUI: ControlsUI | null = null;
+  private pauseMenuUI: PauseMenuUI | null = null;
+  private pauseButton: Container | null = null;
+  private resumeRunUI: ResumeRunUI | null = null;
+  private characterSelectUI: CharacterSelectUI | null = null;
+  private touchControls: TouchControls | null = null;
+  
+  // Auto-pause: canvas scrolled out of view or tab hidden (live runs only)
+  private visibilityObserver: IntersectionObserver | null = null;
+  private canvasInView: boolean = true;
+  private readonly MIN_VISIBLE_RATIO = 0.5; // Share of the on-screen canvas that must stay visible
+  
+  private handleVisibilityChange = (): void =>
+  {
+    this.autoPauseIfHidden();
+  };
+  
+  // Touch play mode (coarse pointer): on-screen controls and a taller field on portrait screens
+  private touchMode: boolean = false;
   
   // Game state
   private isRunning: boolean = false;
   private isPaused: boolean = false;
+  private isUserPaused: boolean = false; // Paused by the player (pause menu open)
   private gameStarted: boolean = false; // True after chest is broken
+  private runOver: boolean = false; // Ended or abandoned (nothing left to save on destroy)
+  
+  // Run stats (meta progression rewards, leaderboard)
+  private kills: Partial<Record<MonsterType, number>> = {};
+  private chestsBroken: number = 0;
   
   // Restart callback
   private onRestartCallback?: () => void;
   
+  // Run RNG (every gameplay roll goes through this so a seed reproduces the run)
+  private random: SeededRandom;
+  
+  // Replay (every live run is recorded; a loaded replay drives input instead of the keyboard)
+  private recorder: ReplayRecorder | null = null;
+  private replayPlayer: ReplayPlayer | null = null;
+  private replayInput: ReplayInputManager | null = null;
+  private fieldOverride: { width: number; height: number } | null = null;
+  
+  // Run saved when the player last left the home page (offered on initialize)
+  private savedRun: RunSnapshot | null = null;
+  
+  // Clock driving sprite animations (Ticker.shared) so they step in sync with recorded frames
+  private animationClock: number = 0;
+  
   // Boundaries
   private gameBounds = {
     minX: 100,
@@ -79,12 +158,32 @@ export class SiteGame
     maxY: 0   // Will be calculated
   };
   
-  constructor(gameApp: Application, assetManager: AssetManager, onRestart?: () => void)
+  constructor(gameApp: Application, assetManager: AssetManager, onRestart?: () => void, seed?: number, replay?: ReplayData)
   {
     this.gameApp = gameApp;
     this.assetManager = assetManager;
     this.onRestartCallback = onRestart;
     
+    if (replay)
+    {
+      this.replayPlayer = new ReplayPlayer(replay);
+      this.replayInput = new ReplayInputManager();
+      this.fieldOverride = this.replayPlayer.getField();
+      seed = this.replayPlayer.getSeed();
+      console.log('[SiteGame] Replay mode');
+    }
+    else
+    {
+      // A saved run keeps its seed if resumed (declining restarts with a fresh one)
+      this.savedRun = loadRunSnapshot();
+      seed = this.savedRun?.seed ?? seed;
+    }
+    
+    this.random = new SeededRandom(seed);
+    console.log(`[SiteGame] Run seed: ${this.random.getSeed()}`);
+    
+    this.touchMode = TouchControls.isTouchDevice();
+    
     // Initialize systems
     this.collisionSystem = new CollisionSystem({
       playerRadius: 20,
@@ -93,7 +192,7 @@ export class SiteGame
       xpRadius: 30
     });
     
-    this.dropManager = new DropManager();
+    this.dropManager = new DropManager(this.random);
     
     // Create game container
     this.gameContainer = new Container();
@@ -134,6 +233,39 @@ export class SiteGame
     return this.gameApp.screen.height;
   }
   
+  /**
+   * Get playfield size (green fields area)
+   * Replays use the recorded size so spawns match the original run
+   */
+  private getFieldSize(): { width: number; height: number }
+  {
+    if (this.fieldOverride)
+    {
+      return this.fieldOverride;
+    }
+    
+    return {
+      width: this.gameApp.screen.width,
+      height: this.getGameHeight()
+    };
+  }
+  
+  /**
+   * Canvas height: the green fields (bottom half of the background)
+   * Portrait touch screens get at least 60% of the viewport, the background alone is too short there
+   */
+  private getGameHeight(): number
+  {
+    const fieldsHeight = this.getBackgroundHeight() * 0.50;
+    
+    if (this.touchMode && window.innerHeight > window.innerWidth)
+    {
+      return Math.max(fieldsHeight, window.innerHeight * 0.6);
+    }
+    
+    return fieldsHeight;
+  }
+  
   /**
    * Position the canvas element in DOM at 50% of background height
    */
@@ -141,7 +273,7 @@ export class SiteGame
   {
     const bgHeight = this.getBackgroundHeight();
 
-    const gameHeight = bgHeight * 0.50;     
+    const gameHeight = this.getGameHeight();
 
     const canvasY = bgHeight * 0.50;
 
@@ -157,6 +289,12 @@ export class SiteGame
       canvasParent.style.width = `100%`;
       canvasParent.style.height = `${gameHeight}px`;
     }
+    
+    // Touch play: drags steer the joystick instead of scrolling/zooming the page
+    if (this.touchMode)
+    {
+      canvasElement.style.touchAction = 'none';
+    }
 
     this.gameApp.renderer.resize(
       this.gameApp.screen.width,
@@ -169,10 +307,9 @@ export class SiteGame
    */
   private updateGameBounds(): void
   {
-    const screenWidth = this.gameApp.screen.width;
-    const bgHeight = this.getBackgroundHeight();
-
-    const greenFieldsHeight = bgHeight * 0.50;
+    const field = this.getFieldSize();
+    const screenWidth = field.width;
+    const greenFieldsHeight = field.height;
 
     this.gameBounds = {
       minX: 25,                       // Small left margin
@@ -234,12 +371,32 @@ export class SiteGame
       this.areaEffectContainer
     );
     
+    // Weapon throw and hit sounds
+    const audio = AudioManager.getInstance();
+    this.weaponSystem.setFireListener((_sourceId, x, y) => {
+      audio.playSfx('throw', { x, y });
+    });
+    const playHit = (_sourceId: string, _damage: number, target: MonsterBase) => {
+      audio.playSfx('hit', target.getPosition());
+    };
+    this.weaponSystem.setDamageListener(playHit);
+    this.areaEffectSystem.setDamageListener(playHit);
+    
     // NOW connect all systems to player (after they're all created)
     if (this.player)
     {
       this.player.setWeaponSystem(this.weaponSystem);
       this.player.setAreaEffectSystem(this.areaEffectSystem);
       
+      // Hits roll the player's crit stats
+      const rollCritical = (damage: number) => this.player!.rollCritical(damage);
+      this.weaponSystem.setCriticalRoll(rollCritical);
+      this.areaEffectSystem.setCriticalRoll(rollCritical);
+      
+      // Hit checks only look at monsters near each projectile/effect
+      this.weaponSystem.setSpatialIndex(this.monsterGrid);
+      this.areaEffectSystem.setSpatialIndex(this.monsterGrid);
+      
       // Provide monster targeting for powers
       this.player.getNearestMonsters = (count: number) => {
         return this.getNearestMonstersToPlayer(count);
@@ -263,7 +420,8 @@ export class SiteGame
       assetManager: this.assetManager,
       player: this.player!,
       bounds: this.gameBounds,
-      spawnRadius: 400
+      spawnRadius: 400,
+      random: this.random
     });
     
     // Connect projectile manager to spawner (for plant projectiles)
@@ -280,6 +438,15 @@ export class SiteGame
     this.gameContainer.addChild(this.gameTimer);
     this.gameTimer.hide(); // Hidden until chest breaks
     
+    // Boss health bar (under the timer, shown while a boss is alive)
+    this.bossHealthBar = new BossHealthBar();
+    this.gameContainer.addChild(this.bossHealthBar);
+    this.bossHealthBar.resize(containerWidth);
+    
+    // Floating damage/heal numbers (world layer, above entities)
+    this.damageNumbers = new DamageNumbers();
+    this.gameContainer.addChild(this.damageNumbers);
+    
     // Initialize game over UI
     this.gameOverUI = new GameOverUI();
     this.gameOverUI.zIndex = 20000;
@@ -287,8 +454,58 @@ export class SiteGame
     this.gameOverUI.resize(this.gameApp.screen.width, this.gameApp.screen.height);
     this.gameOverUI.hide();
     
-    // Spawn starter chest at center
-    this.spawnStarterChest();
+    // Initialize meta progression shop (opened from game over)
+    this.shopUI = new ShopUI();
+    this.gameContainer.addChild(this.shopUI);
+    this.shopUI.resize(this.gameApp.screen.width, this.gameApp.screen.height);
+    
+    // Pause menu (Escape / Start / HUD button) and the key rebinding screen it opens
+    // Replays take no input, so they get neither
+    if (!this.replayPlayer)
+    {
+      this.pauseMenuUI = new PauseMenuUI({
+        onResume: () => this.togglePause(),
+        onRestart: () => this.restartGame(),
+        onQuit: () => this.quitRun(),
+        onOpenControls: () => this.openControls()
+      });
+      this.gameContainer.addChild(this.pauseMenuUI);
+      this.pauseMenuUI.resize(this.gameApp.screen.width, this.gameApp.screen.height);
+      
+      this.controlsUI = new ControlsUI();
+      this.gameContainer.addChild(this.controlsUI);
+      this.controlsUI.resize(this.gameApp.screen.width, this.gameApp.screen.height);
+      
+      this.pauseButton = this.createPauseButton();
+      this.gameContainer.addChild(this.pauseButton);
+      this.pauseButton.position.set(this.gameApp.screen.width - 60, 24);
+    }
+    
+    // On-screen controls for touch screens (replays play themselves)
+    if (this.touchMode && !this.replayPlayer)
+    {
+      this.touchControls = new TouchControls();
+      this.gameContainer.addChild(this.touchControls);
+      this.touchControls.resize(this.gameApp.screen.width, this.gameApp.screen.height);
+    }
+    
+    this.watchVisibility();
+    
+    // Saved runs and replays bring their character, live runs pick one before the starter chest appears
+    if (this.savedRun)
+    {
+      this.spawnStarterChest();
+      this.offerSavedRun();
+    }
+    else if (this.replayPlayer)
+    {
+      const characterId = this.replayPlayer.getCharacter();
+      this.beginRun(characterId === null ? null : getCharacter(characterId));
+    }
+    else
+    {
+      this.showCharacterSelect();
+    }
     
     // Start game loop (but game hasn't "started" until chest breaks)
     this.start();
@@ -299,9 +516,9 @@ export class SiteGame
    */
   private spawnPlayer(): void
   {
-    const screenWidth = this.gameApp.screen.width;
-    const bgHeight = this.getBackgroundHeight();
-    const greenFieldsHeight = bgHeight * 0.50;
+    const field = this.getFieldSize();
+    const screenWidth = field.width;
+    const greenFieldsHeight = field.height;
     
     const startX = screenWidth * 0.20;
     const startY = greenFieldsHeight * 0.50;
@@ -312,38 +529,188 @@ export class SiteGame
       speed: 2.0,
       bounds: this.gameBounds,
       onLevelUp: (_newLevel: number) => {
-        this.pause();
-        const cards = this.powerManager.generateLevelUpCards();
-        if (cards.length > 0)
-        {
-          this.levelUpUI.show(cards, this.gameApp.screen.width, this.gameApp.screen.height);
-        }
-        else
-        {
-          this.resume();
-        }
+        this.showLevelUp();
       },
       onDeath: () => {
         this.handlePlayerDeath();
-      }
+      },
+      random: this.random,
+      inputSource: this.replayInput ?? undefined
     });
     
     this.player.scale.set(2.0, 2.0);
     this.player.zIndex = 1000;
     this.gameContainer.addChild(this.player);
     
-    // Initialize power manager
-    this.powerManager = new PowerManager(this.player);
+    // Player damage, Food heals and armor blocks as floating numbers
+    const showOnPlayer = (amount: number, style: DamageNumberStyle) => {
+      const position = this.player!.getPosition();
+      this.damageNumbers?.show(position.x, position.y - 40, amount, style);
+    };
+    this.player.on('damaged', (amount: number) => showOnPlayer(amount, 'hurt'));
+    this.player.on('healed', (amount: number) => showOnPlayer(amount, 'heal'));
+    this.player.on('blocked', (amount: number) => showOnPlayer(amount, 'blocked'));
+    
+    // Initialize power manager (replays use the shop loadout they were recorded with so they stay reproducible)
+    this.loadout = this.replayPlayer ? this.replayPlayer.getLoadout() : MetaProgression.getInstance().getLoadout();
+    this.powerManager = new PowerManager(this.player, this.random, this.loadout);
     
     // Initialize level-up UI
     this.levelUpUI = new LevelUpUI(this.assetManager, {
-      onCardSelected: (powerUpId: string) => {
-        this.powerManager.addPowerUp(powerUpId);
-        this.resume();
+      onChoice: (choice: LevelUpChoice) => {
+        // Replays apply recorded choices on their own frame
+        if (this.replayPlayer)
+        {
+          return;
+        }
+        
+        if (this.recorder)
+        {
+          this.recorder.recordChoice(choice);
+        }
+        
+        this.applyLevelUpChoice(choice);
       }
     });
     this.levelUpUI.zIndex = 10000;
     this.gameContainer.addChild(this.levelUpUI);
+    
+    // Initialize chest reward reveal (closes by itself after the reels stop)
+    this.chestRewardUI = new ChestRewardUI(this.assetManager, {
+      onClose: () => {
+        this.showNextChestReward();
+      }
+    });
+    this.gameContainer.addChild(this.chestRewardUI);
+  }
+  
+  /**
+   * Pause and let the player pick a character (characters whose starting weapon is still locked in the shop are greyed out)
+   */
+  private showCharacterSelect(): void
+  {
+    const locked = MetaProgression.getInstance().getLoadout().lockedPowerUps;
+    
+    this.characterSelectUI = new CharacterSelectUI(this.assetManager, {
+      onSelect: (character: CharacterDefinition) => {
+        this.beginRun(character);
+        this.resume();
+      }
+    });
+    this.gameContainer.addChild(this.characterSelectUI);
+    this.characterSelectUI.show(CHARACTERS.map(character => ({
+      character,
+      locked: locked.includes(character.startingWeapon)
+    })));
+    this.characterSelectUI.resize(this.gameApp.screen.width, this.gameApp.screen.height);
+    
+    this.pause();
+  }
+  
+  /**
+   * Start a fresh run: character kit, starter chest and recording
+   * Replays recorded before the roster pass null and start without a kit, as they were played
+   */
+  private beginRun(character: CharacterDefinition | null): void
+  {
+    this.character = character;
+    
+    if (character && this.player)
+    {
+      this.player.applyCharacter(character);
+      this.powerManager.addWeapon(character.startingWeapon);
+    }
+    
+    // Spawn starter chest at center
+    this.spawnStarterChest();
+    
+    // Record live runs (replays are not re-recorded)
+    if (!this.replayPlayer)
+    {
+      this.recorder = new ReplayRecorder(this.random.getSeed(), this.getFieldSize(), character?.id ?? DEFAULT_CHARACTER_ID, this.loadout);
+    }
+  }
+  
+  /**
+   * Pause and deal level-up cards
+   */
+  private showLevelUp(): void
+  {
+    AudioManager.getInstance().playSfx('level_up');
+    this.pause();
+    this.dealLevelUpCards(this.powerManager.generateLevelUpCards());
+  }
+  
+  /**
+   * Show a hand of level-up cards (an empty hand resumes the game)
+   */
+  private dealLevelUpCards(cards: CardOption[]): void
+  {
+    this.levelUpCards = cards;
+    
+    if (cards.length > 0)
+    {
+      this.levelUpUI.show(cards, this.gameApp.screen.width, this.gameApp.screen.height, this.powerManager.getCharges());
+    }
+    else
+    {
+      this.levelUpUI.hide();
+      this.resumeAfterMenus();
+    }
+  }
+  
+  /**
+   * Resume unless a level-up or chest reveal still holds the game (a chest can break while cards are up)
+   */
+  private resumeAfterMenus(): void
+  {
+    if (!this.levelUpUI.visible && !this.chestRewardUI.visible)
+    {
+      this.resume();
+    }
+  }
+  
+  /**
+   * Apply a level-up screen choice (live or replayed, so both draw the same random numbers)
+   */
+  private applyLevelUpChoice(choice: LevelUpChoice): void
+  {
+    switch (choice.type)
+    {
+      case 'pick':
+        this.levelUpUI.hide();
+        this.powerManager.addPowerUp(choice.powerUpId);
+        this.resumeAfterMenus();
+        break;
+        
+      case 'reroll':
+      {
+        const cards = this.powerManager.reroll();
+        if (cards)
+        {
+          this.dealLevelUpCards(cards);
+        }
+        break;
+      }
+        
+      case 'banish':
+      {
+        const cards = this.powerManager.banish(choice.powerUpId);
+        if (cards)
+        {
+          this.dealLevelUpCards(cards);
+        }
+        break;
+      }
+        
+      case 'skip':
+        this.levelUpUI.hide();
+        this.powerManager.skip();
+        
+        // The skip XP may have dealt a new hand
+        this.resumeAfterMenus();
+        break;
+    }
   }
   
   /**
@@ -351,9 +718,9 @@ export class SiteGame
    */
   private spawnStarterChest(): void
   {
-    const containerWidth = this.gameApp.screen.width;
-    const bgHeight = this.getBackgroundHeight();
-    const greenFieldsHeight = bgHeight * 0.50;
+    const field = this.getFieldSize();
+    const containerWidth = field.width;
+    const greenFieldsHeight = field.height;
     
     // Center of game container
     const centerX = containerWidth / 2;
@@ -362,6 +729,7 @@ export class SiteGame
     this.chest = new Chest(this.assetManager, {
       x: centerX,
       y: centerY,
+      random: this.random,
       onBreak: () => {
         this.onChestBreak();
       }
@@ -388,6 +756,38 @@ export class SiteGame
   {
     console.log('[SiteGame] Chest broken! Starting game...');
     
+    this.chestsBroken++;
+    
+    if (this.chest)
+    {
+      AudioManager.getInstance().playSfx('chest_break', this.chest.getPosition());
+    }
+    
+    this.removeChest();
+    
+    // Level up player
+    if (this.player)
+    {
+      this.player.addXP(this.player.getXPNeeded());
+      console.log('[SiteGame] Player leveled up to level', this.player.getLevel());
+    }
+    
+    // Start game timer
+    if (this.gameTimer)
+    {
+      this.gameTimer.show();
+      this.gameTimer.start();
+    }
+    
+    // Mark game as started (enables monster spawning)
+    this.gameStarted = true;
+  }
+  
+  /**
+   * Take the starter chest out of the game (broken or skipped by a resumed run)
+   */
+  private removeChest(): void
+  {
     // Remove chest from monsters array
     if (this.chestMonsterData)
     {
@@ -406,25 +806,128 @@ export class SiteGame
       this.chest.destroy();
       this.chest = null;
     }
+  }
+  
+  /**
+   * Drop a reward chest where a boss or elite died (breaking it opens the chest reveal)
+   */
+  private spawnRewardChest(x: number, y: number, type: ChestType): void
+  {
+    const bounds = this.gameBounds;
+    const chest = new Chest(this.assetManager, {
+      x: Math.max(bounds.minX, Math.min(bounds.maxX, x)),
+      y: Math.max(bounds.minY, Math.min(bounds.maxY, y)),
+      type,
+      onBreak: () => {
+        this.onRewardChestBreak(chest);
+      }
+    });
+    
+    chest.zIndex = 500;
+    this.gameContainer.addChild(chest);
+    this.rewardChests.push(chest);
+    
+    console.log(`[SiteGame] Reward chest dropped (${type})`);
+  }
+  
+  /**
+   * Reward chest broken - upgrade owned power-ups (1/3/5 by chest type) and reveal them
+   * A build with nothing left to upgrade gets a level-up instead (the chest is removed on the next update)
+   */
+  private onRewardChestBreak(chest: Chest): void
+  {
+    this.chestsBroken++;
+    
+    AudioManager.getInstance().playSfx('chest_break', chest.getPosition());
+    
+    const type = chest.getChestType();
+    const rewards = this.powerManager.openChest(type);
+    
+    if (rewards.length === 0)
+    {
+      if (this.player)
+      {
+        this.player.addXP(this.player.getXPNeeded());
+      }
+      return;
+    }
     
-    // Level up player
-    if (this.player)
+    this.chestRewardQueue.push({ type, rewards });
+    
+    if (!this.chestRewardUI.visible)
     {
-      this.player.addXP(this.player.getXPNeeded());
-      console.log('[SiteGame] Player leveled up to level', this.player.getLevel());
+      this.pause();
+      this.showNextChestReward();
     }
+  }
+  
+  /**
+   * Reveal the next opened chest, or resume once the queue is empty
+   * Rewards are applied when the chest opens, the reveal only shows them
+   */
+  private showNextChestReward(): void
+  {
+    const next = this.chestRewardQueue.shift();
     
-    // Start game timer
-    if (this.gameTimer)
+    if (!next)
     {
-      this.gameTimer.show();
-      this.gameTimer.start();
+      this.resumeAfterMenus();
+      return;
     }
     
-    // Mark game as started (enables monster spawning)
-    this.gameStarted = true;
+    this.chestRewardUI.show(next.type, next.rewards, this.powerManager.getAllOwnedPowerUps());
+    this.chestRewardUI.resize(this.gameApp.screen.width, this.gameApp.screen.height);
+  }
+  
+  /**
+   * Update reward chests and take broken ones off the field
+   */
+  private updateRewardChests(delta: number): void
+  {
+    for (let i = this.rewardChests.length - 1; i >= 0; i--)
+    {
+      const chest = this.rewardChests[i];
+      
+      if (chest.getIsBroken())
+      {
+        this.gameContainer.removeChild(chest);
+        chest.destroy();
+        this.rewardChests.splice(i, 1);
+      }
+      else
+      {
+        chest.update(delta);
+      }
+    }
   }
   
+  /**
+   * Show the first living boss on the boss bar (hidden when there is none)
+   */
+  private updateBossBar(): void
+  {
+    if (!this.bossHealthBar)
+    {
+      return;
+    }
+    
+    const boss = this.monsters.find(s => s.monster.getIsBoss() && !s.monster.isDead())?.monster;
+    const definition = boss?.getBossDefinition();
+    
+    if (!boss || !definition)
+    {
+      this.bossHealthBar.hide();
+      return;
+    }
+    
+    this.bossHealthBar.show(
+      definition.name,
+      boss.getHealthPercentage(),
+      definition.phases.map(phase => phase.belowHealth).filter(threshold => threshold < 1),
+      boss.getBossPhase()
+    );
+  }
+
 //   /**
 //    * Get random spawn position within bounds
 //    */
@@ -441,83 +944,121 @@ export class SiteGame
 //   }
   
   /**
-   * Spawn pickup from drop result
+   * Spawn pickup from drop result (elites roll the improved drop table)
    */
-  private spawnPickup(x: number, y: number, monsterType: MonsterType): void
+  private spawnPickup(x: number, y: number, monsterType: MonsterType, elite: boolean = false): void
   {
     // Roll for rare drops (0.5% Star, 0.5% Skull)
     const rareDrop = this.dropManager.rollRareDrop();
     
     if (rareDrop)
     {
-      let pickup: PickupBase;
-      
-      if (rareDrop.type === 'star')
-      {
-        pickup = new StarPickup(this.assetManager, {
-          x: x,
-          y: y,
-          duration: 8,
-          particleContainer: this.gameContainer
-        });
-      }
-      else // skull
-      {
-        pickup = new SkullPickup(this.assetManager, {
-          x: x,
-          y: y,
-          damage: 9999,
-          particleContainer: this.gameContainer
-        });
-        
-        pickup.on('screen-clear', (data: any) => {
-          this.handleScreenClear(data.damage);
-        });
-      }
-      pickup.zIndex = 100;
-      this.gameContainer.addChild(pickup);
-      this.pickups.push(pickup);
+      this.addPickup(this.createPickup({ kind: rareDrop.type === 'star' ? 'star' : 'skull', x, y }));
 
       return; // Skip normal drops
     }
     
     // Roll for normal drops (crystals/food)
-    const drop = this.dropManager.rollDrop(monsterType);
+    const drop = this.dropManager.rollDrop(monsterType, elite);
     
     if (drop.type === 'none')
     {
       return;
     }
     
-    let pickup: PickupBase;
-    
     if (drop.type === 'crystal')
     {
-      pickup = new CrystalPickup(this.assetManager, {
-        x: x,
-        y: y,
-        tier: drop.tier!,
-        xpValue: drop.xpValue!,
-        particleContainer: this.gameContainer
-      });
+      this.addPickup(this.createPickup({ kind: 'crystal', x, y, tier: drop.tier!, xpValue: drop.xpValue! }));
     }
     else if (drop.type === 'food')
     {
       // Use foodTier from drop result
-      const foodTier = drop.foodTier || 'eggs';
-      
-      pickup = new FoodPickup(this.assetManager, {
-        x: x,
-        y: y,
-        tier: foodTier,
-        particleContainer: this.gameContainer
-      });
+      this.addPickup(this.createPickup({ kind: 'food', x, y, tier: drop.foodTier || 'eggs' }));
     }
-    else
+  }
+  
+  /**
+   * Pool for one kind of pickup
+   */
+  private createPickupPool<T extends PickupBase>(name: string, create: () => T): ObjectPool<T>
+  {
+    return new ObjectPool<T>({
+      name: name,
+      create: create,
+      reset: (pickup) => pickup.removeAllListeners('screen-clear'),
+      dispose: (pickup) => pickup.destroy()
+    });
+  }
+  
+  /**
+   * Take a pickup from its pool and place it (drops and restored runs)
+   */
+  private createPickup(spec: PickupSnapshot): PickupBase
+  {
+    const position = { x: spec.x, y: spec.y, particleContainer: this.gameContainer };
+    
+    switch (spec.kind)
     {
-      return; // Unknown drop type
+      case 'crystal':
+      {
+        const crystal = this.crystalPool.acquire();
+        crystal.reset({ ...position, tier: spec.tier, xpValue: spec.xpValue });
+        return crystal;
+      }
+      case 'food':
+      {
+        const food = this.foodPool.acquire();
+        food.reset({ ...position, tier: spec.tier });
+        return food;
+      }
+      case 'star':
+      {
+        const star = this.starPool.acquire();
+        star.reset({ ...position, duration: 8 });
+        return star;
+      }
+      case 'skull':
+      {
+        const skull = this.skullPool.acquire();
+        skull.reset({ ...position, damage: 9999 });
+        skull.on('screen-clear', (data: { damage: number }) => {
+          this.handleScreenClear(data.damage);
+        });
+        return skull;
+      }
     }
+  }
+  
+  /**
+   * Take a pickup off the field and back into its pool
+   */
+  private releasePickup(pickup: PickupBase): void
+  {
+    this.gameContainer.removeChild(pickup);
     
+    if (pickup instanceof CrystalPickup)
+    {
+      this.crystalPool.release(pickup);
+    }
+    else if (pickup instanceof FoodPickup)
+    {
+      this.foodPool.release(pickup);
+    }
+    else if (pickup instanceof StarPickup)
+    {
+      this.starPool.release(pickup);
+    }
+    else if (pickup instanceof SkullPickup)
+    {
+      this.skullPool.release(pickup);
+    }
+  }
+  
+  /**
+   * Put a pickup on the field
+   */
+  private addPickup(pickup: PickupBase): void
+  {
     pickup.zIndex = 100;
     
     this.gameContainer.addChild(pickup);
@@ -553,19 +1094,7 @@ export class SiteGame
     
     for (const monster of newMonsters)
     {
-      monster.scale.set(2.0, 2.0);
-      monster.zIndex = 500;
-      
-      this.gameContainer.addChild(monster);
-      
-      // Add to monsters array with type
-      const monsterType = (monster as any).monsterTypeName as MonsterType;
-      
-      this.monsters.push({
-        monster: monster,
-        monsterType: monsterType,
-        respawnTimer: 0
-      });
+      this.addMonster(monster);
     }
     
     for (let i = this.monsters.length - 1; i >= 0; i--)
@@ -582,9 +1111,26 @@ export class SiteGame
           if (spawnData.respawnTimer === 0)
           {
             const deathPos = spawnData.monster.getPosition();
-            this.spawnPickup(deathPos.x, deathPos.y, spawnData.monsterType);
+            const elite = spawnData.monster.isElite();
+            this.spawnPickup(deathPos.x, deathPos.y, spawnData.monsterType, elite);
+            
+            // Bosses always leave a reward chest (gold or bone), elites sometimes (mostly gray)
+            if (spawnData.monster.getIsBoss())
+            {
+              this.spawnRewardChest(deathPos.x, deathPos.y, this.dropManager.rollChestType('boss'));
+            }
+            else if (elite)
+            {
+              const chestType = this.dropManager.rollEliteChest();
+              if (chestType)
+              {
+                this.spawnRewardChest(deathPos.x, deathPos.y, chestType);
+              }
+            }
           }
           
+          this.kills[spawnData.monsterType] = (this.kills[spawnData.monsterType] ?? 0) + 1;
+          
           // Remove dead monster immediately (no respawn)
           this.gameContainer.removeChild(spawnData.monster);
           spawnData.monster.destroy();
@@ -594,10 +1140,11 @@ export class SiteGame
       else
       {
         // Update nearby monsters for separation
+        const position = spawnData.monster.getPosition();
         spawnData.monster.setNearbyMonsters(
-          this.monsters
-            .filter(s => !s.monster.isDead())
-            .map(s => s.monster)
+          this.monsterGrid
+            .query(position.x, position.y, 50) // MonsterBase separation distance
+            .filter(monster => !monster.isDead())
         );
         
         // Update alive monster
@@ -606,6 +1153,29 @@ export class SiteGame
     }
   }
   
+  /**
+   * Put a spawned monster on the field
+   */
+  private addMonster(monster: MonsterBase): void
+  {
+    monster.scale.set(2.0, 2.0);
+    monster.zIndex = 500;
+    
+    this.gameContainer.addChild(monster);
+    
+    monster.on('damaged', (amount: number, critical: boolean) => {
+      const position = monster.getPosition();
+      this.damageNumbers?.show(position.x, position.y - 30, amount, critical ? 'critical' : 'damage');
+    });
+    
+    // Add to monsters array with type
+    this.monsters.push({
+      monster: monster,
+      monsterType: monster.monsterTypeName,
+      respawnTimer: 0
+    });
+  }
+  
   /**
    * Update pickups (magnet + collision)
    */
@@ -616,6 +1186,14 @@ export class SiteGame
       return;
     }
     
+    // Get player position
+    const playerPos = this.player.getPosition();
+    const playerRadius = this.collisionSystem.getRadii().playerRadius!;
+    
+    // Only pickups whose magnet (or body) can reach the player need the checks below
+    this.pickupGrid.rebuild(this.pickups, (pickup) => Math.max(pickup.getMagnetRadius(), pickup.getPickupRadius()));
+    const nearbyPickups = new Set(this.pickupGrid.query(playerPos.x, playerPos.y, playerRadius));
+    
     for (let i = this.pickups.length - 1; i >= 0; i--)
     {
       const pickup = this.pickups[i];
@@ -629,8 +1207,11 @@ export class SiteGame
       // Update pickup (age/lifetime)
       pickup.update(_delta);
       
-      // Get player position
-      const playerPos = this.player.getPosition();
+      // Far away: nothing to do (unless it still needs to drop its magnet state)
+      if (!nearbyPickups.has(pickup) && !pickup.isInMagnetRange())
+      {
+        continue;
+      }
       
       // Update magnet behavior
       pickup.updateMagnet(playerPos.x, playerPos.y);
@@ -641,21 +1222,47 @@ export class SiteGame
       const dy = playerPos.y - pickupPos.y;
       const distance = Math.sqrt(dx * dx + dy * dy);
       
-      const collisionDistance = this.collisionSystem['playerRadius'] + pickup.getPickupRadius();
+      const collisionDistance = playerRadius + pickup.getPickupRadius();
       
       if (distance <= collisionDistance)
       {
         // Pickup collected!
         pickup.onPickup(this.player);
+        this.playPickupSound(pickup);
         
         // Remove from array
-        this.gameContainer.removeChild(pickup);
-        pickup.destroy();
+        this.releasePickup(pickup);
         this.pickups.splice(i, 1);
       }
     }
   }
   
+  /**
+   * Play the collect sound for a pickup type
+   */
+  private playPickupSound(pickup: PickupBase): void
+  {
+    const audio = AudioManager.getInstance();
+    const position = pickup.getPosition();
+    
+    if (pickup instanceof CrystalPickup)
+    {
+      audio.playSfx('pickup_crystal', position);
+    }
+    else if (pickup instanceof FoodPickup)
+    {
+      audio.playSfx('pickup_food', position);
+    }
+    else if (pickup instanceof StarPickup)
+    {
+      audio.playSfx('pickup_star', position);
+    }
+    else if (pickup instanceof SkullPickup)
+    {
+      audio.playSfx('pickup_skull', position);
+    }
+  }
+  
   /**
    * Start the game loop
    */
@@ -667,6 +1274,12 @@ export class SiteGame
     }
     
     this.isRunning = true;
+    
+    // Take over Ticker.shared so sprite animations advance with game frames
+    Ticker.shared.stop();
+    this.animationClock = performance.now();
+    Ticker.shared.lastTime = this.animationClock;
+    
     this.gameApp.ticker.add(this.update, this);
   }
   
@@ -682,6 +1295,9 @@ export class SiteGame
     
     this.isRunning = false;
     this.gameApp.ticker.remove(this.update, this);
+    
+    // Hand sprite animations back to Ticker.shared
+    Ticker.shared.start();
   }
   
   /**
@@ -700,17 +1316,256 @@ export class SiteGame
     this.isPaused = false;
   }
   
+  /**
+   * Open/close the pause menu (ignored while a level-up or game over holds the game)
+   * The run clock stops with it; sprite animations freeze in update()
+   */
+  togglePause(notice?: string): void
+  {
+    if (this.isUserPaused)
+    {
+      this.isUserPaused = false;
+      this.pauseMenuUI?.hide();
+      
+      if (this.gameStarted)
+      {
+        this.gameTimer?.resume();
+      }
+      
+      this.resume();
+    }
+    else if (!this.isPaused)
+    {
+      this.isUserPaused = true;
+      this.pause();
+      
+      if (this.gameStarted)
+      {
+        this.gameTimer?.pause();
+      }
+      
+      this.pauseMenuUI?.show({ ...this.getPauseMenuInfo(), notice });
+    }
+  }
+  
+  /**
+   * Observe canvas scroll visibility and tab visibility (replays keep playing, nobody is attacked)
+   */
+  private watchVisibility(): void
+  {
+    if (this.replayPlayer)
+    {
+      return;
+    }
+    
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    
+    if (typeof IntersectionObserver === 'undefined')
+    {
+      return;
+    }
+    
+    const thresholds = Array.from({ length: 11 }, (_, i) => i / 10);
+    
+    this.visibilityObserver = new IntersectionObserver((entries) => {
+      const entry = entries[entries.length - 1];
+      
+      // The canvas can be taller than the viewport: compare with the part that fits on screen
+      const viewportHeight = entry.rootBounds?.height ?? window.innerHeight;
+      const fitHeight = Math.min(entry.boundingClientRect.height, viewportHeight);
+      
+      this.canvasInView = entry.isIntersecting && entry.intersectionRect.height >= fitHeight * this.MIN_VISIBLE_RATIO;
+      this.autoPauseIfHidden();
+    }, { threshold: thresholds });
+    
+    this.visibilityObserver.observe(this.gameApp.canvas);
+  }
+  
+  /**
+   * Open the pause menu when the game can't be seen mid-run
+   * (before the chest breaks nothing is attacking, so scrolling the site stays uninterrupted)
+   */
+  private autoPauseIfHidden(): void
+  {
+    const hidden = document.visibilityState === 'hidden' || !this.canvasInView;
+    
+    if (!hidden || !this.gameStarted || this.isPaused || this.replayPlayer)
+    {
+      return;
+    }
+    
+    console.log('[SiteGame] Game out of view - auto-pausing');
+    this.togglePause('Paused while the game was out of view');
+  }
+  
+  /**
+   * Current run for the pause menu
+   */
+  private getPauseMenuInfo(): PauseMenuInfo
+  {
+    return {
+      time: this.gameTimer?.getFormattedTime() ?? '00:00',
+      level: this.player?.getLevel() ?? 1,
+      wave: this.enemySpawner.getCurrentWave(),
+      kills: getTotalKills({ kills: this.kills }),
+      build: this.powerManager.getAllOwnedPowerUps().map(p => ({ name: p.name, level: p.level, maxLevel: p.maxLevel })),
+      canQuit: this.gameStarted,
+      showControls: !this.touchMode
+    };
+  }
+  
+  /**
+   * Menu input from gamepad and keyboard: level-up card selection, pause and restart on Start
+   * Returns true when the game was restarted (this instance is destroyed)
+   */
+  private handleMenuInput(): boolean
+  {
+    const input = InputManager.getInstance();
+    input.update();
+    
+    if (this.gameOverUI && this.gameOverUI.visible)
+    {
+      if (input.wasGamepadPressed('start'))
+      {
+        this.restartGame();
+        return true;
+      }
+      return false;
+    }
+    
+    // Replays pick their own cards and can't pause (frames keep streaming)
+    // The controls screen takes keys itself and is closed with its button
+    if (this.replayPlayer || this.controlsUI?.visible)
+    {
+      return false;
+    }
+    
+    // Saved run prompt: confirm resumes, New Run is left to the button
+    if (this.resumeRunUI?.visible)
+    {
+      if (input.wasGamepadPressed('confirm'))
+      {
+        this.resumeSavedRun();
+      }
+      return false;
+    }
+    
+    // Card screens (character select, level-up) share left/right focus, confirm and the number keys
+    // (a card picked with the number keys closes the level-up screen before its actions are read)
+    const cardMenu = this.characterSelectUI?.visible ? this.characterSelectUI : this.levelUpUI?.visible ? this.levelUpUI : null;
+    
+    if (cardMenu)
+    {
+      if (input.wasGamepadPressed('left'))
+      {
+        cardMenu.moveFocus(-1);
+      }
+      if (input.wasGamepadPressed('right'))
+      {
+        cardMenu.moveFocus(1);
+      }
+      if (input.wasGamepadPressed('confirm'))
+      {
+        cardMenu.confirmFocus();
+      }
+      
+      const cardActions = ['card_1', 'card_2', 'card_3'] as const;
+      const pressed = cardActions.findIndex(action => input.wasActionPressed(action));
+      if (pressed !== -1)
+      {
+        cardMenu.selectCard(pressed);
+      }
+      
+      // Level-up actions (each UI call ignores actions with no uses left)
+      if (cardMenu === this.levelUpUI && this.levelUpUI.visible)
+      {
+        if (input.wasActionPressed('reroll') || input.wasGamepadPressed('reroll'))
+        {
+          this.levelUpUI.reroll();
+        }
+        if (input.wasActionPressed('banish') || input.wasGamepadPressed('banish'))
+        {
+          this.levelUpUI.toggleBanish();
+        }
+        if (input.wasActionPressed('skip') || input.wasGamepadPressed('skip'))
+        {
+          this.levelUpUI.skip();
+        }
+      }
+      return false;
+    }
+    
+    if (input.wasGamepadPressed('start') || input.wasActionPressed('pause'))
+    {
+      this.togglePause();
+    }
+    
+    return false;
+  }
+  
+  /**
+   * Hide touch controls behind menus (cards and buttons take the taps)
+   */
+  private updateTouchControls(): void
+  {
+    if (!this.touchControls)
+    {
+      return;
+    }
+    
+    const menuOpen = this.levelUpUI.visible || this.chestRewardUI.visible || !!this.gameOverUI?.visible || !!this.resumeRunUI?.visible ||
+      !!this.characterSelectUI?.visible || this.isUserPaused;
+    
+    if (menuOpen && this.touchControls.visible)
+    {
+      this.touchControls.release();
+    }
+    this.touchControls.visible = !menuOpen;
+  }
+  
   /**
    * Main update loop
    */
   private update(ticker: any): void
   {
+    if (this.handleMenuInput())
+    {
+      return;
+    }
+    
+    // Also catches a level-up closed while out of view (observers only fire on change)
+    this.autoPauseIfHidden();
+    
+    this.updateTouchControls();
+    
+    if (this.pauseButton)
+    {
+      this.pauseButton.visible = !this.isPaused;
+    }
+    
+    const deltaMS = this.nextFrame(ticker);
+    
+    if (deltaMS === null)
+    {
+      return;
+    }
+    
+    // Step sprite animations (runs during level-ups too, like the live ticker; frozen in the pause menu)
+    if (!this.isUserPaused)
+    {
+      this.animationClock += deltaMS;
+      Ticker.shared.update(this.animationClock);
+      
+      // Chest reveal runs on frame time too, so replays close it on the same frame
+      this.chestRewardUI?.update(deltaMS / 1000);
+    }
+    
     if (this.isPaused)
     {
       return;
     }
     
-    const delta = ticker.deltaTime / 60;
+    const delta = deltaMS / 1000;
     
     // Update chest if it exists (only visual updates)
     if (this.chest)
@@ -723,18 +1578,27 @@ export class SiteGame
     {
       this.player.update(delta);
       
-      // Get alive monsters (includes chest if it exists)
-      const aliveMonsters = this.monsters
-        .filter(s => !s.monster.isDead())
-        .map(s => s.monster);
+      const playerPos = this.player.getPosition();
+      AudioManager.getInstance().setListenerPosition(playerPos.x, playerPos.y);
+      
+      // Index monsters for this frame (includes chest if it exists)
+      this.monsterGrid.rebuild(
+        this.monsters.filter(s => !s.monster.isDead()).map(s => s.monster),
+        (monster) => this.collisionSystem.getMonsterCollisionRadius(monster)
+      );
+      
+      // Only monsters near the player can touch it or be hit by its attack
+      const nearbyMonsters = this.monsterGrid
+        .query(playerPos.x, playerPos.y, Math.max(this.player.getAttackRange(), this.collisionSystem.getRadii().playerRadius!))
+        .filter(monster => !monster.isDead());
       
       // Check player attack collision (impact frames)
-      // This automatically hits chest AND monsters
+      // This automatically hits chest AND monsters (reward chests are melee targets too)
       if (this.player.isPlayerAttacking())
       {
         const hitMonsters = this.collisionSystem.applyAttackDamageOnImpactFrames(
           this.player,
-          aliveMonsters
+          [...nearbyMonsters, ...this.rewardChests.filter(c => !c.isDead())]
         );
         
         // Debug logging
@@ -748,7 +1612,7 @@ export class SiteGame
       // Only if game has started (chest doesn't damage player)
       if (this.gameStarted)
       {
-        this.collisionSystem.applyTouchDamage(this.player, aliveMonsters, delta);
+        this.collisionSystem.applyTouchDamage(this.player, nearbyMonsters, delta);
       }
     }
     
@@ -757,6 +1621,9 @@ export class SiteGame
     {
       // Update monsters (includes enemy spawner)
       this.updateMonsters(delta);
+      this.updateRewardChests(delta);
+      this.updateBossBar();
+      this.damageNumbers?.update(delta);
       
       // Get alive monsters for projectile collision
       const aliveMonsters = this.monsters
@@ -801,6 +1668,42 @@ export class SiteGame
     this.updatePickups(delta);
   }
   
+  /**
+   * Record or replay the current frame
+   * Returns frame delta in ms (null when a replay has run out of frames)
+   */
+  private nextFrame(ticker: Ticker): number | null
+  {
+    if (this.replayPlayer && this.replayInput)
+    {
+      // Apply level-up choices made before this frame
+      for (const choice of this.replayPlayer.takeChoices())
+      {
+        this.applyLevelUpChoice(choice);
+      }
+      
+      if (!this.replayPlayer.hasNext())
+      {
+        return null;
+      }
+      
+      const frame = this.replayPlayer.next();
+      this.replayInput.setFrame(frame);
+      return frame.deltaMS;
+    }
+    
+    // Quantize so the recorded delta is exactly the one simulated
+    const deltaMS = Math.round(ticker.deltaMS * 100) / 100;
+    
+    // Frames spent in a player pause simulate nothing, so they are left out of the replay
+    if (this.recorder && !this.isUserPaused)
+    {
+      this.recorder.recordFrame(deltaMS, InputManager.getInstance());
+    }
+    
+    return deltaMS;
+  }
+  
   /**
    * Handle window resize
    */
@@ -834,11 +1737,56 @@ export class SiteGame
       this.gameTimer.position.set(containerWidth / 2, 20);
     }
     
+    if (this.bossHealthBar)
+    {
+      this.bossHealthBar.resize(this.gameApp.screen.width);
+    }
+    
     // Update game over UI size
     if (this.gameOverUI)
     {
       this.gameOverUI.resize(this.gameApp.screen.width, this.gameApp.screen.height);
     }
+    
+    if (this.shopUI)
+    {
+      this.shopUI.resize(this.gameApp.screen.width, this.gameApp.screen.height);
+    }
+    
+    if (this.controlsUI)
+    {
+      this.controlsUI.resize(this.gameApp.screen.width, this.gameApp.screen.height);
+    }
+    
+    if (this.pauseMenuUI)
+    {
+      this.pauseMenuUI.resize(this.gameApp.screen.width, this.gameApp.screen.height);
+    }
+    
+    if (this.pauseButton)
+    {
+      this.pauseButton.position.set(this.gameApp.screen.width - 60, 24);
+    }
+    
+    if (this.resumeRunUI)
+    {
+      this.resumeRunUI.resize(this.gameApp.screen.width, this.gameApp.screen.height);
+    }
+    
+    if (this.characterSelectUI)
+    {
+      this.characterSelectUI.resize(this.gameApp.screen.width, this.gameApp.screen.height);
+    }
+    
+    if (this.chestRewardUI)
+    {
+      this.chestRewardUI.resize(this.gameApp.screen.width, this.gameApp.screen.height);
+    }
+    
+    if (this.touchControls)
+    {
+      this.touchControls.resize(this.gameApp.screen.width, this.gameApp.screen.height);
+    }
   }
   
   /**
@@ -860,30 +1808,10 @@ export class SiteGame
     }
     
     const playerPos = this.player.getPosition();
-    const aliveMonsters = this.monsters
-      .map(m => m.monster)
-      .filter(m => m && !m.isDead());
-    
-    // Calculate distances
-    const monstersWithDistance = aliveMonsters.map(monster => {
-      const pos = monster.getPosition();
-      const dx = pos.x - playerPos.x;
-      const dy = pos.y - playerPos.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-      
-      return {
-        x: pos.x,
-        y: pos.y,
-        distance: distance
-      };
-    });
-    
-    // Sort by distance and take N nearest
-    monstersWithDistance.sort((a, b) => a.distance - b.distance);
     
-    return monstersWithDistance
-      .slice(0, count)
-      .map(m => ({ x: m.x, y: m.y }));
+    return this.monsterGrid
+      .nearest(playerPos.x, playerPos.y, count, monster => !monster.isDead())
+      .map(monster => monster.getPosition());
   }
   
   /**
@@ -902,6 +1830,14 @@ export class SiteGame
     return this.isRunning;
   }
   
+  /**
+   * Check if game is playing back a replay
+   */
+  isReplay(): boolean
+  {
+    return this.replayPlayer !== null;
+  }
+  
   /**
    * Check if game is paused
    */
@@ -917,6 +1853,18 @@ export class SiteGame
   {
     console.log('[SiteGame] Player died - stopping game');
     
+    AudioManager.getInstance().playSfx('player_death');
+    
+    this.endRun();
+  }
+  
+  /**
+   * Stop the run and show results (death or quit)
+   */
+  private endRun(): void
+  {
+    this.runOver = true;
+    
     // Stop enemy spawner (no more monster spawns)
     if (this.enemySpawner)
     {
@@ -929,12 +1877,57 @@ export class SiteGame
       this.gameTimer.stop();
     }
     
+    // Stop recording (run is over)
+    if (this.recorder)
+    {
+      this.recorder.stop();
+    }
+    
     // Show game over UI with elapsed time
     if (this.gameOverUI && this.gameTimer)
     {
       const elapsedTime = this.gameTimer.getFormattedTime();
-      this.gameOverUI.show(elapsedTime, () => {
+      const recorder = this.recorder;
+      
+      // Bank gold and record the run for live runs only (replays would count twice)
+      if (!this.replayPlayer)
+      {
+        const leaderboard = Leaderboard.getInstance();
+        const entry = {
+          survivalTime: this.gameTimer.getElapsedTime(),
+          level: this.player?.getLevel() ?? 1,
+          wave: this.enemySpawner.getCurrentWave(),
+          kills: this.kills,
+          build: this.powerManager.getAllOwnedPowerUps().map(p => ({ id: p.id, name: p.name, level: p.level })),
+          seed: this.random.getSeed(),
+          date: Date.now(),
+          character: this.character?.id ?? DEFAULT_CHARACTER_ID
+        };
+        const rank = leaderboard.submit(entry);
+        this.gameOverUI.setLeaderboard(leaderboard.getEntries(), rank);
+        this.gameOverUI.setCharacterSummary(getCharacter(entry.character).name, leaderboard.getCharacterRecord(entry.character));
+        
+        const meta = MetaProgression.getInstance();
+        const earned = meta.awardRun({
+          kills: getTotalKills(entry),
+          survivalTime: entry.survivalTime,
+          chestsBroken: this.chestsBroken
+        });
+        this.gameOverUI.setReward(earned, meta.getGold());
+        
+        clearRunSnapshot();
+      }
+      else
+      {
+        this.gameOverUI.setReward(null);
+        this.gameOverUI.setLeaderboard(Leaderboard.getInstance().getEntries(), -1);
+        this.gameOverUI.setCharacterSummary(this.character?.name ?? getCharacter(DEFAULT_CHARACTER_ID).name, null);
+      }
+      
+      this.gameOverUI.show(elapsedTime, this.random.getSeed(), () => {
         this.restartGame();
+      }, recorder ? () => downloadReplay(recorder.export()) : undefined, () => {
+        this.openShop();
       });
     }
     
@@ -942,6 +1935,286 @@ export class SiteGame
     this.pause();
   }
   
+  /**
+   * Open the meta progression shop over the game over screen
+   */
+  private openShop(): void
+  {
+    if (this.shopUI)
+    {
+      this.shopUI.show();
+    }
+  }
+  
+  /**
+   * Small HUD button opening the pause menu (the only way to pause on touch screens)
+   */
+  private createPauseButton(): Container
+  {
+    const button = new Container();
+    button.eventMode = 'static';
+    button.cursor = 'pointer';
+    button.zIndex = 10000;
+    
+    const background = new Graphics();
+    background.roundRect(-45, -14, 90, 28, 6);
+    background.fill({ color: 0x1a1a2e, alpha: 0.8 });
+    background.stroke({ color: 0xffcc33, width: 2 });
+    button.addChild(background);
+    
+    const label = new Text({
+      text: 'PAUSE',
+      style: { fontFamily: 'Arial, sans-serif', fontSize: 14, fontWeight: 'bold', fill: '#FFCC33' }
+    });
+    label.anchor.set(0.5, 0.5);
+    button.addChild(label);
+    
+    button.on('pointerdown', () => this.togglePause());
+    return button;
+  }
+  
+  /**
+   * Swap the pause menu for the controls screen, coming back to it on close
+   */
+  private openControls(): void
+  {
+    if (!this.controlsUI || !this.isUserPaused)
+    {
+      return;
+    }
+    
+    this.pauseMenuUI?.hide();
+    this.controlsUI.show(() => {
+      if (this.isUserPaused)
+      {
+        this.pauseMenuUI?.show(this.getPauseMenuInfo());
+      }
+    });
+  }
+  
+  /**
+   * End the run from the pause menu: same results screen as dying
+   */
+  private quitRun(): void
+  {
+    if (!this.isUserPaused || !this.gameStarted)
+    {
+      return;
+    }
+    
+    console.log('[SiteGame] Run quit from pause menu');
+    
+    this.isUserPaused = false;
+    this.pauseMenuUI?.hide();
+    this.endRun();
+  }
+  
+  /**
+   * Ask whether to continue the saved run (the chest waits behind the prompt)
+   */
+  private offerSavedRun(): void
+  {
+    if (!this.savedRun)
+    {
+      return;
+    }
+    
+    this.resumeRunUI = new ResumeRunUI({
+      onResume: () => this.resumeSavedRun(),
+      onNewRun: () => {
+        clearRunSnapshot();
+        this.restartGame();
+      }
+    });
+    this.gameContainer.addChild(this.resumeRunUI);
+    this.resumeRunUI.resize(this.gameApp.screen.width, this.gameApp.screen.height);
+    this.resumeRunUI.show({
+      time: GameTimer.formatTime(this.savedRun.time),
+      level: this.savedRun.player.level,
+      wave: this.savedRun.wave,
+      kills: getTotalKills(this.savedRun)
+    });
+    
+    this.pause();
+  }
+  
+  /**
+   * Rebuild the saved run: build, player, wave, monsters, pickups and clock
+   */
+  private resumeSavedRun(): void
+  {
+    const snapshot = this.savedRun;
+    
+    this.savedRun = null;
+    clearRunSnapshot();
+    this.resumeRunUI?.hide();
+    
+    if (!snapshot || !this.player)
+    {
+      this.resume();
+      return;
+    }
+    
+    console.log(`[SiteGame] Resuming saved run at ${GameTimer.formatTime(snapshot.time)} (wave ${snapshot.wave})`);
+    
+    // Positions follow the field if the window was resized in between
+    const field = this.getFieldSize();
+    const scaleX = field.width / snapshot.field.width;
+    const scaleY = field.height / snapshot.field.height;
+    const bounds = this.gameBounds;
+    
+    this.removeChest();
+    
+    // Character before the build (its starting weapon is the first recorded pick)
+    this.character = getCharacter(snapshot.character);
+    this.player.applyCharacter(this.character);
+    
+    for (const powerUpId of snapshot.powerUps)
+    {
+      this.powerManager.addPowerUp(powerUpId);
+    }
+    this.powerManager.restoreLevelUpState(snapshot.levelUpCharges, snapshot.banished);
+    
+    this.player.restoreProgress(snapshot.player.level, snapshot.player.xp, snapshot.player.health);
+    this.player.setPosition(
+      Math.max(bounds.minX, Math.min(bounds.maxX, snapshot.player.x * scaleX)),
+      Math.max(bounds.minY, Math.min(bounds.maxY, snapshot.player.y * scaleY))
+    );
+    
+    this.enemySpawner.restoreWave(snapshot.wave, snapshot.waveTimer);
+    
+    for (const saved of snapshot.monsters)
+    {
+      const monster = this.enemySpawner.restoreMonster({ ...saved, x: saved.x * scaleX, y: saved.y * scaleY });
+      if (monster)
+      {
+        this.addMonster(monster);
+      }
+    }
+    
+    for (const saved of snapshot.pickups)
+    {
+      this.addPickup(this.createPickup({ ...saved, x: saved.x * scaleX, y: saved.y * scaleY }));
+    }
+    
+    for (const saved of snapshot.rewardChests)
+    {
+      this.spawnRewardChest(saved.x * scaleX, saved.y * scaleY, saved.type);
+    }
+    
+    this.kills = { ...snapshot.kills };
+    this.chestsBroken = snapshot.chestsBroken;
+    
+    if (this.gameTimer)
+    {
+      this.gameTimer.show();
+      this.gameTimer.start();
+      this.gameTimer.setElapsedTime(snapshot.time);
+    }
+    
+    // Continue the run's own random sequence (after everything above has drawn from it)
+    this.random.setState(snapshot.randomState);
+    
+    // The recording would start mid-run, which a replay can't reproduce
+    this.recorder = null;
+    
+    this.gameStarted = true;
+    this.resume();
+    
+    // Show the hand that was open, not a fresh deal (that would be a free reroll)
+    const cards = this.powerManager.restoreCards(snapshot.levelUpCards);
+    if (cards.length > 0)
+    {
+      this.pause();
+      this.dealLevelUpCards(cards);
+    }
+  }
+  
+  /**
+   * Save the run for the next visit to the home page (live runs still in progress only)
+   */
+  private saveRun(): void
+  {
+    if (this.replayPlayer || !this.gameStarted || this.runOver || !this.player || this.player.isDead())
+    {
+      return;
+    }
+    
+    const playerPos = this.player.getPosition();
+    
+    const monsters = this.monsters
+      .filter(s => !s.monster.isDead())
+      .map(s => {
+        const position = s.monster.getPosition();
+        return {
+          type: s.monsterType,
+          x: position.x,
+          y: position.y,
+          health: s.monster.getHealth(),
+          maxHealth: s.monster.getMaxHealth(),
+          damage: s.monster.getStats().damage,
+          speed: s.monster.getBaseSpeed(),
+          boss: s.monster.getIsBoss() ? s.monster.getBossDefinition()?.id ?? '' : null,
+          elite: [...s.monster.getEliteModifiers()]
+        };
+      });
+    
+    const pickups: PickupSnapshot[] = [];
+    
+    for (const pickup of this.pickups)
+    {
+      if (pickup.wasPickedUp())
+      {
+        continue;
+      }
+      
+      const { x, y } = pickup.getPosition();
+      
+      if (pickup instanceof CrystalPickup)
+      {
+        pickups.push({ kind: 'crystal', x, y, tier: pickup.getTier(), xpValue: pickup.getXPValue() });
+      }
+      else if (pickup instanceof FoodPickup)
+      {
+        pickups.push({ kind: 'food', x, y, tier: pickup.getTier() });
+      }
+      else if (pickup instanceof StarPickup)
+      {
+        pickups.push({ kind: 'star', x, y });
+      }
+      else if (pickup instanceof SkullPickup)
+      {
+        pickups.push({ kind: 'skull', x, y });
+      }
+    }
+    
+    saveRunSnapshot({
+      seed: this.random.getSeed(),
+      randomState: this.random.getState(),
+      field: this.getFieldSize(),
+      time: this.gameTimer?.getElapsedTime() ?? 0,
+      character: this.character?.id ?? DEFAULT_CHARACTER_ID,
+      player: {
+        x: playerPos.x,
+        y: playerPos.y,
+        health: this.player.getHealth(),
+        level: this.player.getLevel(),
+        xp: this.player.getCurrentXP()
+      },
+      powerUps: this.powerManager.getHistory(),
+      levelUpCards: this.levelUpUI.visible ? this.powerManager.saveCards(this.levelUpCards) : [],
+      levelUpCharges: { ...this.powerManager.getCharges() },
+      banished: this.powerManager.getBanished(),
+      wave: this.enemySpawner.getCurrentWave(),
+      waveTimer: this.enemySpawner.getWaveTimer(),
+      monsters,
+      pickups,
+      rewardChests: this.rewardChests.filter(c => !c.isDead()).map(c => ({ ...c.getPosition(), type: c.getChestType() })),
+      kills: { ...this.kills },
+      chestsBroken: this.chestsBroken
+    });
+  }
+  
   /**
    * Restart the game - full reset via callback
    */
@@ -949,6 +2222,9 @@ export class SiteGame
   {
     console.log('[SiteGame] Restarting game...');
     
+    // Restarting abandons the current run, so there is nothing to resume later
+    this.runOver = true;
+    
     // Hide game over UI
     if (this.gameOverUI)
     {
@@ -971,8 +2247,21 @@ export class SiteGame
    */
   destroy(): void
   {
+    // Leaving the home page mid-run keeps the run for the next visit
+    this.saveRun();
+    
     this.stop();
     
+    AudioManager.getInstance().clearListener();
+    
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    
+    if (this.visibilityObserver)
+    {
+      this.visibilityObserver.disconnect();
+      this.visibilityObserver = null;
+    }
+    
     window.removeEventListener('resize', this.handleResize.bind(this));
     
     if (this.player)
@@ -992,6 +2281,12 @@ export class SiteGame
       this.levelUpUI.destroy();
     }
     
+    if (this.chestRewardUI)
+    {
+      this.chestRewardUI.destroy({ children: true });
+    }
+    this.chestRewardQueue = [];
+    
     // Cleanup chest
     if (this.chest)
     {
@@ -1002,6 +2297,13 @@ export class SiteGame
     
     this.chestMonsterData = null;
     
+    for (const chest of this.rewardChests)
+    {
+      this.gameContainer.removeChild(chest);
+      chest.destroy();
+    }
+    this.rewardChests = [];
+    
     // Cleanup game timer
     if (this.gameTimer)
     {
@@ -1010,6 +2312,20 @@ export class SiteGame
       this.gameTimer = null;
     }
     
+    if (this.bossHealthBar)
+    {
+      this.gameContainer.removeChild(this.bossHealthBar);
+      this.bossHealthBar.destroy();
+      this.bossHealthBar = null;
+    }
+    
+    if (this.damageNumbers)
+    {
+      this.gameContainer.removeChild(this.damageNumbers);
+      this.damageNumbers.destroy();
+      this.damageNumbers = null;
+    }
+    
     // Cleanup game over UI
     if (this.gameOverUI)
     {
@@ -1018,10 +2334,63 @@ export class SiteGame
       this.gameOverUI = null;
     }
     
+    // Cleanup shop UI
+    if (this.shopUI)
+    {
+      this.gameContainer.removeChild(this.shopUI);
+      this.shopUI.destroy();
+      this.shopUI = null;
+    }
+    
+    // Cleanup controls screen
+    if (this.controlsUI)
+    {
+      this.gameContainer.removeChild(this.controlsUI);
+      this.controlsUI.destroy();
+      this.controlsUI = null;
+    }
+    
+    // Cleanup pause menu
+    if (this.pauseMenuUI)
+    {
+      this.gameContainer.removeChild(this.pauseMenuUI);
+      this.pauseMenuUI.destroy();
+      this.pauseMenuUI = null;
+    }
+    
+    if (this.pauseButton)
+    {
+      this.gameContainer.removeChild(this.pauseButton);
+      this.pauseButton.destroy({ children: true });
+      this.pauseButton = null;
+    }
+    
+    if (this.resumeRunUI)
+    {
+      this.gameContainer.removeChild(this.resumeRunUI);
+      this.resumeRunUI.destroy();
+      this.resumeRunUI = null;
+    }
+    
+    if (this.characterSelectUI)
+    {
+      this.gameContainer.removeChild(this.characterSelectUI);
+      this.characterSelectUI.destroy({ children: true });
+      this.characterSelectUI = null;
+    }
+    
+    // Cleanup touch controls
+    if (this.touchControls)
+    {
+      this.gameContainer.removeChild(this.touchControls);
+      this.touchControls.destroy();
+      this.touchControls = null;
+    }
+    
     // Cleanup weapon system
     if (this.weaponSystem)
     {
-      this.weaponSystem.clearAll();
+      this.weaponSystem.destroy();
     }
     
     if (this.playerProjectileContainer)
@@ -1045,7 +2414,7 @@ export class SiteGame
     // Cleanup enemy projectiles
     if (this.enemyProjectileManager)
     {
-      this.enemyProjectileManager.clearAll();
+      this.enemyProjectileManager.destroy();
     }
     
     if (this.enemyProjectileContainer)
@@ -1082,6 +2451,11 @@ export class SiteGame
     }
     this.pickups = [];
     
+    this.crystalPool.destroy();
+    this.foodPool.destroy();
+    this.starPool.destroy();
+    this.skullPool.destroy();
+    
     if (this.gameContainer)
     {
       this.gameContainer.destroy({ children: true });
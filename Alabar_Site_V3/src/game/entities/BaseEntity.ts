@@ -6,6 +6,8 @@
 import { AnimatedSprite, Container, Texture } from 'pixi.js';
 import { AssetManager } from '../../managers/AssetManager';
 import { MovementSystem, Position } from '../systems/Movement';
+import { StatusEffectSet } from '../systems/StatusEffects';
+import { OnHitEffect, StatusEffectDefinition, getStatusEffectDefinition } from '../configs/StatusEffects';
 
 // Common entity states
 export enum EntityState
@@ -61,6 +63,10 @@ export abstract class BaseEntity extends Container
   // Child classes can override this to adjust collision center
   protected collisionOffset: { x: number; y: number } = { x: 0, y: 0 };
   
+  // Status effects (burn, poison, slow, freeze, stun)
+  protected statusEffects: StatusEffectSet = new StatusEffectSet();
+  private statusTint: number | null = null; // Tint last applied for status effects
+  
   constructor(assetManager: AssetManager, config: EntityConfig)
   {
     super();
@@ -378,14 +384,16 @@ export abstract class BaseEntity extends Container
   
   /**
    * Take damage
+   * Emits 'damaged' (health lost, critical) for floating damage numbers
    */
-  takeDamage(amount: number): void
+  takeDamage(amount: number, critical: boolean = false): void
   {
     if (this.isDead())
     {
       return;
     }
     
+    this.emit('damaged', Math.min(amount, this.health), critical);
     this.health -= amount;
     
     if (this.health <= 0)
@@ -395,12 +403,94 @@ export abstract class BaseEntity extends Container
     }
   }
   
+  /**
+   * Apply status effects (skipped when dead or immune)
+   */
+  applyStatusEffects(effects: OnHitEffect[]): void
+  {
+    if (this.isDead() || effects.length === 0)
+    {
+      return;
+    }
+    
+    for (const effect of effects)
+    {
+      if (!this.isImmuneTo(getStatusEffectDefinition(effect.type)))
+      {
+        this.statusEffects.apply(effect);
+      }
+    }
+    
+    this.refreshStatusTint();
+  }
+  
+  /**
+   * Get active status effects
+   */
+  getStatusEffects(): StatusEffectSet
+  {
+    return this.statusEffects;
+  }
+  
+  /**
+   * Hook: Status effects this entity ignores (none by default)
+   */
+  protected isImmuneTo(_definition: StatusEffectDefinition): boolean
+  {
+    return false;
+  }
+  
+  /**
+   * Advance status effects and deal their tick damage (child classes call this from update)
+   */
+  protected updateStatusEffects(delta: number): void
+  {
+    const damage = this.statusEffects.update(delta);
+    
+    if (damage > 0)
+    {
+      this.takeDamage(damage);
+    }
+    
+    this.refreshStatusTint();
+  }
+  
+  /**
+   * Tint the sprite for the strongest active effect (only touches the tint when it changes)
+   */
+  protected refreshStatusTint(): void
+  {
+    const tint = this.statusEffects.getTint();
+    
+    if (tint === this.statusTint || !this.sprite)
+    {
+      return;
+    }
+    
+    this.statusTint = tint;
+    this.sprite.tint = tint ?? this.getBaseTint();
+  }
+  
+  /**
+   * Hook: Tint shown when no status effect is active (none by default)
+   */
+  protected getBaseTint(): number
+  {
+    return 0xffffff;
+  }
+  
   /**
    * Heal entity
    */
   heal(amount: number): void
   {
-    this.health = Math.min(this.health + amount, this.maxHealth);
+    const healed = Math.min(amount, this.maxHealth - this.health);
+    this.health += healed;
+    
+    if (healed > 0)
+    {
+      this.emit('healed', healed);
+    }
   }
   
   /**
@@ -7,6 +7,7 @@
 import { AnimatedSprite, Sprite, Texture } from 'pixi.js';
 import { AssetManager } from '../../managers/AssetManager';
 import { BaseEntity, EntityConfig } from './BaseEntity';
+import { SeededRandom } from '../../utils/Random';
 
 export type ChestType = 'gray' | 'gold' | 'bone';
 
@@ -16,6 +17,7 @@ export interface ChestConfig
   y: number;
   type?: ChestType; // Random if not specified
   onBreak?: () => void; // Callback when chest is destroyed
+  random?: SeededRandom; // Used to pick the type when not specified
 }
 
 export class Chest extends BaseEntity
@@ -52,7 +54,7 @@ export class Chest extends BaseEntity
     
     super(assetManager, entityConfig);
     
-    this.chestType = config.type || this.getRandomChestType();
+    this.chestType = config.type || this.getRandomChestType(config.random);
     this.onBreakCallback = config.onBreak;
     
     // Override the animated sprite with static chest sprite
@@ -75,10 +77,10 @@ export class Chest extends BaseEntity
   /**
    * Get random chest type
    */
-  private getRandomChestType(): ChestType
+  private getRandomChestType(random: SeededRandom = new SeededRandom()): ChestType
   {
     const types: ChestType[] = ['gray', 'gold', 'bone'];
-    return types[Math.floor(Math.random() * types.length)];
+    return random.pick(types);
   }
   
   /**
@@ -278,6 +280,22 @@ export class Chest extends BaseEntity
     this.alpha = 0;
   }
   
+  /**
+   * Chest type (reward chests hold more upgrades the rarer they are)
+   */
+  getChestType(): ChestType
+  {
+    return this.chestType;
+  }
+  
+  /**
+   * Check if the destruction animation has finished
+   */
+  getIsBroken(): boolean
+  {
+    return this.isBroken;
+  }
+  
   /**
    * Update chest (handle damage flash animation)
    * Override to prevent BaseEntity from trying to play idle animations
@@ -26,6 +26,31 @@ export class CrystalPickup extends PickupBase
   private xpValue: number;
   
   constructor(assetManager: AssetManager, config: CrystalPickupConfig)
+  {
+    super(assetManager, CrystalPickup.getPickupConfig(config));
+    
+    this.tier = config.tier;
+    this.xpValue = config.xpValue;
+    
+    // Scale crystals slightly
+    this.scale.set(0.5, 0.5);
+  }
+  
+  /**
+   * Reuse this crystal (pooled) for a new drop
+   */
+  reset(config: CrystalPickupConfig): void
+  {
+    this.applyConfig(CrystalPickup.getPickupConfig(config));
+    
+    this.tier = config.tier;
+    this.xpValue = config.xpValue;
+  }
+  
+  /**
+   * Base pickup config for a crystal
+   */
+  private static getPickupConfig(config: CrystalPickupConfig): PickupConfig
   {
     // Validate tier
     if (config.tier < 1 || config.tier > 10)
@@ -37,8 +62,7 @@ export class CrystalPickup extends PickupBase
     // Map tier to spritesheet/frame
     const { spritesheetKey, frameName } = CrystalPickup.getTierSpriteInfo(config.tier);
     
-    // Create base pickup config
-    const pickupConfig: PickupConfig = {
+    return {
       x: config.x,
       y: config.y,
       spritesheetKey: spritesheetKey,
@@ -48,14 +72,6 @@ export class CrystalPickup extends PickupBase
       lifetime: config.lifetime ?? 0, // Infinite by default
       particleContainer: config.particleContainer
     };
-    
-    super(assetManager, pickupConfig);
-    
-    this.tier = config.tier;
-    this.xpValue = config.xpValue;
-    
-    // Scale crystals slightly
-    this.scale.set(0.5, 0.5);
   }
   
   /**
@@ -6,12 +6,16 @@
 import { Sprite, Texture } from 'pixi.js';
 import { AssetManager } from '../../managers/AssetManager';
 import { MonsterBase } from './monsters/MonsterBase';
+import { CriticalRoll } from '../systems/WeaponSystem';
 
 export class OrbitalWeaponProjectile extends Sprite
 {
   // Orbital movement
   private orbitRadius: number;
   private orbitSpeed: number;
+  private orbitPulse: number; // Radius swing as a share of orbitRadius (0 = fixed circle)
+  private pulseTime: number = 0;
+  private readonly PULSE_SPEED = 2.5; // Radians per second
   
   // Combat
   private damage: number;
@@ -32,7 +36,8 @@ export class OrbitalWeaponProjectile extends Sprite
     orbitRadius: number,
     orbitSpeed: number,
     damage: number,
-    scale: number = 1.0
+    scale: number = 1.0,
+    orbitPulse: number = 0
   )
   {
     // Get texture from spritesheet
@@ -67,6 +72,7 @@ export class OrbitalWeaponProjectile extends Sprite
     this.angle = baseAngle;
     this.orbitRadius = orbitRadius;
     this.orbitSpeed = orbitSpeed;
+    this.orbitPulse = orbitPulse;
     this.damage = damage;
     
     this.monsterDamageCooldowns = new Map();
@@ -86,10 +92,11 @@ export class OrbitalWeaponProjectile extends Sprite
     }
     
     const pos = this.owner.getPosition();
+    const radius = this.orbitRadius * (1 + this.orbitPulse * Math.sin(this.pulseTime * this.PULSE_SPEED));
     
     // Calculate orbital position
-    this.x = pos.x + Math.cos(this.angle) * this.orbitRadius;
-    this.y = pos.y + Math.sin(this.angle) * this.orbitRadius;
+    this.x = pos.x + Math.cos(this.angle) * radius;
+    this.y = pos.y + Math.sin(this.angle) * radius;
   }
   
   /**
@@ -104,6 +111,7 @@ export class OrbitalWeaponProjectile extends Sprite
     
     // Rotate angle
     this.angle += this.orbitSpeed * delta;
+    this.pulseTime += delta;
     
     // Update position
     this.updatePosition();
@@ -126,18 +134,19 @@ export class OrbitalWeaponProjectile extends Sprite
   
   /**
    * Check collision with monster and apply damage if cooldown expired
+   * Returns the damage dealt (0 when it didn't hit)
    */
-  checkCollision(monster: MonsterBase, collisionRadius: number): boolean
+  checkCollision(monster: MonsterBase, collisionRadius: number, rollCritical: CriticalRoll | null = null): number
   {
     if (!this.isAlive || monster.isDead())
     {
-      return false;
+      return 0;
     }
     
     // Check if monster is on cooldown
     if (this.monsterDamageCooldowns.has(monster))
     {
-      return false;
+      return 0;
     }
     
     // Check circle collision
@@ -149,15 +158,16 @@ export class OrbitalWeaponProjectile extends Sprite
     if (distance < collisionRadius)
     {
       // Deal damage
-      monster.takeDamage(this.damage);
+      const hit = rollCritical ? rollCritical(this.damage) : { damage: this.damage, critical: false };
+      monster.takeDamage(hit.damage, hit.critical);
       
       // Set cooldown
       this.monsterDamageCooldowns.set(monster, this.DAMAGE_COOLDOWN);
       
-      return true;
+      return hit.damage;
     }
     
-    return false;
+    return 0;
   }
   
   /**
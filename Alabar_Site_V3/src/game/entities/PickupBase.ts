@@ -1,10 +1,12 @@
 /**
  * PickupBase.ts - Abstract base class for all pickup entities
  * Handles: magnet behavior, collision, lifetime, animations
+ * Pickups are pooled: subclasses reset() a released pickup for its next drop
  */
 
-import { AnimatedSprite, Container, Graphics } from 'pixi.js';
+import { AnimatedSprite, Container, Graphics, Texture } from 'pixi.js';
 import { AssetManager } from '../../managers/AssetManager';
+import { ObjectPool } from '../../utils/ObjectPool';
 
 interface BurstParticle
 {
@@ -15,6 +17,19 @@ interface BurstParticle
   size: number;
 }
 
+// Burst particles are shared by every pickup (they outlive the pickup that spawned them)
+const burstParticlePool = new ObjectPool<Graphics>({
+  name: 'burst-particles',
+  create: () => new Graphics(),
+  reset: (graphics) =>
+  {
+    graphics.clear();
+    graphics.scale.set(1);
+    graphics.alpha = 1;
+  },
+  dispose: (graphics) => graphics.destroy()
+});
+
 export interface PickupConfig
 {
   x: number;
@@ -34,12 +49,12 @@ export abstract class PickupBase extends Container
   protected sprite: AnimatedSprite | null = null;
   
   // Magnet behavior
-  protected magnetRadius: number;
-  protected magnetSpeed: number;
+  protected magnetRadius: number = 75;
+  protected magnetSpeed: number = 3.0;
   protected isBeingMagneted: boolean = false;
   
   // Lifetime
-  protected lifetime: number;
+  protected lifetime: number = 0;
   protected age: number = 0;
   
   // Pickup state
@@ -65,31 +80,41 @@ export abstract class PickupBase extends Container
     
     this.assetManager = assetManager;
     
+    this.applyConfig(config);
+    
+    console.log('🔍 [PickupBase] After initializeSprite - sprite exists?', !!this.sprite);
+    
+    // Set z-index for proper layering
+    this.zIndex = 100;
+    
+    console.log('🔍 [PickupBase] Constructor complete. Container visible?', this.visible, 'alpha:', this.alpha);
+  }
+  
+  /**
+   * Apply a pickup config (constructor, and reset of a pooled pickup)
+   */
+  protected applyConfig(config: PickupConfig): void
+  {
     // Set position
     this.position.set(config.x, config.y);
-    console.log('🔍 [PickupBase] Position set to:', this.position.x, this.position.y);
     
     // Magnet settings
     this.magnetRadius = config.magnetRadius ?? 75;
     this.magnetSpeed = config.magnetSpeed ?? 3.0;
+    this.isBeingMagneted = false;
     
     // Lifetime (0 = infinite)
     this.lifetime = config.lifetime ?? 0;
+    this.age = 0;
     
     // Store particle container reference
     this.particleContainer = config.particleContainer ?? null;
     
-    console.log('🔍 [PickupBase] About to initialize sprite...');
+    this.isPickedUp = false;
+    this.visible = true;
     
     // Initialize sprite (static frame or animation)
     this.initializeSprite(config.spritesheetKey, config.frameName, config.animationName);
-    
-    console.log('🔍 [PickupBase] After initializeSprite - sprite exists?', !!this.sprite);
-    
-    // Set z-index for proper layering
-    this.zIndex = 100;
-    
-    console.log('🔍 [PickupBase] Constructor complete. Container visible?', this.visible, 'alpha:', this.alpha);
   }
   
   /**
@@ -137,11 +162,8 @@ export abstract class PickupBase extends Container
       
       console.log(`✅ [PickupBase] Frame found, creating static sprite`);
       
-      this.sprite = new AnimatedSprite([texture]);
-      this.sprite.anchor.set(0.5, 0.5);
-      this.sprite.loop = false;
-      
-      this.addChild(this.sprite);
+      const sprite = this.setSpriteFrames([texture]);
+      sprite.loop = false;
       
       console.log(`✅ [PickupBase] Static sprite created and added to container`);
       return;
@@ -163,24 +185,38 @@ export abstract class PickupBase extends Container
       
       console.log(`✅ [PickupBase] Animation found with ${frames.length} frames`);
       
-      this.sprite = new AnimatedSprite(frames);
-      this.sprite.anchor.set(0.5, 0.5);
-      this.sprite.animationSpeed = 0.1;
-      this.sprite.loop = true;
-      this.sprite.play();
-      
-      this.addChild(this.sprite);
+      const sprite = this.setSpriteFrames(frames);
+      sprite.animationSpeed = 0.1;
+      sprite.loop = true;
+      sprite.play();
       
       console.log(`✅ [PickupBase] Animated sprite created and added to container`);
-      console.log(`🔍 [PickupBase] Sprite is playing?`, this.sprite.playing);
-      console.log(`🔍 [PickupBase] Sprite visible?`, this.sprite.visible);
-      console.log(`🔍 [PickupBase] Sprite alpha:`, this.sprite.alpha);
+      console.log(`🔍 [PickupBase] Sprite is playing?`, sprite.playing);
+      console.log(`🔍 [PickupBase] Sprite visible?`, sprite.visible);
+      console.log(`🔍 [PickupBase] Sprite alpha:`, sprite.alpha);
       return;
     }
     
     console.error('❌ [PickupBase] No frameName or animationName provided');
   }
   
+  /**
+   * Show frames on the pickup sprite (created once, reused by pooled pickups)
+   */
+  private setSpriteFrames(frames: Texture[]): AnimatedSprite
+  {
+    if (this.sprite)
+    {
+      this.sprite.textures = frames;
+      return this.sprite;
+    }
+    
+    this.sprite = new AnimatedSprite(frames);
+    this.sprite.anchor.set(0.5, 0.5);
+    this.addChild(this.sprite);
+    return this.sprite;
+  }
+  
   /**
    * Update magnet behavior - pulls pickup toward player
    */
@@ -245,6 +281,14 @@ export abstract class PickupBase extends Container
     return this.isBeingMagneted;
   }
   
+  /**
+   * Get range the pickup is pulled toward the player from
+   */
+  getMagnetRadius(): number
+  {
+    return this.magnetRadius;
+  }
+  
   /**
    * Get pickup radius for collision detection
    */
@@ -287,7 +331,10 @@ export abstract class PickupBase extends Container
     shapes: string[] = ['circle']
   ): void
   {
-    if (!this.particleContainer)
+    // The pickup may be reused before its particles finish
+    const particleContainer = this.particleContainer;
+    
+    if (!particleContainer)
     {
       return;
     }
@@ -296,7 +343,7 @@ export abstract class PickupBase extends Container
     
     for (let i = 0; i < count; i++)
     {
-      const graphics = new Graphics();
+      const graphics = burstParticlePool.acquire();
       
       // Random angle for burst pattern
       const angle = (Math.PI * 2 / count) * i + (Math.random() - 0.5) * 0.5;
@@ -321,7 +368,7 @@ export abstract class PickupBase extends Container
       graphics.x = this.position.x;
       graphics.y = this.position.y;
       
-      this.particleContainer.addChild(graphics);
+      particleContainer.addChild(graphics);
       particles.push(particle);
     }
     
@@ -354,11 +401,8 @@ export abstract class PickupBase extends Container
         // Remove dead particles
         if (p.life <= 0)
         {
-          if (this.particleContainer)
-          {
-            this.particleContainer.removeChild(p.graphics);
-          }
-          p.graphics.destroy();
+          particleContainer.removeChild(p.graphics);
+          burstParticlePool.release(p.graphics);
           particles.splice(i, 1);
         }
       }
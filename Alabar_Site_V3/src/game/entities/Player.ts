@@ -5,13 +5,16 @@
  */
 
 import { AssetManager } from '../../managers/AssetManager';
-import { InputManager, Direction } from '../core/Input';
+import { InputManager, InputSource } from '../core/Input';
 import { BaseEntity, EntityConfig, EntityState, FacingDirection } from './BaseEntity';
 import { HPBar } from "../ui/HPBar";
 import { XPBar } from "../ui/XPBar";
 import { XPManager } from '../systems/XP';
+import { MoveVector, getMoveAngle, isZeroMove } from '../systems/Movement';
 import { WeaponSystem } from '../systems/WeaponSystem';
 import { AreaEffectSystem } from '../systems/AreaEffectSystem';
+import { SeededRandom } from '../../utils/Random';
+import { CharacterDefinition, DEFAULT_CHARACTER_ID, getCharacter } from '../configs/Characters';
 
 // Player-specific states
 enum PlayerState
@@ -39,12 +42,14 @@ interface PlayerConfig
   };
   onLevelUp?: (newLevel: number) => void; // Callback for level-up UI
   onDeath?: () => void; // Callback for player death
+  random?: SeededRandom; // Run RNG (power placement)
+  inputSource?: InputSource; // Defaults to keyboard InputManager
 }
 
 export class Player extends BaseEntity
 {
-  // Input manager
-  private inputManager: InputManager;
+  // Input source (keyboard or replay)
+  private inputManager: InputSource;
   
   // XP Manager
   private xpManager: XPManager;
@@ -55,12 +60,21 @@ export class Player extends BaseEntity
   // Area Effect System (for aura, explosion, magic field)
   private areaEffectSystem: AreaEffectSystem | null = null;
   
+  // Random source for power placement
+  private random: SeededRandom;
+  
+  // Playable character (sprite, base stats and passive)
+  private character: CharacterDefinition = getCharacter(DEFAULT_CHARACTER_ID);
+  
   // Monster targeting (set by SiteGame for power targeting)
   public getNearestMonsters?: (count: number) => Array<{ x: number; y: number }>;
   
   // Player-specific state machine
   private playerState: PlayerState = PlayerState.STANDING;
-  private lastDirection: Direction = null;
+  private lastMove: MoveVector | null = null;
+  
+  // Aim for facing-based weapons: last movement snapped to 8 directions (starts facing down)
+  private facingAngle: number = Math.PI / 2;
   
   // Standing state timer
   private standingTimer: number = 0;
@@ -86,6 +100,8 @@ export class Player extends BaseEntity
     projectileSpeedMultiplier: number;
     projectileCount: number;
     pierce: number;
+    critChance: number; // 0-1, rolled per hit
+    critMultiplier: number;
   };
   
   // Weapon-specific stats
@@ -109,6 +125,8 @@ export class Player extends BaseEntity
     frameName: string;
     orbitRadius?: number;
     orbitSpeed?: number;
+    orbitPulse?: number;
+    statsId?: string;
     timer: number;
   }> = [];
   
@@ -133,9 +151,9 @@ export class Player extends BaseEntity
       startX: config.startX,
       startY: config.startY,
       speed: config.speed,
-      spritesheetKey: 'player_spritesheet',
-      animationPrefix: 'Leo_Hero',
-      health: config.health ?? 120,
+      spritesheetKey: getCharacter(DEFAULT_CHARACTER_ID).spritesheetKey,
+      animationPrefix: getCharacter(DEFAULT_CHARACTER_ID).animationPrefix,
+      health: config.health ?? getCharacter(DEFAULT_CHARACTER_ID).health,
       bounds: config.bounds
     };
     
@@ -155,11 +173,12 @@ export class Player extends BaseEntity
         this.xpBar.x = -(this.xpBar.width / 2);
     }
 
-    this.inputManager = InputManager.getInstance();
+    this.inputManager = config.inputSource ?? InputManager.getInstance();
+    this.random = config.random ?? new SeededRandom();
     
     // Initialize base combat stats
-    this.baseDamage = config.damage ?? 8;
-    this.baseAttackRange = config.attackRange ?? 50;
+    this.baseDamage = config.damage ?? this.character.damage;
+    this.baseAttackRange = config.attackRange ?? this.character.attackRange;
     
     // Initialize power system stats
     this.stats = {
@@ -169,7 +188,9 @@ export class Player extends BaseEntity
       armor: 0,
       projectileSpeedMultiplier: 1.0,
       projectileCount: 1,
-      pierce: 0
+      pierce: 0,
+      critChance: 0,
+      critMultiplier: 1.5
     };
     
     // Initialize weapon stats
@@ -239,23 +260,67 @@ export class Player extends BaseEntity
   }
   
   /**
-   * Convert input direction to facing direction
+   * Restore level, XP and health from a saved run (no level-up callback)
+   */
+  restoreProgress(level: number, xp: number, health: number): void
+  {
+    this.xpManager.reset(level, xp);
+    this.xpBar.update(this.xpManager.getXPProgress());
+    
+    this.health = Math.max(1, Math.min(health, this.maxHealth));
+    this.hpBar.update(this.health / this.maxHealth);
+  }
+  
+  /**
+   * Switch to a playable character: sprite, base stats and passive (once per run, before any power-ups)
+   * Health and speed bonuses already applied (shop loadout) are kept
+   */
+  applyCharacter(character: CharacterDefinition): void
+  {
+    const previous = this.character;
+    this.character = character;
+    
+    this.spritesheetKey = character.spritesheetKey;
+    this.animationPrefix = character.animationPrefix;
+    
+    this.maxHealth = Math.max(1, this.maxHealth + character.health - previous.health);
+    this.health = this.maxHealth;
+    this.hpBar.update(1);
+    
+    this.baseDamage = character.damage;
+    this.baseAttackRange = character.attackRange;
+    
+    // Folded into the multiplier so move speed passives keep the character's pace
+    const speedRatio = character.moveSpeed / previous.moveSpeed;
+    this.stats.moveSpeedMultiplier *= speedRatio;
+    this.movementSystem.setSpeed(this.movementSystem.getSpeed() * speedRatio);
+    
+    character.passive.apply(this);
+    
+    this.transitionToStanding();
+    
+    console.log(`[Player] Playing as ${character.name} (${character.passive.name})`);
+  }
+  
+  /**
+   * Get the playable character
+   */
+  getCharacter(): CharacterDefinition
+  {
+    return this.character;
+  }
+  
+  /**
+   * Convert a move vector to a sprite facing (4 sprite directions, diagonals show the side view)
    */
-  private directionToFacing(direction: Direction): FacingDirection
+  private moveToFacing(move: MoveVector): FacingDirection
   {
-    switch (direction)
+    if (Math.abs(move.x) >= Math.abs(move.y))
     {
-      case 'up':
-        return 'Back';
-      case 'down':
-        return 'Front';
-      case 'left':
-        return 'Left';
-      case 'right':
-        return 'Right';
-      default:
-        return this.facingDirection;
+      return move.x < 0 ? 'Left' : 'Right';
     }
+    
+    return move.y < 0 ? 'Back' : 'Front';
   }
   
   /**
@@ -389,18 +454,19 @@ export class Player extends BaseEntity
    */
   private handleMovement(delta: number): void
   {
-    const direction = this.inputManager.getDirection();
+    const move = this.inputManager.getMoveVector();
     
-    if (direction)
+    if (!isZeroMove(move))
     {
       // Player is moving
-      const newFacing = this.directionToFacing(direction);
-      this.lastDirection = direction;
+      const newFacing = this.moveToFacing(move);
+      this.lastMove = move;
+      this.facingAngle = getMoveAngle(move);
       
       // Calculate and apply new position
       const newPos = this.movementSystem.calculateNewPosition(
         this.currentPosition,
-        direction,
+        move,
         delta
       );
       
@@ -422,9 +488,9 @@ export class Player extends BaseEntity
       // Only transition to standing if NOT attacking or hurt
       if (this.playerState === PlayerState.WALKING)
       {
-        if (this.lastDirection)
+        if (this.lastMove)
         {
-          this.facingDirection = this.directionToFacing(this.lastDirection);
+          this.facingDirection = this.moveToFacing(this.lastMove);
         }
         
         this.transitionToStanding();
@@ -465,10 +531,22 @@ export class Player extends BaseEntity
       this.updateStandingState(delta);
     }
     
-    // Handle input (respecting state restrictions)
-    this.handleAttack();
-    this.handleMovement(delta);
-    this.updateWeaponAttacks(delta);
+    // Status effects from enemy attacks (tick damage can kill)
+    this.updateStatusEffects(delta);
+    if (this.isDead())
+    {
+      return;
+    }
+    
+    // Handle input (respecting state restrictions, none while stunned)
+    if (!this.statusEffects.isStunned())
+    {
+      this.handleAttack();
+      this.handleMovement(delta * this.statusEffects.getMoveMultiplier());
+    }
+    
+    // Weapons slow down with attack speed (and stop while stunned)
+    this.updateWeaponAttacks(delta * this.statusEffects.getAttackSpeedMultiplier());
   }
   
   /**
@@ -526,6 +604,8 @@ export class Player extends BaseEntity
     frameName: string;
     orbitRadius?: number;
     orbitSpeed?: number;
+    orbitPulse?: number;
+    statsId?: string;
     timer: number;
   }): void
   {
@@ -534,13 +614,14 @@ export class Player extends BaseEntity
     // Calculate total projectile count
     const baseCount = 1;
     const extraFromStats = this.stats.projectileCount - 1;
-    const extraFromWeapon = this.weaponStats[weapon.id]?.extraProjectiles ?? 0;
+    const weaponStats = this.weaponStats[weapon.statsId ?? weapon.id];
+    const extraFromWeapon = weaponStats?.extraProjectiles ?? 0;
     const totalCount = baseCount + extraFromStats + extraFromWeapon;
     
     // Calculate total pierce
     const basePierce = 0;
     const pierceFromStats = this.stats.pierce;
-    const pierceFromWeapon = this.weaponStats[weapon.id]?.pierce ?? 0;
+    const pierceFromWeapon = weaponStats?.pierce ?? 0;
     const totalPierce = basePierce + pierceFromStats + pierceFromWeapon;
     
     // Apply weapon area to scale
@@ -576,7 +657,8 @@ export class Player extends BaseEntity
             animationName: weapon.frameName,
             pierceCount: totalPierce,
             range: 600,
-            scale: scale
+            scale: scale,
+            sourceId: weapon.id
           });
         }
         break;
@@ -608,7 +690,8 @@ export class Player extends BaseEntity
             animationName: weapon.frameName,
             pierceCount: totalPierce,
             range: 600,
-            scale: scale
+            scale: scale,
+            sourceId: weapon.id
           });
         }
         break;
@@ -639,12 +722,113 @@ export class Player extends BaseEntity
             animationName: weapon.frameName,
             pierceCount: totalPierce,
             range: 900,
-            scale: scale
+            scale: scale,
+            sourceId: weapon.id
           });
         }
         break;
       }
 
+      case "spiral":
+      {
+        // Death Spiral (evolved axe): a ring of axes flying outward, extra projectiles add to the ring
+        const ringCount = 7 + totalCount;
+        const angleStep = (Math.PI * 2) / ringCount;
+        
+        for (let i = 0; i < ringCount; i++)
+        {
+          const angle = i * angleStep;
+          
+          const distance = 200;
+          const targetX = pos.x + Math.cos(angle) * distance;
+          const targetY = pos.y + Math.sin(angle) * distance;
+          
+          this.weaponSystem!.spawnWeaponProjectile({
+            startX: pos.x,
+            startY: pos.y,
+            targetX: targetX,
+            targetY: targetY,
+            speed: weapon.speed * this.stats.projectileSpeedMultiplier,
+            damage: weapon.damage,
+            spritesheetKey: "powers_spritesheet",
+            animationName: weapon.frameName,
+            pierceCount: totalPierce,
+            range: 500,
+            scale: scale,
+            sourceId: weapon.id
+          });
+        }
+        break;
+      }
+      
+      case "barrage":
+      {
+        // Shadow Edge (evolved dagger): a tight stream of blades, staggered back along the facing direction
+        const spreadAngle = 6 * (Math.PI / 180);
+        const facingAngle = this.getFacingAngle();
+        const bladeCount = totalCount * 2;
+        
+        for (let i = 0; i < bladeCount; i++)
+        {
+          const angle = facingAngle + (i % 2 === 0 ? -1 : 1) * spreadAngle * Math.ceil(i / 2);
+          const stagger = i * 18;
+          const startX = pos.x - Math.cos(facingAngle) * stagger;
+          const startY = pos.y - Math.sin(facingAngle) * stagger;
+          
+          const distance = 200;
+          const targetX = startX + Math.cos(angle) * distance;
+          const targetY = startY + Math.sin(angle) * distance;
+          
+          this.weaponSystem!.spawnWeaponProjectile({
+            startX: startX,
+            startY: startY,
+            targetX: targetX,
+            targetY: targetY,
+            speed: weapon.speed * this.stats.projectileSpeedMultiplier,
+            damage: weapon.damage,
+            spritesheetKey: "powers_spritesheet",
+            animationName: weapon.frameName,
+            pierceCount: totalPierce,
+            range: 700,
+            scale: scale,
+            sourceId: weapon.id
+          });
+        }
+        break;
+      }
+      
+      case "cross":
+      {
+        // Radiant Cross (evolved sword): blades in all four directions, extra projectiles add the diagonals
+        const facingAngle = this.getFacingAngle();
+        const directions = totalCount > 1 ? 8 : 4;
+        
+        for (let i = 0; i < directions; i++)
+        {
+          const angle = facingAngle + i * (Math.PI * 2) / directions;
+          
+          const distance = 250;
+          const targetX = pos.x + Math.cos(angle) * distance;
+          const targetY = pos.y + Math.sin(angle) * distance;
+          
+          this.weaponSystem!.spawnWeaponProjectile({
+            startX: pos.x,
+            startY: pos.y,
+            targetX: targetX,
+            targetY: targetY,
+            speed: weapon.speed * this.stats.projectileSpeedMultiplier,
+            damage: weapon.damage,
+            spritesheetKey: "powers_spritesheet",
+            animationName: weapon.frameName,
+            pierceCount: totalPierce,
+            range: 900,
+            scale: scale,
+            sourceId: weapon.id
+          });
+        }
+        break;
+      }
+      
       case "orbital":
       {
         // NOTE: Orbital weapons are now spawned in addOrUpgradeWeapon()
@@ -657,23 +841,11 @@ export class Player extends BaseEntity
   }
   
   /**
-   * Get facing angle in radians based on current facing direction
+   * Get facing angle in radians (one of 8 directions, 0 = right, PI/2 = down)
    */
-  private getFacingAngle(): number
+  getFacingAngle(): number
   {
-    switch (this.facingDirection)
-    {
-      case 'Right':
-        return 0; // 0°
-      case 'Front':
-        return Math.PI / 2; // 90° (down)
-      case 'Left':
-        return Math.PI; // 180°
-      case 'Back':
-        return -Math.PI / 2; // -90° (up)
-      default:
-        return 0;
-    }
+    return this.facingAngle;
   }
 
   /**
@@ -693,6 +865,8 @@ export class Player extends BaseEntity
     frameName: string;
     orbitRadius?: number;
     orbitSpeed?: number;
+    orbitPulse?: number; // Orbit radius swing (0.4 = +-40%)
+    statsId?: string; // weaponStats key (evolved weapons keep their base weapon's)
   }): void
   {
     // Check if weapon already exists
@@ -709,6 +883,7 @@ export class Player extends BaseEntity
       existingWeapon.frameName = weaponData.frameName;
       existingWeapon.orbitRadius = weaponData.orbitRadius;
       existingWeapon.orbitSpeed = weaponData.orbitSpeed;
+      existingWeapon.orbitPulse = weaponData.orbitPulse;
       
       console.log(`[Player] Upgraded ${weaponData.name} to level ${weaponData.level}`);
       
@@ -716,7 +891,7 @@ export class Player extends BaseEntity
       // (count can change from major upgrades like +1 projectile)
       if (weaponData.behavior === 'orbital' && this.weaponSystem)
       {
-        const totalCount = 1 + (this.stats.projectileCount - 1) + (this.weaponStats[weaponData.id]?.extraProjectiles ?? 0);
+        const totalCount = 1 + (this.stats.projectileCount - 1) + (this.weaponStats[weaponData.statsId ?? weaponData.id]?.extraProjectiles ?? 0);
         const scale = 1.0 * weaponData.area;
         
         this.weaponSystem.spawnOrbitalWeapon(
@@ -726,7 +901,9 @@ export class Player extends BaseEntity
           weaponData.orbitRadius ?? 80,
           weaponData.orbitSpeed ?? 2.0,
           weaponData.damage,
-          scale
+          scale,
+          weaponData.id,
+          weaponData.orbitPulse ?? 0
         );
       }
     }
@@ -743,7 +920,7 @@ export class Player extends BaseEntity
       // If orbital weapon, spawn orbitals immediately
       if (weaponData.behavior === 'orbital' && this.weaponSystem)
       {
-        const totalCount = 1 + (this.stats.projectileCount - 1) + (this.weaponStats[weaponData.id]?.extraProjectiles ?? 0);
+        const totalCount = 1 + (this.stats.projectileCount - 1) + (this.weaponStats[weaponData.statsId ?? weaponData.id]?.extraProjectiles ?? 0);
         const scale = 1.0 * weaponData.area;
         
         this.weaponSystem.spawnOrbitalWeapon(
@@ -753,12 +930,25 @@ export class Player extends BaseEntity
           weaponData.orbitRadius ?? 80,
           weaponData.orbitSpeed ?? 2.0,
           weaponData.damage,
-          scale
+          scale,
+          weaponData.id,
+          weaponData.orbitPulse ?? 0
         );
       }
     }
   }
   
+  /**
+   * Replace a weapon with its evolved form (the evolution starts with a fresh cooldown)
+   */
+  public evolveWeapon(baseId: string, weaponData: Parameters<Player['addOrUpgradeWeapon']>[0]): void
+  {
+    this.activeWeapons = this.activeWeapons.filter(w => w.id !== baseId);
+    this.addOrUpgradeWeapon(weaponData);
+    
+    console.log(`[Player] Evolved ${baseId} into ${weaponData.name}`);
+  }
+  
   /**
    * Apply global projectile count increase to all weapons and powers
    */
@@ -793,6 +983,20 @@ export class Player extends BaseEntity
     return this.baseDamage * this.stats.damageMultiplier;
   }
   
+  /**
+   * Roll a critical hit for one hit of a weapon, power or attack
+   * (no roll without crit chance, so builds without it keep their random sequence)
+   */
+  rollCritical(damage: number): { damage: number; critical: boolean }
+  {
+    if (this.stats.critChance <= 0 || !this.random.chance(this.stats.critChance))
+    {
+      return { damage, critical: false };
+    }
+    
+    return { damage: damage * this.stats.critMultiplier, critical: true };
+  }
+  
   /**
    * Get player attack range
    */
@@ -851,6 +1055,11 @@ export class Player extends BaseEntity
     
     // Apply armor (flat damage reduction)
     const damageAfterArmor = Math.max(1, amount - this.stats.armor);
+    
+    if (damageAfterArmor < amount)
+    {
+      this.emit('blocked', amount - damageAfterArmor);
+    }
 
     super.takeDamage(damageAfterArmor);
 
@@ -900,6 +1109,7 @@ export class Player extends BaseEntity
     speed: number;
     pierce: number;
     animationName: string;
+    sourceId?: string;
   }): void
   {
     if (!this.weaponSystem)
@@ -921,7 +1131,8 @@ export class Player extends BaseEntity
       animationName: config.animationName,
       range: 800,
       pierceCount: config.pierce,
-      scale: 1.5
+      scale: 1.5,
+      sourceId: config.sourceId
     });
     
     console.log('[Player] Spawned power projectile:', config.animationName);
@@ -947,8 +1158,8 @@ export class Player extends BaseEntity
     {
       case 'explosion':
         // Random position near player
-        const offsetX = (Math.random() - 0.5) * 200;
-        const offsetY = (Math.random() - 0.5) * 200;
+        const offsetX = this.random.range(-100, 100);
+        const offsetY = this.random.range(-100, 100);
         this.areaEffectSystem.spawnExplosion(
           pos.x + offsetX,
           pos.y + offsetY,
@@ -2,10 +2,12 @@
  * Projectile.ts - Universal projectile class
  * Handles movement, animation, and collision detection for ALL projectiles
  * (Player weapons, player powers, enemy attacks)
+ * Pooled: systems release dead projectiles and reset() them for the next shot
  */
 
 import { AnimatedSprite, Container, Texture } from 'pixi.js';
 import { AssetManager } from '../../managers/AssetManager';
+import { OnHitEffect } from '../configs/StatusEffects';
 
 export interface ProjectileConfig
 {
@@ -21,6 +23,8 @@ export interface ProjectileConfig
   pierceCount?: number;
   scale?: number;
   isWeapon?: boolean; // True for weapons (single frame + rotation), false for powers (multi-frame animation)
+  sourceId?: string; // Weapon/power id that fired it (damage tracking)
+  statusEffects?: OnHitEffect[]; // Applied to whatever it hits
 }
 
 export class Projectile extends Container
@@ -30,34 +34,58 @@ export class Projectile extends Container
   
   private velocityX: number = 0;
   private velocityY: number = 0;
-  private speed: number;
-  private damage: number;
+  private speed: number = 0;
+  private damage: number = 0;
+  private sourceId: string = 'unknown';
+  private statusEffects: OnHitEffect[] = [];
   
   private distanceTraveled: number = 0;
-  private maxRange: number;
+  private maxRange: number = 800;
   
-  private pierceCount: number;
-  private pierceRemaining: number;
+  private pierceCount: number = 0;
+  private pierceRemaining: number = 0;
   
-  private isAlive: boolean = true;
+  private isAlive: boolean = false;
   
   // Weapon rotation
   private isWeapon: boolean = false;
   private rotationSpeed: number = 0;
   
-  constructor(assetManager: AssetManager, config: ProjectileConfig)
+  /**
+   * Pools create projectiles without a config and reset() them when fired
+   */
+  constructor(assetManager: AssetManager, config?: ProjectileConfig)
   {
     super();
     
     this.assetManager = assetManager;
+    
+    if (config)
+    {
+      this.reset(config);
+    }
+  }
+  
+  /**
+   * (Re)launch this projectile with a new config
+   */
+  reset(config: ProjectileConfig): void
+  {
     this.speed = config.speed;
     this.damage = config.damage;
+    this.sourceId = config.sourceId ?? 'unknown';
+    this.statusEffects = config.statusEffects ?? [];
     this.maxRange = config.range ?? 800;
     this.pierceCount = config.pierceCount ?? 0;
     this.pierceRemaining = this.pierceCount;
     this.isWeapon = config.isWeapon ?? false;
+    this.rotationSpeed = 0;
+    this.distanceTraveled = 0;
+    this.isAlive = true;
+    this.visible = true;
     
     this.position.set(config.startX, config.startY);
+    this.rotation = 0;
     
     this.calculateVelocity(config.startX, config.startY, config.targetX, config.targetY);
     
@@ -151,8 +179,17 @@ export class Projectile extends Container
       }
     }
     
-    this.sprite = new AnimatedSprite(frames);
-    this.sprite.anchor.set(0.5, 0.5);
+    // Reuse the sprite of a pooled projectile
+    if (this.sprite)
+    {
+      this.sprite.textures = frames;
+    }
+    else
+    {
+      this.sprite = new AnimatedSprite(frames);
+      this.sprite.anchor.set(0.5, 0.5);
+      this.addChild(this.sprite);
+    }
     
     if (this.isWeapon)
     {
@@ -169,12 +206,7 @@ export class Projectile extends Container
       this.sprite.play();
     }
     
-    if (scale)
-    {
-      this.sprite.scale.set(scale);
-    }
-    
-    this.addChild(this.sprite);
+    this.sprite.scale.set(scale ?? 1);
   }
   
   /**
@@ -205,7 +237,7 @@ export class Projectile extends Container
     
     if (this.distanceTraveled >= this.maxRange)
     {
-      this.destroy();
+      this.deactivate();
     }
   }
   
@@ -225,7 +257,7 @@ export class Projectile extends Container
       return false;
     }
     
-    this.destroy();
+    this.deactivate();
     return true;
   }
   
@@ -245,7 +277,7 @@ export class Projectile extends Container
       return false;
     }
     
-    this.destroy();
+    this.deactivate();
     return true;
   }
   
@@ -257,6 +289,22 @@ export class Projectile extends Container
     return this.damage;
   }
   
+  /**
+   * Get id of the weapon/power that fired this projectile
+   */
+  getSourceId(): string
+  {
+    return this.sourceId;
+  }
+  
+  /**
+   * Get status effects applied on hit
+   */
+  getStatusEffects(): OnHitEffect[]
+  {
+    return this.statusEffects;
+  }
+  
   /**
    * Get projectile position
    */
@@ -282,7 +330,17 @@ export class Projectile extends Container
   }
   
   /**
-   * Destroy projectile
+   * Stop the projectile (its system removes and pools it)
+   */
+  deactivate(): void
+  {
+    this.isAlive = false;
+    this.visible = false;
+    this.sprite?.stop();
+  }
+  
+  /**
+   * Destroy projectile (dropped from its pool)
    */
   destroy(options?: any): void
   {
@@ -25,8 +25,34 @@ export class SkullPickup extends PickupBase
   
   constructor(assetManager: AssetManager, config: SkullPickupConfig)
   {
-    // Create base pickup config with animated Skull sprite
-    const pickupConfig: PickupConfig = {
+    super(assetManager, SkullPickup.getPickupConfig(config));
+    
+    this.damage = config.damage ?? 9999; // Instant kill by default
+    
+    // Scale skull slightly larger (it's a rare drop!)
+    this.scale.set(1, 1);
+    
+    // Add ominous pulsing effect
+    this.addPulseEffect();
+  }
+  
+  /**
+   * Reuse this skull (pooled) for a new drop
+   */
+  reset(config: SkullPickupConfig): void
+  {
+    this.applyConfig(SkullPickup.getPickupConfig(config));
+    
+    this.damage = config.damage ?? 9999;
+    this.scale.set(1, 1);
+  }
+  
+  /**
+   * Base pickup config for a skull (animated Skull sprite)
+   */
+  private static getPickupConfig(config: SkullPickupConfig): PickupConfig
+  {
+    return {
       x: config.x,
       y: config.y,
       spritesheetKey: 'collectables_spritesheet',
@@ -36,16 +62,6 @@ export class SkullPickup extends PickupBase
       lifetime: config.lifetime ?? 0, // Permanent by default (rare drops don't expire)
       particleContainer: config.particleContainer
     };
-    
-    super(assetManager, pickupConfig);
-    
-    this.damage = config.damage ?? 9999; // Instant kill by default
-    
-    // Scale skull slightly larger (it's a rare drop!)
-    this.scale.set(1, 1);
-    
-    // Add ominous pulsing effect
-    this.addPulseEffect();
   }
   
   /**
@@ -26,7 +26,32 @@ export class StarPickup extends PickupBase
   
   constructor(assetManager: AssetManager, config: StarPickupConfig)
   {
-    const pickupConfig: PickupConfig = {
+    super(assetManager, StarPickup.getPickupConfig(config));
+    
+    this.invincibilityDuration = config.duration ?? 8.0;
+    this.spawnImmunity = 60; // Can't be picked up for 1 second
+    
+    // Scale container like Crystal/Food
+    this.scale.set(0.8, 0.8);
+  }
+  
+  /**
+   * Reuse this star (pooled) for a new drop
+   */
+  reset(config: StarPickupConfig): void
+  {
+    this.applyConfig(StarPickup.getPickupConfig(config));
+    
+    this.invincibilityDuration = config.duration ?? 8.0;
+    this.spawnImmunity = 60;
+  }
+  
+  /**
+   * Base pickup config for a star
+   */
+  private static getPickupConfig(config: StarPickupConfig): PickupConfig
+  {
+    return {
       x: config.x,
       y: config.y,
       spritesheetKey: 'collectables_spritesheet',
@@ -36,14 +61,6 @@ export class StarPickup extends PickupBase
       lifetime: config.lifetime ?? 0,
       particleContainer: config.particleContainer
     };
-    
-    super(assetManager, pickupConfig);
-    
-    this.invincibilityDuration = config.duration ?? 8.0;
-    this.spawnImmunity = 60; // Can't be picked up for 1 second
-    
-    // Scale container like Crystal/Food
-    this.scale.set(0.8, 0.8);
   }
   
   /**
@@ -2,8 +2,14 @@
  * MonsterBase.ts - Abstract base class for all monster entities
  */
 
+import { Container, Graphics, Text, TextStyle } from 'pixi.js';
 import { AssetManager } from '../../../managers/AssetManager';
 import { BaseEntity, EntityConfig, EntityState, FacingDirection } from '../BaseEntity';
+import { OnHitEffect, StatusEffectDefinition } from '../../configs/StatusEffects';
+import { SeededRandom } from '../../../utils/Random';
+import { BossDefinition, BossPhase, getBossPhase, getVolleyAngles } from '../../configs/Bosses';
+import { MonsterType } from '../../systems/EnemySpawner';
+import { EliteModifier, ELITE_MODIFIERS, ELITE_STATS, getEliteName } from '../../configs/Elites';
 
 export enum MonsterBehavior
 {
@@ -33,8 +39,29 @@ export interface MonsterConfig
   };
 }
 
+/**
+ * World access for boss attacks (set by EnemySpawner)
+ */
+export interface BossHooks
+{
+  fireProjectile: (startX: number, startY: number, targetX: number, targetY: number, damage: number, speed: number, statusEffects: OnHitEffect[]) => void;
+  summon: (types: MonsterType[], count: number, x: number, y: number, radius: number) => void;
+}
+
+/**
+ * World access for elite modifiers (set by EnemySpawner)
+ */
+export interface EliteHooks
+{
+  fireProjectile: BossHooks['fireProjectile'];
+  split: (x: number, y: number) => void; // Spawn the splitting elite's children where it died
+}
+
 export abstract class MonsterBase extends BaseEntity
 {
+  // Spawn type (set by EnemySpawner, keys drops and kill counts)
+  monsterTypeName!: MonsterType;
+  
   // Monster stats
   protected damage: number;
   protected attackRange: number;
@@ -53,8 +80,27 @@ export abstract class MonsterBase extends BaseEntity
 
   protected nearbyMonsters: MonsterBase[] = [];
   
+  // Random source for AI decisions (replaced by the run RNG on spawn)
+  protected random: SeededRandom = new SeededRandom();
+  
   // Boss system
   protected isBoss: boolean = false;
+  private bossDefinition: BossDefinition | null = null;
+  private bossHooks: BossHooks | null = null;
+  private bossPhase: number = 0;
+  private bossAttackTimer: number = 0;
+  private bossBaseSpeed: number = 0;
+  
+  // Boss charge: telegraphed wind-up, then a dash like Orc3's (velocity = distance / duration)
+  private bossTelegraph: Graphics | null = null;
+  private bossTelegraphTimer: number = 0;
+  private bossChargeDirection: { x: number; y: number } = { x: 0, y: 0 };
+  private bossChargeTimeRemaining: number = 0;
+  
+  // Elite system (stat bonuses are applied by EnemySpawner, modifiers run here)
+  private eliteModifiers: EliteModifier[] = [];
+  private eliteHooks: EliteHooks | null = null;
+  private eliteMarker: Container | null = null; // Outline ring and name tag
   
   // Death animation
   protected isPlayingDeathAnimation: boolean = false;
@@ -67,6 +113,11 @@ export abstract class MonsterBase extends BaseEntity
   private framesStuckCount: number = 0;
   private readonly MAX_FRAMES_STUCK = 120; // 2 seconds at 60fps
   
+  /**
+   * Custom collision radius (monsters without one use the default radius times their scale)
+   */
+  getCollisionRadius?(): number;
+  
   constructor(assetManager: AssetManager, config: MonsterConfig)
   {
     // Call BaseEntity constructor
@@ -93,11 +144,45 @@ export abstract class MonsterBase extends BaseEntity
   
   /**
    * Set as boss monster
-   * Called by EnemySpawner when spawning boss
+   * Called by EnemySpawner when spawning boss (after its stats are scaled)
+   * With a definition the monster also runs the boss attacks and phases
    */
-  setAsBoss(): void
+  setAsBoss(definition?: BossDefinition, hooks?: BossHooks): void
   {
     this.isBoss = true;
+    
+    if (definition && hooks)
+    {
+      this.bossDefinition = definition;
+      this.bossHooks = hooks;
+      this.bossPhase = 0;
+      this.bossBaseSpeed = this.movementSystem.getSpeed();
+      this.bossAttackTimer = definition.phases[0].attackInterval;
+    }
+  }
+  
+  /**
+   * Boss encounter this monster runs (null for plain monsters and flag-only bosses)
+   */
+  getBossDefinition(): BossDefinition | null
+  {
+    return this.bossDefinition;
+  }
+  
+  /**
+   * Current boss phase index
+   */
+  getBossPhase(): number
+  {
+    return this.bossPhase;
+  }
+  
+  /**
+   * Movement speed without temporary bonuses (boss phases)
+   */
+  getBaseSpeed(): number
+  {
+    return this.bossDefinition ? this.bossBaseSpeed : this.movementSystem.getSpeed();
   }
   
   /**
@@ -108,6 +193,153 @@ export abstract class MonsterBase extends BaseEntity
     return this.isBoss;
   }
   
+  /**
+   * Set as elite monster
+   * Called by EnemySpawner after its stats are scaled (and for restored elites, whose stats were saved)
+   */
+  setAsElite(modifiers: EliteModifier[], hooks?: EliteHooks): void
+  {
+    if (modifiers.length === 0)
+    {
+      return;
+    }
+    
+    this.eliteModifiers = [...modifiers];
+    this.eliteHooks = hooks ?? null;
+    this.createEliteMarker();
+    
+    if (this.sprite && this.statusEffects.getTint() === null)
+    {
+      this.sprite.tint = this.getBaseTint();
+    }
+  }
+  
+  /**
+   * Scale health, contact damage and speed (elite promotion, splitting children)
+   */
+  scaleStats(healthMultiplier: number, damageMultiplier: number, speedMultiplier: number = 1): void
+  {
+    this.health *= healthMultiplier;
+    this.maxHealth *= healthMultiplier;
+    this.damage *= damageMultiplier;
+    this.movementSystem.setSpeed(this.movementSystem.getSpeed() * speedMultiplier);
+  }
+  
+  /**
+   * Overwrite stats with saved values (resumed runs, speed is the base speed before boss phases)
+   */
+  restoreStats(stats: { maxHealth: number; health: number; damage: number; speed: number }): void
+  {
+    this.maxHealth = stats.maxHealth;
+    this.health = Math.min(stats.health, stats.maxHealth);
+    this.damage = stats.damage;
+    this.movementSystem.setSpeed(stats.speed);
+  }
+  
+  /**
+   * Check if monster is an elite
+   */
+  isElite(): boolean
+  {
+    return this.eliteModifiers.length > 0;
+  }
+  
+  /**
+   * Elite modifiers (empty for regular monsters)
+   */
+  getEliteModifiers(): readonly EliteModifier[]
+  {
+    return this.eliteModifiers;
+  }
+  
+  hasEliteModifier(modifier: EliteModifier): boolean
+  {
+    return this.eliteModifiers.includes(modifier);
+  }
+  
+  /**
+   * Outline ring at the feet and name tag above the head, colored by the first modifier
+   */
+  private createEliteMarker(): void
+  {
+    if (this.eliteMarker)
+    {
+      this.removeChild(this.eliteMarker);
+      this.eliteMarker.destroy({ children: true });
+    }
+    
+    const color = ELITE_MODIFIERS[this.eliteModifiers[0]].color;
+    const marker = new Container();
+    
+    const ring = new Graphics();
+    ring.ellipse(0, 14, 20, 7);
+    ring.stroke({ color, width: 2, alpha: 0.9 });
+    marker.addChild(ring);
+    
+    const nameTag = new Text({
+      text: getEliteName(this.eliteModifiers),
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 9,
+        fontWeight: 'bold',
+        fill: color,
+        stroke: { color: 0x000000, width: 2 }
+      })
+    });
+    nameTag.anchor.set(0.5, 1);
+    nameTag.position.set(0, -22);
+    marker.addChild(nameTag);
+    
+    // Under the sprite
+    this.addChildAt(marker, 0);
+    this.eliteMarker = marker;
+  }
+  
+  /**
+   * Elites keep a gold sheen when no status effect tints them
+   */
+  protected getBaseTint(): number
+  {
+    return this.isElite() ? ELITE_STATS.tint : 0xffffff;
+  }
+  
+  /**
+   * Called when this monster's touch damage lands on its target (vampiric elites heal)
+   */
+  onTouchHit(_damage: number): void
+  {
+    if (this.hasEliteModifier('vampiric') && !this.isDead())
+    {
+      this.heal(this.maxHealth * ELITE_STATS.vampiricHeal);
+    }
+  }
+  
+  /**
+   * Reflecting elites send some projectiles back at their target instead of taking the hit
+   * Returns true when the projectile was reflected
+   */
+  reflectProjectile(): boolean
+  {
+    if (!this.hasEliteModifier('reflecting') || !this.eliteHooks || !this.target || this.isDead() ||
+        !this.random.chance(ELITE_STATS.reflectChance))
+    {
+      return false;
+    }
+    
+    const targetPos = this.target.getPosition();
+    this.eliteHooks.fireProjectile(
+      this.currentPosition.x,
+      this.currentPosition.y,
+      targetPos.x,
+      targetPos.y,
+      this.damage * ELITE_STATS.reflectDamageMultiplier,
+      4,
+      []
+    );
+    
+    return true;
+  }
+  
   /**
    * Set target entity (usually the player)
    */
@@ -116,6 +348,14 @@ export abstract class MonsterBase extends BaseEntity
     this.target = target;
   }
   
+  /**
+   * Set random source used for AI decisions
+   */
+  setRandom(random: SeededRandom): void
+  {
+    this.random = random;
+  }
+  
   /**
    * Get target entity
    */
@@ -300,14 +540,20 @@ export abstract class MonsterBase extends BaseEntity
   /**
    * Take damage - override to add hurt behavior hook
    */
-  takeDamage(amount: number): void
+  takeDamage(amount: number, critical: boolean = false): void
   {
     if (this.isDead())
     {
       return;
     }
 
-    super.takeDamage(amount);
+    // Armored elites shrug off part of every hit
+    if (this.hasEliteModifier('armored'))
+    {
+      amount *= ELITE_STATS.armoredDamageTaken;
+    }
+
+    super.takeDamage(amount, critical);
     
     if (this.isDead())
     {
@@ -365,6 +611,12 @@ export abstract class MonsterBase extends BaseEntity
    */
   protected onHurt(): void
   {
+    // Bosses shrug off hits (no stagger, no hurt animation)
+    if (this.bossDefinition)
+    {
+      return;
+    }
+    
     // Allow hurt to interrupt attacks (stagger mechanic)
     if (this.currentState === EntityState.ATTACKING)
     {
@@ -416,9 +668,21 @@ export abstract class MonsterBase extends BaseEntity
    */
   protected onDeath(): void
   {
+    this.clearBossTelegraph();
     this.setState(EntityState.DEAD);
     this.isPlayingDeathAnimation = true;
     
+    if (this.eliteMarker)
+    {
+      this.eliteMarker.visible = false;
+    }
+    
+    // Splitting elites break into smaller copies
+    if (this.hasEliteModifier('splitting') && this.eliteHooks)
+    {
+      this.eliteHooks.split(this.currentPosition.x, this.currentPosition.y);
+    }
+    
     // Play death animation
     this.playAnimation('death', this.facingDirection, {
       loop: false,
@@ -529,6 +793,200 @@ protected applySeparation(separationDistance = 50): void
     }
   }
   
+  /**
+   * Boss phases and special attacks
+   * Returns true while a charge (wind-up or dash) has control of the monster
+   */
+  private updateBoss(delta: number): boolean
+  {
+    const definition = this.bossDefinition!;
+    
+    const phase = getBossPhase(definition, this.getHealthPercentage());
+    if (phase > this.bossPhase)
+    {
+      this.enterBossPhase(phase);
+    }
+    
+    if (this.bossChargeTimeRemaining > 0)
+    {
+      this.updateBossCharge(delta);
+      return true;
+    }
+    
+    if (this.bossTelegraphTimer > 0)
+    {
+      this.bossTelegraphTimer -= delta;
+      
+      if (this.bossTelegraph)
+      {
+        this.bossTelegraph.alpha = 0.35 + 0.35 * Math.abs(Math.sin(this.bossTelegraphTimer * 12));
+      }
+      
+      if (this.bossTelegraphTimer <= 0)
+      {
+        this.clearBossTelegraph();
+        this.bossChargeTimeRemaining = definition.charge.duration;
+        this.playAnimation('run', this.facingDirection, { loop: true, speed: 0.3 });
+      }
+      return true;
+    }
+    
+    if (!this.target || this.currentState === EntityState.ATTACKING)
+    {
+      return false;
+    }
+    
+    this.bossAttackTimer -= delta;
+    if (this.bossAttackTimer > 0)
+    {
+      return false;
+    }
+    
+    const phaseDef = definition.phases[this.bossPhase];
+    this.bossAttackTimer = phaseDef.attackInterval;
+    
+    switch (this.random.pick(phaseDef.attacks))
+    {
+      case 'charge':
+        this.startBossCharge();
+        return true;
+        
+      case 'volley':
+        this.fireBossVolley(phaseDef);
+        return false;
+        
+      case 'summon':
+        this.bossHooks!.summon(definition.summon.types, phaseDef.summonCount, this.currentPosition.x, this.currentPosition.y, definition.summon.radius);
+        return false;
+    }
+    
+    return false;
+  }
+  
+  /**
+   * Move to a deeper phase: faster, and the next attack comes sooner
+   */
+  private enterBossPhase(phase: number): void
+  {
+    const phaseDef = this.bossDefinition!.phases[phase];
+    
+    this.bossPhase = phase;
+    this.movementSystem.setSpeed(this.bossBaseSpeed * phaseDef.speedMultiplier);
+    this.bossAttackTimer = Math.min(this.bossAttackTimer, 1);
+    
+    console.warn(`[Monster] ${this.bossDefinition!.name} enters phase ${phase + 1}!`);
+  }
+  
+  /**
+   * Lock the charge direction and show it (red line and tint) during the wind-up
+   */
+  private startBossCharge(): void
+  {
+    const definition = this.bossDefinition!;
+    
+    this.bossChargeDirection = this.getDirectionToTarget();
+    this.bossTelegraphTimer = definition.charge.telegraph;
+    
+    this.facingDirection = this.directionToFacing(this.bossChargeDirection.x, this.bossChargeDirection.y);
+    this.transitionToIdle();
+    
+    // Drawn in local space (the monster container is scaled)
+    const length = definition.charge.distance / (this.scale.x || 1);
+    
+    this.bossTelegraph = new Graphics();
+    this.bossTelegraph.moveTo(0, 0);
+    this.bossTelegraph.lineTo(this.bossChargeDirection.x * length, this.bossChargeDirection.y * length);
+    this.bossTelegraph.stroke({ color: 0xff3333, width: 12 / (this.scale.x || 1), alpha: 1 });
+    this.addChildAt(this.bossTelegraph, 0);
+    
+    if (this.sprite)
+    {
+      this.sprite.tint = 0xff6666;
+    }
+  }
+  
+  /**
+   * Dash along the locked direction (clamped to bounds)
+   */
+  private updateBossCharge(delta: number): void
+  {
+    const charge = this.bossDefinition!.charge;
+    const speed = charge.distance / charge.duration;
+    
+    const newX = this.currentPosition.x + this.bossChargeDirection.x * speed * delta;
+    const newY = this.currentPosition.y + this.bossChargeDirection.y * speed * delta;
+    
+    const bounds = this.movementSystem.getBounds();
+    const boundedX = bounds ? Math.max(bounds.minX, Math.min(bounds.maxX, newX)) : newX;
+    const boundedY = bounds ? Math.max(bounds.minY, Math.min(bounds.maxY, newY)) : newY;
+    
+    this.setPosition(boundedX, boundedY);
+    
+    this.bossChargeTimeRemaining -= delta;
+    if (this.bossChargeTimeRemaining <= 0)
+    {
+      this.bossChargeTimeRemaining = 0;
+      this.transitionToChasing();
+    }
+  }
+  
+  /**
+   * Fan of projectiles aimed at the target
+   */
+  private fireBossVolley(phaseDef: BossPhase): void
+  {
+    if (!this.target)
+    {
+      return;
+    }
+    
+    const volley = this.bossDefinition!.volley;
+    const targetPos = this.target.getPosition();
+    const aim = Math.atan2(targetPos.y - this.currentPosition.y, targetPos.x - this.currentPosition.x);
+    const damage = this.damage * volley.damageMultiplier;
+    
+    for (const angle of getVolleyAngles(phaseDef.volleyCount, volley.spread, aim))
+    {
+      this.bossHooks!.fireProjectile(
+        this.currentPosition.x,
+        this.currentPosition.y,
+        this.currentPosition.x + Math.cos(angle) * 100,
+        this.currentPosition.y + Math.sin(angle) * 100,
+        damage,
+        volley.speed,
+        volley.statusEffects ?? []
+      );
+    }
+  }
+  
+  /**
+   * Remove the charge wind-up visuals
+   */
+  private clearBossTelegraph(): void
+  {
+    this.bossTelegraphTimer = 0;
+    
+    if (this.bossTelegraph)
+    {
+      this.removeChild(this.bossTelegraph);
+      this.bossTelegraph.destroy();
+      this.bossTelegraph = null;
+    }
+    
+    if (this.sprite)
+    {
+      this.sprite.tint = this.statusEffects.getTint() ?? this.getBaseTint();
+    }
+  }
+  
+  /**
+   * Bosses can't be frozen or stunned (slows and damage over time still apply)
+   */
+  protected isImmuneTo(definition: StatusEffectDefinition): boolean
+  {
+    return this.isBoss && definition.stuns;
+  }
+  
   /**
    * Abstract AI decision method - must be implemented by specific monsters
    */
@@ -548,8 +1006,24 @@ protected applySeparation(separationDistance = 50): void
     // Check for stuck animations (safety mechanism)
     this.checkAnimationWatchdog();
     
+    // Status effects: tick damage can kill, freeze/stun stop everything
+    this.updateStatusEffects(delta);
+    if (!this.isAlive() || this.statusEffects.isStunned())
+    {
+      return;
+    }
+    
+    // Slows scale the whole behavior (movement, dashes, AI timers)
+    const moveDelta = delta * this.statusEffects.getMoveMultiplier();
+    
     // Update cooldowns
-    this.updateAttackCooldown(delta);
+    this.updateAttackCooldown(delta * this.statusEffects.getAttackSpeedMultiplier());
+    
+    // Boss charge takes over movement until it lands
+    if (this.bossDefinition && this.updateBoss(moveDelta))
+    {
+      return;
+    }
     
     // Freeze during hurt animation (brief stagger effect)
     if (this.isPlayingHurtAnimation)
@@ -558,13 +1032,13 @@ protected applySeparation(separationDistance = 50): void
     }
     
     // Make AI decision
-    this.makeAIDecision(delta);
+    this.makeAIDecision(moveDelta);
     
     // Execute behavior
     switch (this.behavior)
     {
       case MonsterBehavior.CHASING:
-        this.moveTowardsTarget(delta);
+        this.moveTowardsTarget(moveDelta);
         break;
         
       case MonsterBehavior.ROAMING:
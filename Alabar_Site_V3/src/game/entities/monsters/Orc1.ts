@@ -131,7 +131,7 @@ export class Orc1 extends MonsterBase
     if (distance <= this.CHARGE_RANGE && distance > 50)
     {
       // Random chance to charge
-      if (Math.random() < this.CHARGE_CHANCE)
+      if (this.random.chance(this.CHARGE_CHANCE))
       {
         console.log('[Orc1] Performing HEAVY CHARGE!');
         
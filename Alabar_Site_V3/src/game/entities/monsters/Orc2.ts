@@ -168,7 +168,7 @@ export class Orc2 extends MonsterBase
       // Higher chance when enraged
       const effectiveChance = this.isEnraged ? this.CHARGE_CHANCE * 1.5 : this.CHARGE_CHANCE;
       
-      if (Math.random() < effectiveChance)
+      if (this.random.chance(effectiveChance))
       {
         const enrageText = this.isEnraged ? 'ENRAGED ' : '';
         console.log(`[Orc2] Performing ${enrageText}HEAVY CHARGE!`);
@@ -174,7 +174,7 @@ export class Orc3 extends MonsterBase
       // Very high chance when enraged
       const effectiveChance = this.isEnraged ? Math.min(this.CHARGE_CHANCE * 1.8, 0.95) : this.CHARGE_CHANCE;
       
-      if (Math.random() < effectiveChance)
+      if (this.random.chance(effectiveChance))
       {
         const enrageText = this.isEnraged ? '⚠️ ENRAGED ' : '';
         console.log(`[Orc3] ${enrageText}DEVASTATING CHARGE!`);
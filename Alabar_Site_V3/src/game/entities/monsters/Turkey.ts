@@ -7,10 +7,11 @@ import { Texture } from 'pixi.js';
 import { AssetManager } from '../../../managers/AssetManager';
 import { MonsterBase, MonsterConfig, MonsterBehavior } from './MonsterBase';
 import { FacingDirection } from '../BaseEntity';
+import { SeededRandom } from '../../../utils/Random';
 
 export class Turkey extends MonsterBase
 {
-  constructor(assetManager: AssetManager, x: number, y: number)
+  constructor(assetManager: AssetManager, x: number, y: number, random?: SeededRandom)
   {
     const config: MonsterConfig = {
       startX: x,
@@ -26,12 +27,17 @@ export class Turkey extends MonsterBase
     
     super(assetManager, config);
     
+    if (random)
+    {
+      this.random = random;
+    }
+    
     // Turkeys are passive roaming creatures
     this.behavior = MonsterBehavior.ROAMING;
     
     // Start with random facing direction
     const directions: FacingDirection[] = ['Front', 'Back', 'Left', 'Right'];
-    this.facingDirection = directions[Math.floor(Math.random() * directions.length)];
+    this.facingDirection = this.random.pick(directions);
     
     // Start walking animation
     this.playAnimation('walk', this.facingDirection, {
@@ -115,13 +121,13 @@ export class Turkey extends MonsterBase
   private roam(delta: number): void
   {
     // Change direction randomly every ~2 seconds
-    if (Math.random() < 0.01)
+    if (this.random.chance(0.01))
     {
       const directions: FacingDirection[] = ['Front', 'Back', 'Left', 'Right'];
-      this.facingDirection = directions[Math.floor(Math.random() * directions.length)];
+      this.facingDirection = this.random.pick(directions);
       
       // 30% chance to stop and idle
-      if (Math.random() < 0.4)
+      if (this.random.chance(0.4))
       {
         this.playAnimation('idle', this.facingDirection, {
           loop: true,
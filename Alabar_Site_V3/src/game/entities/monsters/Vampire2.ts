@@ -105,7 +105,7 @@ export class Vampire2 extends MonsterBase
     if (distance > 100 && distance < 400)
     {
       // Random chance to dash
-      if (Math.random() < this.DASH_CHANCE)
+      if (this.random.chance(this.DASH_CHANCE))
       {
         console.log('[Vampire2] Performing DASH!');
         
@@ -106,7 +106,7 @@ export class Vampire3 extends MonsterBase
     if (distance > 80 && distance < 500)
     {
       // High chance to dash
-      if (Math.random() < this.DASH_CHANCE)
+      if (this.random.chance(this.DASH_CHANCE))
       {
         console.log('[Vampire3] Performing AGGRESSIVE DASH!');
         
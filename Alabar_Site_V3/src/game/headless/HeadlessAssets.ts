@@ -0,0 +1,58 @@
+/**
+ * HeadlessAssets.ts - Asset setup for running the game under Node
+ * Builds spritesheets from the real JSON atlases on blank textures, so frame names,
+ * animation lengths and sprite sizes match the browser without decoding any image
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { Spritesheet, Texture, TextureSource, Ticker } from 'pixi.js';
+import { AssetManager } from '../../managers/AssetManager';
+
+/**
+ * Stop Ticker.shared from scheduling frames (no requestAnimationFrame in Node)
+ * The simulation steps it manually instead
+ */
+export function setupHeadlessPixi(): void
+{
+  Ticker.shared.autoStart = false;
+  Ticker.shared.stop();
+}
+
+/**
+ * Load gameplay spritesheets from the public folder into the AssetManager
+ */
+export async function loadHeadlessAssets(publicDir: string): Promise<AssetManager>
+{
+  const assetManager = AssetManager.getInstance();
+  const paths = assetManager.getAssetPaths();
+
+  const sheets: Record<string, string> = {
+    'player_spritesheet': paths.player.data,
+    'powers_spritesheet': paths.powers.data,
+    'collectables_spritesheet': paths.collectables.data
+  };
+
+  for (const [key, monster] of Object.entries(paths.monsters))
+  {
+    sheets[`${key}_spritesheet`] = monster.data;
+  }
+
+  for (const [alias, dataPath] of Object.entries(sheets))
+  {
+    const json = await readFile(join(publicDir, dataPath), 'utf8');
+    const data = JSON.parse(json);
+
+    const size = data.meta?.size ?? { w: 1024, h: 1024 };
+    const texture = new Texture({
+      source: new TextureSource({ width: size.w, height: size.h })
+    });
+
+    const spritesheet = new Spritesheet(texture, data);
+    await spritesheet.parse();
+
+    assetManager.registerSpritesheet(alias, spritesheet);
+  }
+
+  return assetManager;
+}
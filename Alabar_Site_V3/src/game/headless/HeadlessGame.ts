@@ -0,0 +1,593 @@
+/**
+ * HeadlessGame.ts - SiteGame's gameplay loop without a renderer, DOM or UI
+ * Runs a whole seeded run at a fixed timestep as fast as possible, driven by a PlayerBrain
+ */
+
+import { Container, Ticker } from 'pixi.js';
+import { AssetManager } from '../../managers/AssetManager';
+import { Player } from '../entities/Player';
+import { MonsterBase } from '../entities/monsters/MonsterBase';
+import { CollisionSystem } from '../systems/Collision';
+import { DropManager, MonsterType } from '../systems/DropManager';
+import { PickupBase } from '../entities/PickupBase';
+import { CrystalPickup } from '../entities/Crystal';
+import { FoodPickup } from '../entities/Food';
+import { StarPickup } from '../entities/Star';
+import { SkullPickup } from '../entities/Skull';
+import { EnemySpawner } from '../systems/EnemySpawner';
+import { EnemyProjectileManager } from '../systems/EnemyProjectileManager';
+import { CardOption, PowerManager } from '../systems/PowerManager';
+import { WeaponSystem } from '../systems/WeaponSystem';
+import { AreaEffectSystem } from '../systems/AreaEffectSystem';
+import { Chest, ChestType } from '../entities/Chest';
+import { WaveSchema } from '../configs/Waves';
+import { SeededRandom } from '../../utils/Random';
+import { CharacterDefinition, DEFAULT_CHARACTER_ID, getCharacter } from '../configs/Characters';
+import { BrainView, PlayerBrain } from './PlayerBrain';
+
+export interface HeadlessGameConfig
+{
+  assetManager: AssetManager;
+  brain: PlayerBrain;
+  seed?: number;
+  character?: string; // Playable character id (default: the default character)
+  field?: { width: number; height: number }; // Playfield size (default: 1280x400)
+  maxTime?: number; // Stop after this many seconds of game time (default: 600)
+  fixedDelta?: number; // Seconds per frame (default: 1/60)
+  waves?: WaveSchema;
+}
+
+export interface SimulationResult
+{
+  seed: number;
+  brain: string;
+  character: string;
+  survivalTime: number; // Seconds since the chest broke
+  level: number;
+  wave: number;
+  died: boolean;
+  frames: number;
+  kills: Partial<Record<MonsterType, number>>;
+  damageBySource: Record<string, number>;
+  build: Array<{ id: string; level: number }>;
+}
+
+interface MonsterSpawnData
+{
+  monster: MonsterBase;
+  monsterType: MonsterType;
+}
+
+export class HeadlessGame
+{
+  private assetManager: AssetManager;
+  private brain: PlayerBrain;
+  private field: { width: number; height: number };
+  private maxTime: number;
+  private fixedDelta: number;
+  private waves?: WaveSchema;
+
+  private random: SeededRandom;
+  private character: CharacterDefinition;
+  private root: Container;
+
+  // Systems
+  private collisionSystem: CollisionSystem;
+  private dropManager: DropManager;
+  private enemySpawner!: EnemySpawner;
+  private enemyProjectileManager!: EnemyProjectileManager;
+  private powerManager!: PowerManager;
+  private weaponSystem!: WeaponSystem;
+  private areaEffectSystem!: AreaEffectSystem;
+
+  // Entities
+  private player!: Player;
+  private monsters: MonsterSpawnData[] = [];
+  private pickups: PickupBase[] = [];
+  private chest: Chest | null = null; // Starter chest (a melee target, kept out of monsters)
+  private rewardChests: Chest[] = []; // Dropped by bosses and elites (melee only)
+
+  // Run state
+  private gameStarted: boolean = false;
+  private died: boolean = false;
+  private elapsedTime: number = 0;
+  private frames: number = 0;
+  private animationClock: number = 0;
+  private pendingCards: CardOption[][] = [];
+  private kills: Partial<Record<MonsterType, number>> = {};
+  private damageBySource: Record<string, number> = {};
+
+  private gameBounds = {
+    minX: 25,
+    maxX: 0,
+    minY: 25,
+    maxY: 0
+  };
+
+  constructor(config: HeadlessGameConfig)
+  {
+    this.assetManager = config.assetManager;
+    this.brain = config.brain;
+    this.field = config.field ?? { width: 1280, height: 400 };
+    this.maxTime = config.maxTime ?? 600;
+    this.fixedDelta = config.fixedDelta ?? 1 / 60;
+    this.waves = config.waves;
+
+    this.random = new SeededRandom(config.seed);
+    this.character = getCharacter(config.character ?? DEFAULT_CHARACTER_ID);
+
+    this.collisionSystem = new CollisionSystem({
+      playerRadius: 20,
+      monsterRadius: 25,
+      projectileRadius: 8,
+      xpRadius: 30
+    });
+
+    this.dropManager = new DropManager(this.random);
+
+    this.root = new Container();
+    this.root.label = 'HeadlessGameContainer';
+
+    this.gameBounds.maxX = this.field.width - 25;
+    this.gameBounds.maxY = this.field.height - 25;
+  }
+
+  /**
+   * Play the whole run and return its stats
+   */
+  run(): SimulationResult
+  {
+    this.setup();
+
+    while (!this.died && this.elapsedTime < this.maxTime)
+    {
+      this.step();
+    }
+
+    const result = this.getResult();
+    this.destroy();
+
+    return result;
+  }
+
+  /**
+   * Create player, systems and starter chest (same order as SiteGame.initialize)
+   */
+  private setup(): void
+  {
+    this.player = new Player(this.assetManager, {
+      startX: this.field.width * 0.20,
+      startY: this.field.height * 0.50,
+      speed: 2.0,
+      bounds: this.gameBounds,
+      onLevelUp: (_newLevel: number) => {
+        const cards = this.powerManager.generateLevelUpCards();
+        if (cards.length > 0)
+        {
+          this.pendingCards.push(cards);
+        }
+      },
+      onDeath: () => {
+        this.died = true;
+      },
+      random: this.random,
+      inputSource: this.brain
+    });
+
+    this.player.scale.set(2.0, 2.0);
+    this.root.addChild(this.player);
+
+    this.powerManager = new PowerManager(this.player, this.random);
+
+    const projectileContainer = new Container();
+    this.root.addChild(projectileContainer);
+    this.weaponSystem = new WeaponSystem(this.assetManager, projectileContainer);
+
+    const effectContainer = new Container();
+    this.root.addChild(effectContainer);
+    this.areaEffectSystem = new AreaEffectSystem(this.assetManager, effectContainer);
+
+    const recordDamage = (sourceId: string, damage: number) => {
+      this.damageBySource[sourceId] = (this.damageBySource[sourceId] ?? 0) + damage;
+    };
+    this.weaponSystem.setDamageListener(recordDamage);
+    this.areaEffectSystem.setDamageListener(recordDamage);
+
+    this.weaponSystem.setCriticalRoll((damage) => this.player.rollCritical(damage));
+    this.areaEffectSystem.setCriticalRoll((damage) => this.player.rollCritical(damage));
+
+    this.player.setWeaponSystem(this.weaponSystem);
+    this.player.setAreaEffectSystem(this.areaEffectSystem);
+    this.player.getNearestMonsters = (count: number) => this.getNearestMonsters(count);
+
+    const enemyProjectileContainer = new Container();
+    this.root.addChild(enemyProjectileContainer);
+    this.enemyProjectileManager = new EnemyProjectileManager(
+      this.assetManager,
+      enemyProjectileContainer,
+      this.player
+    );
+
+    this.enemySpawner = new EnemySpawner({
+      assetManager: this.assetManager,
+      player: this.player,
+      bounds: this.gameBounds,
+      spawnRadius: 400,
+      random: this.random,
+      waves: this.waves
+    });
+    this.enemySpawner.setProjectileManager(this.enemyProjectileManager);
+
+    // Character kit before the chest (SiteGame.beginRun)
+    this.player.applyCharacter(this.character);
+    this.powerManager.addWeapon(this.character.startingWeapon);
+
+    this.chest = new Chest(this.assetManager, {
+      x: this.field.width / 2,
+      y: this.field.height / 2,
+      random: this.random,
+      onBreak: () => {
+        this.onChestBreak();
+      }
+    });
+    this.root.addChild(this.chest);
+  }
+
+  /**
+   * Chest broken - the run starts (mirrors SiteGame.onChestBreak)
+   */
+  private onChestBreak(): void
+  {
+    if (this.chest)
+    {
+      this.root.removeChild(this.chest);
+      this.chest.destroy();
+      this.chest = null;
+    }
+
+    this.player.addXP(this.player.getXPNeeded());
+    this.gameStarted = true;
+  }
+
+  /**
+   * Advance one fixed frame (mirrors SiteGame.update)
+   */
+  private step(): void
+  {
+    const delta = this.fixedDelta;
+
+    // Resolve level-ups queued last frame (SiteGame pauses on the card screen)
+    while (this.pendingCards.length > 0)
+    {
+      const cards = this.pendingCards.shift()!;
+      const choice = this.brain.chooseCard(cards);
+      this.powerManager.addPowerUp(choice.powerUp.id);
+    }
+
+    this.brain.think(this.getView(), delta);
+
+    this.animationClock += delta * 1000;
+    Ticker.shared.update(this.animationClock);
+    this.frames++;
+
+    if (this.chest)
+    {
+      this.chest.update(delta);
+    }
+
+    this.player.update(delta);
+
+    const aliveMonsters = this.getAliveMonsters();
+
+    if (this.player.isPlayerAttacking())
+    {
+      const hits = this.collisionSystem.applyAttackDamageOnImpactFrames(this.player, [...aliveMonsters, ...this.getChests()]);
+
+      if (hits.length > 0 && this.gameStarted)
+      {
+        const dealt = hits.reduce((sum, hit) => sum + hit.damage, 0);
+        this.damageBySource['melee'] = (this.damageBySource['melee'] ?? 0) + dealt;
+      }
+    }
+
+    if (this.gameStarted)
+    {
+      this.collisionSystem.applyTouchDamage(this.player, aliveMonsters, delta);
+
+      this.updateMonsters(delta);
+      this.updateRewardChests(delta);
+
+      const targets = this.getAliveMonsters();
+      this.weaponSystem.update(delta, targets);
+      this.areaEffectSystem.update(delta, targets);
+      this.enemyProjectileManager.update(delta);
+
+      this.elapsedTime += delta;
+    }
+
+    this.powerManager.update(delta);
+    this.updatePickups(delta);
+  }
+
+  /**
+   * Spawn, update and remove monsters (mirrors SiteGame.updateMonsters)
+   */
+  private updateMonsters(delta: number): void
+  {
+    const newMonsters = this.enemySpawner.update(delta);
+
+    for (const monster of newMonsters)
+    {
+      monster.scale.set(2.0, 2.0);
+      this.root.addChild(monster);
+
+      this.monsters.push({
+        monster: monster,
+        monsterType: monster.monsterTypeName
+      });
+    }
+
+    for (let i = this.monsters.length - 1; i >= 0; i--)
+    {
+      const spawnData = this.monsters[i];
+
+      if (spawnData.monster.isDead())
+      {
+        if (spawnData.monster.isDeathAnimationComplete())
+        {
+          const deathPos = spawnData.monster.getPosition();
+          const elite = spawnData.monster.isElite();
+          this.spawnPickup(deathPos.x, deathPos.y, spawnData.monsterType, elite);
+
+          // Bosses always leave a reward chest, elites sometimes (same rolls as SiteGame.updateMonsters)
+          if (spawnData.monster.getIsBoss())
+          {
+            this.spawnRewardChest(deathPos.x, deathPos.y, this.dropManager.rollChestType('boss'));
+          }
+          else if (elite)
+          {
+            const chestType = this.dropManager.rollEliteChest();
+            if (chestType)
+            {
+              this.spawnRewardChest(deathPos.x, deathPos.y, chestType);
+            }
+          }
+
+          this.kills[spawnData.monsterType] = (this.kills[spawnData.monsterType] ?? 0) + 1;
+
+          this.root.removeChild(spawnData.monster);
+          spawnData.monster.destroy();
+          this.monsters.splice(i, 1);
+        }
+      }
+      else
+      {
+        spawnData.monster.setNearbyMonsters(this.getAliveMonsters());
+        spawnData.monster.update(delta);
+      }
+    }
+  }
+
+  /**
+   * Drop a reward chest where a boss or elite died (mirrors SiteGame.spawnRewardChest)
+   */
+  private spawnRewardChest(x: number, y: number, type: ChestType): void
+  {
+    const bounds = this.gameBounds;
+    const chest = new Chest(this.assetManager, {
+      x: Math.max(bounds.minX, Math.min(bounds.maxX, x)),
+      y: Math.max(bounds.minY, Math.min(bounds.maxY, y)),
+      type,
+      onBreak: () => {
+        this.onRewardChestBreak(chest);
+      }
+    });
+
+    this.root.addChild(chest);
+    this.rewardChests.push(chest);
+  }
+
+  /**
+   * Reward chest broken - apply its upgrades right away (no reveal to wait for)
+   * A build with nothing left to upgrade gets a level-up instead, as in SiteGame
+   */
+  private onRewardChestBreak(chest: Chest): void
+  {
+    if (this.powerManager.openChest(chest.getChestType()).length === 0)
+    {
+      this.player.addXP(this.player.getXPNeeded());
+    }
+  }
+
+  /**
+   * Update reward chests and take broken ones off the field
+   */
+  private updateRewardChests(delta: number): void
+  {
+    for (let i = this.rewardChests.length - 1; i >= 0; i--)
+    {
+      const chest = this.rewardChests[i];
+
+      if (chest.getIsBroken())
+      {
+        this.root.removeChild(chest);
+        chest.destroy();
+        this.rewardChests.splice(i, 1);
+      }
+      else
+      {
+        chest.update(delta);
+      }
+    }
+  }
+
+  /**
+   * Spawn pickup from drop result (no particle container - nothing is drawn)
+   */
+  private spawnPickup(x: number, y: number, monsterType: MonsterType, elite: boolean): void
+  {
+    const rareDrop = this.dropManager.rollRareDrop();
+    let pickup: PickupBase;
+
+    if (rareDrop)
+    {
+      if (rareDrop.type === 'star')
+      {
+        pickup = new StarPickup(this.assetManager, { x, y, duration: 8 });
+      }
+      else
+      {
+        pickup = new SkullPickup(this.assetManager, { x, y, damage: 9999 });
+
+        pickup.on('screen-clear', (data: { damage: number }) => {
+          for (const monster of this.getAliveMonsters())
+          {
+            monster.takeDamage(data.damage);
+          }
+        });
+      }
+    }
+    else
+    {
+      const drop = this.dropManager.rollDrop(monsterType, elite);
+
+      if (drop.type === 'crystal')
+      {
+        pickup = new CrystalPickup(this.assetManager, { x, y, tier: drop.tier!, xpValue: drop.xpValue! });
+      }
+      else if (drop.type === 'food')
+      {
+        pickup = new FoodPickup(this.assetManager, { x, y, tier: drop.foodTier || 'eggs' });
+      }
+      else
+      {
+        return;
+      }
+    }
+
+    this.root.addChild(pickup);
+    this.pickups.push(pickup);
+  }
+
+  /**
+   * Update pickups (mirrors SiteGame.updatePickups)
+   */
+  private updatePickups(delta: number): void
+  {
+    const playerPos = this.player.getPosition();
+    const playerRadius = this.collisionSystem.getRadii().playerRadius ?? 20;
+
+    for (let i = this.pickups.length - 1; i >= 0; i--)
+    {
+      const pickup = this.pickups[i];
+
+      if (pickup.wasPickedUp())
+      {
+        continue;
+      }
+
+      pickup.update(delta);
+      pickup.updateMagnet(playerPos.x, playerPos.y);
+
+      const pickupPos = pickup.getPosition();
+      const dx = playerPos.x - pickupPos.x;
+      const dy = playerPos.y - pickupPos.y;
+
+      if (Math.sqrt(dx * dx + dy * dy) <= playerRadius + pickup.getPickupRadius())
+      {
+        pickup.onPickup(this.player);
+
+        this.root.removeChild(pickup);
+        pickup.destroy();
+        this.pickups.splice(i, 1);
+      }
+    }
+  }
+
+  private getAliveMonsters(): MonsterBase[]
+  {
+    return this.monsters
+      .map(s => s.monster)
+      .filter(m => m && !m.isDead());
+  }
+
+  /**
+   * Unbroken chests (melee targets, never touch damage)
+   */
+  private getChests(): Chest[]
+  {
+    const chests = this.chest ? [this.chest, ...this.rewardChests] : this.rewardChests;
+    return chests.filter(chest => !chest.isDead());
+  }
+
+  /**
+   * Nearest monsters to player (power targeting)
+   */
+  private getNearestMonsters(count: number): Array<{ x: number; y: number }>
+  {
+    const playerPos = this.player.getPosition();
+
+    // The starter chest is a target too (reward chests are not, as in SiteGame)
+    const targets: Array<MonsterBase | Chest> = this.chest ? [...this.getAliveMonsters(), this.chest] : this.getAliveMonsters();
+
+    return targets
+      .map(monster => {
+        const pos = monster.getPosition();
+        return { x: pos.x, y: pos.y, distance: Math.hypot(pos.x - playerPos.x, pos.y - playerPos.y) };
+      })
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, count)
+      .map(m => ({ x: m.x, y: m.y }));
+  }
+
+  /**
+   * Snapshot for the brain
+   */
+  private getView(): BrainView
+  {
+    return {
+      player: this.player.getPosition(),
+      monsters: this.gameStarted ? this.getAliveMonsters().map(m => m.getPosition()) : [],
+      pickups: this.pickups.map(p => p.getPosition()),
+      chest: this.chest ? { x: this.chest.x, y: this.chest.y } : null,
+      bounds: this.gameBounds,
+      time: this.elapsedTime
+    };
+  }
+
+  private getResult(): SimulationResult
+  {
+    return {
+      seed: this.random.getSeed(),
+      brain: this.brain.name,
+      character: this.character.id,
+      survivalTime: this.elapsedTime,
+      level: this.player.getLevel(),
+      wave: this.enemySpawner.getCurrentWave(),
+      died: this.died,
+      frames: this.frames,
+      kills: { ...this.kills },
+      damageBySource: { ...this.damageBySource },
+      build: this.powerManager.getAllOwnedPowerUps().map(p => ({ id: p.id, level: p.level }))
+    };
+  }
+
+  /**
+   * Tear down the run (power-up levels live on shared config objects, so they must be reset)
+   */
+  private destroy(): void
+  {
+    this.powerManager.reset();
+    this.weaponSystem.destroy();
+    this.areaEffectSystem.clearAll();
+    this.enemyProjectileManager.destroy();
+    this.enemySpawner.reset();
+
+    this.monsters = [];
+    this.pickups = [];
+    this.chest = null;
+    this.rewardChests = [];
+
+    this.root.destroy({ children: true });
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * PlayerBrain.ts - Input sources for simulated players
+ * A brain reads a snapshot of the world each frame and sets the input the Player will read
+ */
+
+import { InputSource } from '../core/Input';
+import { CardOption } from '../systems/PowerManager';
+import { MoveVector, createMoveVector, isZeroMove } from '../systems/Movement';
+
+export interface Point
+{
+  x: number;
+  y: number;
+}
+
+/**
+ * World snapshot given to the brain every frame
+ */
+export interface BrainView
+{
+  player: Point;
+  monsters: Point[];
+  pickups: Point[];
+  chest: Point | null;
+  bounds: { minX: number; maxX: number; minY: number; maxY: number };
+  time: number;
+}
+
+const STOP: MoveVector = { x: 0, y: 0 };
+
+/**
+ * Unit moves for the 8 directions
+ */
+const COMPASS = {
+  up: createMoveVector(0, -1),
+  down: createMoveVector(0, 1),
+  left: createMoveVector(-1, 0),
+  right: createMoveVector(1, 0),
+  upLeft: createMoveVector(-Math.SQRT1_2, -Math.SQRT1_2),
+  upRight: createMoveVector(Math.SQRT1_2, -Math.SQRT1_2),
+  downLeft: createMoveVector(-Math.SQRT1_2, Math.SQRT1_2),
+  downRight: createMoveVector(Math.SQRT1_2, Math.SQRT1_2)
+};
+
+export interface PlayerBrain extends InputSource
+{
+  readonly name: string;
+
+  /**
+   * Decide input for this frame
+   */
+  think(view: BrainView, delta: number): void;
+
+  /**
+   * Pick a level-up card
+   */
+  chooseCard(cards: CardOption[]): CardOption;
+}
+
+/**
+ * Shared input state + card preference for all brains
+ * Evolutions first, then weapons (new before upgrades), then powers, then passives
+ */
+abstract class BrainBase implements PlayerBrain
+{
+  abstract readonly name: string;
+
+  protected move: MoveVector = STOP;
+  protected attack: boolean = false;
+
+  abstract think(view: BrainView, delta: number): void;
+
+  chooseCard(cards: CardOption[]): CardOption
+  {
+    const typeRank: Record<string, number> = { weapon: 0, power: 1, passive: 2 };
+
+    const ranked = [...cards].sort((a, b) =>
+    {
+      const evolutionDiff = Number(!!b.isEvolution) - Number(!!a.isEvolution);
+      if (evolutionDiff !== 0)
+      {
+        return evolutionDiff;
+      }
+
+      const typeDiff = typeRank[a.powerUp.type] - typeRank[b.powerUp.type];
+      if (typeDiff !== 0)
+      {
+        return typeDiff;
+      }
+
+      return Number(b.isNew) - Number(a.isNew);
+    });
+
+    return ranked[0];
+  }
+
+  getMoveVector(): MoveVector
+  {
+    return this.move;
+  }
+
+  isAttackPressed(): boolean
+  {
+    return this.attack;
+  }
+
+  isMoving(): boolean
+  {
+    return !isZeroMove(this.move);
+  }
+
+  /**
+   * Walk straight toward a point (full speed, stops inside the dead zone)
+   */
+  protected moveToward(from: Point, to: Point, deadZone: number = 8): MoveVector
+  {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+
+    if (Math.abs(dx) < deadZone && Math.abs(dy) < deadZone)
+    {
+      return STOP;
+    }
+
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    return createMoveVector(dx / distance, dy / distance);
+  }
+}
+
+export interface ScriptStep
+{
+  duration: number; // Seconds
+  move: MoveVector;
+  attack?: boolean;
+}
+
+/**
+ * Plays a fixed input script on loop (after breaking the chest)
+ */
+export class ScriptedBrain extends BrainBase
+{
+  readonly name = 'scripted';
+
+  private script: ScriptStep[];
+  private stepIndex: number = 0;
+  private stepTimer: number = 0;
+
+  constructor(script: ScriptStep[])
+  {
+    super();
+    this.script = script.length > 0 ? script : [{ duration: 1, move: STOP }];
+  }
+
+  think(view: BrainView, delta: number): void
+  {
+    // Walk to the chest and break it first
+    if (view.chest)
+    {
+      this.move = this.moveToward(view.player, view.chest, 40);
+      this.attack = isZeroMove(this.move);
+      return;
+    }
+
+    const step = this.script[this.stepIndex];
+    this.move = step.move;
+    this.attack = step.attack ?? false;
+
+    this.stepTimer += delta;
+    if (this.stepTimer >= step.duration)
+    {
+      this.stepTimer = 0;
+      this.stepIndex = (this.stepIndex + 1) % this.script.length;
+    }
+  }
+}
+
+/**
+ * Simple AI: keeps away from monsters, picks up drops when safe, swings at anything close
+ */
+export class KitingBrain extends BrainBase
+{
+  readonly name = 'kite';
+
+  private readonly DANGER_RADIUS = 220;
+  private readonly ATTACK_RADIUS = 60;
+  private readonly EDGE_MARGIN = 60;
+  private readonly PROBE_DISTANCE = 40;
+
+  think(view: BrainView, _delta: number): void
+  {
+    // Walk to the chest and break it first
+    if (view.chest)
+    {
+      this.move = this.moveToward(view.player, view.chest, 40);
+      this.attack = isZeroMove(this.move);
+      return;
+    }
+
+    this.attack = view.monsters.some(m => this.distance(view.player, m) < this.ATTACK_RADIUS);
+
+    const candidates: MoveVector[] = [STOP, ...Object.values(COMPASS)];
+    let best: MoveVector = STOP;
+    let bestScore = -Infinity;
+
+    for (const candidate of candidates)
+    {
+      const score = this.scoreMove(view, candidate);
+      if (score > bestScore)
+      {
+        bestScore = score;
+        best = candidate;
+      }
+    }
+
+    this.move = best;
+  }
+
+  /**
+   * Score a move: lower danger is better, pickups pull when no monster is near
+   */
+  private scoreMove(view: BrainView, move: MoveVector): number
+  {
+    const probe = {
+      x: view.player.x + move.x * this.PROBE_DISTANCE,
+      y: view.player.y + move.y * this.PROBE_DISTANCE
+    };
+
+    let danger = 0;
+    for (const monster of view.monsters)
+    {
+      const d = this.distance(probe, monster);
+      if (d < this.DANGER_RADIUS)
+      {
+        danger += (this.DANGER_RADIUS - d) / this.DANGER_RADIUS;
+      }
+    }
+
+    // Avoid corners and edges
+    const b = view.bounds;
+    const edge = Math.min(probe.x - b.minX, b.maxX - probe.x, probe.y - b.minY, b.maxY - probe.y);
+    if (edge < this.EDGE_MARGIN)
+    {
+      danger += (this.EDGE_MARGIN - Math.max(edge, 0)) / this.EDGE_MARGIN * 2;
+    }
+
+    let score = -danger;
+
+    // Drift toward nearest pickup when nothing is threatening
+    if (danger < 0.5 && view.pickups.length > 0)
+    {
+      const nearest = Math.min(...view.pickups.map(p => this.distance(probe, p)));
+      score -= nearest / 1000;
+    }
+
+    return score;
+  }
+
+  private distance(a: Point, b: Point): number
+  {
+    const dx = a.x - b.x;
+    const dy = a.y - b.y;
+    return Math.sqrt(dx * dx + dy * dy);
+  }
+}
+
+/**
+ * Create a brain by name (CLI)
+ */
+export function createBrain(name: string): PlayerBrain
+{
+  switch (name)
+  {
+    case 'idle':
+      return new ScriptedBrain([{ duration: 1, move: STOP, attack: true }]);
+    case 'circle':
+      return new ScriptedBrain([
+        { duration: 1.5, move: COMPASS.right, attack: true },
+        { duration: 1.0, move: COMPASS.down, attack: true },
+        { duration: 1.5, move: COMPASS.left, attack: true },
+        { duration: 1.0, move: COMPASS.up, attack: true }
+      ]);
+    case 'kite':
+    default:
+      return new KitingBrain();
+  }
+}
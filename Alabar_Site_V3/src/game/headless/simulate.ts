@@ -0,0 +1,181 @@
+/**
+ * simulate.ts - Batch balance simulation (Node)
+ *
+ * npm run simulate -- --runs 20 --brain kite --max-time 600
+ *
+ * Options:
+ *   --runs <n>        Number of runs (default: 10)
+ *   --seed <seed>     First seed; runs use seed, seed+1, ... (default: random)
+ *   --brain <name>    kite | circle | idle (default: kite)
+ *   --character <id>  Playable character (default: leo)
+ *   --max-time <s>    Stop a run after this many seconds of game time (default: 600)
+ *   --json            Print raw results as JSON
+ *   --verbose         Keep game logging
+ */
+
+import { resolve } from 'node:path';
+import { SeededRandom } from '../../utils/Random';
+import { loadHeadlessAssets, setupHeadlessPixi } from './HeadlessAssets';
+import { HeadlessGame, SimulationResult } from './HeadlessGame';
+import { createBrain } from './PlayerBrain';
+import { DEFAULT_CHARACTER_ID } from '../configs/Characters';
+
+interface SimulateOptions
+{
+  runs: number;
+  seed: number;
+  brain: string;
+  character: string;
+  maxTime: number;
+  json: boolean;
+  verbose: boolean;
+}
+
+/**
+ * Parse CLI arguments
+ */
+function parseArgs(argv: string[]): SimulateOptions
+{
+  const options: SimulateOptions = {
+    runs: 10,
+    seed: SeededRandom.generateSeed(),
+    brain: 'kite',
+    character: DEFAULT_CHARACTER_ID,
+    maxTime: 600,
+    json: false,
+    verbose: false
+  };
+
+  for (let i = 0; i < argv.length; i++)
+  {
+    const arg = argv[i];
+    const value = argv[i + 1];
+
+    switch (arg)
+    {
+      case '--runs': options.runs = parseInt(value, 10); i++; break;
+      case '--seed': options.seed = SeededRandom.parseSeed(value) ?? options.seed; i++; break;
+      case '--brain': options.brain = value; i++; break;
+      case '--character': options.character = value; i++; break;
+      case '--max-time': options.maxTime = parseFloat(value); i++; break;
+      case '--json': options.json = true; break;
+      case '--verbose': options.verbose = true; break;
+      default:
+        console.warn(`[Simulate] Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+function formatTime(seconds: number): string
+{
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+function mean(values: number[]): number
+{
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function median(values: number[]): number
+{
+  if (values.length === 0)
+  {
+    return 0;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Print aggregate balance report
+ */
+function printReport(results: SimulationResult[], print: (message: string) => void): void
+{
+  const times = results.map(r => r.survivalTime);
+  const deaths = results.filter(r => r.died).length;
+
+  print('');
+  print(`Runs:            ${results.length} (${deaths} died)`);
+  print(`Survival mean:   ${formatTime(mean(times))}`);
+  print(`Survival median: ${formatTime(median(times))}`);
+  print(`Level mean:      ${mean(results.map(r => r.level)).toFixed(1)}`);
+  print(`Wave mean:       ${mean(results.map(r => r.wave)).toFixed(1)}`);
+
+  // Damage share per weapon/power across all runs
+  const totals: Record<string, number> = {};
+  for (const result of results)
+  {
+    for (const [source, damage] of Object.entries(result.damageBySource))
+    {
+      totals[source] = (totals[source] ?? 0) + damage;
+    }
+  }
+
+  const allDamage = Object.values(totals).reduce((sum, v) => sum + v, 0);
+
+  print('');
+  print('Damage by source (avg per run, share):');
+  for (const [source, damage] of Object.entries(totals).sort((a, b) => b[1] - a[1]))
+  {
+    const share = allDamage > 0 ? (damage / allDamage) * 100 : 0;
+    print(`  ${source.padEnd(16)} ${Math.round(damage / results.length).toString().padStart(8)}  ${share.toFixed(1)}%`);
+  }
+}
+
+async function main(): Promise<void>
+{
+  const options = parseArgs(process.argv.slice(2));
+
+  // Game code logs every hit - keep output readable unless asked
+  const print = console.log.bind(console);
+  if (!options.verbose)
+  {
+    console.log = () => {};
+    console.warn = () => {};
+  }
+
+  setupHeadlessPixi();
+  const assetManager = await loadHeadlessAssets(resolve(process.cwd(), 'public'));
+
+  const results: SimulationResult[] = [];
+
+  for (let i = 0; i < options.runs; i++)
+  {
+    const seed = (options.seed + i) >>> 0;
+
+    const game = new HeadlessGame({
+      assetManager,
+      brain: createBrain(options.brain),
+      seed,
+      character: options.character,
+      maxTime: options.maxTime
+    });
+
+    const result = game.run();
+    results.push(result);
+
+    if (!options.json)
+    {
+      print(`[Simulate] Run ${i + 1}/${options.runs} seed=${seed} character=${result.character} ${result.died ? 'died' : 'survived'} at ${formatTime(result.survivalTime)} level=${result.level} wave=${result.wave}`);
+    }
+  }
+
+  if (options.json)
+  {
+    print(JSON.stringify(results, null, 2));
+    return;
+  }
+
+  printReport(results, print);
+}
+
+main().catch((error) => {
+  console.error('[Simulate] Failed:', error);
+  process.exit(1);
+});
@@ -6,6 +6,9 @@ import { Container } from 'pixi.js';
 import { AssetManager } from '../../managers/AssetManager';
 import { AreaEffect, AreaEffectConfig } from '../configs/AreaEffect';
 import { MonsterBase } from '../entities/monsters/MonsterBase';
+import { CriticalRoll, DamageListener } from './WeaponSystem';
+import { getOnHitEffects } from './StatusEffects';
+import { SpatialHash } from './SpatialHash';
 
 export class AreaEffectSystem
 {
@@ -13,12 +16,45 @@ export class AreaEffectSystem
   private effectContainer: Container;
   private effects: AreaEffect[] = [];
   
+  // Damage tracking (optional)
+  private damageListener: DamageListener | null = null;
+  
+  // Critical hits (none until the player is connected)
+  private rollCritical: CriticalRoll | null = null;
+  
+  // Broadphase (without one, every effect loops all monsters)
+  private spatialIndex: SpatialHash<MonsterBase> | null = null;
+  
   constructor(assetManager: AssetManager, effectContainer: Container)
   {
     this.assetManager = assetManager;
     this.effectContainer = effectContainer;
   }
   
+  /**
+   * Set listener notified of every hit (used by stats/simulation)
+   */
+  setDamageListener(listener: DamageListener | null): void
+  {
+    this.damageListener = listener;
+  }
+  
+  /**
+   * Set how hits roll for critical damage
+   */
+  setCriticalRoll(roll: CriticalRoll | null): void
+  {
+    this.rollCritical = roll;
+  }
+  
+  /**
+   * Set the spatial index of the monsters passed to update (rebuilt by the game each frame)
+   */
+  setSpatialIndex(index: SpatialHash<MonsterBase> | null): void
+  {
+    this.spatialIndex = index;
+  }
+  
   /**
    * Spawn an area effect
    */
@@ -35,7 +71,7 @@ export class AreaEffectSystem
   /**
    * Spawn explosion at position
    */
-  spawnExplosion(x: number, y: number, damage: number, radius: number, animationName: string, scale: number): void
+  spawnExplosion(x: number, y: number, damage: number, radius: number, animationName: string, scale: number, sourceId: string = 'explosion'): void
   {
     console.log(`[AreaEffectSystem] Spawning EXPLOSION at (${x.toFixed(1)}, ${y.toFixed(1)}) - damage: ${damage}, radius: ${radius}`);
     
@@ -48,14 +84,15 @@ export class AreaEffectSystem
       tickRate: 0.1, // Damage once at 0.1s
       animationName: animationName,
       spritesheetKey: 'powers_spritesheet',
-      scale: scale ?? 2.0
+      scale: scale ?? 2.0,
+      sourceId: sourceId
     });
   }
   
   /**
    * Spawn magic field at position
    */
-  spawnMagicField(x: number, y: number, damage: number, radius: number, duration: number, tickRate: number, animationName: string, scale: number): void
+  spawnMagicField(x: number, y: number, damage: number, radius: number, duration: number, tickRate: number, animationName: string, scale: number, sourceId: string = 'magic_field'): void
   {
     this.spawnEffect({
       x: x,
@@ -66,14 +103,15 @@ export class AreaEffectSystem
       tickRate: tickRate,
       animationName: animationName,
       spritesheetKey: 'powers_spritesheet',
-      scale: scale ?? 1.5
+      scale: scale ?? 1.5,
+      sourceId: sourceId
     });
   }
   
   /**
    * Spawn aura that follows player
    */
-  spawnAura(player: any, damage: number, radius: number, _duration: number, tickRate: number, animationName: string, scale: number): void
+  spawnAura(player: any, damage: number, radius: number, _duration: number, tickRate: number, animationName: string, scale: number, sourceId: string = 'aura'): void
   {
     for (let i = this.effects.length - 1; i >= 0; i--)
     {
@@ -96,7 +134,8 @@ export class AreaEffectSystem
       animationName: animationName,
       spritesheetKey: 'powers_spritesheet',
       scale: scale ?? 1.0,
-      followTarget: player // Aura follows player
+      followTarget: player, // Aura follows player
+      sourceId: sourceId
     });
   }
   
@@ -148,7 +187,10 @@ export class AreaEffectSystem
     
     let hitCount = 0;
     
-    for (const monster of monsters)
+    // Only monsters near the effect can be inside it
+    const candidates = this.spatialIndex ? this.spatialIndex.query(effectPos.x, effectPos.y, radius) : monsters;
+    
+    for (const monster of candidates)
     {
       if (monster.isDead()) continue;
       
@@ -157,8 +199,15 @@ export class AreaEffectSystem
       
       if (distance <= radius)
       {
-        monster.takeDamage(damage);
+        const hit = this.rollCritical ? this.rollCritical(damage) : { damage, critical: false };
+        monster.takeDamage(hit.damage, hit.critical);
+        monster.applyStatusEffects(getOnHitEffects(effect.getSourceId()));
         hitCount++;
+        
+        if (this.damageListener)
+        {
+          this.damageListener(effect.getSourceId(), hit.damage, monster);
+        }
       }
     }
     
@@ -0,0 +1,164 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CollisionSystem } from './Collision';
+import { Player } from '../entities/Player';
+import { Slime1 } from '../entities/monsters/Slime1';
+import { ELITE_STATS } from '../configs/Elites';
+import { createStubAssetManager, StubInput } from '../../test/stubs';
+
+const assetManager = createStubAssetManager();
+
+function createPlayer(x: number, y: number): Player
+{
+  return new Player(assetManager, {
+    startX: x,
+    startY: y,
+    speed: 2,
+    inputSource: new StubInput()
+  });
+}
+
+describe('CollisionSystem', () =>
+{
+  let collision: CollisionSystem;
+  let player: Player;
+
+  beforeEach(() =>
+  {
+    collision = new CollisionSystem({ playerRadius: 20, monsterRadius: 25, touchDamageCooldown: 0.5 });
+    player = createPlayer(100, 100);
+  });
+
+  it('collides when distance is below the sum of radii', () =>
+  {
+    // 20 + 25 = 45
+    expect(collision.checkPlayerMonsterCollision(player, new Slime1(assetManager, { startX: 144, startY: 100 }))).toBe(true);
+    expect(collision.checkPlayerMonsterCollision(player, new Slime1(assetManager, { startX: 146, startY: 100 }))).toBe(false);
+  });
+
+  it('scales monster radius with the entity scale', () =>
+  {
+    const slime = new Slime1(assetManager, { startX: 160, startY: 100 });
+    expect(collision.checkPlayerMonsterCollision(player, slime)).toBe(false);
+
+    // 20 + 25 * 2 = 70
+    slime.scale.set(2, 2);
+    expect(collision.checkPlayerMonsterCollision(player, slime)).toBe(true);
+  });
+
+  it('uses a monster radius override when present', () =>
+  {
+    const slime = new Slime1(assetManager, { startX: 200, startY: 100 });
+    Object.assign(slime, { getCollisionRadius: () => 90 });
+
+    expect(collision.checkPlayerMonsterCollision(player, slime)).toBe(true);
+  });
+
+  it('applies touch damage once per cooldown per monster', () =>
+  {
+    const slime = new Slime1(assetManager, { startX: 110, startY: 100 });
+    const damage = slime.getStats().damage;
+    const startHealth = player.getHealth();
+
+    collision.applyTouchDamage(player, [slime], 0.25);
+    expect(player.getHealth()).toBe(startHealth - damage);
+
+    // Still cooling down (0.25s left)
+    collision.applyTouchDamage(player, [slime], 0.25);
+    expect(player.getHealth()).toBe(startHealth - damage);
+
+    // Cooldown runs out, the same contact hits again
+    collision.applyTouchDamage(player, [slime], 0.25);
+    expect(player.getHealth()).toBe(startHealth - damage * 2);
+  });
+
+  it('tracks cooldowns separately for each monster', () =>
+  {
+    const slimes = [
+      new Slime1(assetManager, { startX: 110, startY: 100 }),
+      new Slime1(assetManager, { startX: 90, startY: 100 })
+    ];
+    const damage = slimes[0].getStats().damage;
+    const startHealth = player.getHealth();
+
+    collision.applyTouchDamage(player, slimes, 0.1);
+
+    expect(player.getHealth()).toBe(startHealth - damage * 2);
+  });
+
+  it('skips dead monsters and dead players', () =>
+  {
+    const slime = new Slime1(assetManager, { startX: 110, startY: 100 });
+    const startHealth = player.getHealth();
+
+    slime.takeDamage(9999);
+    collision.applyTouchDamage(player, [slime], 0.1);
+    expect(player.getHealth()).toBe(startHealth);
+
+    const alive = new Slime1(assetManager, { startX: 110, startY: 100 });
+    player.takeDamage(9999);
+    collision.applyTouchDamage(player, [alive], 0.1);
+    expect(player.getHealth()).toBe(0);
+  });
+
+  it('reduces touch damage by armor (minimum 1)', () =>
+  {
+    const slime = new Slime1(assetManager, { startX: 110, startY: 100 });
+    const startHealth = player.getHealth();
+
+    player.stats.armor = 50;
+    collision.applyTouchDamage(player, [slime], 0.1);
+
+    expect(player.getHealth()).toBe(startHealth - 1);
+  });
+
+  it('reports damage taken and damage blocked by armor', () =>
+  {
+    const slime = new Slime1(assetManager, { startX: 110, startY: 100 });
+    const damage = slime.getStats().damage;
+    const events: string[] = [];
+    player.on('damaged', (amount: number) => events.push(`damaged ${amount}`));
+    player.on('blocked', (amount: number) => events.push(`blocked ${amount}`));
+
+    player.stats.armor = 1;
+    collision.applyTouchDamage(player, [slime], 0.1);
+
+    expect(events).toEqual(['blocked 1', `damaged ${damage - 1}`]);
+  });
+
+  it('rolls critical hits from the player crit stats', () =>
+  {
+    expect(player.rollCritical(10)).toEqual({ damage: 10, critical: false });
+
+    player.stats.critChance = 1;
+    player.stats.critMultiplier = 2;
+    expect(player.rollCritical(10)).toEqual({ damage: 20, critical: true });
+
+    const slime = new Slime1(assetManager, { startX: 110, startY: 100 });
+    const hits: boolean[] = [];
+    slime.on('damaged', (_amount: number, critical: boolean) => hits.push(critical));
+    slime.takeDamage(1, true);
+    expect(hits).toEqual([true]);
+  });
+
+  it('reports the damage each attack hit actually dealt', () =>
+  {
+    vi.spyOn(player, 'isAtAttackImpactFrame').mockReturnValue(true);
+    const damage = player.getDamage();
+
+    const armored = new Slime1(assetManager, { startX: 110, startY: 100 });
+    armored.scaleStats(100, 1);
+    armored.setAsElite(['armored'], { fireProjectile: vi.fn(), split: vi.fn() });
+
+    const weak = new Slime1(assetManager, { startX: 90, startY: 100 });
+    weak.takeDamage(weak.getMaxHealth() - 1);
+
+    const hits = collision.applyAttackDamageOnImpactFrames(player, [armored, weak]);
+
+    expect(hits.map(hit => hit.target)).toEqual([armored, weak]);
+    expect(hits[0].damage).toBeCloseTo(damage * ELITE_STATS.armoredDamageTaken);
+    expect(hits[1].damage).toBe(1);
+
+    // Each target is hit once per attack
+    expect(collision.applyAttackDamageOnImpactFrames(player, [armored, weak])).toEqual([]);
+  });
+});
@@ -5,6 +5,7 @@
  */
 
 import { MonsterBase } from '../entities/monsters/MonsterBase';
+import { BaseEntity } from '../entities/BaseEntity';
 import { Player } from '../entities/Player';
 
 export interface CollisionConfig
@@ -16,6 +17,20 @@ export interface CollisionConfig
   touchDamageCooldown?: number; // Time between touch damage hits
 }
 
+/**
+ * Anything the player's attack can hit (monsters, chests), with an optional custom radius
+ */
+export type HitTarget = BaseEntity & { getCollisionRadius?(): number };
+
+/**
+ * One landed player attack hit
+ */
+export interface MeleeHit
+{
+  target: HitTarget;
+  damage: number; // Health actually taken (after crits, damage reduction and overkill)
+}
+
 export class CollisionSystem
 {
   // Collision radii
@@ -43,12 +58,12 @@ export class CollisionSystem
    * Get collision radius for a monster (automatically scales with entity size)
    * radius = baseMonsterRadius * entity.scale
    */
-  private getMonsterCollisionRadius(monster: MonsterBase): number
+  getMonsterCollisionRadius(monster: HitTarget): number
   {
     // Check if monster has custom collision radius override
-    if ('getCollisionRadius' in monster && typeof (monster as any).getCollisionRadius === 'function')
+    if (monster.getCollisionRadius)
     {
-      return (monster as any).getCollisionRadius();
+      return monster.getCollisionRadius();
     }
     
     // Default: base radius * entity scale (use larger of x/y scale)
@@ -136,6 +151,7 @@ export class CollisionSystem
           // Deal full damage hit
           const damage = monster.getStats().damage;
           player.takeDamage(damage);
+          monster.onTouchHit(damage);
           
           // Set cooldown for this monster
           this.monsterDamageCooldowns.set(monster, this.touchDamageCooldown);
@@ -204,10 +220,10 @@ export class CollisionSystem
   
   /**
    * Apply player attack damage during impact frames
-   * Respects hit list - each monster can only be hit once per attack
+   * Respects hit list - each monster (or chest) can only be hit once per attack
    * Should be called every frame during attack animation
    */
-  applyAttackDamageOnImpactFrames(player: Player, monsters: MonsterBase[]): MonsterBase[]
+  applyAttackDamageOnImpactFrames(player: Player, monsters: HitTarget[]): MeleeHit[]
   {
     // Only deal damage during impact frames
     if (!player.isAtAttackImpactFrame())
@@ -215,7 +231,7 @@ export class CollisionSystem
       return [];
     }
     
-    const newlyHitMonsters: MonsterBase[] = [];
+    const newlyHitMonsters: MeleeHit[] = [];
     const playerPos = player.getCollisionPosition();
     const attackRange = player.getAttackRange();
     const playerDamage = player.getDamage();
@@ -245,14 +261,16 @@ export class CollisionSystem
         this.getMonsterCollisionRadius(monster) // Use custom radius if available
       ))
       {
-        // Deal damage
-        monster.takeDamage(playerDamage);
+        // Deal damage (each monster rolls its own crit)
+        const hit = player.rollCritical(playerDamage);
+        const healthBefore = monster.getHealth();
+        monster.takeDamage(hit.damage, hit.critical);
         
         // Mark as hit
         player.markMonsterAsHit(monster);
         
-        // Track newly hit monsters for feedback
-        newlyHitMonsters.push(monster);
+        // Track newly hit monsters for feedback and damage stats
+        newlyHitMonsters.push({ target: monster, damage: healthBefore - monster.getHealth() });
       }
     }
     
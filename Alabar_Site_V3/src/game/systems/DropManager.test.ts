@@ -0,0 +1,137 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DropManager, MonsterType } from './DropManager';
+import { SeededRandom } from '../../utils/Random';
+
+const ROLLS = 20000;
+
+/**
+ * Roll a monster's table many times and count outcomes by key
+ */
+function sampleDrops(manager: DropManager, monsterType: MonsterType, keyOf: (drop: ReturnType<DropManager['rollDrop']>) => string): Record<string, number>
+{
+  const counts: Record<string, number> = {};
+
+  for (let i = 0; i < ROLLS; i++)
+  {
+    const key = keyOf(manager.rollDrop(monsterType));
+    counts[key] = (counts[key] ?? 0) + 1;
+  }
+
+  return counts;
+}
+
+describe('DropManager', () =>
+{
+  it('matches Slime1 table weights (70/9/1/20)', () =>
+  {
+    const manager = new DropManager(new SeededRandom(1));
+    const counts = sampleDrops(manager, 'Slime1', drop => drop.type === 'crystal' ? `tier${drop.tier}` : drop.type);
+
+    expect(counts.tier1 / ROLLS).toBeCloseTo(0.70, 1);
+    expect(counts.tier2 / ROLLS).toBeCloseTo(0.09, 1);
+    expect(counts.tier3 / ROLLS).toBeLessThan(0.02);
+    expect(counts.none / ROLLS).toBeCloseTo(0.20, 1);
+  });
+
+  it('gives crystals the XP value of their tier', () =>
+  {
+    const manager = new DropManager(new SeededRandom(2));
+
+    for (let i = 0; i < 500; i++)
+    {
+      const drop = manager.rollDrop('Orc3');
+
+      if (drop.type === 'crystal')
+      {
+        expect(drop.xpValue).toBe(manager.getCrystalXPValue(drop.tier!));
+      }
+    }
+  });
+
+  it('only drops food from passive creatures', () =>
+  {
+    const manager = new DropManager(new SeededRandom(3));
+    const counts = sampleDrops(manager, 'Turkey', drop => drop.type);
+
+    expect(counts.crystal).toBeUndefined();
+    expect(counts.food / ROLLS).toBeCloseTo(0.93, 1);
+    expect(counts.none / ROLLS).toBeCloseTo(0.07, 1);
+  });
+
+  it('rolls about 0.5% stars and 0.5% skulls', () =>
+  {
+    const manager = new DropManager(new SeededRandom(4));
+    let stars = 0;
+    let skulls = 0;
+
+    for (let i = 0; i < 100000; i++)
+    {
+      const drop = manager.rollRareDrop();
+
+      if (drop?.type === 'star') stars++;
+      if (drop?.type === 'skull') skulls++;
+    }
+
+    expect(stars / 100000).toBeGreaterThan(0.004);
+    expect(stars / 100000).toBeLessThan(0.006);
+    expect(skulls / 100000).toBeGreaterThan(0.004);
+    expect(skulls / 100000).toBeLessThan(0.006);
+  });
+
+  it('never drops nothing from elites and raises their crystal tiers', () =>
+  {
+    const manager = new DropManager(new SeededRandom(7));
+    const counts = sampleDrops(manager, 'Slime1', drop => drop.type === 'crystal' ? `tier${drop.tier}` : drop.type);
+    const elite = new DropManager(new SeededRandom(7));
+    const eliteCounts: Record<string, number> = {};
+
+    for (let i = 0; i < ROLLS; i++)
+    {
+      const drop = elite.rollDrop('Slime1', true);
+      const key = drop.type === 'crystal' ? `tier${drop.tier}` : drop.type;
+      eliteCounts[key] = (eliteCounts[key] ?? 0) + 1;
+
+      if (drop.type === 'crystal')
+      {
+        expect(drop.xpValue).toBe(elite.getCrystalXPValue(drop.tier!));
+      }
+    }
+
+    expect(eliteCounts.none).toBeUndefined();
+    expect(eliteCounts.tier1).toBeUndefined();
+    expect(eliteCounts.tier3 / ROLLS).toBeCloseTo(counts.tier1 / (ROLLS - counts.none), 1);
+  });
+
+  it('drops gold or bone chests from bosses and mostly gray chests from elites', () =>
+  {
+    const manager = new DropManager(new SeededRandom(6));
+    const boss = new Set(Array.from({ length: 500 }, () => manager.rollChestType('boss')));
+    const elite = Array.from({ length: ROLLS }, () => manager.rollChestType('elite'));
+
+    expect([...boss].sort()).toEqual(['bone', 'gold']);
+    expect(elite).not.toContain('bone');
+    expect(elite.filter(type => type === 'gray').length / ROLLS).toBeCloseTo(0.85, 1);
+  });
+
+  it('returns the same drops for the same seed', () =>
+  {
+    const a = new DropManager(new SeededRandom(99));
+    const b = new DropManager(new SeededRandom(99));
+
+    const rollsA = Array.from({ length: 50 }, () => a.rollDrop('Vampire2'));
+    const rollsB = Array.from({ length: 50 }, () => b.rollDrop('Vampire2'));
+
+    expect(rollsA).toEqual(rollsB);
+  });
+
+  it('returns none for unknown monster types', () =>
+  {
+    const manager = new DropManager(new SeededRandom(5));
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(manager.rollDrop('Dragon' as MonsterType)).toEqual({ type: 'none' });
+    expect(error).toHaveBeenCalled();
+
+    error.mockRestore();
+  });
+});
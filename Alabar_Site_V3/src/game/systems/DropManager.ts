@@ -2,6 +2,9 @@
  * DropManager.ts - Drop system
  */
 
+import { SeededRandom } from '../../utils/Random';
+import type { ChestType } from '../entities/Chest';
+
 export type MonsterType = 
   | 'Slime1' | 'Slime2' | 'Slime3'
   | 'Plant1' | 'Plant2' | 'Plant3'
@@ -34,6 +37,29 @@ interface DropEntry
 
 type DropTable = DropEntry[];
 
+/**
+ * Monsters that leave a reward chest on death
+ */
+export type ChestSource = 'boss' | 'elite';
+
+// Elite drops: crystals this many tiers higher (capped at 10), and this chance to also leave a reward chest
+const ELITE_CRYSTAL_TIER_BONUS = 2;
+const ELITE_CHEST_CHANCE = 0.3;
+
+/**
+ * Chest type weights per source (gray = 1 upgrade, gold = 3, bone = 5)
+ */
+const CHEST_DROP_WEIGHTS: Record<ChestSource, Array<{ type: ChestType; weight: number }>> = {
+  boss: [
+    { type: 'gold', weight: 65 },
+    { type: 'bone', weight: 35 }
+  ],
+  elite: [
+    { type: 'gray', weight: 85 },
+    { type: 'gold', weight: 15 }
+  ]
+};
+
 /**
  * Crystal XP values
  */
@@ -53,9 +79,11 @@ const CRYSTAL_XP_VALUES: Record<number, number> = {
 export class DropManager
 {
   private dropTables: Record<MonsterType, DropTable>;
+  private random: SeededRandom;
   
-  constructor()
+  constructor(random: SeededRandom = new SeededRandom())
   {
+    this.random = random;
     this.dropTables = this.initializeDropTables();
   }
   
@@ -186,23 +214,25 @@ export class DropManager
   }
   
   /**
-   * Roll for a drop from a specific monster
+   * Roll for a drop from a specific monster (elites roll the improved version of its table)
    */
-  rollDrop(monsterType: MonsterType): DropResult
+  rollDrop(monsterType: MonsterType, elite: boolean = false): DropResult
   {
-    const table = this.dropTables[monsterType];
+    const baseTable = this.dropTables[monsterType];
     
-    if (!table)
+    if (!baseTable)
     {
       console.error(`[DropManager] Unknown monster type: ${monsterType}`);
       return { type: 'none' };
     }
     
+    const table = elite ? this.getEliteTable(baseTable) : baseTable;
+    
     // Calculate total weight
     const totalWeight = table.reduce((sum, entry) => sum + entry.weight, 0);
     
     // Roll random value
-    let roll = Math.random() * totalWeight;
+    let roll = this.random.next() * totalWeight;
     
     // Find selected entry
     for (const entry of table)
@@ -225,6 +255,25 @@ export class DropManager
     return { type: 'none' };
   }
   
+  /**
+   * Elite version of a drop table: never empty, crystals a few tiers higher
+   */
+  private getEliteTable(table: DropTable): DropTable
+  {
+    return table
+      .filter(entry => entry.type !== 'none')
+      .map(entry =>
+      {
+        if (entry.type !== 'crystal' || entry.tier === undefined)
+        {
+          return entry;
+        }
+        
+        const tier = Math.min(10, entry.tier + ELITE_CRYSTAL_TIER_BONUS);
+        return { ...entry, tier, xpValue: CRYSTAL_XP_VALUES[tier] };
+      });
+  }
+  
   /**
    * Roll for rare drops (Star/Skull) - works for ANY monster
    * Call this BEFORE rollDrop() - if it returns non-null, skip normal drops
@@ -235,7 +284,7 @@ export class DropManager
    */
   rollRareDrop(): DropResult | null
   {
-    const roll = Math.random();
+    const roll = this.random.next();
     
     // 0.5% chance for Star
     if (roll < 0.005)
@@ -253,6 +302,36 @@ export class DropManager
     return null;
   }
   
+  /**
+   * Roll whether an elite also leaves a reward chest (null if it doesn't)
+   */
+  rollEliteChest(): ChestType | null
+  {
+    return this.random.chance(ELITE_CHEST_CHANCE) ? this.rollChestType('elite') : null;
+  }
+  
+  /**
+   * Roll the type of reward chest a boss or elite leaves behind
+   */
+  rollChestType(source: ChestSource): ChestType
+  {
+    const table = CHEST_DROP_WEIGHTS[source];
+    const totalWeight = table.reduce((sum, entry) => sum + entry.weight, 0);
+    let roll = this.random.next() * totalWeight;
+    
+    for (const entry of table)
+    {
+      roll -= entry.weight;
+      
+      if (roll <= 0)
+      {
+        return entry.type;
+      }
+    }
+    
+    return table[0].type;
+  }
+  
   /**
    * Get crystal XP value by tier
    */
@@ -7,11 +7,14 @@ import { Container } from 'pixi.js';
 import { AssetManager } from '../../managers/AssetManager';
 import { Projectile, ProjectileConfig } from '../entities/Projectile';
 import { Player } from '../entities/Player';
+import { OnHitEffect } from '../configs/StatusEffects';
+import { ObjectPool } from '../../utils/ObjectPool';
 
 export class EnemyProjectileManager
 {
   private assetManager: AssetManager;
   private projectiles: Projectile[] = [];
+  private projectilePool: ObjectPool<Projectile>;
   private projectileContainer: Container;
   private player: Player;
   
@@ -23,6 +26,12 @@ export class EnemyProjectileManager
     this.assetManager = assetManager;
     this.projectileContainer = projectileContainer;
     this.player = player;
+    
+    this.projectilePool = new ObjectPool<Projectile>({
+      name: 'enemy-projectiles',
+      create: () => new Projectile(this.assetManager),
+      dispose: (projectile) => projectile.destroy()
+    });
   }
   
   /**
@@ -30,7 +39,8 @@ export class EnemyProjectileManager
    */
   spawnProjectile(config: ProjectileConfig): Projectile
   {
-    const projectile = new Projectile(this.assetManager, config);
+    const projectile = this.projectilePool.acquire();
+    projectile.reset(config);
     
     this.projectiles.push(projectile);
     this.projectileContainer.addChild(projectile);
@@ -47,7 +57,8 @@ export class EnemyProjectileManager
     targetX: number,
     targetY: number,
     damage: number,
-    speed: number = 4
+    speed: number = 4,
+    statusEffects: OnHitEffect[] = []
   ): void
   {
     this.spawnProjectile({
@@ -60,7 +71,8 @@ export class EnemyProjectileManager
       spritesheetKey: 'powers_spritesheet',
       animationName: 'Power_flower',
       range: 600,
-      pierceCount: 0
+      pierceCount: 0,
+      statusEffects: statusEffects
     });
   }
   
@@ -129,6 +141,7 @@ export class EnemyProjectileManager
       {
         const damage = projectile.getDamage();
         this.player.takeDamage(damage);
+        this.player.applyStatusEffects(projectile.getStatusEffects());
         
         const shouldDestroy = projectile.onHitPlayer();
         
@@ -149,11 +162,21 @@ export class EnemyProjectileManager
     
     if (projectile)
     {
-      projectile.destroy();
+      this.releaseProjectile(projectile);
       this.projectiles.splice(index, 1);
     }
   }
   
+  /**
+   * Take a projectile off the field and back into the pool
+   */
+  private releaseProjectile(projectile: Projectile): void
+  {
+    this.projectileContainer.removeChild(projectile);
+    projectile.deactivate();
+    this.projectilePool.release(projectile);
+  }
+  
   /**
    * Clear all projectiles
    */
@@ -161,12 +184,21 @@ export class EnemyProjectileManager
   {
     for (const projectile of this.projectiles)
     {
-      projectile.destroy();
+      this.releaseProjectile(projectile);
     }
     
     this.projectiles = [];
   }
   
+  /**
+   * Clear everything and free pooled projectiles (manager is done)
+   */
+  destroy(): void
+  {
+    this.clearAll();
+    this.projectilePool.destroy();
+  }
+  
   /**
    * Get active projectile count
    */
@@ -1,11 +1,29 @@
 /**
  * EnemySpawner.ts - Complete enemy spawning system with wave progression
- * Handles wave-based spawning of all 12 monster types with special events
+ * Interprets the wave schema (configs/Waves.ts) to spawn all 12 monster types with special events
  */
 
 import { AssetManager } from '../../managers/AssetManager';
 import { Player } from '../entities/Player';
-import { MonsterBase } from '../entities/monsters/MonsterBase';
+import { MonsterBase, BossHooks, EliteHooks } from '../entities/monsters/MonsterBase';
+import { SeededRandom } from '../../utils/Random';
+import { MonsterSnapshot } from '../core/RunSnapshot';
+import { getBossDefinition } from '../configs/Bosses';
+import { EliteModifier, ELITE_MODIFIER_IDS, ELITE_STATS } from '../configs/Elites';
+import {
+  WaveSchema,
+  WaveDefinition,
+  PackEvent,
+  BossEntry,
+  WAVE_SCHEMA,
+  isWaveScheduled,
+  getWaveDefinition,
+  getWaveDuration,
+  getSpawnInterval,
+  getPackTypes,
+  getEliteChance,
+  getEliteModifierCount
+} from '../configs/Waves';
 
 // Import all monster classes
 import { Slime1 } from '../entities/monsters/Slime1';
@@ -41,6 +59,8 @@ interface SpawnConfig
     maxY: number;
   };
   spawnRadius: number;
+  random: SeededRandom;
+  waves?: WaveSchema; // Defaults to WAVE_SCHEMA
 }
 
 interface WeightedMonster
@@ -55,6 +75,10 @@ export class EnemySpawner
   private player: Player;
   private bounds: any;
   private spawnRadius: number;
+  private random: SeededRandom;
+  
+  // Wave design (see configs/Waves.ts)
+  private waves: WaveSchema;
   
   // Spawning state
   private spawnTimer: number = 0;
@@ -64,82 +88,15 @@ export class EnemySpawner
   // Wave system
   private currentWave: number = 1;
   private waveTimer: number = 0;
-  private readonly WAVE_DURATION: number = 60; // 60 seconds per wave
-  
-  // Monster progression order (index-based)
-  private readonly MONSTER_PROGRESSION: MonsterType[] = [
-    'Slime1',   // 0
-    'Slime2',   // 1
-    'Slime3',   // 2
-    'Plant1',   // 3
-    'Plant2',   // 4
-    'Plant3',   // 5
-    'Vampire1', // 6
-    'Vampire2', // 7
-    'Vampire3', // 8
-    'Orc1',     // 9
-    'Orc2',     // 10
-    'Orc3'      // 11
-  ];
-  
-  // Fixed probability tables for waves 1-5
-  private readonly WAVE_PROBABILITIES: Record<number, Record<MonsterType, number>> = {
-    1: {
-      'Slime1': 0.95,
-      'Slime2': 0.04,
-      'Slime3': 0.01,
-      'Plant1': 0, 'Plant2': 0, 'Plant3': 0,
-      'Vampire1': 0, 'Vampire2': 0, 'Vampire3': 0,
-      'Orc1': 0, 'Orc2': 0, 'Orc3': 0,
-      'Turkey': 0, 'Pig': 0
-    },
-    2: {
-      'Slime1': 0.80,
-      'Slime2': 0.15,
-      'Slime3': 0.05,
-      'Plant1': 0, 'Plant2': 0, 'Plant3': 0,
-      'Vampire1': 0, 'Vampire2': 0, 'Vampire3': 0,
-      'Orc1': 0, 'Orc2': 0, 'Orc3': 0,
-      'Turkey': 0, 'Pig': 0
-    },
-    3: {
-      'Slime1': 0.60,
-      'Slime2': 0.30,
-      'Slime3': 0.10,
-      'Plant1': 0, 'Plant2': 0, 'Plant3': 0,
-      'Vampire1': 0, 'Vampire2': 0, 'Vampire3': 0,
-      'Orc1': 0, 'Orc2': 0, 'Orc3': 0,
-      'Turkey': 0, 'Pig': 0
-    },
-    4: {
-      'Slime1': 0, 'Slime2': 0.55, 'Slime3': 0.30,
-      'Plant1': 0.05,
-      'Plant2': 0, 'Plant3': 0,
-      'Vampire1': 0.05, 'Vampire2': 0, 'Vampire3': 0,
-      'Orc1': 0.05, 'Orc2': 0, 'Orc3': 0,
-      'Turkey': 0, 'Pig': 0
-    },
-    5: {
-      'Slime1': 0, 'Slime2': 0.15, 'Slime3': 0.50,
-      'Plant1': 0.10, 'Plant2': 0.05,
-      'Plant3': 0,
-      'Vampire1': 0.10, 'Vampire2': 0, 'Vampire3': 0,
-      'Orc1': 0.10, 'Orc2': 0, 'Orc3': 0,
-      'Turkey': 0, 'Pig': 0
-    }
-  };
-  
-  // Plant weight penalties
-  private readonly PLANT_WEIGHT_MODIFIERS: Record<string, number> = {
-    'Plant1': 0.12,
-    'Plant2': 0.07,
-    'Plant3': 0.05
-  };
+  private waveDuration: number = 60;
+  private waveDefinition: WaveDefinition | null = null;
   
   // Special wave tracking
-  private isPlantBarrageWave: boolean = false;
   private waveStarted: boolean = false;
   
+  // Adds summoned by bosses, handed out with the next update
+  private summoned: MonsterBase[] = [];
+  
   // Reference to projectile manager (for plants)
   public projectileManager: any = null;
   
@@ -149,6 +106,10 @@ export class EnemySpawner
     this.player = config.player;
     this.bounds = config.bounds;
     this.spawnRadius = config.spawnRadius;
+    this.random = config.random;
+    this.waves = config.waves ?? WAVE_SCHEMA;
+    
+    this.applyWaveSettings();
   }
   
   /**
@@ -170,7 +131,8 @@ export class EnemySpawner
       return [];
     }
     
-    const spawnedMonsters: MonsterBase[] = [];
+    const spawnedMonsters: MonsterBase[] = this.summoned;
+    this.summoned = [];
     
     // Check if wave just started
     if (!this.waveStarted)
@@ -181,7 +143,7 @@ export class EnemySpawner
     
     // Update wave timer
     this.waveTimer += delta;
-    if (this.waveTimer >= this.WAVE_DURATION)
+    if (this.waveTimer >= this.waveDuration)
     {
       this.advanceWave();
       this.waveTimer = 0;
@@ -191,27 +153,24 @@ export class EnemySpawner
     // Update spawn timer
     this.spawnTimer += delta;
     
-    // Calculate spawn interval based on wave and special conditions
-    let currentInterval = this.spawnInterval;
-    if (this.isPlantBarrageWave)
-    {
-      currentInterval *= 0.8; // Faster spawning for plant barrage
-    }
-    
-    if (this.spawnTimer >= currentInterval)
+    if (this.spawnTimer >= this.spawnInterval)
     {
       this.spawnTimer = 0;
       
       // Calculate spawn count based on wave
       const spawnCount = this.calculateSpawnCount();
+      const rollPacks = this.waves.packs.filter(pack =>
+        pack.trigger === 'spawn_roll' && isWaveScheduled(pack.schedule, this.currentWave)
+      );
       
       for (let i = 0; i < spawnCount; i++)
       {
-        // 15% chance for vampire pack after wave 8
-        if (this.currentWave >= 8 && Math.random() < 0.15)
+        // Pack events can replace a regular spawn
+        const pack = rollPacks.find(p => this.random.chance(p.chance ?? 0));
+        
+        if (pack)
         {
-          const vampirePack = this.spawnVampirePack();
-          spawnedMonsters.push(...vampirePack);
+          spawnedMonsters.push(...this.spawnPack(pack));
         }
         else
         {
@@ -234,10 +193,15 @@ export class EnemySpawner
   {
     console.log(`[EnemySpawner] Wave ${this.currentWave} started!`);
     
-    // Check for boss wave (15, 20, 30, 35, 40...)
-    if (this.currentWave >= 15 && (this.currentWave - 15) % 5 === 0)
+    // Boss entries
+    for (const entry of this.waves.bosses)
     {
-      const boss = this.spawnBoss();
+      if (!isWaveScheduled(entry.schedule, this.currentWave))
+      {
+        continue;
+      }
+      
+      const boss = this.spawnBoss(entry);
       if (boss)
       {
         spawnedMonsters.push(boss);
@@ -245,19 +209,21 @@ export class EnemySpawner
       }
     }
     
-    // Check for plant pack wave (12, 18, 24, 30, 36...)
-    if (this.currentWave >= 12 && (this.currentWave - 12) % 6 === 0)
+    // Wave start packs
+    for (const pack of this.waves.packs)
     {
-      const plantPack = this.spawnPlantPack();
-      spawnedMonsters.push(...plantPack);
-      console.log(`[EnemySpawner] Plant pack spawned for wave ${this.currentWave}!`);
+      if (pack.trigger !== 'wave_start' || !isWaveScheduled(pack.schedule, this.currentWave))
+      {
+        continue;
+      }
+      
+      spawnedMonsters.push(...this.spawnPack(pack));
+      console.log(`[EnemySpawner] ${pack.id} spawned for wave ${this.currentWave}!`);
     }
     
-    // Check for wave 25 plant barrage
-    this.isPlantBarrageWave = (this.currentWave === 25);
-    if (this.isPlantBarrageWave)
+    if (this.waveDefinition?.name)
     {
-      console.log(`[EnemySpawner] PLANT BARRAGE WAVE!`);
+      console.log(`[EnemySpawner] ${this.waveDefinition.name.toUpperCase()} WAVE!`);
     }
   }
   
@@ -267,26 +233,35 @@ export class EnemySpawner
   private advanceWave(): void
   {
     this.currentWave++;
-    
-    // Update spawn interval: max(0.3, 2 - wave * 0.1)
-    this.spawnInterval = Math.max(0.3, 2 - (this.currentWave * 0.1));
+    this.applyWaveSettings();
     
     console.log(`[EnemySpawner] Advancing to wave ${this.currentWave} (Spawn interval: ${this.spawnInterval.toFixed(2)}s)`);
   }
   
+  /**
+   * Load duration, interval and overrides for the current wave
+   */
+  private applyWaveSettings(): void
+  {
+    this.waveDefinition = getWaveDefinition(this.waves, this.currentWave);
+    this.waveDuration = getWaveDuration(this.waves, this.currentWave);
+    this.spawnInterval = getSpawnInterval(this.waves, this.currentWave);
+  }
+  
   /**
    * Calculate spawn count based on wave
-   * Formula: base = 1 + floor(wave * 0.15), spawnCount = base + random(0-1)
+   * Uses the wave's fixed range if set, otherwise the schema curve
    */
   private calculateSpawnCount(): number
   {
-    const base = 1 + Math.floor(this.currentWave * 0.15);
-    const random = Math.floor(Math.random() * 2); // 0 or 1
+    const curve = this.waves.spawnCount;
+    const base = curve.base + Math.floor(this.currentWave * curve.perWave);
+    const random = this.random.int(curve.randomExtra + 1);
     
-    // Plant barrage: 3-5 plants
-    if (this.isPlantBarrageWave)
+    const fixed = this.waveDefinition?.spawnCount;
+    if (fixed)
     {
-      return 3 + Math.floor(Math.random() * 3); // 3, 4, or 5
+      return fixed.min + this.random.int(fixed.max - fixed.min + 1);
     }
     
     return base + random;
@@ -294,95 +269,104 @@ export class EnemySpawner
   
   /**
    * Spawn random monster from current wave pool
+   * Regular spawns may be promoted to elite (passive creatures never are)
    */
   private spawnRandomMonster(): MonsterBase | null
   {
-    // 3% chance to spawn passive creature (Turkey/Pig) from wave 1 onwards
-    if (Math.random() < 0.03)
+    // Chance to spawn passive creature (Turkey/Pig)
+    const passive = this.waves.passiveSpawn;
+    if (passive.types.length > 0 && this.random.chance(passive.chance))
     {
-      const passiveType: MonsterType = Math.random() < 0.5 ? 'Turkey' : 'Pig';
-      return this.spawnMonster(passiveType);
+      return this.spawnMonster(this.random.pick(passive.types));
     }
     
-    let monsterType: MonsterType;
+    const monsterType = this.selectMonster();
+    const monster = this.spawnMonster(monsterType);
     
-    // Waves 1-5: Use fixed probability tables
-    if (this.currentWave <= 5)
-    {
-      monsterType = this.selectMonsterByProbability(this.currentWave);
-    }
-    // Wave 6+: Use automatic weighted system
-    else
+    // No roll before elites start, so early waves keep their random sequence
+    const eliteChance = getEliteChance(this.waves, this.currentWave);
+    if (monster && eliteChance > 0 && this.random.chance(eliteChance))
     {
-      monsterType = this.selectMonsterByWeight();
+      this.promoteToElite(monster, monsterType);
     }
     
-    return this.spawnMonster(monsterType);
+    return monster;
   }
   
   /**
-   * Select monster using fixed probability table (waves 1-5)
+   * Promote a spawn to elite: distinct random modifiers, more HP and damage
    */
-  private selectMonsterByProbability(wave: number): MonsterType
+  private promoteToElite(monster: MonsterBase, monsterType: MonsterType): void
   {
-    const probabilities = this.WAVE_PROBABILITIES[wave];
-    const rand = Math.random();
+    const count = getEliteModifierCount(this.waves, this.currentWave);
+    const pool = [...ELITE_MODIFIER_IDS];
+    const modifiers: EliteModifier[] = [];
     
-    let cumulative = 0;
-    for (const [type, prob] of Object.entries(probabilities))
+    while (modifiers.length < count && pool.length > 0)
     {
-      cumulative += prob;
-      if (rand <= cumulative)
-      {
-        return type as MonsterType;
-      }
+      modifiers.push(pool.splice(this.random.int(pool.length), 1)[0]);
     }
     
-    // Fallback
-    return 'Slime1';
+    monster.scaleStats(
+      ELITE_STATS.healthMultiplier,
+      ELITE_STATS.damageMultiplier,
+      modifiers.includes('fast') ? ELITE_STATS.fastSpeedMultiplier : 1
+    );
+    monster.setAsElite(modifiers, this.createEliteHooks(monsterType, monster.getMaxHealth()));
+    
+    console.log(`[EnemySpawner] Elite ${monsterType} spawned (${modifiers.join(', ')})`);
   }
   
   /**
-   * Select monster using weighted system (wave 6+)
-   * Formula: unlockedCount = min(totalTypes, 3 + wave * 0.3)
-   *          weight = max(1, (index + 1) * 0.8 + wave * 0.25)
+   * Give elites access to enemy projectiles (reflecting) and splitting into children
    */
-  private selectMonsterByWeight(): MonsterType
+  private createEliteHooks(monsterType: MonsterType, maxHealth: number): EliteHooks
   {
-    const totalTypes = this.MONSTER_PROGRESSION.length;
-    const unlockedCount = Math.floor(Math.min(totalTypes, 3 + this.currentWave * 0.3));
-    
-    const weightedMonsters: WeightedMonster[] = [];
-    
-    for (let i = 0; i < unlockedCount; i++)
-    {
-      const monsterType = this.MONSTER_PROGRESSION[i];
-      let weight = Math.max(1, (i + 1) * 0.8 + this.currentWave * 0.25);
-      
-      // Apply plant weight penalties
-      if (this.PLANT_WEIGHT_MODIFIERS[monsterType])
-      {
-        weight *= this.PLANT_WEIGHT_MODIFIERS[monsterType];
-      }
-      
-      // Block plants during plant barrage (force only plants)
-      if (this.isPlantBarrageWave)
-      {
-        if (!monsterType.includes('Plant'))
+    return {
+      fireProjectile: (startX, startY, targetX, targetY, damage, speed, statusEffects) => {
+        this.projectileManager?.spawnFlowerProjectile(startX, startY, targetX, targetY, damage, speed, statusEffects);
+      },
+      split: (x, y) => {
+        for (let i = 0; i < ELITE_STATS.splitCount; i++)
         {
-          continue; // Skip non-plants
+          const angle = (Math.PI * 2 * i) / ELITE_STATS.splitCount;
+          const spawnX = Math.max(this.bounds.minX, Math.min(this.bounds.maxX, x + Math.cos(angle) * 24));
+          const spawnY = Math.max(this.bounds.minY, Math.min(this.bounds.maxY, y + Math.sin(angle) * 24));
+          
+          const child = this.spawnMonsterAt(monsterType, spawnX, spawnY);
+          if (child)
+          {
+            child.scaleStats(maxHealth * ELITE_STATS.splitHealth / child.getMaxHealth(), 1);
+            this.summoned.push(child);
+          }
         }
-        weight *= 2; // Boost plant weights
+        
+        console.log(`[EnemySpawner] Elite ${monsterType} split`);
       }
-      
-      weightedMonsters.push({ type: monsterType, weight });
+    };
+  }
+  
+  /**
+   * Select monster from the current wave pool
+   * Explicit wave tables win, otherwise the automatic progression weights
+   */
+  private selectMonster(): MonsterType
+  {
+    const explicit = this.waveDefinition?.monsters;
+    const weightedMonsters = explicit
+      ? this.getExplicitWeights(explicit)
+      : this.getProgressionWeights();
+    
+    if (weightedMonsters.length === 0)
+    {
+      return this.waves.progression.order[0];
     }
     
     // Calculate total weight
     const totalWeight = weightedMonsters.reduce((sum, m) => sum + m.weight, 0);
     
     // Select random monster based on weights
-    let rand = Math.random() * totalWeight;
+    let rand = this.random.next() * totalWeight;
     
     for (const monster of weightedMonsters)
     {
@@ -398,44 +382,104 @@ export class EnemySpawner
   }
   
   /**
-   * Spawn boss monster
-   * Boss multipliers: HP x4, Damage x2, Speed x1.2, Size x1.5
+   * Weights from an explicit wave table
+   */
+  private getExplicitWeights(table: Partial<Record<MonsterType, number>>): WeightedMonster[]
+  {
+    const weightedMonsters: WeightedMonster[] = [];
+    
+    for (const [type, weight] of Object.entries(table))
+    {
+      if (weight && weight > 0)
+      {
+        weightedMonsters.push({ type: type as MonsterType, weight });
+      }
+    }
+    
+    return this.applyFocus(weightedMonsters);
+  }
+  
+  /**
+   * Weights from the automatic progression
+   * Formula: unlockedCount = min(totalTypes, unlockBase + wave * unlockPerWave)
+   *          weight = max(minWeight, (index + 1) * weightPerIndex + wave * weightPerWave)
    */
-  private spawnBoss(): MonsterBase | null
+  private getProgressionWeights(): WeightedMonster[]
   {
-    // Select random monster type from current wave pool
-    let bossType: MonsterType;
+    const progression = this.waves.progression;
+    const totalTypes = progression.order.length;
+    const unlockedCount = Math.floor(Math.min(totalTypes, progression.unlockBase + this.currentWave * progression.unlockPerWave));
     
-    if (this.currentWave <= 5)
+    const weightedMonsters: WeightedMonster[] = [];
+    
+    for (let i = 0; i < unlockedCount; i++)
     {
-      bossType = this.selectMonsterByProbability(this.currentWave);
+      const monsterType = progression.order[i];
+      let weight = Math.max(
+        progression.minWeight,
+        (i + 1) * progression.weightPerIndex + this.currentWave * progression.weightPerWave
+      );
+      
+      // Apply per-type modifiers (plant penalties)
+      weight *= progression.typeModifiers[monsterType] ?? 1;
+      
+      weightedMonsters.push({ type: monsterType, weight });
     }
-    else
+    
+    return this.applyFocus(weightedMonsters);
+  }
+  
+  /**
+   * Restrict pool to the wave's focus types (e.g. plant barrage)
+   */
+  private applyFocus(weightedMonsters: WeightedMonster[]): WeightedMonster[]
+  {
+    const focus = this.waveDefinition?.focus;
+    
+    if (!focus)
     {
-      bossType = this.selectMonsterByWeight();
+      return weightedMonsters;
     }
     
+    return weightedMonsters
+      .filter(m => focus.types.includes(m.type))
+      .map(m => ({ type: m.type, weight: m.weight * focus.weightMultiplier }));
+  }
+  
+  /**
+   * Spawn boss monster from a boss entry
+   */
+  private spawnBoss(entry: BossEntry): MonsterBase | null
+  {
+    // Fixed boss type or random monster from current wave pool
+    const bossType = entry.monster ?? this.selectMonster();
+    
     const boss = this.spawnMonster(bossType);
     
     if (boss)
     {
-      // Mark as boss
-      boss.setAsBoss();
-      
-      // HP x4
+      // HP
       const currentHealth = boss.getHealth();
       const maxHealth = boss.getMaxHealth();
-      (boss as any).health = currentHealth * 4;
-      (boss as any).maxHealth = maxHealth * 4;
+      (boss as any).health = currentHealth * entry.healthMultiplier;
+      (boss as any).maxHealth = maxHealth * entry.healthMultiplier;
       
-      // Damage x2
-      (boss as any).damage = (boss as any).damage * 2;
+      // Damage
+      (boss as any).damage = (boss as any).damage * entry.damageMultiplier;
       
-      // Speed x1.2
-      (boss as any).movementSystem.speed *= 1.2;
+      // Speed
+      (boss as any).movementSystem.speed *= entry.speedMultiplier;
       
-      // Size x1.5
-      boss.scale.set(1.5, 1.5);
+      // Size
+      boss.scale.set(entry.scale, entry.scale);
+      
+      // Mark as boss (runs the encounter's attacks and phases)
+      const definition = getBossDefinition(entry.boss);
+      if (!definition)
+      {
+        console.error(`[EnemySpawner] Unknown boss encounter: ${entry.boss}`);
+      }
+      boss.setAsBoss(definition ?? undefined, this.createBossHooks());
       
       console.log(`[EnemySpawner] Boss created: ${bossType} (HP: ${boss.getMaxHealth()}, Damage: ${(boss as any).damage})`);
     }
@@ -444,44 +488,81 @@ export class EnemySpawner
   }
   
   /**
-   * Spawn plant pack (5 plants in tight cluster)
+   * Give bosses access to enemy projectiles and summoning
+   */
+  private createBossHooks(): BossHooks
+  {
+    return {
+      fireProjectile: (startX, startY, targetX, targetY, damage, speed, statusEffects) => {
+        this.projectileManager?.spawnFlowerProjectile(startX, startY, targetX, targetY, damage, speed, statusEffects);
+      },
+      summon: (types, count, x, y, radius) => {
+        for (let i = 0; i < count; i++)
+        {
+          const angle = (Math.PI * 2 * i) / count;
+          const spawnX = Math.max(this.bounds.minX, Math.min(this.bounds.maxX, x + Math.cos(angle) * radius));
+          const spawnY = Math.max(this.bounds.minY, Math.min(this.bounds.maxY, y + Math.sin(angle) * radius));
+          
+          const monster = this.spawnMonsterAt(this.random.pick(types), spawnX, spawnY);
+          if (monster)
+          {
+            this.summoned.push(monster);
+          }
+        }
+        
+        console.log(`[EnemySpawner] Boss summoned ${count} adds`);
+      }
+    };
+  }
+  
+  /**
+   * Spawn a pack event using its formation
+   */
+  private spawnPack(pack: PackEvent): MonsterBase[]
+  {
+    const types = getPackTypes(pack, this.currentWave);
+    
+    if (types.length === 0)
+    {
+      return [];
+    }
+    
+    const size = pack.size.min + this.random.int(pack.size.max - pack.size.min + 1);
+    
+    if (pack.formation === 'edge_charge')
+    {
+      return this.spawnEdgeChargePack(types, size);
+    }
+    
+    return this.spawnClusterPack(types, size, pack.clusterRadius ?? 150);
+  }
+  
+  /**
+   * Spawn pack in tight cluster around a point near the player
    */
-  private spawnPlantPack(): MonsterBase[]
+  private spawnClusterPack(types: MonsterType[], size: number, clusterRadius: number): MonsterBase[]
   {
     const pack: MonsterBase[] = [];
     
     // Get center position around player
     const playerPos = this.player.getPosition();
-    const angle = Math.random() * Math.PI * 2;
+    const angle = this.random.next() * Math.PI * 2;
     const distance = this.spawnRadius + 100;
     
     const centerX = playerPos.x + Math.cos(angle) * distance;
     const centerY = playerPos.y + Math.sin(angle) * distance;
     
-    // Spawn 5 plants in cluster
-    for (let i = 0; i < 5; i++)
+    for (let i = 0; i < size; i++)
     {
-      const clusterAngle = (Math.PI * 2 * i) / 5;
-      const clusterRadius = 150;
+      const clusterAngle = (Math.PI * 2 * i) / size;
       
       const x = centerX + Math.cos(clusterAngle) * clusterRadius;
       const y = centerY + Math.sin(clusterAngle) * clusterRadius;
       
-      // Select plant type based on current wave
-      let plantType: MonsterType = 'Plant1';
-      if (this.currentWave >= 10)
-      {
-        plantType = 'Plant3';
-      }
-      else if (this.currentWave >= 7)
-      {
-        plantType = 'Plant2';
-      }
-      
-      const plant = this.spawnMonsterAt(plantType, x, y);
-      if (plant)
+      const monster = this.spawnMonsterAt(this.random.pick(types), x, y);
+      if (monster)
       {
-        pack.push(plant);
+        pack.push(monster);
       }
     }
     
@@ -489,19 +570,18 @@ export class EnemySpawner
   }
   
   /**
-   * Spawn vampire pack (3-4 vampires charging from map edge)
+   * Spawn pack charging from map edge toward the player
    */
-  private spawnVampirePack(): MonsterBase[]
+  private spawnEdgeChargePack(types: MonsterType[], size: number): MonsterBase[]
   {
     const pack: MonsterBase[] = [];
-    const packSize = 3 + Math.floor(Math.random() * 2); // 3 or 4
     
     const playerPos = this.player.getPosition();
     
     // Random edge: 0=top, 1=right, 2=bottom, 3=left
-    const edge = Math.floor(Math.random() * 4);
+    const edge = this.random.int(4);
     
-    for (let i = 0; i < packSize; i++)
+    for (let i = 0; i < size; i++)
     {
       let spawnX: number;
       let spawnY: number;
@@ -510,41 +590,31 @@ export class EnemySpawner
       switch (edge)
       {
         case 0: // Top
-          spawnX = this.bounds.minX + Math.random() * (this.bounds.maxX - this.bounds.minX);
+          spawnX = this.bounds.minX + this.random.next() * (this.bounds.maxX - this.bounds.minX);
           spawnY = this.bounds.minY;
           break;
         case 1: // Right
           spawnX = this.bounds.maxX;
-          spawnY = this.bounds.minY + Math.random() * (this.bounds.maxY - this.bounds.minY);
+          spawnY = this.bounds.minY + this.random.next() * (this.bounds.maxY - this.bounds.minY);
           break;
         case 2: // Bottom
-          spawnX = this.bounds.minX + Math.random() * (this.bounds.maxX - this.bounds.minX);
+          spawnX = this.bounds.minX + this.random.next() * (this.bounds.maxX - this.bounds.minX);
           spawnY = this.bounds.maxY;
           break;
         case 3: // Left
           spawnX = this.bounds.minX;
-          spawnY = this.bounds.minY + Math.random() * (this.bounds.maxY - this.bounds.minY);
+          spawnY = this.bounds.minY + this.random.next() * (this.bounds.maxY - this.bounds.minY);
           break;
         default:
           spawnX = playerPos.x;
           spawnY = playerPos.y;
       }
       
-      // Select vampire type based on wave
-      let vampireType: MonsterType = 'Vampire1';
-      if (this.currentWave >= 8)
-      {
-        const rand = Math.random();
-        if (rand < 0.33) vampireType = 'Vampire1';
-        else if (rand < 0.66) vampireType = 'Vampire2';
-        else vampireType = 'Vampire3';
-      }
-      
-      const vampire = this.spawnMonsterAt(vampireType, spawnX, spawnY);
-      if (vampire)
+      const monster = this.spawnMonsterAt(this.random.pick(types), spawnX, spawnY);
+      if (monster)
       {
         // Mark as pack member (ignore separation)
-        (vampire as any).isPackMember = true;
+        (monster as any).isPackMember = true;
         
         // Calculate trajectory toward player (fixed vector)
         const dx = playerPos.x - spawnX;
@@ -553,17 +623,17 @@ export class EnemySpawner
         
         if (distance > 0)
         {
-          (vampire as any).packVelocity = {
+          (monster as any).packVelocity = {
             x: dx / distance,
             y: dy / distance
           };
         }
         
-        pack.push(vampire);
+        pack.push(monster);
       }
     }
     
-    console.log(`[EnemySpawner] Vampire pack spawned (${packSize} vampires from edge ${edge})`);
+    console.log(`[EnemySpawner] Edge pack spawned (${size} monsters from edge ${edge})`);
     return pack;
   }
   
@@ -688,11 +758,11 @@ export class EnemySpawner
         break;
       
       case 'Turkey':
-        monster = new Turkey(this.assetManager, x, y);
+        monster = new Turkey(this.assetManager, x, y, this.random);
         break;
       
       case 'Pig':
-        monster = new Pig(this.assetManager, x, y);
+        monster = new Pig(this.assetManager, x, y, this.random);
         break;
     }
     
@@ -700,27 +770,34 @@ export class EnemySpawner
     {
       // Set target
       monster.setTarget(this.player);
+      monster.setRandom(this.random);
       
       // Set projectile manager for plants
       if (monsterType.includes('Plant') && this.projectileManager)
       {
         (monster as any).projectileManager = this.projectileManager;
+      }
+      
+      // Apply wave spawn modifiers (e.g. plant barrage)
+      const modifiers = this.waveDefinition?.spawnModifiers;
+      if (modifiers && modifiers.appliesTo.includes(monsterType))
+      {
+        if (modifiers.projectileSpeedMultiplier !== undefined)
+        {
+          // Applied in plant class
+          (monster as any).projectileSpeedMultiplier = modifiers.projectileSpeedMultiplier;
+        }
         
-        // Apply plant barrage modifiers
-        if (this.isPlantBarrageWave)
+        if (modifiers.attackCooldownMultiplier !== undefined)
         {
-          // Projectile speed x1.3 (applied in plant class)
-          (monster as any).projectileSpeedMultiplier = 1.3;
-          
-          // Attack cooldown x0.7
-          (monster as any).attackCooldownMax *= 0.7;
+          (monster as any).attackCooldownMax *= modifiers.attackCooldownMultiplier;
         }
       }
     }
 
     if (monster)
     {
-      (monster as any).monsterTypeName = monsterType;
+      monster.monsterTypeName = monsterType;
     }
     return monster;
   }
@@ -733,10 +810,10 @@ export class EnemySpawner
     const playerPos = this.player.getPosition();
     
     // Random angle
-    const angle = Math.random() * Math.PI * 2;
+    const angle = this.random.next() * Math.PI * 2;
     
     // Random distance (spawn radius ± 100)
-    const distance = this.spawnRadius + (Math.random() * 200 - 100);
+    const distance = this.spawnRadius + this.random.range(-100, 100);
     
     // Calculate position
     const x = playerPos.x + Math.cos(angle) * distance;
@@ -762,7 +839,56 @@ export class EnemySpawner
    */
   getWaveProgress(): number
   {
-    return this.waveTimer / this.WAVE_DURATION;
+    return this.waveTimer / this.waveDuration;
+  }
+  
+  /**
+   * Get time spent in the current wave (seconds)
+   */
+  getWaveTimer(): number
+  {
+    return this.waveTimer;
+  }
+  
+  /**
+   * Continue a saved run mid-wave (wave start events already happened)
+   */
+  restoreWave(waveNumber: number, waveTimer: number): void
+  {
+    this.currentWave = Math.max(1, waveNumber);
+    this.applyWaveSettings();
+    this.waveTimer = Math.min(waveTimer, this.waveDuration);
+    this.waveStarted = true;
+    this.spawnTimer = 0;
+    
+    console.log(`[EnemySpawner] Restored wave ${this.currentWave} at ${this.waveTimer.toFixed(1)}s`);
+  }
+  
+  /**
+   * Recreate a monster from a saved run (boss and elite stats are carried over as saved)
+   */
+  restoreMonster(saved: MonsterSnapshot): MonsterBase | null
+  {
+    const monster = this.spawnMonsterAt(saved.type, saved.x, saved.y);
+    
+    if (!monster)
+    {
+      return null;
+    }
+    
+    monster.restoreStats(saved);
+    
+    if (saved.boss !== null)
+    {
+      monster.setAsBoss(getBossDefinition(saved.boss) ?? undefined, this.createBossHooks());
+    }
+    
+    if (saved.elite.length > 0)
+    {
+      monster.setAsElite(saved.elite, this.createEliteHooks(saved.type, saved.maxHealth));
+    }
+    
+    return monster;
   }
   
   /**
@@ -773,7 +899,7 @@ export class EnemySpawner
     this.currentWave = Math.max(1, waveNumber);
     this.waveTimer = 0;
     this.waveStarted = false;
-    this.spawnInterval = Math.max(0.3, 2 - (this.currentWave * 0.1));
+    this.applyWaveSettings();
     
     console.log(`[EnemySpawner] Forced to wave ${this.currentWave}`);
   }
@@ -804,9 +930,9 @@ export class EnemySpawner
     this.currentWave = 1;
     this.waveTimer = 0;
     this.spawnTimer = 0;
-    this.spawnInterval = 2;
     this.waveStarted = false;
-    this.isPlantBarrageWave = false;
+    this.summoned = [];
+    this.applyWaveSettings();
     this.isSpawning = true; // Resume spawning on reset
     
     console.log('[EnemySpawner] Reset to wave 1');
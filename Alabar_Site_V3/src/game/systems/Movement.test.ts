@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { MovementSystem, createMoveVector, getMoveAngle } from './Movement';
+
+const bounds = { minX: 25, maxX: 975, minY: 25, maxY: 375 };
+
+const up = { x: 0, y: -1 };
+const down = { x: 0, y: 1 };
+const left = { x: -1, y: 0 };
+const right = { x: 1, y: 0 };
+
+describe('MovementSystem', () =>
+{
+  it('moves speed * 60 pixels per second in the given direction', () =>
+  {
+    const movement = new MovementSystem({ speed: 2 });
+
+    expect(movement.calculateNewPosition({ x: 100, y: 100 }, right, 0.5)).toEqual({ x: 160, y: 100 });
+    expect(movement.calculateNewPosition({ x: 100, y: 100 }, up, 0.5)).toEqual({ x: 100, y: 40 });
+  });
+
+  it('moves diagonally at the same speed as straight', () =>
+  {
+    const movement = new MovementSystem({ speed: 1 });
+    const pos = movement.calculateNewPosition({ x: 0, y: 0 }, createMoveVector(1, 1), 1);
+
+    expect(Math.sqrt(pos.x * pos.x + pos.y * pos.y)).toBeCloseTo(60);
+    expect(pos.x).toBeCloseTo(pos.y);
+  });
+
+  it('scales speed with analog magnitude', () =>
+  {
+    const movement = new MovementSystem({ speed: 1 });
+
+    expect(movement.calculateNewPosition({ x: 0, y: 0 }, { x: 0.5, y: 0 }, 1)).toEqual({ x: 30, y: 0 });
+  });
+
+  it('returns the same position when not moving', () =>
+  {
+    const movement = new MovementSystem({ speed: 2, bounds });
+    const pos = { x: 100, y: 100 };
+
+    expect(movement.calculateNewPosition(pos, { x: 0, y: 0 }, 1)).toBe(pos);
+  });
+
+  it('clamps to each edge of the bounds', () =>
+  {
+    const movement = new MovementSystem({ speed: 10, bounds });
+
+    expect(movement.calculateNewPosition({ x: 30, y: 200 }, left, 1)).toEqual({ x: 25, y: 200 });
+    expect(movement.calculateNewPosition({ x: 970, y: 200 }, right, 1)).toEqual({ x: 975, y: 200 });
+    expect(movement.calculateNewPosition({ x: 500, y: 30 }, up, 1)).toEqual({ x: 500, y: 25 });
+    expect(movement.calculateNewPosition({ x: 500, y: 370 }, down, 1)).toEqual({ x: 500, y: 375 });
+  });
+
+  it('pulls an out-of-bounds position back inside on the next move', () =>
+  {
+    const movement = new MovementSystem({ speed: 1, bounds });
+
+    expect(movement.calculateNewPosition({ x: -50, y: 500 }, right, 0)).toEqual({ x: 25, y: 375 });
+  });
+
+  it('does not clamp once bounds are cleared', () =>
+  {
+    const movement = new MovementSystem({ speed: 10, bounds });
+    movement.clearBounds();
+
+    expect(movement.calculateNewPosition({ x: 30, y: 200 }, left, 1)).toEqual({ x: -570, y: 200 });
+    expect(movement.isInBounds({ x: -570, y: 200 })).toBe(true);
+  });
+
+  it('checks bounds inclusively', () =>
+  {
+    const movement = new MovementSystem({ speed: 1, bounds });
+
+    expect(movement.isInBounds({ x: 25, y: 375 })).toBe(true);
+    expect(movement.isInBounds({ x: 24.9, y: 200 })).toBe(false);
+  });
+});
+
+describe('move vectors', () =>
+{
+  it('clamps length to 1 and quantizes components', () =>
+  {
+    expect(createMoveVector(3, 4)).toEqual({ x: 0.6, y: 0.8 });
+    expect(createMoveVector(0.123456, 0)).toEqual({ x: 0.12, y: 0 });
+    expect(createMoveVector(-0.001, 0)).toEqual({ x: 0, y: 0 });
+  });
+
+  it('snaps angles to eight directions', () =>
+  {
+    expect(getMoveAngle(right)).toBe(0);
+    expect(getMoveAngle(down)).toBeCloseTo(Math.PI / 2);
+    expect(getMoveAngle(left)).toBeCloseTo(Math.PI);
+    expect(getMoveAngle({ x: 1, y: -1 })).toBeCloseTo(-Math.PI / 4);
+    expect(getMoveAngle({ x: 0.9, y: 0.2 })).toBe(0);
+  });
+});
@@ -1,9 +1,49 @@
 /**
  * Movement.ts - Movement logic for entities
- * Handles 4-directional movement with boundary detection
+ * Handles 8-directional / analog vector movement with boundary detection
  */
 
-import { Direction } from '../core/Input';
+/**
+ * Movement input: x/y in -1..1, length at most 1 (analog input below 1 walks slower)
+ */
+export interface MoveVector
+{
+  x: number;
+  y: number;
+}
+
+/**
+ * Move vectors are quantized to 1/MOVE_STEPS so recorded input replays exactly
+ */
+export const MOVE_STEPS = 100;
+
+/**
+ * Build a move vector: length clamped to 1, components quantized
+ */
+export function createMoveVector(x: number, y: number): MoveVector
+{
+  const length = Math.sqrt(x * x + y * y);
+  const scale = length > 1 ? 1 / length : 1;
+
+  return {
+    x: Math.round(x * scale * MOVE_STEPS) / MOVE_STEPS || 0,
+    y: Math.round(y * scale * MOVE_STEPS) / MOVE_STEPS || 0
+  };
+}
+
+export function isZeroMove(move: MoveVector): boolean
+{
+  return move.x === 0 && move.y === 0;
+}
+
+/**
+ * Angle of a move snapped to the nearest of 8 directions (radians, 0 = right, PI/2 = down)
+ */
+export function getMoveAngle(move: MoveVector): number
+{
+  const step = Math.PI / 4;
+  return (Math.round(Math.atan2(move.y, move.x) / step) * step) || 0;
+}
 
 export interface MovementConfig
 {
@@ -34,45 +74,33 @@ export class MovementSystem
   }
   
   /**
-   * Calculate new position based on direction
+   * Calculate new position from a move vector (diagonals are normalized, analog magnitude scales speed)
    */
-    calculateNewPosition(currentPos: Position, direction: Direction, delta: number): Position
+  calculateNewPosition(currentPos: Position, move: MoveVector, delta: number): Position
+  {
+    if (isZeroMove(move))
     {
-        if (!direction)
-        {
-            return currentPos;
-        }
-
-        const newPos: Position = { ...currentPos };
-
-        const deltaSpeed = this.speed * delta * 60;
-
-        switch (direction)
-        {
-            case 'up':
-            newPos.y -= deltaSpeed;
-            break;
-            case 'down':
-            newPos.y += deltaSpeed;
-            break;
-            case 'left':
-            newPos.x -= deltaSpeed;
-            break;
-            case 'right':
-            newPos.x += deltaSpeed;
-            break;
-        }
-
-        // Boundary
-        if (this.bounds)
-        {
-            newPos.x = Math.max(this.bounds.minX, Math.min(this.bounds.maxX, newPos.x));
-            newPos.y = Math.max(this.bounds.minY, Math.min(this.bounds.maxY, newPos.y));
-        }
-
-        return newPos;
+      return currentPos;
     }
-
+    
+    // Never faster than full speed (a quantized diagonal can be slightly longer than 1)
+    const length = Math.sqrt(move.x * move.x + move.y * move.y);
+    const deltaSpeed = this.speed * delta * 60 / Math.max(1, length);
+    
+    const newPos: Position = {
+      x: currentPos.x + move.x * deltaSpeed,
+      y: currentPos.y + move.y * deltaSpeed
+    };
+    
+    // Boundary
+    if (this.bounds)
+    {
+      newPos.x = Math.max(this.bounds.minX, Math.min(this.bounds.maxX, newPos.x));
+      newPos.y = Math.max(this.bounds.minY, Math.min(this.bounds.maxY, newPos.y));
+    }
+    
+    return newPos;
+  }
   
   /**
    * Check if position is within bounds
@@ -0,0 +1,463 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PowerManager, STARTING_CHARGES } from './PowerManager';
+import { Player } from '../entities/Player';
+import { WEAPON_SPECIFIC_PASSIVES } from '../configs/Passive';
+import { DEFAULT_LOADOUT } from '../configs/MetaShop';
+import { SeededRandom } from '../../utils/Random';
+import { createStubAssetManager, StubInput } from '../../test/stubs';
+
+const assetManager = createStubAssetManager();
+const weaponSpecificIds = WEAPON_SPECIFIC_PASSIVES.map(p => p.id);
+
+describe('PowerManager', () =>
+{
+  let player: Player;
+  let powerManager: PowerManager;
+
+  beforeEach(() =>
+  {
+    player = new Player(assetManager, {
+      startX: 100,
+      startY: 100,
+      speed: 2,
+      inputSource: new StubInput()
+    });
+    powerManager = new PowerManager(player, new SeededRandom(1234));
+  });
+
+  afterEach(() =>
+  {
+    // Power-up levels live on shared config objects
+    powerManager.reset();
+  });
+
+  /**
+   * Push the player to a level without triggering card selection
+   */
+  function levelTo(level: number): void
+  {
+    while (player.getLevel() < level)
+    {
+      player.addXP(player.getXPNeeded());
+    }
+  }
+
+  describe('early game (levels 1-3)', () =>
+  {
+    it('offers one new weapon, one new power and one passive', () =>
+    {
+      for (let i = 0; i < 50; i++)
+      {
+        const cards = powerManager.generateLevelUpCards();
+        const types = cards.map(c => c.powerUp.type).sort();
+
+        expect(types).toEqual(['passive', 'power', 'weapon']);
+        expect(cards.find(c => c.powerUp.type === 'weapon')!.isNew).toBe(true);
+        expect(cards.find(c => c.powerUp.type === 'power')!.isNew).toBe(true);
+      }
+    });
+
+    it('never offers an owned weapon or power', () =>
+    {
+      powerManager.addWeapon('dagger');
+      powerManager.addPowerUp('explosion');
+
+      for (let i = 0; i < 50; i++)
+      {
+        const ids = powerManager.generateLevelUpCards().map(c => c.powerUp.id);
+
+        expect(ids).not.toContain('dagger');
+        expect(ids).not.toContain('explosion');
+      }
+    });
+
+    it('holds the guarantee through level 3 only', () =>
+    {
+      levelTo(3);
+      expect(powerManager.generateLevelUpCards().map(c => c.powerUp.type).sort()).toEqual(['passive', 'power', 'weapon']);
+
+      levelTo(4);
+      let sawNonGuaranteedHand = false;
+      for (let i = 0; i < 50; i++)
+      {
+        const types = powerManager.generateLevelUpCards().map(c => c.powerUp.type).sort();
+        if (types.join() !== 'passive,power,weapon')
+        {
+          sawNonGuaranteedHand = true;
+        }
+      }
+      expect(sawNonGuaranteedHand).toBe(true);
+    });
+  });
+
+  describe('weapon-specific passives', () =>
+  {
+    it('are never offered without their weapon', () =>
+    {
+      for (const level of [1, 5])
+      {
+        levelTo(level);
+
+        for (let i = 0; i < 100; i++)
+        {
+          const ids = powerManager.generateLevelUpCards().map(c => c.powerUp.id);
+          expect(ids.filter(id => weaponSpecificIds.includes(id))).toEqual([]);
+        }
+      }
+    });
+
+    it('are offered only for owned weapons', () =>
+    {
+      powerManager.addWeapon('axe');
+      levelTo(5);
+
+      const offered = new Set<string>();
+      for (let i = 0; i < 300; i++)
+      {
+        for (const card of powerManager.generateLevelUpCards())
+        {
+          offered.add(card.powerUp.id);
+        }
+      }
+
+      expect(offered.has('extra_axe')).toBe(true);
+      for (const id of weaponSpecificIds.filter(id => id !== 'extra_axe'))
+      {
+        expect(offered.has(id)).toBe(false);
+      }
+    });
+  });
+
+  describe('late game (level 4+)', () =>
+  {
+    it('deals three distinct cards', () =>
+    {
+      levelTo(6);
+
+      for (let i = 0; i < 50; i++)
+      {
+        const ids = powerManager.generateLevelUpCards().map(c => c.powerUp.id);
+        expect(ids).toHaveLength(3);
+        expect(new Set(ids).size).toBe(3);
+      }
+    });
+
+    it('stops offering a maxed weapon', () =>
+    {
+      powerManager.addWeapon('sword');
+      const sword = powerManager.getOwnedPowerUp('sword')!;
+      while (sword.canLevelUp())
+      {
+        powerManager.addPowerUp('sword');
+      }
+      levelTo(6);
+
+      for (let i = 0; i < 100; i++)
+      {
+        expect(powerManager.generateLevelUpCards().map(c => c.powerUp.id)).not.toContain('sword');
+      }
+    });
+
+    it('marks upgrades of owned power-ups as not new', () =>
+    {
+      powerManager.addWeapon('dagger');
+      levelTo(6);
+
+      for (let i = 0; i < 100; i++)
+      {
+        const dagger = powerManager.generateLevelUpCards().find(c => c.powerUp.id === 'dagger');
+        if (dagger)
+        {
+          expect(dagger.isNew).toBe(false);
+        }
+      }
+    });
+  });
+
+  describe('weapon evolutions', () =>
+  {
+    function maxWeapon(id: string): void
+    {
+      powerManager.addWeapon(id);
+      while (powerManager.getOwnedPowerUp(id)!.canLevelUp())
+      {
+        powerManager.addPowerUp(id);
+      }
+    }
+
+    it('needs a max level weapon and its paired passive', () =>
+    {
+      powerManager.addWeapon('axe');
+      powerManager.addPowerUp('armor');
+      expect(powerManager.getAvailableEvolutions()).toEqual([]);
+
+      powerManager.reset();
+      maxWeapon('axe');
+      expect(powerManager.getAvailableEvolutions()).toEqual([]);
+
+      powerManager.addPowerUp('armor');
+      expect(powerManager.getAvailableEvolutions().map(p => p.id)).toEqual(['death_spiral']);
+    });
+
+    it('takes the first card and replaces the base weapon once picked', () =>
+    {
+      maxWeapon('axe');
+      powerManager.addPowerUp('armor');
+      levelTo(6);
+
+      const cards = powerManager.generateLevelUpCards();
+      expect(cards).toHaveLength(3);
+      expect(cards[0]).toMatchObject({ isEvolution: true, isNew: true });
+      expect(cards[0].powerUp.id).toBe('death_spiral');
+
+      expect(powerManager.addPowerUp('death_spiral')).toBe(true);
+      expect(player.activeWeapons.map(w => w.id)).toEqual(['death_spiral']);
+      expect(player.activeWeapons[0].behavior).toBe('spiral');
+      expect(powerManager.getAvailableEvolutions()).toEqual([]);
+
+      for (let i = 0; i < 50; i++)
+      {
+        expect(powerManager.generateLevelUpCards().map(c => c.powerUp.id)).not.toContain('death_spiral');
+      }
+    });
+
+    it('refuses an evolution whose recipe is not met', () =>
+    {
+      powerManager.addWeapon('sword');
+
+      expect(powerManager.addPowerUp('radiant_cross')).toBe(false);
+      expect(player.activeWeapons.map(w => w.id)).toEqual(['sword']);
+    });
+  });
+
+  describe('meta loadout', () =>
+  {
+    it('never offers locked weapons or powers', () =>
+    {
+      powerManager.reset();
+      powerManager = new PowerManager(player, new SeededRandom(7), {
+        ...DEFAULT_LOADOUT,
+        lockedPowerUps: ['sword', 'aura']
+      });
+
+      for (const level of [1, 6])
+      {
+        levelTo(level);
+
+        for (let i = 0; i < 100; i++)
+        {
+          const ids = powerManager.generateLevelUpCards().map(c => c.powerUp.id);
+          expect(ids).not.toContain('sword');
+          expect(ids).not.toContain('aura');
+        }
+      }
+    });
+
+    it('applies starting bonuses once', () =>
+    {
+      const baseHealth = player.getMaxHealth();
+
+      powerManager.reset();
+      powerManager = new PowerManager(player, new SeededRandom(7), {
+        maxHealthBonus: 20,
+        damageMultiplier: 1.1,
+        moveSpeedMultiplier: 1.05,
+        lockedPowerUps: []
+      });
+
+      expect(player.getMaxHealth()).toBe(baseHealth + 20);
+      expect(player.getHealth()).toBe(baseHealth + 20);
+      expect(player.stats.damageMultiplier).toBeCloseTo(1.1);
+      expect(player.stats.moveSpeedMultiplier).toBeCloseTo(1.05);
+
+      powerManager.reset();
+      expect(player.getMaxHealth()).toBe(baseHealth + 20);
+      expect(player.stats.damageMultiplier).toBeCloseTo(1.1);
+    });
+  });
+
+  describe('level-up actions', () =>
+  {
+    it('rerolls until the charges run out', () =>
+    {
+      for (let i = 0; i < STARTING_CHARGES.reroll; i++)
+      {
+        expect(powerManager.reroll()).toHaveLength(3);
+      }
+
+      expect(powerManager.reroll()).toBeNull();
+      expect(powerManager.getCharges().reroll).toBe(0);
+    });
+
+    it('never deals a banished power-up again', () =>
+    {
+      expect(powerManager.banish('might')).not.toBeNull();
+      expect(powerManager.banish('might')).toBeNull();
+
+      for (const level of [1, 5])
+      {
+        levelTo(level);
+
+        for (let i = 0; i < 100; i++)
+        {
+          expect(powerManager.generateLevelUpCards().map(c => c.powerUp.id)).not.toContain('might');
+        }
+      }
+
+      expect(powerManager.getBanished()).toEqual(['might']);
+      expect(powerManager.getCharges().banish).toBe(STARTING_CHARGES.banish - 1);
+    });
+
+    it('skips for a heal and some XP', () =>
+    {
+      player.takeDamage(50);
+      const health = player.getHealth();
+
+      expect(powerManager.skip()).toBe(true);
+      expect(player.getHealth()).toBeGreaterThan(health);
+      expect(player.getCurrentXP()).toBeGreaterThan(0);
+    });
+
+    it('restores charges and banished power-ups from a saved run', () =>
+    {
+      powerManager.restoreLevelUpState({ reroll: 0, banish: 1, skip: 0 }, ['might']);
+
+      expect(powerManager.reroll()).toBeNull();
+      expect(powerManager.skip()).toBe(false);
+      expect(powerManager.getBanished()).toEqual(['might']);
+
+      powerManager.reset();
+      expect(powerManager.getCharges()).toEqual(STARTING_CHARGES);
+      expect(powerManager.getBanished()).toEqual([]);
+    });
+
+    it('restores a saved hand without drawing random numbers', () =>
+    {
+      const random = new SeededRandom(99);
+      powerManager = new PowerManager(player, random);
+      powerManager.addWeapon('axe');
+      levelTo(5);
+
+      const cards = powerManager.generateLevelUpCards();
+      const saved = JSON.parse(JSON.stringify(powerManager.saveCards(cards)));
+      const state = random.getState();
+
+      const restored = powerManager.restoreCards(saved);
+
+      expect(restored.map(c => ({ id: c.powerUp.id, isNew: c.isNew }))).toEqual(cards.map(c => ({ id: c.powerUp.id, isNew: c.isNew })));
+      expect(random.getState()).toBe(state);
+    });
+
+    it('drops saved cards that no longer match the build', () =>
+    {
+      powerManager.addWeapon('axe');
+      const saved = powerManager.saveCards([{ powerUp: powerManager.getOwnedPowerUp('axe')!, isNew: false }]);
+
+      powerManager.addPowerUp('axe');
+
+      expect(powerManager.restoreCards(saved)).toEqual([]);
+      expect(powerManager.restoreCards([{ id: 'nope', level: 0, isEvolution: false }])).toEqual([]);
+    });
+  });
+
+  describe('reward chests', () =>
+  {
+    function maxOut(id: string): void
+    {
+      while (powerManager.getOwnedPowerUp(id)!.canLevelUp())
+      {
+        powerManager.addPowerUp(id);
+      }
+    }
+
+    it('upgrades 1/3/5 owned power-ups by chest type', () =>
+    {
+      powerManager.addWeapon('axe');
+      powerManager.addPowerUp('might');
+
+      for (const [type, count] of [['gray', 1], ['gold', 3], ['bone', 5]] as const)
+      {
+        const before = powerManager.getHistory().length;
+        const rewards = powerManager.openChest(type);
+
+        expect(rewards).toHaveLength(count);
+        expect(rewards.every(r => ['axe', 'might'].includes(r.powerUp.id))).toBe(true);
+        expect(powerManager.getHistory()).toHaveLength(before + count);
+      }
+    });
+
+    it('evolves a ready weapon first', () =>
+    {
+      powerManager.addWeapon('axe');
+      maxOut('axe');
+      powerManager.addPowerUp('armor');
+
+      const rewards = powerManager.openChest('gold');
+
+      expect(rewards[0]).toMatchObject({ isEvolution: true });
+      expect(rewards[0].powerUp.id).toBe('death_spiral');
+      expect(rewards).toHaveLength(3);
+    });
+
+    it('comes up short when nothing is left to upgrade', () =>
+    {
+      powerManager.addWeapon('axe');
+      maxOut('axe');
+
+      expect(powerManager.openChest('bone')).toEqual([]);
+    });
+  });
+
+  it('deals the same cards for the same seed', () =>
+  {
+    const first = powerManager.generateLevelUpCards().map(c => c.powerUp.id);
+
+    powerManager.reset();
+    powerManager = new PowerManager(player, new SeededRandom(1234));
+
+    expect(powerManager.generateLevelUpCards().map(c => c.powerUp.id)).toEqual(first);
+  });
+
+  it('resets owned power-ups and levels', () =>
+  {
+    powerManager.addWeapon('axe');
+    powerManager.addPowerUp('might');
+    const axe = powerManager.getOwnedPowerUp('axe')!;
+    const might = powerManager.getOwnedPowerUp('might')!;
+
+    powerManager.reset();
+
+    expect(powerManager.getAllOwnedPowerUps()).toEqual([]);
+    expect(powerManager.hasPowerUp('axe')).toBe(false);
+    expect(axe.level).toBe(0);
+    expect(might.level).toBe(0);
+    expect(powerManager.getHistory()).toEqual([]);
+  });
+
+  it('rebuilds the same build from its pick history', () =>
+  {
+    powerManager.addWeapon('axe');
+    powerManager.addPowerUp('might');
+    powerManager.addPowerUp('axe');
+    powerManager.addPowerUp('might');
+
+    const history = powerManager.getHistory();
+    const levels = powerManager.getAllOwnedPowerUps().map(p => [p.id, p.level]);
+    const damage = player.stats.damageMultiplier;
+
+    expect(history).toEqual(['axe', 'might', 'axe', 'might']);
+
+    // Fresh player, as in a resumed run
+    powerManager.reset();
+    player = new Player(assetManager, { startX: 100, startY: 100, speed: 2, inputSource: new StubInput() });
+    powerManager = new PowerManager(player, new SeededRandom(1234));
+
+    for (const id of history)
+    {
+      powerManager.addPowerUp(id);
+    }
+
+    expect(powerManager.getAllOwnedPowerUps().map(p => [p.id, p.level])).toEqual(levels);
+    expect(player.stats.damageMultiplier).toBeCloseTo(damage);
+  });
+});
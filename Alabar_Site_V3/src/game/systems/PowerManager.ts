@@ -5,14 +5,72 @@
 import { PowerUp } from '../configs/PowerUps';
 import { ALL_POWERS } from '../configs/Power';
 import { ALL_PASSIVES, GENERIC_PASSIVES, WEAPON_SPECIFIC_PASSIVES } from '../configs/Passive';
-import { ALL_WEAPONS } from '../configs/Weapons';
+import { ALL_WEAPONS, WEAPON_EVOLUTIONS } from '../configs/Weapons';
+import { DEFAULT_LOADOUT, MetaLoadout } from '../configs/MetaShop';
+import { SeededRandom } from '../../utils/Random';
+import type { ChestType } from '../entities/Chest';
 
 export interface CardOption
 {
   powerUp: PowerUp;
   isNew: boolean; // True if player doesn't have this yet
+  isEvolution?: boolean; // Evolved weapon (replaces its base weapon)
 }
 
+/**
+ * A dealt level-up card as saved in a run snapshot (level = power-up level when it was dealt)
+ */
+export interface SavedCard
+{
+  id: string;
+  level: number;
+  isEvolution: boolean;
+}
+
+/**
+ * Limited-use level-up screen actions
+ * Reroll deals a new hand, Banish removes a power-up from the run's pool (and deals a new hand),
+ * Skip takes a small heal and XP instead of a card
+ */
+export type LevelUpAction = 'reroll' | 'banish' | 'skip';
+
+export type LevelUpCharges = Record<LevelUpAction, number>;
+
+/**
+ * What the player did on a level-up screen (recorded in replays)
+ */
+export type LevelUpChoice =
+  | { type: 'pick'; powerUpId: string }
+  | { type: 'reroll' }
+  | { type: 'banish'; powerUpId: string }
+  | { type: 'skip' };
+
+// Uses per run
+export const STARTING_CHARGES: LevelUpCharges = { reroll: 3, banish: 2, skip: 2 };
+
+/**
+ * One upgrade granted by a reward chest (level it reached, the same power-up can come up twice)
+ */
+export interface ChestRewardOption
+{
+  powerUp: PowerUp;
+  level: number;
+  isEvolution?: boolean;
+}
+
+/**
+ * Reward chest contents: number of upgrades and how strongly rarer owned power-ups are favoured
+ */
+export const CHEST_REWARDS: Record<ChestType, { count: number; rarityWeights: Record<PowerUp['rarity'], number> }> = {
+  gray: { count: 1, rarityWeights: { common: 10, uncommon: 10, rare: 10 } },
+  gold: { count: 3, rarityWeights: { common: 10, uncommon: 20, rare: 30 } },
+  bone: { count: 5, rarityWeights: { common: 10, uncommon: 30, rare: 60 } }
+};
+
+// Skip reward (fractions of max health and of the XP needed for the next level)
+const SKIP_HEAL_FRACTION = 0.1;
+const SKIP_XP_FRACTION = 0.1;
+
 export class PowerManager
 {
   // All available power-ups
@@ -23,17 +81,33 @@ export class PowerManager
   // Player's acquired power-ups (by id)
   private ownedPowerUps: Map<string, PowerUp>;
   
+  // Every successful pick in order (saved runs rebuild the build from it)
+  private history: string[] = [];
+  
+  // Level-up screen actions left and power-ups banished from the pool this run
+  private charges: LevelUpCharges = { ...STARTING_CHARGES };
+  private banished: Set<string> = new Set();
+  
   // Reference to player
   private player: any;
   
-  constructor(player: any)
+  // Random source for card generation
+  private random: SeededRandom;
+  
+  // Meta progression (shop bonuses + locked weapons/powers)
+  private loadout: MetaLoadout;
+  private startingBonusesApplied: boolean = false;
+  
+  constructor(player: any, random: SeededRandom = new SeededRandom(), loadout: MetaLoadout = DEFAULT_LOADOUT)
   {
     this.player = player;
+    this.random = random;
+    this.loadout = loadout;
     
-    // Initialize all power-ups
-    this.allPowers = [...ALL_POWERS];
+    // Initialize all power-ups (locked ones never show up as cards)
+    this.allPowers = ALL_POWERS.filter(p => !loadout.lockedPowerUps.includes(p.id));
     this.allPassives = [...ALL_PASSIVES];
-    this.allWeapons = [...ALL_WEAPONS];
+    this.allWeapons = ALL_WEAPONS.filter(w => !loadout.lockedPowerUps.includes(w.id));
     
     // Track owned power-ups
     this.ownedPowerUps = new Map();
@@ -70,6 +144,35 @@ export class PowerManager
     this.player.stats.projectileSpeedMultiplier = this.player.stats.projectileSpeedMultiplier ?? 1.0;
     this.player.stats.projectileCount = this.player.stats.projectileCount ?? 1;
     this.player.stats.pierce = this.player.stats.pierce ?? 0;
+    this.player.stats.critChance = this.player.stats.critChance ?? 0;
+    this.player.stats.critMultiplier = this.player.stats.critMultiplier ?? 1.5;
+    
+    // Permanent shop bonuses (once per run)
+    if (!this.startingBonusesApplied)
+    {
+      this.applyStartingBonuses();
+      this.startingBonusesApplied = true;
+    }
+  }
+  
+  /**
+   * Apply meta progression bonuses (starting HP, Might, Move Speed)
+   */
+  private applyStartingBonuses(): void
+  {
+    this.player.stats.damageMultiplier *= this.loadout.damageMultiplier;
+    this.player.stats.moveSpeedMultiplier *= this.loadout.moveSpeedMultiplier;
+    
+    if (this.loadout.moveSpeedMultiplier !== 1.0 && this.player.movementSystem)
+    {
+      this.player.movementSystem.setSpeed(this.player.movementSystem.getSpeed() * this.loadout.moveSpeedMultiplier);
+    }
+    
+    if (this.loadout.maxHealthBonus > 0)
+    {
+      this.player.maxHealth = this.player.getMaxHealth() + this.loadout.maxHealthBonus;
+      this.player.heal(this.loadout.maxHealthBonus);
+    }
   }
   
   /**
@@ -90,6 +193,7 @@ export class PowerManager
     
     // Track as owned
     this.ownedPowerUps.set(weaponId, weapon);
+    this.history.push(weaponId);
     
     console.log(`[PowerManager] Added weapon: ${weapon.name}`);
     return true;
@@ -109,6 +213,7 @@ export class PowerManager
       if (owned.canLevelUp())
       {
         owned.levelUp(this.player);
+        this.history.push(powerUpId);
         console.log(`[PowerManager] Leveled up: ${owned.name} (${owned.level}/${owned.maxLevel})`);
         return true;
       }
@@ -119,8 +224,8 @@ export class PowerManager
       }
     }
     
-    // Find in all power-ups
-    const powerUp = [...this.allPowers, ...this.allPassives, ...this.allWeapons]
+    // Find in all power-ups (evolutions only once their recipe is met)
+    const powerUp = [...this.allPowers, ...this.allPassives, ...this.allWeapons, ...this.getAvailableEvolutions()]
       .find(p => p.id === powerUpId);
     
     if (!powerUp)
@@ -134,15 +239,37 @@ export class PowerManager
     
     // Track as owned
     this.ownedPowerUps.set(powerUpId, powerUp);
+    this.history.push(powerUpId);
     
     console.log(`[PowerManager] Added new power-up: ${powerUp.name}`);
     return true;
   }
   
+  /**
+   * Evolved weapons the player qualifies for (max level weapon + its paired passive, not evolved yet)
+   */
+  getAvailableEvolutions(): PowerUp[]
+  {
+    return WEAPON_EVOLUTIONS
+      .filter(recipe =>
+      {
+        const weapon = this.ownedPowerUps.get(recipe.weaponId);
+        
+        return !!weapon &&
+          !weapon.canLevelUp() &&
+          this.ownedPowerUps.has(recipe.passiveId) &&
+          !this.ownedPowerUps.has(recipe.evolved.id) &&
+          !this.banished.has(recipe.evolved.id);
+      })
+      .map(recipe => recipe.evolved);
+  }
+  
   /**
    * Generate level-up cards (ALWAYS 3 cards)
    * LEVELS 1-3: Guarantee 1 NEW weapon + 1 NEW power + 1 passive (shuffled randomly)
    * LEVEL 4+: Completely random (any weapon/power/passive, new or upgrade)
+   * An available evolution always takes the first card
+   * Banished power-ups are never dealt
    */
   generateLevelUpCards(): CardOption[]
   {
@@ -159,11 +286,11 @@ export class PowerManager
       const cards: CardOption[] = [];
 
       // CARD 1: Pick random NEW weapon
-      const unownedWeapons = this.allWeapons.filter(w => !this.ownedPowerUps.has(w.id));
+      const unownedWeapons = this.allWeapons.filter(w => !this.ownedPowerUps.has(w.id) && !this.banished.has(w.id));
       
       if (unownedWeapons.length > 0)
       {
-        const randomWeapon = unownedWeapons[Math.floor(Math.random() * unownedWeapons.length)];
+        const randomWeapon = this.random.pick(unownedWeapons);
         cards.push({
           powerUp: randomWeapon,
           isNew: true
@@ -172,11 +299,11 @@ export class PowerManager
       }
 
       // CARD 2: Pick random NEW power
-      const unownedPowers = this.allPowers.filter(p => !this.ownedPowerUps.has(p.id));
+      const unownedPowers = this.allPowers.filter(p => !this.ownedPowerUps.has(p.id) && !this.banished.has(p.id));
       
       if (unownedPowers.length > 0)
       {
-        const randomPower = unownedPowers[Math.floor(Math.random() * unownedPowers.length)];
+        const randomPower = this.random.pick(unownedPowers);
         cards.push({
           powerUp: randomPower,
           isNew: true
@@ -203,9 +330,11 @@ export class PowerManager
         }
       }
 
-      if (passiveOptions.length > 0)
+      const allowedPassives = passiveOptions.filter(p => !this.banished.has(p.id));
+
+      if (allowedPassives.length > 0)
       {
-        const randomPassive = passiveOptions[Math.floor(Math.random() * passiveOptions.length)];
+        const randomPassive = this.random.pick(allowedPassives);
         const isNew = !this.ownedPowerUps.has(randomPassive.id);
         
         cards.push({
@@ -218,7 +347,7 @@ export class PowerManager
       // SHUFFLE the cards randomly
       for (let i = cards.length - 1; i > 0; i--)
       {
-        const j = Math.floor(Math.random() * (i + 1));
+        const j = this.random.int(i + 1);
         [cards[i], cards[j]] = [cards[j], cards[i]];
       }
 
@@ -313,11 +442,24 @@ export class PowerManager
       }
     }
 
-    // Pick 3 random cards (no duplicates)
     const cards: CardOption[] = [];
-    const availableCopy = [...allOptions];
 
-    for (let i = 0; i < 3 && availableCopy.length > 0; i++)
+    // Evolution ready (one per hand)
+    const evolution = this.getAvailableEvolutions()[0];
+    if (evolution)
+    {
+      cards.push({
+        powerUp: evolution,
+        isNew: true,
+        isEvolution: true
+      });
+      console.log(`[PowerManager] Card 1: EVOLUTION ${evolution.name}`);
+    }
+
+    // Fill the rest with random cards (no duplicates)
+    const availableCopy = allOptions.filter(option => !this.banished.has(option.powerUp.id));
+
+    for (let i = cards.length; i < 3 && availableCopy.length > 0; i++)
     {
       const choice = this.weightedRandomChoice(availableCopy);
       if (!choice) break;
@@ -337,6 +479,158 @@ export class PowerManager
     return cards;
   }
   
+  /**
+   * Uses left of each level-up screen action
+   */
+  getCharges(): Readonly<LevelUpCharges>
+  {
+    return this.charges;
+  }
+  
+  /**
+   * Power-ups removed from this run's pool
+   */
+  getBanished(): string[]
+  {
+    return [...this.banished];
+  }
+  
+  /**
+   * Restore charges and banished power-ups from a saved run
+   */
+  restoreLevelUpState(charges: LevelUpCharges, banished: string[]): void
+  {
+    this.charges = { ...charges };
+    this.banished = new Set(banished);
+  }
+  
+  /**
+   * Save a dealt hand so a resumed run shows the same cards
+   */
+  saveCards(cards: CardOption[]): SavedCard[]
+  {
+    return cards.map(card => ({ id: card.powerUp.id, level: card.powerUp.level, isEvolution: !!card.isEvolution }));
+  }
+  
+  /**
+   * Rebuild a saved hand without drawing random numbers (call after the build is re-applied)
+   * Cards that no longer match the build are dropped
+   */
+  restoreCards(saved: SavedCard[]): CardOption[]
+  {
+    const pool = [...this.allPowers, ...this.allPassives, ...this.allWeapons, ...this.getAvailableEvolutions()];
+    const cards: CardOption[] = [];
+    
+    for (const card of saved)
+    {
+      const powerUp = pool.find(p => p.id === card.id);
+      
+      if (!powerUp || powerUp.level !== card.level || this.banished.has(card.id))
+      {
+        console.warn(`[PowerManager] Saved card no longer available: ${card.id}`);
+        continue;
+      }
+      
+      cards.push(card.isEvolution
+        ? { powerUp, isNew: true, isEvolution: true }
+        : { powerUp, isNew: !this.ownedPowerUps.has(card.id) });
+    }
+    
+    return cards;
+  }
+  
+  /**
+   * Spend a reroll: a new hand of cards (null if none left)
+   */
+  reroll(): CardOption[] | null
+  {
+    if (!this.spendCharge('reroll'))
+    {
+      return null;
+    }
+    
+    return this.generateLevelUpCards();
+  }
+  
+  /**
+   * Spend a banish: the power-up is never dealt again this run, then a new hand (null if none left)
+   */
+  banish(powerUpId: string): CardOption[] | null
+  {
+    if (this.banished.has(powerUpId) || !this.spendCharge('banish'))
+    {
+      return null;
+    }
+    
+    this.banished.add(powerUpId);
+    console.log(`[PowerManager] Banished: ${powerUpId}`);
+    
+    return this.generateLevelUpCards();
+  }
+  
+  /**
+   * Spend a skip: a small heal and some XP instead of a card (false if none left)
+   * The XP can trigger another level-up
+   */
+  skip(): boolean
+  {
+    if (!this.spendCharge('skip'))
+    {
+      return false;
+    }
+    
+    this.player.heal(Math.round(this.player.getMaxHealth() * SKIP_HEAL_FRACTION));
+    this.player.addXP(Math.ceil(this.player.getXPNeeded() * SKIP_XP_FRACTION));
+    
+    return true;
+  }
+  
+  /**
+   * Open a reward chest: level up owned power-ups (an available evolution comes first)
+   * Returns the upgrades in order, fewer than the chest holds (or none) when the build is maxed
+   */
+  openChest(type: ChestType): ChestRewardOption[]
+  {
+    const { count, rarityWeights } = CHEST_REWARDS[type];
+    const rewards: ChestRewardOption[] = [];
+    
+    const evolution = this.getAvailableEvolutions()[0];
+    if (evolution && this.addPowerUp(evolution.id))
+    {
+      rewards.push({ powerUp: evolution, level: evolution.level, isEvolution: true });
+    }
+    
+    while (rewards.length < count)
+    {
+      const options = this.getAllOwnedPowerUps()
+        .filter(p => p.canLevelUp() && !this.banished.has(p.id))
+        .map(p => ({ powerUp: p, weight: rarityWeights[p.rarity] }));
+      
+      const choice = this.weightedRandomChoice(options);
+      if (!choice || !this.addPowerUp(choice.item.powerUp.id))
+      {
+        break;
+      }
+      
+      rewards.push({ powerUp: choice.item.powerUp, level: choice.item.powerUp.level });
+    }
+    
+    console.log(`[PowerManager] Opened ${type} chest: ${rewards.map(r => r.powerUp.name).join(', ') || 'nothing to upgrade'}`);
+    return rewards;
+  }
+  
+  private spendCharge(action: LevelUpAction): boolean
+  {
+    if (this.charges[action] <= 0)
+    {
+      console.warn(`[PowerManager] No ${action} left`);
+      return false;
+    }
+    
+    this.charges[action]--;
+    return true;
+  }
+  
   /**
    * Weighted random selection
    */
@@ -345,7 +639,7 @@ export class PowerManager
     if (options.length === 0) return null;
 
     const totalWeight = options.reduce((sum, opt) => sum + opt.weight, 0);
-    let random = Math.random() * totalWeight;
+    let random = this.random.next() * totalWeight;
 
     for (let i = 0; i < options.length; i++)
     {
@@ -401,6 +695,14 @@ export class PowerManager
     return Array.from(this.ownedPowerUps.values());
   }
   
+  /**
+   * Get every power-up pick in the order it was made
+   */
+  getHistory(): string[]
+  {
+    return [...this.history];
+  }
+  
   /**
    * Check if player has a specific power-up
    */
@@ -423,6 +725,7 @@ export class PowerManager
     lines.push(`Armor: ${this.player.stats.armor}`);
     lines.push(`Projectile Count: ${this.player.stats.projectileCount}`);
     lines.push(`Pierce: ${this.player.stats.pierce}`);
+    lines.push(`Crit: ${(this.player.stats.critChance * 100).toFixed(0)}% for ${this.player.stats.critMultiplier.toFixed(2)}x`);
     
     lines.push('\n=== OWNED POWER-UPS ===');
     for (const powerUp of this.ownedPowerUps.values())
@@ -439,12 +742,15 @@ export class PowerManager
   reset(): void
   {
     this.ownedPowerUps.clear();
+    this.history = [];
+    this.charges = { ...STARTING_CHARGES };
+    this.banished.clear();
     this.player.powers = [];
     this.player.activeWeapon = undefined;
     this.initializePlayerStats();
     
     // Reset all power-up levels
-    for (const power of [...this.allPowers, ...this.allPassives, ...this.allWeapons])
+    for (const power of [...this.allPowers, ...this.allPassives, ...this.allWeapons, ...WEAPON_EVOLUTIONS.map(r => r.evolved)])
     {
       power.level = 0;
     }
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { SpatialHash } from './SpatialHash';
+
+interface Point
+{
+  id: string;
+  x: number;
+  y: number;
+}
+
+function createHash(points: Point[]): SpatialHash<Point>
+{
+  const hash = new SpatialHash<Point>({ cellSize: 100, getPosition: point => point });
+  hash.rebuild(points);
+  return hash;
+}
+
+const ids = (points: Point[]) => points.map(point => point.id).sort();
+
+describe('SpatialHash', () =>
+{
+  const points: Point[] = [
+    { id: 'a', x: 10, y: 10 },
+    { id: 'b', x: 150, y: 20 },
+    { id: 'c', x: -250, y: -40 },
+    { id: 'd', x: 900, y: 900 }
+  ];
+
+  it('returns items in the cells a range touches', () =>
+  {
+    const hash = createHash(points);
+
+    expect(ids(hash.query(50, 50, 60))).toEqual(['a', 'b']);
+    expect(ids(hash.query(-240, -30, 10))).toEqual(['c']);
+    expect(hash.query(500, 500, 10)).toEqual([]);
+  });
+
+  it('widens queries by the largest inserted radius', () =>
+  {
+    const hash = createHash([]);
+    hash.insert({ id: 'small', x: 0, y: 0 }, 5);
+    hash.insert({ id: 'boss', x: 450, y: 0 }, 120);
+
+    // The boss center is 3 cells away but its body reaches the queried area
+    expect(ids(hash.query(320, 0, 10))).toEqual(['boss']);
+  });
+
+  it('finds the nearest items, nearest first', () =>
+  {
+    const hash = createHash(points);
+
+    expect(hash.nearest(0, 0, 2).map(point => point.id)).toEqual(['a', 'b']);
+    expect(hash.nearest(800, 800, 1).map(point => point.id)).toEqual(['d']);
+    expect(hash.nearest(0, 0, 10)).toHaveLength(4);
+    expect(hash.nearest(0, 0, 1, point => point.id !== 'a').map(point => point.id)).toEqual(['b']);
+  });
+
+  it('empties on rebuild', () =>
+  {
+    const hash = createHash(points);
+    hash.rebuild([{ id: 'e', x: 10, y: 10 }]);
+
+    expect(ids(hash.query(10, 10, 5))).toEqual(['e']);
+    expect(hash.size()).toBe(1);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * SpatialHash.ts - Uniform grid broadphase for range queries
+ * Rebuilt every frame; queries return the items in nearby cells and callers do the exact checks
+ */
+
+export interface SpatialHashConfig<T>
+{
+  cellSize: number;
+  getPosition: (item: T) => { x: number; y: number };
+  padding?: number; // Extra query range for movement since the last rebuild
+}
+
+// Cell coordinates are packed into one number key (supports +-32768 cells per axis)
+const CELL_OFFSET = 32768;
+const CELL_STRIDE = 65536;
+
+export class SpatialHash<T>
+{
+  private cellSize: number;
+  private padding: number;
+  private getPosition: (item: T) => { x: number; y: number };
+
+  // Buckets are kept between rebuilds so a frame doesn't allocate new arrays
+  private cells: Map<number, T[]> = new Map();
+  private itemCount: number = 0;
+  private maxRadius: number = 0;
+
+  // Occupied cell range (clamps large queries)
+  private minCellX: number = 0;
+  private maxCellX: number = -1;
+  private minCellY: number = 0;
+  private maxCellY: number = -1;
+
+  constructor(config: SpatialHashConfig<T>)
+  {
+    this.cellSize = config.cellSize;
+    this.padding = config.padding ?? 0;
+    this.getPosition = config.getPosition;
+  }
+
+  /**
+   * Replace the contents with a new set of items
+   * getRadius gives each item's size, so queries still find items overlapping the range
+   */
+  rebuild(items: Iterable<T>, getRadius?: (item: T) => number): void
+  {
+    this.clear();
+
+    for (const item of items)
+    {
+      this.insert(item, getRadius ? getRadius(item) : 0);
+    }
+  }
+
+  /**
+   * Remove every item
+   */
+  clear(): void
+  {
+    for (const bucket of this.cells.values())
+    {
+      bucket.length = 0;
+    }
+
+    this.itemCount = 0;
+    this.maxRadius = 0;
+    this.minCellX = 0;
+    this.maxCellX = -1;
+    this.minCellY = 0;
+    this.maxCellY = -1;
+  }
+
+  /**
+   * Add an item at its current position
+   */
+  insert(item: T, radius: number = 0): void
+  {
+    const position = this.getPosition(item);
+    const cellX = this.toCell(position.x);
+    const cellY = this.toCell(position.y);
+    const key = this.toKey(cellX, cellY);
+
+    let bucket = this.cells.get(key);
+    if (!bucket)
+    {
+      bucket = [];
+      this.cells.set(key, bucket);
+    }
+    bucket.push(item);
+
+    if (this.itemCount === 0)
+    {
+      this.minCellX = this.maxCellX = cellX;
+      this.minCellY = this.maxCellY = cellY;
+    }
+    else
+    {
+      this.minCellX = Math.min(this.minCellX, cellX);
+      this.maxCellX = Math.max(this.maxCellX, cellX);
+      this.minCellY = Math.min(this.minCellY, cellY);
+      this.maxCellY = Math.max(this.maxCellY, cellY);
+    }
+
+    this.itemCount++;
+    this.maxRadius = Math.max(this.maxRadius, radius);
+  }
+
+  /**
+   * Items that may be within range of a point (a superset: check exact distances yourself)
+   */
+  query(x: number, y: number, range: number): T[]
+  {
+    const results: T[] = [];
+
+    if (this.itemCount === 0)
+    {
+      return results;
+    }
+
+    const reach = range + this.maxRadius + this.padding;
+    const fromX = Math.max(this.minCellX, this.toCell(x - reach));
+    const toX = Math.min(this.maxCellX, this.toCell(x + reach));
+    const fromY = Math.max(this.minCellY, this.toCell(y - reach));
+    const toY = Math.min(this.maxCellY, this.toCell(y + reach));
+
+    for (let cellX = fromX; cellX <= toX; cellX++)
+    {
+      for (let cellY = fromY; cellY <= toY; cellY++)
+      {
+        const bucket = this.cells.get(this.toKey(cellX, cellY));
+        if (bucket)
+        {
+          for (const item of bucket)
+          {
+            results.push(item);
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * The count items closest to a point, nearest first
+   * Searches a growing range until enough items are found or the whole grid is covered
+   */
+  nearest(x: number, y: number, count: number, filter?: (item: T) => boolean): T[]
+  {
+    if (count <= 0 || this.itemCount === 0)
+    {
+      return [];
+    }
+
+    for (let range = this.cellSize; ; range *= 2)
+    {
+      const candidates: Array<{ item: T; distance: number }> = [];
+      let withinRange = 0;
+
+      for (const item of this.query(x, y, range))
+      {
+        if (filter && !filter(item))
+        {
+          continue;
+        }
+
+        const position = this.getPosition(item);
+        const distance = Math.hypot(position.x - x, position.y - y);
+        candidates.push({ item, distance });
+
+        if (distance <= range)
+        {
+          withinRange++;
+        }
+      }
+
+      // Every item closer than range was found, so enough of them settles the nearest ones
+      if (withinRange >= count || this.coversGrid(x, y, range))
+      {
+        candidates.sort((a, b) => a.distance - b.distance);
+        return candidates.slice(0, count).map(candidate => candidate.item);
+      }
+    }
+  }
+
+  /**
+   * Number of items inserted since the last rebuild
+   */
+  size(): number
+  {
+    return this.itemCount;
+  }
+
+  private coversGrid(x: number, y: number, range: number): boolean
+  {
+    return this.toCell(x - range) <= this.minCellX &&
+      this.toCell(x + range) >= this.maxCellX &&
+      this.toCell(y - range) <= this.minCellY &&
+      this.toCell(y + range) >= this.maxCellY;
+  }
+
+  private toCell(value: number): number
+  {
+    return Math.floor(value / this.cellSize);
+  }
+
+  private toKey(cellX: number, cellY: number): number
+  {
+    return (cellX + CELL_OFFSET) * CELL_STRIDE + (cellY + CELL_OFFSET);
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { StatusEffectSet, getOnHitEffects } from './StatusEffects';
+
+describe('StatusEffectSet', () =>
+{
+  it('ticks damage per stack while the effect lasts', () =>
+  {
+    const effects = new StatusEffectSet();
+    effects.apply({ type: 'burn', duration: 2, damagePerTick: 3 });
+
+    // Burn ticks every 0.5s: 4 ticks over its 2s, none after
+    expect(effects.update(1)).toBe(6);
+    expect(effects.update(1)).toBe(6);
+    expect(effects.update(1)).toBe(0);
+    expect(effects.has('burn')).toBe(false);
+  });
+
+  it('adds stacks up to the cap and restarts the duration', () =>
+  {
+    const effects = new StatusEffectSet();
+
+    for (let i = 0; i < 7; i++)
+    {
+      effects.apply({ type: 'burn', duration: 2, damagePerTick: 1 });
+    }
+    expect(effects.getStacks('burn')).toBe(5);
+
+    effects.update(1.5);
+    effects.apply({ type: 'burn', duration: 2, damagePerTick: 1 });
+    effects.update(1.5);
+    expect(effects.has('burn')).toBe(true);
+  });
+
+  it('refreshes non-stacking effects to the longer duration', () =>
+  {
+    const effects = new StatusEffectSet();
+    effects.apply({ type: 'slow', duration: 2 });
+    effects.apply({ type: 'slow', duration: 0.5 });
+
+    expect(effects.getStacks('slow')).toBe(1);
+    effects.update(1);
+    expect(effects.has('slow')).toBe(true);
+    effects.update(1);
+    expect(effects.has('slow')).toBe(false);
+  });
+
+  it('combines movement and attack speed modifiers', () =>
+  {
+    const effects = new StatusEffectSet();
+    expect(effects.getMoveMultiplier()).toBe(1);
+
+    effects.apply({ type: 'slow', duration: 1 });
+    expect(effects.getMoveMultiplier()).toBeCloseTo(0.6);
+    expect(effects.getAttackSpeedMultiplier()).toBeCloseTo(0.75);
+    expect(effects.isStunned()).toBe(false);
+
+    effects.apply({ type: 'stun', duration: 1 });
+    expect(effects.getMoveMultiplier()).toBe(0);
+    expect(effects.isStunned()).toBe(true);
+  });
+
+  it('tints for the highest priority effect', () =>
+  {
+    const effects = new StatusEffectSet();
+    expect(effects.getTint()).toBeNull();
+
+    effects.apply({ type: 'slow', duration: 1 });
+    const slowTint = effects.getTint();
+    effects.apply({ type: 'freeze', duration: 1 });
+
+    expect(effects.getTint()).not.toBe(slowTint);
+    effects.clear();
+    expect(effects.getTint()).toBeNull();
+  });
+
+  it('looks up on-hit effects declared by weapons and powers', () =>
+  {
+    expect(getOnHitEffects('explosion').map(e => e.type)).toEqual(['burn']);
+    expect(getOnHitEffects('sword')).toEqual([]);
+    expect(getOnHitEffects('unknown')).toEqual([]);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * StatusEffects.ts - Active status effects on one entity
+ * Durations, stacking, tick damage and the movement/attack modifiers they add up to
+ */
+
+import { OnHitEffect, STATUS_EFFECTS, StatusEffectDefinition, StatusEffectType, getStatusEffectDefinition } from '../configs/StatusEffects';
+import { ALL_WEAPONS, WEAPON_EVOLUTIONS } from '../configs/Weapons';
+import { ALL_POWERS } from '../configs/Power';
+
+interface ActiveStatusEffect
+{
+  definition: StatusEffectDefinition;
+  remaining: number; // Seconds left
+  stacks: number;
+  damagePerTick: number; // Per stack (strongest application wins)
+  tickTimer: number; // Seconds until the next tick
+}
+
+// On-hit effects declared by weapons and powers, by source id
+const ON_HIT_EFFECTS = new Map<string, OnHitEffect[]>(
+  [...ALL_WEAPONS, ...WEAPON_EVOLUTIONS.map(recipe => recipe.evolved), ...ALL_POWERS].map(powerUp => [powerUp.id, powerUp.onHitEffects])
+);
+
+/**
+ * On-hit effects of the weapon/power that dealt a hit (empty if it has none)
+ */
+export function getOnHitEffects(sourceId: string): OnHitEffect[]
+{
+  return ON_HIT_EFFECTS.get(sourceId) ?? [];
+}
+
+export class StatusEffectSet
+{
+  private active: Map<StatusEffectType, ActiveStatusEffect> = new Map();
+
+  /**
+   * Apply an effect (re-applying follows the effect's stacking rule)
+   */
+  apply(effect: OnHitEffect): void
+  {
+    const definition = getStatusEffectDefinition(effect.type);
+    const current = this.active.get(effect.type);
+
+    if (!current)
+    {
+      this.active.set(effect.type, {
+        definition,
+        remaining: effect.duration,
+        stacks: 1,
+        damagePerTick: effect.damagePerTick ?? 0,
+        tickTimer: definition.tickInterval
+      });
+      return;
+    }
+
+    current.damagePerTick = Math.max(current.damagePerTick, effect.damagePerTick ?? 0);
+
+    if (definition.stacking === 'stack')
+    {
+      current.stacks = Math.min(definition.maxStacks, current.stacks + 1);
+      current.remaining = effect.duration;
+    }
+    else
+    {
+      current.remaining = Math.max(current.remaining, effect.duration);
+    }
+  }
+
+  /**
+   * Advance durations and ticks
+   * Returns the tick damage dealt this frame
+   */
+  update(delta: number): number
+  {
+    let damage = 0;
+
+    for (const [type, effect] of this.active)
+    {
+      // Ticks only count while the effect lasts
+      const elapsed = Math.min(delta, effect.remaining);
+
+      if (effect.definition.tickInterval > 0 && effect.damagePerTick > 0)
+      {
+        effect.tickTimer -= elapsed;
+
+        while (effect.tickTimer <= 0)
+        {
+          damage += effect.damagePerTick * effect.stacks;
+          effect.tickTimer += effect.definition.tickInterval;
+        }
+      }
+
+      effect.remaining -= delta;
+      if (effect.remaining <= 0)
+      {
+        this.active.delete(type);
+      }
+    }
+
+    return damage;
+  }
+
+  /**
+   * Check if an effect is active
+   */
+  has(type: StatusEffectType): boolean
+  {
+    return this.active.has(type);
+  }
+
+  /**
+   * Stacks of an effect (0 if inactive)
+   */
+  getStacks(type: StatusEffectType): number
+  {
+    return this.active.get(type)?.stacks ?? 0;
+  }
+
+  /**
+   * Combined movement multiplier of every active effect
+   */
+  getMoveMultiplier(): number
+  {
+    let multiplier = 1;
+    for (const effect of this.active.values())
+    {
+      multiplier *= effect.definition.moveMultiplier;
+    }
+    return multiplier;
+  }
+
+  /**
+   * Combined attack speed multiplier of every active effect
+   */
+  getAttackSpeedMultiplier(): number
+  {
+    let multiplier = 1;
+    for (const effect of this.active.values())
+    {
+      multiplier *= effect.definition.attackSpeedMultiplier;
+    }
+    return multiplier;
+  }
+
+  /**
+   * Check if the entity can't act at all (freeze, stun)
+   */
+  isStunned(): boolean
+  {
+    for (const effect of this.active.values())
+    {
+      if (effect.definition.stuns)
+      {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Tint of the highest priority active effect (null when none is active)
+   */
+  getTint(): number | null
+  {
+    const shown = STATUS_EFFECTS.find(definition => this.active.has(definition.type));
+    return shown ? shown.tint : null;
+  }
+
+  /**
+   * Remove every effect
+   */
+  clear(): void
+  {
+    this.active.clear();
+  }
+}
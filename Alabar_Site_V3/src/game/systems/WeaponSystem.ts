@@ -7,15 +7,45 @@ import { AssetManager } from '../../managers/AssetManager';
 import { Projectile, ProjectileConfig } from '../entities/Projectile';
 import { MonsterBase } from '../entities/monsters/MonsterBase';
 import { OrbitalWeaponProjectile } from '../entities/OrbitalWeaponProjectile';
+import { getOnHitEffects } from './StatusEffects';
+import { ObjectPool } from '../../utils/ObjectPool';
+import { SpatialHash } from './SpatialHash';
+
+/**
+ * Called whenever player weapons/powers damage a monster
+ */
+export type DamageListener = (sourceId: string, damage: number, target: MonsterBase) => void;
+
+/**
+ * Called whenever a weapon projectile is thrown
+ */
+export type FireListener = (sourceId: string, x: number, y: number) => void;
+
+/**
+ * Rolls a critical hit on the base damage of one hit (the player's crit stats)
+ */
+export type CriticalRoll = (damage: number) => { damage: number; critical: boolean };
 
 export class WeaponSystem
 {
   private assetManager: AssetManager;
   private projectileContainer: Container;
   private projectiles: Projectile[] = [];
+  private projectilePool: ObjectPool<Projectile>;
   
   // Orbital weapons (Shuriken)
   private orbitalWeapons: OrbitalWeaponProjectile[] = [];
+  private orbitalSourceId: string = 'shuriken';
+  
+  // Damage tracking (optional)
+  private damageListener: DamageListener | null = null;
+  private fireListener: FireListener | null = null;
+  
+  // Critical hits (none until the player is connected)
+  private rollCritical: CriticalRoll | null = null;
+  
+  // Broadphase (without one, every hit check loops all monsters)
+  private spatialIndex: SpatialHash<MonsterBase> | null = null;
   
   private readonly PROJECTILE_RADIUS = 20;
   private readonly MONSTER_RADIUS = 30;
@@ -25,6 +55,44 @@ export class WeaponSystem
   {
     this.assetManager = assetManager;
     this.projectileContainer = projectileContainer;
+    
+    this.projectilePool = new ObjectPool<Projectile>({
+      name: 'player-projectiles',
+      create: () => new Projectile(this.assetManager),
+      dispose: (projectile) => projectile.destroy()
+    });
+  }
+  
+  /**
+   * Set listener notified of every hit (used by stats/simulation)
+   */
+  setDamageListener(listener: DamageListener | null): void
+  {
+    this.damageListener = listener;
+  }
+  
+  /**
+   * Set listener notified of every weapon throw (used by audio)
+   */
+  setFireListener(listener: FireListener | null): void
+  {
+    this.fireListener = listener;
+  }
+  
+  /**
+   * Set how hits roll for critical damage
+   */
+  setCriticalRoll(roll: CriticalRoll | null): void
+  {
+    this.rollCritical = roll;
+  }
+  
+  /**
+   * Set the spatial index of the monsters passed to update (rebuilt by the game each frame)
+   */
+  setSpatialIndex(index: SpatialHash<MonsterBase> | null): void
+  {
+    this.spatialIndex = index;
   }
   
   /**
@@ -32,7 +100,11 @@ export class WeaponSystem
    */
   spawnProjectile(config: ProjectileConfig): void
   {
-    const projectile = new Projectile(this.assetManager, config);
+    // Carry the on-hit effects the weapon/power declares
+    config.statusEffects ??= getOnHitEffects(config.sourceId ?? 'unknown');
+    
+    const projectile = this.projectilePool.acquire();
+    projectile.reset(config);
     
     this.projectiles.push(projectile);
     this.projectileContainer.addChild(projectile);
@@ -45,6 +117,11 @@ export class WeaponSystem
   {
     config.isWeapon = true;
     this.spawnProjectile(config);
+    
+    if (this.fireListener)
+    {
+      this.fireListener(config.sourceId ?? 'unknown', config.startX, config.startY);
+    }
   }
   
   /**
@@ -87,12 +164,22 @@ export class WeaponSystem
       
       orbital.update(delta);
       
-      // Check collision with all monsters
-      for (const monster of monsters)
+      // Check collision with nearby monsters
+      for (const monster of this.getNearbyMonsters(monsters, orbital.x, orbital.y, this.ORBITAL_COLLISION_RADIUS))
       {
         if (monster.isDead()) continue;
         
-        orbital.checkCollision(monster, this.ORBITAL_COLLISION_RADIUS);
+        const dealt = orbital.checkCollision(monster, this.ORBITAL_COLLISION_RADIUS, this.rollCritical);
+        
+        if (dealt > 0)
+        {
+          monster.applyStatusEffects(getOnHitEffects(this.orbitalSourceId));
+        }
+        
+        if (dealt > 0 && this.damageListener)
+        {
+          this.damageListener(this.orbitalSourceId, dealt, monster);
+        }
       }
       
       // Cleanup dead monsters from orbital's cooldown tracking
@@ -107,7 +194,7 @@ export class WeaponSystem
   {
     const projPos = projectile.getPosition();
     
-    for (const monster of monsters)
+    for (const monster of this.getNearbyMonsters(monsters, projPos.x, projPos.y, this.PROJECTILE_RADIUS + this.MONSTER_RADIUS))
     {
       if (monster.isDead()) continue;
       
@@ -122,9 +209,25 @@ export class WeaponSystem
         this.MONSTER_RADIUS
       ))
       {
+        // Reflecting elites send the projectile back at the player
+        if (monster.reflectProjectile())
+        {
+          this.removeProjectile(projectileIndex);
+          return;
+        }
+        
         // Deal damage to monster
-        const damage = projectile.getDamage();
-        monster.takeDamage(damage);
+        const hit = this.rollCritical
+          ? this.rollCritical(projectile.getDamage())
+          : { damage: projectile.getDamage(), critical: false };
+        const damage = hit.damage;
+        monster.takeDamage(damage, hit.critical);
+        monster.applyStatusEffects(projectile.getStatusEffects());
+        
+        if (this.damageListener)
+        {
+          this.damageListener(projectile.getSourceId(), damage, monster);
+        }
         
         console.log(`[WeaponSystem] Projectile hit monster for ${damage} damage`);
         
@@ -140,6 +243,14 @@ export class WeaponSystem
     }
   }
   
+  /**
+   * Monsters that may be within range of a point (all of them without a spatial index)
+   */
+  private getNearbyMonsters(monsters: MonsterBase[], x: number, y: number, range: number): MonsterBase[]
+  {
+    return this.spatialIndex ? this.spatialIndex.query(x, y, range) : monsters;
+  }
+  
   /**
    * Circle collision detection
    */
@@ -165,7 +276,8 @@ export class WeaponSystem
     if (projectile)
     {
       this.projectileContainer.removeChild(projectile);
-      projectile.destroy();
+      projectile.deactivate();
+      this.projectilePool.release(projectile);
       this.projectiles.splice(index, 1);
     }
   }
@@ -181,11 +293,14 @@ export class WeaponSystem
     orbitRadius: number,
     orbitSpeed: number,
     damage: number,
-    scale: number
+    scale: number,
+    sourceId: string = 'shuriken',
+    orbitPulse: number = 0
   ): void
   {
     // Clear existing orbitals first
     this.clearOrbitalWeapons();
+    this.orbitalSourceId = sourceId;
     
     // Spawn new orbitals evenly spaced around circle
     const angleStep = (Math.PI * 2) / count;
@@ -202,7 +317,8 @@ export class WeaponSystem
         orbitRadius,
         orbitSpeed,
         damage,
-        scale
+        scale,
+        orbitPulse
       );
       
       this.orbitalWeapons.push(orbital);
@@ -261,7 +377,8 @@ export class WeaponSystem
       if (projectile)
       {
         this.projectileContainer.removeChild(projectile);
-        projectile.destroy();
+        projectile.deactivate();
+        this.projectilePool.release(projectile);
       }
     }
     
@@ -273,6 +390,15 @@ export class WeaponSystem
     console.log('[WeaponSystem] Cleared all projectiles and orbitals');
   }
   
+  /**
+   * Clear everything and free pooled projectiles (system is done)
+   */
+  destroy(): void
+  {
+    this.clearAll();
+    this.projectilePool.destroy();
+  }
+  
   /**
    * Get active projectile count
    */
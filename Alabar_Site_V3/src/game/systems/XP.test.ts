@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { XPManager } from './XP';
+
+describe('XPManager', () =>
+{
+  it('follows floor(5 + level * 3 + level^1.7)', () =>
+  {
+    const xp = new XPManager();
+    const curve = xp.previewXPCurve(1, 5);
+
+    expect(curve.map(entry => entry.xpNeeded)).toEqual([9, 14, 20, 27, 35]);
+    expect(xp.getXPNeeded()).toBe(9);
+  });
+
+  it('levels up once and keeps the leftover XP', () =>
+  {
+    const levels: number[] = [];
+    const xp = new XPManager({ onLevelUp: (level) => levels.push(level) });
+
+    xp.addXP(12);
+
+    expect(xp.getLevel()).toBe(2);
+    expect(xp.getCurrentXP()).toBe(3);
+    expect(xp.getXPNeeded()).toBe(14);
+    expect(levels).toEqual([2]);
+  });
+
+  it('levels up several times from one large gain', () =>
+  {
+    const levels: number[] = [];
+    const xp = new XPManager({ onLevelUp: (level) => levels.push(level) });
+
+    // 9 + 14 + 20 = 43 reaches level 4 exactly
+    xp.addXP(45);
+
+    expect(levels).toEqual([2, 3, 4]);
+    expect(xp.getLevel()).toBe(4);
+    expect(xp.getCurrentXP()).toBe(2);
+  });
+
+  it('ignores zero and negative XP', () =>
+  {
+    const xp = new XPManager();
+
+    xp.addXP(0);
+    xp.addXP(-5);
+
+    expect(xp.getCurrentXP()).toBe(0);
+    expect(xp.getLevel()).toBe(1);
+  });
+
+  it('starts from and resets to a given level', () =>
+  {
+    const xp = new XPManager({ startingLevel: 3, startingXP: 5 });
+
+    expect(xp.getXPNeeded()).toBe(20);
+    expect(xp.getXPProgress()).toBeCloseTo(0.25);
+
+    xp.reset();
+
+    expect(xp.getLevel()).toBe(1);
+    expect(xp.getCurrentXP()).toBe(0);
+    expect(xp.getXPNeeded()).toBe(9);
+  });
+});
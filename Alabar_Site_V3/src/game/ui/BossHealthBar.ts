@@ -0,0 +1,140 @@
+/**
+ * BossHealthBar.ts - Top-of-screen boss health bar
+ * Shows the boss name, its remaining HP and a marker at every phase threshold
+ */
+
+import { Container, Graphics, Text, TextStyle } from 'pixi.js';
+
+export class BossHealthBar extends Container
+{
+  private nameText: Text;
+  private frame: Graphics;
+  private fill: Graphics;
+  private markers: Graphics;
+
+  private barWidth: number = 480;
+  private readonly BAR_HEIGHT = 16;
+
+  // Last drawn state (redraw only on change)
+  private shownName: string = '';
+  private shownPercentage: number = -1;
+  private thresholds: number[] = [];
+
+  constructor()
+  {
+    super();
+
+    this.visible = false;
+    this.zIndex = 10000; // HUD layer, with the timer
+
+    this.nameText = new Text({
+      text: '',
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 18,
+        fontWeight: 'bold',
+        fill: '#FF6666',
+        stroke: { color: '#000000', width: 4 }
+      })
+    });
+    this.nameText.anchor.set(0.5, 1);
+    this.nameText.position.set(0, -4);
+    this.addChild(this.nameText);
+
+    this.frame = new Graphics();
+    this.addChild(this.frame);
+
+    this.fill = new Graphics();
+    this.addChild(this.fill);
+
+    this.markers = new Graphics();
+    this.addChild(this.markers);
+  }
+
+  /**
+   * Show a boss (thresholds are the phase HP fractions below 1)
+   */
+  show(name: string, healthPercentage: number, thresholds: number[], phase: number): void
+  {
+    const label = phase > 0 ? `${name} - Phase ${phase + 1}` : name;
+
+    if (label !== this.shownName || thresholds.join() !== this.thresholds.join())
+    {
+      this.shownName = label;
+      this.nameText.text = label;
+      this.thresholds = [...thresholds];
+      this.drawFrame();
+    }
+
+    const percentage = Math.max(0, Math.min(1, healthPercentage));
+    if (percentage !== this.shownPercentage)
+    {
+      this.shownPercentage = percentage;
+      this.drawFill();
+    }
+
+    this.visible = true;
+  }
+
+  /**
+   * Hide bar (no boss alive)
+   */
+  hide(): void
+  {
+    this.visible = false;
+  }
+
+  /**
+   * Frame and phase markers
+   */
+  private drawFrame(): void
+  {
+    const left = -this.barWidth / 2;
+
+    this.frame.clear();
+    this.frame.rect(left - 3, -3, this.barWidth + 6, this.BAR_HEIGHT + 6);
+    this.frame.fill({ color: 0x1a1a2e, alpha: 0.9 });
+    this.frame.stroke({ color: 0xffcc33, width: 2 });
+
+    this.markers.clear();
+    for (const threshold of this.thresholds)
+    {
+      const x = left + this.barWidth * threshold;
+      this.markers.rect(x - 1, 0, 2, this.BAR_HEIGHT);
+      this.markers.fill({ color: 0xffffff, alpha: 0.8 });
+    }
+  }
+
+  /**
+   * Remaining HP
+   */
+  private drawFill(): void
+  {
+    this.fill.clear();
+
+    if (this.shownPercentage > 0)
+    {
+      this.fill.rect(-this.barWidth / 2, 0, this.barWidth * this.shownPercentage, this.BAR_HEIGHT);
+      this.fill.fill({ color: 0xcc2222 });
+    }
+  }
+
+  /**
+   * Center under the timer and fit the bar to the screen width
+   */
+  resize(width: number): void
+  {
+    this.position.set(width / 2, 76);
+    this.barWidth = Math.min(480, width - 40);
+    this.drawFrame();
+    this.drawFill();
+  }
+
+  /**
+   * Cleanup
+   */
+  destroy(options?: any): void
+  {
+    super.destroy({ children: true, ...options });
+  }
+}
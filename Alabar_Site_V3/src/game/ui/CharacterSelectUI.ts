@@ -0,0 +1,320 @@
+/**
+ * CharacterSelectUI.ts - Pick the playable character before the starter chest appears
+ * One card per character with sprite, base stats, starting weapon and passive
+ */
+
+import { AnimatedSprite, Container, Graphics, Text, TextStyle } from 'pixi.js';
+import { AssetManager } from '../../managers/AssetManager';
+import { CharacterDefinition } from '../configs/Characters';
+import { ALL_WEAPONS } from '../configs/Weapons';
+
+export interface CharacterSelectConfig
+{
+  onSelect: (character: CharacterDefinition) => void;
+}
+
+/**
+ * A character as offered on the select screen
+ */
+export interface CharacterOption
+{
+  character: CharacterDefinition;
+  locked: boolean; // Starting weapon not bought in the shop yet
+}
+
+interface CharacterCard
+{
+  container: Container;
+  frame: Graphics;
+  option: CharacterOption;
+}
+
+export class CharacterSelectUI extends Container
+{
+  private assetManager: AssetManager;
+  private onSelect: (character: CharacterDefinition) => void;
+
+  private background: Graphics;
+  private frameContainer: Container; // Panel contents, centered and scaled to fit
+  private panel: Graphics;
+  private titleText: Text;
+  private cards: CharacterCard[] = [];
+  private focusedIndex: number = 0;
+
+  private readonly CARD_WIDTH = 200;
+  private readonly CARD_HEIGHT = 290;
+  private readonly CARD_GAP = 20;
+  private readonly PANEL_HEIGHT = 400;
+
+  constructor(assetManager: AssetManager, config: CharacterSelectConfig)
+  {
+    super();
+
+    this.assetManager = assetManager;
+    this.onSelect = config.onSelect;
+
+    this.visible = false;
+    this.zIndex = 15000; // Same layer as the pause menu
+
+    this.background = new Graphics();
+    this.background.eventMode = 'static'; // Block clicks to the game underneath
+    this.addChild(this.background);
+
+    this.frameContainer = new Container();
+    this.addChild(this.frameContainer);
+
+    this.panel = new Graphics();
+    this.frameContainer.addChild(this.panel);
+
+    this.titleText = new Text({
+      text: 'CHOOSE YOUR HERO',
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 36,
+        fontWeight: 'bold',
+        fill: '#FFCC33',
+        stroke: { color: '#000000', width: 4 }
+      })
+    });
+    this.titleText.anchor.set(0.5, 0.5);
+    this.titleText.position.set(0, -this.PANEL_HEIGHT / 2 + 36);
+    this.frameContainer.addChild(this.titleText);
+
+    console.log('[CharacterSelectUI] Initialized');
+  }
+
+  /**
+   * Show the roster (focus starts on the first unlocked character)
+   */
+  show(options: CharacterOption[]): void
+  {
+    this.clearCards();
+
+    const panelWidth = this.getPanelWidth(options.length);
+    this.panel.clear();
+    this.panel.rect(-panelWidth / 2, -this.PANEL_HEIGHT / 2, panelWidth, this.PANEL_HEIGHT);
+    this.panel.fill({ color: 0x1a1a2e });
+    this.panel.stroke({ color: 0xffcc33, width: 4 });
+
+    const startX = -((options.length - 1) * (this.CARD_WIDTH + this.CARD_GAP)) / 2;
+
+    options.forEach((option, index) => {
+      const card = this.createCard(option, index);
+      card.container.position.set(startX + index * (this.CARD_WIDTH + this.CARD_GAP), 24);
+      this.frameContainer.addChild(card.container);
+      this.cards.push(card);
+    });
+
+    this.focusedIndex = Math.max(0, options.findIndex(option => !option.locked));
+    this.drawCards();
+
+    this.visible = true;
+  }
+
+  /**
+   * Hide the select screen
+   */
+  hide(): void
+  {
+    this.visible = false;
+  }
+
+  /**
+   * Move keyboard/gamepad focus left/right
+   */
+  moveFocus(step: number): void
+  {
+    if (!this.visible || this.cards.length === 0)
+    {
+      return;
+    }
+
+    this.focusedIndex = Math.max(0, Math.min(this.cards.length - 1, this.focusedIndex + step));
+    this.drawCards();
+  }
+
+  /**
+   * Pick the focused character
+   */
+  confirmFocus(): void
+  {
+    this.selectCard(this.focusedIndex);
+  }
+
+  /**
+   * Pick a character by position (locked characters and out-of-range indexes are ignored)
+   */
+  selectCard(index: number): void
+  {
+    const card = this.cards[index];
+
+    if (!this.visible || !card || card.option.locked)
+    {
+      return;
+    }
+
+    console.log(`[CharacterSelectUI] Selected ${card.option.character.name}`);
+
+    this.hide();
+    this.onSelect(card.option.character);
+  }
+
+  /**
+   * Build one character card centered on 0,0
+   */
+  private createCard(option: CharacterOption, index: number): CharacterCard
+  {
+    const { character, locked } = option;
+    const container = new Container();
+    container.eventMode = 'static';
+    container.cursor = locked ? 'not-allowed' : 'pointer';
+
+    const frame = new Graphics();
+    container.addChild(frame);
+
+    const top = -this.CARD_HEIGHT / 2;
+
+    const frames = this.assetManager.getSpritesheet(character.spritesheetKey)?.animations[`${character.animationPrefix}_idle_down`];
+    if (frames && frames.length > 0)
+    {
+      const sprite = new AnimatedSprite(frames);
+      sprite.anchor.set(0.5, 0.5);
+      sprite.scale.set(1.5);
+      sprite.position.set(0, top + 52);
+      sprite.animationSpeed = 0.08;
+      sprite.play();
+      container.addChild(sprite);
+    }
+
+    const nameText = new Text({
+      text: character.name,
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 22,
+        fontWeight: 'bold',
+        fill: '#FFFFFF',
+        stroke: { color: '#000000', width: 3 }
+      })
+    });
+    nameText.anchor.set(0.5, 0.5);
+    nameText.position.set(0, top + 104);
+    container.addChild(nameText);
+
+    const titleText = new Text({
+      text: character.title,
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 13,
+        fontStyle: 'italic',
+        fill: '#CCCCCC'
+      })
+    });
+    titleText.anchor.set(0.5, 0.5);
+    titleText.position.set(0, top + 126);
+    container.addChild(titleText);
+
+    const weapon = ALL_WEAPONS.find(w => w.id === character.startingWeapon);
+    const statsText = new Text({
+      text: `HP ${character.health}   DMG ${character.damage}   SPD ${Math.round(character.moveSpeed * 100)}%\nWeapon: ${weapon?.name ?? character.startingWeapon}`,
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 13,
+        fill: '#FFFFFF',
+        align: 'center',
+        lineHeight: 18
+      })
+    });
+    statsText.anchor.set(0.5, 0);
+    statsText.position.set(0, top + 144);
+    container.addChild(statsText);
+
+    const passiveText = new Text({
+      text: locked
+        ? `LOCKED\nBuy the ${weapon?.name ?? character.startingWeapon} in the shop`
+        : `${character.passive.name}\n${character.passive.description}`,
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 13,
+        fontWeight: 'bold',
+        fill: locked ? '#FF6666' : '#FFCC33',
+        align: 'center',
+        lineHeight: 18,
+        wordWrap: true,
+        wordWrapWidth: this.CARD_WIDTH - 24
+      })
+    });
+    passiveText.anchor.set(0.5, 0);
+    passiveText.position.set(0, top + 196);
+    container.addChild(passiveText);
+
+    const keyText = new Text({
+      text: `[${index + 1}]`,
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 12,
+        fill: '#888888'
+      })
+    });
+    keyText.anchor.set(0.5, 0.5);
+    keyText.position.set(0, top + this.CARD_HEIGHT - 14);
+    container.addChild(keyText);
+
+    container.alpha = locked ? 0.5 : 1;
+
+    container.on('pointerover', () => {
+      this.focusedIndex = index;
+      this.drawCards();
+    });
+    container.on('pointerdown', () => this.selectCard(index));
+
+    return { container, frame, option };
+  }
+
+  /**
+   * Redraw card frames (focused card gets the gold border)
+   */
+  private drawCards(): void
+  {
+    this.cards.forEach((card, index) => {
+      const focused = index === this.focusedIndex;
+
+      card.frame.clear();
+      card.frame.roundRect(-this.CARD_WIDTH / 2, -this.CARD_HEIGHT / 2, this.CARD_WIDTH, this.CARD_HEIGHT, 8);
+      card.frame.fill({ color: focused ? 0x2a2a4e : 0x22223a });
+      card.frame.stroke({ color: focused ? 0xffcc33 : 0x555577, width: focused ? 4 : 2 });
+    });
+  }
+
+  /**
+   * Remove the cards of the previous show()
+   */
+  private clearCards(): void
+  {
+    for (const card of this.cards)
+    {
+      this.frameContainer.removeChild(card.container);
+      card.container.destroy({ children: true });
+    }
+    this.cards = [];
+  }
+
+  private getPanelWidth(cardCount: number): number
+  {
+    return cardCount * this.CARD_WIDTH + (cardCount + 1) * this.CARD_GAP;
+  }
+
+  /**
+   * Update positions based on screen size (panel scaled down on small screens)
+   */
+  resize(width: number, height: number): void
+  {
+    this.background.clear();
+    this.background.rect(0, 0, width, height);
+    this.background.fill({ color: 0x000000, alpha: 0.75 });
+
+    const panelWidth = this.getPanelWidth(Math.max(1, this.cards.length));
+    const scale = Math.min(1, (width - 20) / panelWidth, (height - 20) / this.PANEL_HEIGHT);
+    this.frameContainer.scale.set(scale);
+    this.frameContainer.position.set(width / 2, height / 2);
+  }
+}
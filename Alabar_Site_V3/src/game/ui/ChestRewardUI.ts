@@ -0,0 +1,333 @@
+/**
+ * ChestRewardUI.ts - Slot-machine reveal of the upgrades in a reward chest
+ * One reel per upgrade spins through the owned power-ups and stops on the reward, left to right
+ * Runs on game frame time and closes by itself, so replays reveal and resume on the same frames
+ */
+
+import { Container, Graphics, Sprite, Text, TextStyle, Texture } from 'pixi.js';
+import { AssetManager } from '../../managers/AssetManager';
+import { PowerUp } from '../configs/PowerUps';
+import { ChestRewardOption } from '../systems/PowerManager';
+import type { ChestType } from '../entities/Chest';
+
+export interface ChestRewardUIConfig
+{
+  onClose: () => void; // Reveal finished
+}
+
+interface Reel
+{
+  container: Container;
+  frame: Graphics;
+  icon: Sprite;
+  nameText: Text;
+  levelText: Text;
+  reward: ChestRewardOption;
+  stopAt: number; // Seconds after show()
+  stopped: boolean;
+}
+
+const CHEST_TITLES: Record<ChestType, { text: string; color: string; border: number }> = {
+  gray: { text: 'CHEST', color: '#DDDDDD', border: 0xaaaaaa },
+  gold: { text: 'GOLDEN CHEST', color: '#FFCC33', border: 0xffcc33 },
+  bone: { text: 'BONE CHEST', color: '#F2E6C9', border: 0xc9b48a }
+};
+
+export class ChestRewardUI extends Container
+{
+  private assetManager: AssetManager;
+  private onClose: () => void;
+
+  private background: Graphics;
+  private frameContainer: Container; // Panel contents, centered and scaled to fit
+  private panel: Graphics;
+  private titleText: Text;
+  private reels: Reel[] = [];
+  private pool: Texture[] = []; // Icons the reels spin through
+  private elapsed: number = 0;
+  private spinTimer: number = 0;
+  private spinIndex: number = 0;
+  private closeAt: number = 0;
+
+  private readonly REEL_WIDTH = 120;
+  private readonly REEL_HEIGHT = 160;
+  private readonly REEL_GAP = 16;
+  private readonly PANEL_HEIGHT = 280;
+  private readonly SPIN_TIME = 1.2; // Seconds before the first reel stops
+  private readonly STOP_STAGGER = 0.45; // Seconds between reel stops
+  private readonly SPIN_INTERVAL = 0.07; // Seconds per icon while spinning
+  private readonly HOLD_TIME = 1.8; // Seconds the result stays up after the last stop
+
+  constructor(assetManager: AssetManager, config: ChestRewardUIConfig)
+  {
+    super();
+
+    this.assetManager = assetManager;
+    this.onClose = config.onClose;
+
+    this.visible = false;
+    this.zIndex = 9000; // Under the level-up cards
+
+    this.background = new Graphics();
+    this.background.eventMode = 'static'; // Block clicks to the game underneath
+    this.addChild(this.background);
+
+    this.frameContainer = new Container();
+    this.addChild(this.frameContainer);
+
+    this.panel = new Graphics();
+    this.frameContainer.addChild(this.panel);
+
+    this.titleText = new Text({
+      text: '',
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 32,
+        fontWeight: 'bold',
+        fill: '#FFCC33',
+        stroke: { color: '#000000', width: 4 }
+      })
+    });
+    this.titleText.anchor.set(0.5, 0.5);
+    this.titleText.position.set(0, -this.PANEL_HEIGHT / 2 + 32);
+    this.frameContainer.addChild(this.titleText);
+
+    console.log('[ChestRewardUI] Initialized');
+  }
+
+  /**
+   * Start the reveal (pool = owned power-ups shown while the reels spin)
+   */
+  show(type: ChestType, rewards: ChestRewardOption[], pool: PowerUp[]): void
+  {
+    this.clearReels();
+
+    const title = CHEST_TITLES[type];
+    this.titleText.text = title.text;
+    this.titleText.style.fill = title.color;
+
+    const panelWidth = this.getPanelWidth(rewards.length);
+    this.panel.clear();
+    this.panel.rect(-panelWidth / 2, -this.PANEL_HEIGHT / 2, panelWidth, this.PANEL_HEIGHT);
+    this.panel.fill({ color: 0x1a1a2e });
+    this.panel.stroke({ color: title.border, width: 4 });
+
+    this.pool = pool
+      .map(powerUp => this.getIconTexture(powerUp))
+      .filter((texture): texture is Texture => texture !== null);
+
+    const startX = -((rewards.length - 1) * (this.REEL_WIDTH + this.REEL_GAP)) / 2;
+
+    rewards.forEach((reward, index) => {
+      const reel = this.createReel(reward, this.SPIN_TIME + index * this.STOP_STAGGER);
+      reel.container.position.set(startX + index * (this.REEL_WIDTH + this.REEL_GAP), 20);
+      this.frameContainer.addChild(reel.container);
+      this.reels.push(reel);
+    });
+
+    this.elapsed = 0;
+    this.spinTimer = 0;
+    this.spinIndex = 0;
+    this.closeAt = this.SPIN_TIME + (rewards.length - 1) * this.STOP_STAGGER + this.HOLD_TIME;
+    this.spinReels();
+
+    this.visible = true;
+  }
+
+  /**
+   * Hide the reveal
+   */
+  hide(): void
+  {
+    this.visible = false;
+  }
+
+  /**
+   * Advance the reels (delta in seconds of game frame time)
+   */
+  update(delta: number): void
+  {
+    if (!this.visible)
+    {
+      return;
+    }
+
+    this.elapsed += delta;
+    this.spinTimer += delta;
+
+    if (this.spinTimer >= this.SPIN_INTERVAL)
+    {
+      this.spinTimer = 0;
+      this.spinIndex++;
+      this.spinReels();
+    }
+
+    for (const reel of this.reels)
+    {
+      if (!reel.stopped && this.elapsed >= reel.stopAt)
+      {
+        this.stopReel(reel);
+      }
+    }
+
+    if (this.elapsed >= this.closeAt)
+    {
+      this.hide();
+      this.onClose();
+    }
+  }
+
+  /**
+   * Build one reel centered on 0,0 (name and level stay hidden until it stops)
+   */
+  private createReel(reward: ChestRewardOption, stopAt: number): Reel
+  {
+    const container = new Container();
+
+    const frame = new Graphics();
+    frame.roundRect(-this.REEL_WIDTH / 2, -this.REEL_HEIGHT / 2, this.REEL_WIDTH, this.REEL_HEIGHT, 8);
+    frame.fill({ color: 0x22223a });
+    frame.stroke({ color: 0x555577, width: 2 });
+    container.addChild(frame);
+
+    const icon = new Sprite(Texture.EMPTY);
+    icon.anchor.set(0.5, 0.5);
+    icon.position.set(0, -28);
+    container.addChild(icon);
+
+    const nameText = new Text({
+      text: reward.powerUp.name,
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 14,
+        fontWeight: 'bold',
+        fill: '#FFFFFF',
+        align: 'center',
+        wordWrap: true,
+        wordWrapWidth: this.REEL_WIDTH - 12
+      })
+    });
+    nameText.anchor.set(0.5, 0);
+    nameText.position.set(0, 16);
+    nameText.visible = false;
+    container.addChild(nameText);
+
+    const levelText = new Text({
+      text: reward.isEvolution ? 'EVOLVED!' : `Lv ${reward.level}`,
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 13,
+        fontWeight: 'bold',
+        fill: reward.isEvolution ? '#FF66FF' : '#FFCC33'
+      })
+    });
+    levelText.anchor.set(0.5, 0.5);
+    levelText.position.set(0, this.REEL_HEIGHT / 2 - 16);
+    levelText.visible = false;
+    container.addChild(levelText);
+
+    return { container, frame, icon, nameText, levelText, reward, stopAt, stopped: false };
+  }
+
+  /**
+   * Show the next pool icon on every reel still spinning (offset so neighbours differ)
+   */
+  private spinReels(): void
+  {
+    if (this.pool.length === 0)
+    {
+      return;
+    }
+
+    this.reels.forEach((reel, index) => {
+      if (!reel.stopped)
+      {
+        this.setIcon(reel, this.pool[(this.spinIndex + index) % this.pool.length]);
+      }
+    });
+  }
+
+  /**
+   * Land a reel on its reward
+   */
+  private stopReel(reel: Reel): void
+  {
+    reel.stopped = true;
+
+    const texture = this.getIconTexture(reel.reward.powerUp);
+    if (texture)
+    {
+      this.setIcon(reel, texture);
+    }
+
+    reel.nameText.visible = true;
+    reel.levelText.visible = true;
+
+    reel.frame.clear();
+    reel.frame.roundRect(-this.REEL_WIDTH / 2, -this.REEL_HEIGHT / 2, this.REEL_WIDTH, this.REEL_HEIGHT, 8);
+    reel.frame.fill({ color: 0x2a2a4e });
+    reel.frame.stroke({ color: reel.reward.isEvolution ? 0xff66ff : 0xffcc33, width: 4 });
+  }
+
+  /**
+   * Swap a reel icon, scaled to fit
+   */
+  private setIcon(reel: Reel, texture: Texture): void
+  {
+    reel.icon.texture = texture;
+    reel.icon.scale.set(Math.min(64 / texture.width, 64 / texture.height));
+  }
+
+  /**
+   * Static icon of a power-up (first frame of leveled animations), null if missing
+   */
+  private getIconTexture(powerUp: PowerUp): Texture | null
+  {
+    const spritesheet = this.assetManager.getSpritesheet('powers_spritesheet');
+
+    if (!spritesheet)
+    {
+      return null;
+    }
+
+    if (powerUp.hasLeveledAnimations)
+    {
+      return spritesheet.animations[powerUp.getAnimationName()]?.[0] ?? null;
+    }
+
+    return spritesheet.textures[powerUp.getIconFrame()] ?? null;
+  }
+
+  /**
+   * Remove the reels of the previous show()
+   */
+  private clearReels(): void
+  {
+    for (const reel of this.reels)
+    {
+      this.frameContainer.removeChild(reel.container);
+      reel.container.destroy({ children: true });
+    }
+    this.reels = [];
+  }
+
+  private getPanelWidth(reelCount: number): number
+  {
+    return Math.max(320, reelCount * this.REEL_WIDTH + (reelCount + 1) * this.REEL_GAP);
+  }
+
+  /**
+   * Update positions based on screen size (panel scaled down on small screens)
+   */
+  resize(width: number, height: number): void
+  {
+    this.background.clear();
+    this.background.rect(0, 0, width, height);
+    this.background.fill({ color: 0x000000, alpha: 0.6 });
+
+    const panelWidth = this.getPanelWidth(Math.max(1, this.reels.length));
+    const scale = Math.min(1, (width - 20) / panelWidth, (height - 20) / this.PANEL_HEIGHT);
+    this.frameContainer.scale.set(scale);
+    this.frameContainer.position.set(width / 2, height / 2);
+  }
+}
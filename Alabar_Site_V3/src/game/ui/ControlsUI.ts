@@ -0,0 +1,350 @@
+/**
+ * ControlsUI.ts - Key rebinding modal
+ * Pick a control profile or click a key slot and press the new key (Esc cancels, Backspace clears)
+ */
+
+import { Container, Graphics, Text, TextStyle } from 'pixi.js';
+import { InputManager } from '../core/Input';
+import { BINDING_SLOTS, INPUT_ACTIONS, InputAction, findUnboundActions } from '../configs/Controls';
+
+const ACTION_LABELS = new Map(INPUT_ACTIONS.map(({ action, label }) => [action, label]));
+
+export class ControlsUI extends Container
+{
+  private background: Graphics;
+  private frameContainer: Container; // Panel contents, centered and scaled to fit
+  private panel: Graphics;
+  private titleText: Text;
+  private profilesContainer: Container;
+  private rowsContainer: Container;
+  private statusText: Text;
+  private closeButton: Container;
+  private closeButtonBg: Graphics;
+
+  private onCloseCallback: (() => void) | null = null;
+
+  // Slot waiting for a key press
+  private capturing: { action: InputAction; slot: number } | null = null;
+  private message: string = '';
+
+  private screenWidth: number = 0;
+  private screenHeight: number = 0;
+
+  private readonly PANEL_WIDTH = 560;
+  private readonly ROW_HEIGHT = 32;
+  private readonly SLOT_WIDTH = 120;
+
+  constructor()
+  {
+    super();
+
+    this.visible = false;
+    this.zIndex = 21000; // Above game over UI
+
+    this.background = new Graphics();
+    this.background.eventMode = 'static'; // Block clicks to the game underneath
+    this.addChild(this.background);
+
+    this.frameContainer = new Container();
+    this.addChild(this.frameContainer);
+
+    this.panel = new Graphics();
+    this.frameContainer.addChild(this.panel);
+
+    this.titleText = new Text({
+      text: 'CONTROLS',
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 36,
+        fontWeight: 'bold',
+        fill: '#FFCC33',
+        stroke: { color: '#000000', width: 4 }
+      })
+    });
+    this.titleText.anchor.set(0.5, 0.5);
+    this.frameContainer.addChild(this.titleText);
+
+    this.profilesContainer = new Container();
+    this.frameContainer.addChild(this.profilesContainer);
+
+    this.rowsContainer = new Container();
+    this.frameContainer.addChild(this.rowsContainer);
+
+    this.statusText = new Text({
+      text: '',
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 14,
+        fontWeight: 'bold',
+        fill: '#FF6666',
+        align: 'center',
+        wordWrap: true,
+        wordWrapWidth: this.PANEL_WIDTH - 40
+      })
+    });
+    this.statusText.anchor.set(0.5, 0.5);
+    this.frameContainer.addChild(this.statusText);
+
+    // Close button
+    this.closeButton = new Container();
+    this.closeButton.eventMode = 'static';
+    this.closeButton.cursor = 'pointer';
+
+    this.closeButtonBg = new Graphics();
+    this.drawButton(this.closeButtonBg, 120, 36, 0xFFCC33);
+    this.closeButton.addChild(this.closeButtonBg);
+
+    const closeText = new Text({
+      text: 'BACK',
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 18,
+        fontWeight: 'bold',
+        fill: '#1a1a2e'
+      })
+    });
+    closeText.anchor.set(0.5, 0.5);
+    this.closeButton.addChild(closeText);
+    this.frameContainer.addChild(this.closeButton);
+
+    this.closeButton.on('pointerover', () => this.drawButton(this.closeButtonBg, 120, 36, 0xFFDD55));
+    this.closeButton.on('pointerout', () => this.drawButton(this.closeButtonBg, 120, 36, 0xFFCC33));
+    this.closeButton.on('pointerdown', () => {
+      this.hide();
+      if (this.onCloseCallback)
+      {
+        this.onCloseCallback();
+      }
+    });
+
+    console.log('[ControlsUI] Initialized');
+  }
+
+  /**
+   * Show controls screen
+   */
+  show(onClose?: () => void): void
+  {
+    this.onCloseCallback = onClose ?? null;
+    this.message = '';
+    this.refresh();
+    this.visible = true;
+  }
+
+  /**
+   * Hide controls screen (abandons a pending rebind)
+   */
+  hide(): void
+  {
+    this.stopCapture();
+    this.visible = false;
+  }
+
+  /**
+   * Wait for the next key press and bind it to a slot
+   */
+  private startCapture(action: InputAction, slot: number): void
+  {
+    const input = InputManager.getInstance();
+
+    this.capturing = { action, slot };
+    this.message = '';
+    this.refresh();
+
+    input.captureNextKey((code) => {
+      this.capturing = null;
+
+      if (code === 'Backspace')
+      {
+        input.clearBinding(action, slot);
+      }
+      else if (code !== 'Escape')
+      {
+        const result = input.rebind(action, slot, code);
+        if (!result.ok)
+        {
+          this.message = `${input.getKeyLabel(code)} is already used by ${ACTION_LABELS.get(result.conflict)}`;
+        }
+      }
+
+      this.refresh();
+    });
+  }
+
+  private stopCapture(): void
+  {
+    if (this.capturing)
+    {
+      InputManager.getInstance().cancelCapture();
+      this.capturing = null;
+    }
+  }
+
+  /**
+   * Rebuild profile buttons and binding rows from the current bindings
+   */
+  private refresh(): void
+  {
+    const input = InputManager.getInstance();
+    const bindings = input.getBindings();
+
+    for (const child of [...this.profilesContainer.removeChildren(), ...this.rowsContainer.removeChildren()])
+    {
+      child.destroy({ children: true });
+    }
+
+    // Profile buttons in a centered row
+    const profiles = input.getProfiles();
+    const profileWidth = Math.min(170, (this.PANEL_WIDTH - 40) / profiles.length - 10);
+
+    profiles.forEach((profile, index) => {
+      const active = profile.id === input.getProfileId();
+      const button = this.createButton(profile.name, profileWidth, active ? 0xFFCC33 : 0x444444, active ? '#1a1a2e' : '#FFFFFF', () => {
+        this.stopCapture();
+        input.setProfile(profile.id);
+        this.message = '';
+        this.refresh();
+      });
+      button.x = (index - (profiles.length - 1) / 2) * (profileWidth + 10);
+      this.profilesContainer.addChild(button);
+    });
+
+    // One row per action: label and key slots
+    INPUT_ACTIONS.forEach(({ action, label }, index) => {
+      const row = new Container();
+      row.y = index * this.ROW_HEIGHT;
+
+      const labelText = new Text({
+        text: label,
+        style: new TextStyle({ fontFamily: 'Arial, sans-serif', fontSize: 16, fontWeight: 'bold', fill: '#FFFFFF' })
+      });
+      labelText.anchor.set(0, 0.5);
+      labelText.x = -this.PANEL_WIDTH / 2 + 24;
+      row.addChild(labelText);
+
+      for (let slot = 0; slot < BINDING_SLOTS; slot++)
+      {
+        const code = bindings[action][slot];
+        const waiting = this.capturing?.action === action && this.capturing.slot === slot;
+        const text = waiting ? 'Press a key...' : code ? input.getKeyLabel(code) : '-';
+
+        const button = this.createButton(text, this.SLOT_WIDTH, waiting ? 0xFFCC33 : 0x2a2a4e, waiting ? '#1a1a2e' : '#FFFFFF', () => {
+          this.startCapture(action, slot);
+        });
+        button.x = this.PANEL_WIDTH / 2 - 24 - this.SLOT_WIDTH / 2 - (BINDING_SLOTS - 1 - slot) * (this.SLOT_WIDTH + 10);
+        row.addChild(button);
+      }
+
+      this.rowsContainer.addChild(row);
+    });
+
+    // Status: pending rebind hint, last conflict or unbound actions
+    const unbound = findUnboundActions(bindings);
+
+    if (this.capturing)
+    {
+      this.statusText.text = 'Press a key - Esc cancels, Backspace clears';
+      this.statusText.style.fill = '#FFFFFF';
+    }
+    else if (this.message)
+    {
+      this.statusText.text = this.message;
+      this.statusText.style.fill = '#FF6666';
+    }
+    else if (unbound.length > 0)
+    {
+      this.statusText.text = `No key for: ${unbound.map(action => ACTION_LABELS.get(action)).join(', ')}`;
+      this.statusText.style.fill = '#FF6666';
+    }
+    else
+    {
+      this.statusText.text = '';
+    }
+
+    this.layout();
+  }
+
+  /**
+   * Create a clickable button centered on 0,0
+   */
+  private createButton(label: string, width: number, color: number, textColor: string, onClick: () => void): Container
+  {
+    const button = new Container();
+    button.eventMode = 'static';
+    button.cursor = 'pointer';
+
+    const buttonBg = new Graphics();
+    this.drawButton(buttonBg, width, 26, color);
+    button.addChild(buttonBg);
+
+    const buttonText = new Text({
+      text: label,
+      style: new TextStyle({ fontFamily: 'Arial, sans-serif', fontSize: 14, fontWeight: 'bold', fill: textColor })
+    });
+    buttonText.anchor.set(0.5, 0.5);
+    button.addChild(buttonText);
+
+    button.on('pointerdown', onClick);
+    return button;
+  }
+
+  /**
+   * Draw a rounded button background centered on 0,0
+   */
+  private drawButton(graphics: Graphics, width: number, height: number, color: number): void
+  {
+    graphics.clear();
+    graphics.roundRect(-width / 2, -height / 2, width, height, 6);
+    graphics.fill({ color });
+    graphics.stroke({ color: 0x000000, width: 2 });
+  }
+
+  /**
+   * Position everything for the current screen size (scaled down on small screens)
+   */
+  private layout(): void
+  {
+    const rowCount = this.rowsContainer.children.length;
+    const panelHeight = 180 + rowCount * this.ROW_HEIGHT;
+    const scale = Math.min(1, (this.screenWidth - 20) / this.PANEL_WIDTH, (this.screenHeight - 20) / panelHeight);
+    const top = -panelHeight / 2;
+
+    this.background.clear();
+    this.background.rect(0, 0, this.screenWidth, this.screenHeight);
+    this.background.fill({ color: 0x000000, alpha: 0.85 });
+
+    this.panel.clear();
+    this.panel.rect(-this.PANEL_WIDTH / 2, top, this.PANEL_WIDTH, panelHeight);
+    this.panel.fill({ color: 0x1a1a2e });
+    this.panel.stroke({ color: 0xffcc33, width: 4 });
+
+    this.titleText.position.set(0, top + 26);
+    this.profilesContainer.position.set(0, top + 66);
+    this.rowsContainer.position.set(0, top + 104);
+    this.statusText.position.set(0, top + panelHeight - 64);
+    this.closeButton.position.set(0, top + panelHeight - 26);
+
+    this.frameContainer.scale.set(scale);
+    this.frameContainer.position.set(this.screenWidth / 2, this.screenHeight / 2);
+  }
+
+  /**
+   * Update positions based on screen size
+   */
+  resize(width: number, height: number): void
+  {
+    this.screenWidth = width;
+    this.screenHeight = height;
+    this.layout();
+  }
+
+  /**
+   * Cleanup
+   */
+  destroy(options?: any): void
+  {
+    this.stopCapture();
+    this.onCloseCallback = null;
+    super.destroy({ children: true, ...options });
+  }
+}
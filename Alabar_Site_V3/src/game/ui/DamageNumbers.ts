@@ -0,0 +1,162 @@
+/**
+ * DamageNumbers.ts - Floating numbers for damage, heals and blocked damage
+ * Numbers rise and fade at the hit position; Text objects are pooled and reused
+ */
+
+import { Container, Text, TextStyle } from 'pixi.js';
+
+/**
+ * damage: player hits a monster, critical: a crit hit,
+ * hurt: the player takes damage, heal: Food heals, blocked: damage armor absorbed
+ */
+export type DamageNumberStyle = 'damage' | 'critical' | 'hurt' | 'heal' | 'blocked';
+
+interface DamageNumberLook
+{
+  fill: string;
+  fontSize: number;
+  format: (amount: number) => string;
+}
+
+interface ActiveNumber
+{
+  text: Text;
+  age: number;
+  startY: number;
+}
+
+const LOOKS: Record<DamageNumberStyle, DamageNumberLook> = {
+  damage: { fill: '#FFFFFF', fontSize: 22, format: amount => `${amount}` },
+  critical: { fill: '#FFD23F', fontSize: 32, format: amount => `${amount}!` },
+  hurt: { fill: '#FF4444', fontSize: 26, format: amount => `-${amount}` },
+  heal: { fill: '#44FF66', fontSize: 26, format: amount => `+${amount}` },
+  blocked: { fill: '#99AACC', fontSize: 20, format: amount => `(${amount})` }
+};
+
+// Horizontal offsets cycled through so numbers on the same spot don't overlap
+const X_OFFSETS = [0, -12, 12, -6, 6];
+
+export class DamageNumbers extends Container
+{
+  private active: ActiveNumber[] = [];
+  private pool: Text[] = [];
+  private styles: Record<DamageNumberStyle, TextStyle>;
+  private nextOffset: number = 0;
+
+  private readonly LIFETIME = 0.8; // Seconds
+  private readonly RISE = 40; // Pixels over the lifetime
+  private readonly MAX_ACTIVE = 80; // Oldest numbers are recycled past this
+
+  constructor()
+  {
+    super();
+
+    this.label = 'DamageNumbers';
+    this.zIndex = 1100; // Above the player and monsters, below the HUD
+
+    this.styles = {} as Record<DamageNumberStyle, TextStyle>;
+    for (const style of Object.keys(LOOKS) as DamageNumberStyle[])
+    {
+      this.styles[style] = new TextStyle({
+        fontFamily: 'VT323',
+        fontSize: LOOKS[style].fontSize,
+        fontWeight: 'bold',
+        fill: LOOKS[style].fill,
+        stroke: { color: '#000000', width: 3 }
+      });
+    }
+  }
+
+  /**
+   * Show a number at a world position
+   */
+  show(x: number, y: number, amount: number, style: DamageNumberStyle): void
+  {
+    const rounded = Math.round(amount);
+    if (rounded <= 0)
+    {
+      return;
+    }
+
+    if (this.active.length >= this.MAX_ACTIVE)
+    {
+      this.release(this.active.shift()!);
+    }
+
+    const text = this.pool.pop() ?? this.createText();
+    text.style = this.styles[style];
+    text.text = LOOKS[style].format(rounded);
+    text.alpha = 1;
+    text.scale.set(style === 'critical' ? 1.3 : 1);
+    text.position.set(x + X_OFFSETS[this.nextOffset], y);
+    text.visible = true;
+
+    this.nextOffset = (this.nextOffset + 1) % X_OFFSETS.length;
+    this.active.push({ text, age: 0, startY: y });
+  }
+
+  /**
+   * Rise and fade active numbers, recycling finished ones
+   */
+  update(delta: number): void
+  {
+    for (let i = this.active.length - 1; i >= 0; i--)
+    {
+      const number = this.active[i];
+      number.age += delta;
+
+      if (number.age >= this.LIFETIME)
+      {
+        this.active.splice(i, 1);
+        this.release(number);
+        continue;
+      }
+
+      const progress = number.age / this.LIFETIME;
+      number.text.y = number.startY - this.RISE * progress;
+
+      // Fade during the second half, crits settle back to normal size
+      number.text.alpha = progress < 0.5 ? 1 : 1 - (progress - 0.5) * 2;
+      if (number.text.scale.x > 1)
+      {
+        number.text.scale.set(Math.max(1, 1.3 - progress));
+      }
+    }
+  }
+
+  /**
+   * Remove every number (run restart)
+   */
+  clear(): void
+  {
+    for (const number of this.active)
+    {
+      this.release(number);
+    }
+    this.active = [];
+  }
+
+  /**
+   * Clean up pooled text
+   */
+  destroy(options?: any): void
+  {
+    this.active = [];
+    this.pool = [];
+    super.destroy({ children: true, ...options });
+  }
+
+  private createText(): Text
+  {
+    const text = new Text({ text: '' });
+    text.anchor.set(0.5, 1);
+    this.addChild(text);
+    return text;
+  }
+
+  private release(number: ActiveNumber): void
+  {
+    number.text.visible = false;
+    this.pool.push(number.text);
+  }
+}
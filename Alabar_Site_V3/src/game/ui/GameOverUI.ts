@@ -1,9 +1,13 @@
 /**
  * GameOverUI.ts - Game Over modal component
- * Displays when player dies with elapsed time and restart option
+ * Displays when player dies with elapsed time, gold earned, run seed, top local runs, character records, restart, shop and replay export options
  */
 
 import { Container, Text, TextStyle, Graphics } from 'pixi.js';
+import { CharacterRecord, LeaderboardEntry, getEntryCharacter, getTotalKills } from '../core/Leaderboard';
+import { getCharacter } from '../configs/Characters';
+
+const BOARD_PREVIEW_ROWS = 5;
 
 export class GameOverUI extends Container
 {
@@ -12,11 +16,28 @@ export class GameOverUI extends Container
   private frameGraphics: Graphics;
   private titleText: Text;
   private timeText: Text;
+  private seedText: Text;
+  private rewardText: Text;
   private restartButton: Container;
   private restartButtonBg: Graphics;
   private restartButtonText: Text;
+  private exportButton: Container;
+  private exportButtonBg: Graphics;
+  private exportButtonText: Text;
+  private shopButton: Container;
+  private shopButtonBg: Graphics;
+  private shopButtonText: Text;
+  private boardTitleText: Text;
+  private boardRows: Text[] = [];
+  private rankText: Text;
+  private characterText: Text;
   
   private onRestartCallback: (() => void) | null = null;
+  private onExportReplayCallback: (() => void) | null = null;
+  private onOpenShopCallback: (() => void) | null = null;
+  
+  private readonly PANEL_WIDTH = 720;
+  private readonly PANEL_HEIGHT = 360;
   
   constructor()
   {
@@ -37,7 +58,7 @@ export class GameOverUI extends Container
     
     // Create pixel art frame using Graphics
     this.frameGraphics = new Graphics();
-    this.drawPixelFrame(400, 300);
+    this.drawPixelFrame(this.PANEL_WIDTH, this.PANEL_HEIGHT);
     this.frameContainer.addChild(this.frameGraphics);
     
     // Create title text
@@ -60,7 +81,7 @@ export class GameOverUI extends Container
       style: titleStyle
     });
     this.titleText.anchor.set(0.5, 0.5);
-    this.addChild(this.titleText);
+    this.frameContainer.addChild(this.titleText);
     
     // Create time text
     const timeStyle = new TextStyle({
@@ -82,7 +103,93 @@ export class GameOverUI extends Container
       style: timeStyle
     });
     this.timeText.anchor.set(0.5, 0.5);
-    this.addChild(this.timeText);
+    this.frameContainer.addChild(this.timeText);
+    
+    // Create seed text (lets players share/replay a run)
+    const seedStyle = new TextStyle({
+      fontFamily: 'Arial, sans-serif',
+      fontSize: 16,
+      fill: '#CCCCCC',
+      stroke: { color: '#000000', width: 2 }
+    });
+    
+    this.seedText = new Text({
+      text: 'Seed: 0',
+      style: seedStyle
+    });
+    this.seedText.anchor.set(0.5, 0.5);
+    this.frameContainer.addChild(this.seedText);
+    
+    // Create reward text (meta progression gold)
+    const rewardStyle = new TextStyle({
+      fontFamily: 'Arial, sans-serif',
+      fontSize: 20,
+      fontWeight: 'bold',
+      fill: '#FFCC33',
+      stroke: { color: '#000000', width: 3 }
+    });
+    
+    this.rewardText = new Text({
+      text: '',
+      style: rewardStyle
+    });
+    this.rewardText.anchor.set(0.5, 0.5);
+    this.frameContainer.addChild(this.rewardText);
+    
+    // Create leaderboard preview (right column)
+    this.boardTitleText = new Text({
+      text: 'TOP RUNS',
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 24,
+        fontWeight: 'bold',
+        fill: '#FFCC33',
+        stroke: { color: '#000000', width: 3 }
+      })
+    });
+    this.boardTitleText.anchor.set(0.5, 0.5);
+    this.frameContainer.addChild(this.boardTitleText);
+    
+    for (let i = 0; i < BOARD_PREVIEW_ROWS; i++)
+    {
+      const row = new Text({
+        text: '',
+        style: new TextStyle({
+          fontFamily: 'Courier New, monospace',
+          fontSize: 16,
+          fontWeight: 'bold',
+          fill: '#FFFFFF'
+        })
+      });
+      row.anchor.set(0, 0.5);
+      this.boardRows.push(row);
+      this.frameContainer.addChild(row);
+    }
+    
+    this.rankText = new Text({
+      text: '',
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 16,
+        fontWeight: 'bold',
+        fill: '#FFCC33'
+      })
+    });
+    this.rankText.anchor.set(0.5, 0.5);
+    this.frameContainer.addChild(this.rankText);
+    
+    // Character record (best results with the character of this run)
+    this.characterText = new Text({
+      text: '',
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 14,
+        fill: '#CCCCCC',
+        stroke: { color: '#000000', width: 2 }
+      })
+    });
+    this.characterText.anchor.set(0.5, 0.5);
+    this.frameContainer.addChild(this.characterText);
     
     // Create restart button container
     this.restartButton = new Container();
@@ -112,7 +219,7 @@ export class GameOverUI extends Container
     this.restartButtonText.anchor.set(0.5, 0.5);
     this.restartButton.addChild(this.restartButtonText);
     
-    this.addChild(this.restartButton);
+    this.frameContainer.addChild(this.restartButton);
     
     // Button hover effect
     this.restartButton.on('pointerover', () => {
@@ -136,6 +243,79 @@ export class GameOverUI extends Container
       }
     });
     
+    // Create export replay button (smaller, secondary)
+    this.exportButton = new Container();
+    this.exportButton.eventMode = 'static';
+    this.exportButton.cursor = 'pointer';
+    
+    this.exportButtonBg = new Graphics();
+    this.drawExportButton(0x2a2a4e);
+    this.exportButton.addChild(this.exportButtonBg);
+    
+    const exportStyle = new TextStyle({
+      fontFamily: 'Arial, sans-serif',
+      fontSize: 16,
+      fontWeight: 'bold',
+      fill: '#FFCC33'
+    });
+    
+    this.exportButtonText = new Text({
+      text: 'EXPORT REPLAY',
+      style: exportStyle
+    });
+    this.exportButtonText.anchor.set(0.5, 0.5);
+    this.exportButton.addChild(this.exportButtonText);
+    
+    this.frameContainer.addChild(this.exportButton);
+    
+    this.exportButton.on('pointerover', () => {
+      this.drawExportButton(0x3a3a6e);
+    });
+    
+    this.exportButton.on('pointerout', () => {
+      this.drawExportButton(0x2a2a4e);
+    });
+    
+    this.exportButton.on('pointerdown', () => {
+      if (this.onExportReplayCallback)
+      {
+        this.onExportReplayCallback();
+      }
+    });
+    
+    // Create shop button (secondary, next to export)
+    this.shopButton = new Container();
+    this.shopButton.eventMode = 'static';
+    this.shopButton.cursor = 'pointer';
+    
+    this.shopButtonBg = new Graphics();
+    this.drawSecondaryButton(this.shopButtonBg, 0x2a2a4e);
+    this.shopButton.addChild(this.shopButtonBg);
+    
+    this.shopButtonText = new Text({
+      text: 'SHOP',
+      style: exportStyle
+    });
+    this.shopButtonText.anchor.set(0.5, 0.5);
+    this.shopButton.addChild(this.shopButtonText);
+    
+    this.frameContainer.addChild(this.shopButton);
+    
+    this.shopButton.on('pointerover', () => {
+      this.drawSecondaryButton(this.shopButtonBg, 0x3a3a6e);
+    });
+    
+    this.shopButton.on('pointerout', () => {
+      this.drawSecondaryButton(this.shopButtonBg, 0x2a2a4e);
+    });
+    
+    this.shopButton.on('pointerdown', () => {
+      if (this.onOpenShopCallback)
+      {
+        this.onOpenShopCallback();
+      }
+    });
+    
     console.log('[GameOverUI] Initialized');
   }
   
@@ -182,15 +362,105 @@ export class GameOverUI extends Container
   }
   
   /**
-   * Show game over screen with elapsed time
+   * Draw export button background
+   */
+  private drawExportButton(color: number): void
+  {
+    this.drawSecondaryButton(this.exportButtonBg, color);
+  }
+  
+  /**
+   * Draw secondary (export/shop) button background
+   */
+  private drawSecondaryButton(graphics: Graphics, color: number): void
+  {
+    graphics.clear();
+    graphics.roundRect(-80, -16, 160, 32, 6);
+    graphics.fill({ color });
+    graphics.stroke({ color: 0xFFCC33, width: 2 });
+  }
+  
+  /**
+   * Show game over screen with elapsed time and run seed
+   * Export/shop buttons are only shown when their callbacks are given
    */
-  show(elapsedTime: string, onRestart: () => void): void
+  show(elapsedTime: string, seed: number, onRestart: () => void, onExportReplay?: () => void, onOpenShop?: () => void): void
   {
     this.onRestartCallback = onRestart;
+    this.onExportReplayCallback = onExportReplay ?? null;
+    this.onOpenShopCallback = onOpenShop ?? null;
+    this.exportButton.visible = !!onExportReplay;
+    this.shopButton.visible = !!onOpenShop;
     this.timeText.text = `Time Survived: ${elapsedTime}`;
+    this.seedText.text = `Seed: ${seed}`;
     this.visible = true;
     
-    console.log(`[GameOverUI] Showing game over - Time: ${elapsedTime}`);
+    console.log(`[GameOverUI] Showing game over - Time: ${elapsedTime}, Seed: ${seed}`);
+  }
+  
+  /**
+   * Show gold earned this run (empty hides it, e.g. replays)
+   */
+  setReward(earned: number | null, total: number = 0): void
+  {
+    this.rewardText.text = earned === null ? '' : `+${earned} Gold (Total: ${total})`;
+  }
+  
+  /**
+   * Show the top local runs, highlighting this run (rank -1 = not on the board)
+   */
+  setLeaderboard(entries: readonly LeaderboardEntry[], rank: number): void
+  {
+    this.boardRows.forEach((row, index) => {
+      const entry = entries[index];
+      
+      row.text = entry ? this.formatEntry(index, entry) : `#${index + 1}  --`;
+      row.style.fill = index === rank ? '#FFCC33' : '#FFFFFF';
+    });
+    
+    if (rank >= BOARD_PREVIEW_ROWS)
+    {
+      this.rankText.text = `Your run: #${rank + 1}`;
+    }
+    else if (rank === 0)
+    {
+      this.rankText.text = 'New best run!';
+    }
+    else
+    {
+      this.rankText.text = '';
+    }
+  }
+  
+  /**
+   * Show the record of the character played this run (null record = no finished runs, e.g. replays)
+   */
+  setCharacterSummary(name: string, record: CharacterRecord | null): void
+  {
+    this.characterText.text = record
+      ? `${name}: ${record.runs} ${record.runs === 1 ? 'run' : 'runs'}  Best ${this.formatTime(record.bestTime)}  Lv${record.bestLevel}  ${record.bestKills}K`
+      : name;
+  }
+  
+  /**
+   * One leaderboard row: rank, time, level, wave, kills, character
+   */
+  private formatEntry(index: number, entry: LeaderboardEntry): string
+  {
+    const character = getCharacter(getEntryCharacter(entry)).name;
+    
+    return `#${index + 1} ${this.formatTime(entry.survivalTime)} Lv${entry.level} W${entry.wave} ${getTotalKills(entry)}K ${character}`;
+  }
+  
+  /**
+   * Seconds as mm:ss
+   */
+  private formatTime(totalSeconds: number): string
+  {
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = Math.floor(totalSeconds % 60);
+    
+    return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
   }
   
   /**
@@ -200,6 +470,8 @@ export class GameOverUI extends Container
   {
     this.visible = false;
     this.onRestartCallback = null;
+    this.onExportReplayCallback = null;
+    this.onOpenShopCallback = null;
   }
   
   /**
@@ -212,16 +484,32 @@ export class GameOverUI extends Container
     this.background.rect(0, 0, width, height);
     this.background.fill({ color: 0x000000, alpha: 0.7 });
     
-    // Center everything
-    const centerX = width / 2;
-    const centerY = height / 2;
+    // Center the panel, scaled down to fit small (phone) screens
+    const scale = Math.min(1, width / (this.PANEL_WIDTH + 40), height / (this.PANEL_HEIGHT + 40));
+    
+    this.frameContainer.position.set(width / 2, height / 2);
+    this.frameContainer.scale.set(scale);
+    
+    // Left column: run result and buttons
+    const leftX = -170;
     
-    // Position frame container
-    this.frameContainer.position.set(centerX, centerY);
+    this.titleText.position.set(leftX, -120);
+    this.timeText.position.set(leftX, -62);
+    this.rewardText.position.set(leftX, -28);
+    this.seedText.position.set(leftX, -2);
+    this.restartButton.position.set(leftX, 50);
+    this.exportButton.position.set(leftX - 85, 115);
+    this.shopButton.position.set(leftX + 85, 115);
     
-    this.titleText.position.set(centerX, centerY - 80);
-    this.timeText.position.set(centerX, centerY - 20);
-    this.restartButton.position.set(centerX, centerY + 60);
+    // Right column: leaderboard preview
+    const rightX = 185;
+    
+    this.boardTitleText.position.set(rightX, -120);
+    this.boardRows.forEach((row, index) => {
+      row.position.set(35, -76 + index * 32);
+    });
+    this.characterText.position.set(rightX, 92);
+    this.rankText.position.set(rightX, 118);
   }
   
   /**
@@ -254,6 +542,37 @@ export class GameOverUI extends Container
       this.timeText.destroy();
     }
     
+    if (this.seedText)
+    {
+      this.seedText.destroy();
+    }
+    
+    if (this.rewardText)
+    {
+      this.rewardText.destroy();
+    }
+    
+    if (this.boardTitleText)
+    {
+      this.boardTitleText.destroy();
+    }
+    
+    for (const row of this.boardRows)
+    {
+      row.destroy();
+    }
+    this.boardRows = [];
+    
+    if (this.rankText)
+    {
+      this.rankText.destroy();
+    }
+    
+    if (this.characterText)
+    {
+      this.characterText.destroy();
+    }
+    
     if (this.restartButtonBg)
     {
       this.restartButtonBg.destroy();
@@ -269,6 +588,36 @@ export class GameOverUI extends Container
       this.restartButton.destroy();
     }
     
+    if (this.exportButtonBg)
+    {
+      this.exportButtonBg.destroy();
+    }
+    
+    if (this.exportButtonText)
+    {
+      this.exportButtonText.destroy();
+    }
+    
+    if (this.exportButton)
+    {
+      this.exportButton.destroy();
+    }
+    
+    if (this.shopButtonBg)
+    {
+      this.shopButtonBg.destroy();
+    }
+    
+    if (this.shopButtonText)
+    {
+      this.shopButtonText.destroy();
+    }
+    
+    if (this.shopButton)
+    {
+      this.shopButton.destroy();
+    }
+    
     super.destroy(options);
   }
 }
\ No newline at end of file
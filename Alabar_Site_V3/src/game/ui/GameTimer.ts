@@ -70,7 +70,7 @@ export class GameTimer extends Container
   stop(): void
   {
     this.isRunning = false;
-    console.log(`[GameTimer] Timer stopped at ${this.formatTime(this.elapsedTime)}`);
+    console.log(`[GameTimer] Timer stopped at ${GameTimer.formatTime(this.elapsedTime)}`);
   }
   
   /**
@@ -121,14 +121,14 @@ export class GameTimer extends Container
    */
   private updateDisplay(): void
   {
-    const formattedTime = this.formatTime(this.elapsedTime);
+    const formattedTime = GameTimer.formatTime(this.elapsedTime);
     this.timerText.text = formattedTime;
   }
   
   /**
    * Format time in MM:SS or HH:MM:SS
    */
-  private formatTime(seconds: number): string
+  static formatTime(seconds: number): string
   {
     const totalSeconds = Math.floor(seconds);
     const hours = Math.floor(totalSeconds / 3600);
@@ -150,6 +150,15 @@ export class GameTimer extends Container
     }
   }
   
+  /**
+   * Set elapsed time in seconds (resumed runs)
+   */
+  setElapsedTime(seconds: number): void
+  {
+    this.elapsedTime = seconds;
+    this.updateDisplay();
+  }
+  
   /**
    * Get elapsed time in seconds
    */
@@ -163,7 +172,7 @@ export class GameTimer extends Container
    */
   getFormattedTime(): string
   {
-    return this.formatTime(this.elapsedTime);
+    return GameTimer.formatTime(this.elapsedTime);
   }
   
   /**
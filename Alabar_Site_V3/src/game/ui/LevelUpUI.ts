@@ -1,44 +1,54 @@
 /**
  * LevelUpUI.ts - Level-up card selection UI container
- * Displays 3 LevelUpCard components with overlay
+ * Displays 3 LevelUpCard components with overlay, plus Reroll/Banish/Skip buttons with their uses left
  */
 
 import { Container, Graphics, Text } from 'pixi.js';
 import { LevelUpCard } from '../configs/LevelUpCard';
 import { AssetManager } from '../../managers/AssetManager';
-import { CardOption } from '../systems/PowerManager';
+import { CardOption, LevelUpAction, LevelUpCharges, LevelUpChoice } from '../systems/PowerManager';
 
 export interface LevelUpUIConfig
 {
-  onCardSelected: (powerUpId: string) => void;
+  onChoice: (choice: LevelUpChoice) => void; // Card picked or an action used
 }
 
 export class LevelUpUI extends Container
 {
   private assetManager: AssetManager;
   private cards: LevelUpCard[] = [];
+  private cardsContainer: Container | null = null; // Scaled down to fit narrow screens
+  private focusedIndex: number = -1; // Gamepad focus (-1 = none)
   private overlay!: Graphics;
   private titleText!: Text;
   
-  private onCardSelectedCallback: (powerUpId: string) => void;
+  // Action buttons (none when shown without charges)
+  private charges: LevelUpCharges | null = null;
+  private actionButtons: Container | null = null;
+  private banishMode: boolean = false; // Next card picked is banished instead
+  private actionRowY: number = 0;
+  
+  private onChoiceCallback: (choice: LevelUpChoice) => void;
   
   private screenWidth: number = 0;
   private screenHeight: number = 0;
   
+  private readonly ACTION_ROW_HEIGHT = 60;
+  
   constructor(assetManager: AssetManager, config: LevelUpUIConfig)
   {
     super();
     
     this.assetManager = assetManager;
-    this.onCardSelectedCallback = config.onCardSelected;
+    this.onChoiceCallback = config.onChoice;
     
     this.visible = false;
   }
   
   /**
-   * Show level-up UI with 3 card options
+   * Show level-up UI with 3 card options (and the action buttons when charges are given)
    */
-  show(cardOptions: CardOption[], screenWidth: number, screenHeight: number): void
+  show(cardOptions: CardOption[], screenWidth: number, screenHeight: number, charges?: Readonly<LevelUpCharges>): void
   {
     if (cardOptions.length === 0)
     {
@@ -50,9 +60,13 @@ export class LevelUpUI extends Container
     this.screenHeight = screenHeight;
     
     this.clear();
+    this.focusedIndex = -1;
+    this.banishMode = false;
+    this.charges = charges ? { ...charges } : null;
     this.createOverlay();
     this.createTitle();
     this.createCards(cardOptions);
+    this.createActionButtons();
     
     this.visible = true;
     
@@ -103,45 +117,234 @@ export class LevelUpUI extends Container
   }
   
   /**
-   * Create 3 cards
+   * Create 3 cards (scaled down when the screen is narrower than the row)
+   * Room is left underneath for the action buttons
    */
   private createCards(cardOptions: CardOption[]): void
   {
     const cardWidth = 280;
+    const cardHeight = 380;
     const cardSpacing = 40;
     const totalWidth = (cardWidth * 3) + (cardSpacing * 2);
-    const startX = (this.screenWidth - totalWidth) / 2;
-    const cardY = (this.screenHeight - 380) / 2 + 40;
+    const buttonsHeight = this.charges ? this.ACTION_ROW_HEIGHT : 0;
+    
+    const scale = Math.min(1, (this.screenWidth - 20) / totalWidth, (this.screenHeight - 140 - buttonsHeight) / cardHeight);
+    
+    this.cardsContainer = new Container();
+    this.cardsContainer.scale.set(scale);
+    this.cardsContainer.position.set(
+      (this.screenWidth - totalWidth * scale) / 2,
+      (this.screenHeight - buttonsHeight - cardHeight * scale) / 2 + 40
+    );
+    this.actionRowY = this.cardsContainer.y + cardHeight * scale + this.ACTION_ROW_HEIGHT / 2;
+    this.addChild(this.cardsContainer);
     
     for (let i = 0; i < Math.min(3, cardOptions.length); i++)
     {
       const cardOption = cardOptions[i];
-      const cardX = startX + (i * (cardWidth + cardSpacing));
+      const cardX = i * (cardWidth + cardSpacing);
       
       const card = new LevelUpCard(this.assetManager, {
         powerUp: cardOption.powerUp,
         isNew: cardOption.isNew,
+        isEvolution: cardOption.isEvolution,
         x: cardX,
-        y: cardY,
+        y: 0,
         onSelect: () => {
           this.onCardSelect(cardOption.powerUp.id);
         }
       });
       
       this.cards.push(card);
-      this.addChild(card);
+      this.cardsContainer.addChild(card);
     }
   }
   
   /**
-   * Handle card selection
+   * Move gamepad focus left/right (first move focuses the first card)
+   */
+  moveFocus(step: number): void
+  {
+    if (!this.visible || this.cards.length === 0)
+    {
+      return;
+    }
+    
+    const next = this.focusedIndex === -1
+      ? 0
+      : Math.max(0, Math.min(this.cards.length - 1, this.focusedIndex + step));
+    
+    if (this.focusedIndex !== -1)
+    {
+      this.cards[this.focusedIndex].setHighlighted(false);
+    }
+    
+    this.focusedIndex = next;
+    this.cards[next].setHighlighted(true);
+  }
+  
+  /**
+   * Select the focused card (no-op without focus)
+   */
+  confirmFocus(): void
+  {
+    if (!this.visible || this.focusedIndex === -1)
+    {
+      return;
+    }
+    
+    this.cards[this.focusedIndex].select();
+  }
+  
+  /**
+   * Select a card by position (keyboard shortcuts, out-of-range index is ignored)
+   */
+  selectCard(index: number): void
+  {
+    if (!this.visible || index < 0 || index >= this.cards.length)
+    {
+      return;
+    }
+    
+    this.cards[index].select();
+  }
+  
+  /**
+   * Create the Reroll/Banish/Skip row under the cards
+   */
+  private createActionButtons(): void
+  {
+    if (!this.charges)
+    {
+      return;
+    }
+    
+    const actions: Array<{ action: LevelUpAction; label: string; onClick: () => void }> = [
+      { action: 'reroll', label: 'REROLL', onClick: () => this.reroll() },
+      { action: 'banish', label: this.banishMode ? 'CANCEL' : 'BANISH', onClick: () => this.toggleBanish() },
+      { action: 'skip', label: 'SKIP', onClick: () => this.skip() }
+    ];
+    
+    const buttonWidth = 150;
+    const buttonSpacing = 20;
+    
+    this.actionButtons = new Container();
+    this.actionButtons.position.set(this.screenWidth / 2, this.actionRowY);
+    
+    actions.forEach(({ action, label, onClick }, index) => {
+      const left = this.charges![action];
+      const enabled = left > 0 || (action === 'banish' && this.banishMode);
+      
+      const button = new Container();
+      button.x = (index - 1) * (buttonWidth + buttonSpacing);
+      button.alpha = enabled ? 1 : 0.4;
+      
+      const background = new Graphics();
+      background.roundRect(-buttonWidth / 2, -18, buttonWidth, 36, 6);
+      background.fill({ color: action === 'banish' && this.banishMode ? 0x8b0000 : 0x2a2a4e });
+      background.stroke({ color: 0xffcc33, width: 2 });
+      button.addChild(background);
+      
+      const text = new Text({
+        text: this.banishMode && action === 'banish' ? label : `${label} (${left})`,
+        style: {
+          fontFamily: 'VT323',
+          fontSize: 26,
+          fill: 0xffffff
+        }
+      });
+      text.anchor.set(0.5);
+      button.addChild(text);
+      
+      if (enabled)
+      {
+        button.eventMode = 'static';
+        button.cursor = 'pointer';
+        button.on('pointerdown', onClick);
+      }
+      
+      this.actionButtons!.addChild(button);
+    });
+    
+    this.addChild(this.actionButtons);
+  }
+  
+  /**
+   * Redraw the action row and title after banish mode changes
+   */
+  private refreshBanishMode(): void
+  {
+    this.titleText.text = this.banishMode ? 'BANISH WHICH CARD?' : 'LEVEL UP!';
+    this.titleText.style.fill = this.banishMode ? 0xff4444 : 0xffcc33;
+    
+    if (this.actionButtons)
+    {
+      this.actionButtons.destroy({ children: true });
+      this.actionButtons = null;
+    }
+    this.createActionButtons();
+  }
+  
+  /**
+   * Deal a new hand (no-op without rerolls left)
+   */
+  reroll(): void
+  {
+    if (!this.visible || !this.charges || this.charges.reroll <= 0)
+    {
+      return;
+    }
+    
+    this.onChoiceCallback({ type: 'reroll' });
+  }
+  
+  /**
+   * Switch banish mode: the next card picked is banished instead of taken
+   */
+  toggleBanish(): void
+  {
+    if (!this.visible || !this.charges || (this.charges.banish <= 0 && !this.banishMode))
+    {
+      return;
+    }
+    
+    this.banishMode = !this.banishMode;
+    this.refreshBanishMode();
+  }
+  
+  /**
+   * Take the skip reward instead of a card (no-op without skips left)
+   */
+  skip(): void
+  {
+    if (!this.visible || !this.charges || this.charges.skip <= 0)
+    {
+      return;
+    }
+    
+    console.log('[LevelUpUI] Skipped');
+    
+    this.hide();
+    this.onChoiceCallback({ type: 'skip' });
+  }
+  
+  /**
+   * Handle card selection (banishes it in banish mode)
    */
   private onCardSelect(powerUpId: string): void
   {
+    if (this.banishMode)
+    {
+      console.log(`[LevelUpUI] Banished: ${powerUpId}`);
+      
+      this.onChoiceCallback({ type: 'banish', powerUpId });
+      return;
+    }
+    
     console.log(`[LevelUpUI] Selected: ${powerUpId}`);
     
     this.hide();
-    this.onCardSelectedCallback(powerUpId);
+    this.onChoiceCallback({ type: 'pick', powerUpId });
   }
   
   /**
@@ -156,6 +359,18 @@ export class LevelUpUI extends Container
     this.cards = [];
     
     this.removeChildren();
+    
+    if (this.cardsContainer)
+    {
+      this.cardsContainer.destroy();
+      this.cardsContainer = null;
+    }
+    
+    if (this.actionButtons)
+    {
+      this.actionButtons.destroy({ children: true });
+      this.actionButtons = null;
+    }
   }
   
   /**
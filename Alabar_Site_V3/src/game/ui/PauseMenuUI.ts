@@ -0,0 +1,348 @@
+/**
+ * PauseMenuUI.ts - Pause overlay (Escape / Start / HUD button)
+ * Shows run stats and the current build, audio volume settings and Resume / Restart / Quit
+ */
+
+import { Container, Graphics, Text, TextStyle } from 'pixi.js';
+import { AudioManager } from '../../managers/AudioManager';
+
+export interface PauseMenuConfig
+{
+  onResume: () => void;
+  onRestart: () => void;
+  onQuit: () => void;
+  onOpenControls: () => void;
+}
+
+/**
+ * Snapshot of the run shown while paused
+ */
+export interface PauseMenuInfo
+{
+  time: string;
+  level: number;
+  wave: number;
+  kills: number;
+  build: Array<{ name: string; level: number; maxLevel: number }>;
+  canQuit: boolean; // Run has started (before the chest breaks there is nothing to end)
+  showControls: boolean; // Key rebinding (hidden on touch screens)
+  notice?: string; // Why the game paused itself (auto-pause)
+}
+
+interface VolumeSetting
+{
+  label: string;
+  get: () => number;
+  set: (volume: number) => void;
+}
+
+const VOLUME_STEP = 0.1;
+
+export class PauseMenuUI extends Container
+{
+  private background: Graphics;
+  private frameContainer: Container; // Panel contents, centered and scaled to fit
+  private panel: Graphics;
+  private titleText: Text;
+  private statsText: Text;
+  private noticeText: Text;
+  private buildTitleText: Text;
+  private buildText: Text;
+  private settingsTitleText: Text;
+  private buttonsContainer: Container;
+  private settingsContainer: Container;
+
+  private config: PauseMenuConfig;
+  private info: PauseMenuInfo | null = null;
+
+  private screenWidth: number = 0;
+  private screenHeight: number = 0;
+
+  private readonly PANEL_WIDTH = 720;
+  private readonly PANEL_HEIGHT = 400;
+  private readonly BUILD_ROWS = 10;
+
+  constructor(config: PauseMenuConfig)
+  {
+    super();
+
+    this.config = config;
+    this.visible = false;
+    this.zIndex = 15000; // Above the HUD and level-up, below game over / shop / controls
+
+    this.background = new Graphics();
+    this.background.eventMode = 'static'; // Block clicks to the game underneath
+    this.addChild(this.background);
+
+    this.frameContainer = new Container();
+    this.addChild(this.frameContainer);
+
+    this.panel = new Graphics();
+    this.panel.rect(-this.PANEL_WIDTH / 2, -this.PANEL_HEIGHT / 2, this.PANEL_WIDTH, this.PANEL_HEIGHT);
+    this.panel.fill({ color: 0x1a1a2e });
+    this.panel.stroke({ color: 0xffcc33, width: 4 });
+    this.frameContainer.addChild(this.panel);
+
+    const leftX = -this.PANEL_WIDTH / 4;
+    const rightX = this.PANEL_WIDTH / 4;
+    const top = -this.PANEL_HEIGHT / 2;
+
+    this.titleText = new Text({
+      text: 'PAUSED',
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 40,
+        fontWeight: 'bold',
+        fill: '#FFCC33',
+        stroke: { color: '#000000', width: 4 }
+      })
+    });
+    this.titleText.anchor.set(0.5, 0.5);
+    this.titleText.position.set(leftX, top + 40);
+    this.frameContainer.addChild(this.titleText);
+
+    this.statsText = new Text({
+      text: '',
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 16,
+        fill: '#FFFFFF',
+        align: 'center',
+        lineHeight: 22
+      })
+    });
+    this.statsText.anchor.set(0.5, 0);
+    this.statsText.position.set(leftX, top + 76);
+    this.frameContainer.addChild(this.statsText);
+
+    this.noticeText = new Text({
+      text: '',
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 14,
+        fontStyle: 'italic',
+        fill: '#FFCC33',
+        align: 'center',
+        wordWrap: true,
+        wordWrapWidth: this.PANEL_WIDTH / 2 - 40
+      })
+    });
+    this.noticeText.anchor.set(0.5, 0.5);
+    this.noticeText.position.set(leftX, top + 368);
+    this.frameContainer.addChild(this.noticeText);
+
+    this.buttonsContainer = new Container();
+    this.buttonsContainer.position.set(leftX, top + 200);
+    this.frameContainer.addChild(this.buttonsContainer);
+
+    this.buildTitleText = new Text({
+      text: 'BUILD',
+      style: new TextStyle({ fontFamily: 'Arial, sans-serif', fontSize: 20, fontWeight: 'bold', fill: '#FFCC33' })
+    });
+    this.buildTitleText.anchor.set(0.5, 0.5);
+    this.buildTitleText.position.set(rightX, top + 30);
+    this.frameContainer.addChild(this.buildTitleText);
+
+    this.buildText = new Text({
+      text: '',
+      style: new TextStyle({ fontFamily: 'Arial, sans-serif', fontSize: 14, fill: '#DDDDDD', lineHeight: 18 })
+    });
+    this.buildText.anchor.set(0.5, 0);
+    this.buildText.position.set(rightX, top + 48);
+    this.frameContainer.addChild(this.buildText);
+
+    this.settingsTitleText = new Text({
+      text: 'SETTINGS',
+      style: new TextStyle({ fontFamily: 'Arial, sans-serif', fontSize: 20, fontWeight: 'bold', fill: '#FFCC33' })
+    });
+    this.settingsTitleText.anchor.set(0.5, 0.5);
+    this.settingsTitleText.position.set(rightX, top + 240);
+    this.frameContainer.addChild(this.settingsTitleText);
+
+    this.settingsContainer = new Container();
+    this.settingsContainer.position.set(rightX, top + 270);
+    this.frameContainer.addChild(this.settingsContainer);
+
+    console.log('[PauseMenuUI] Initialized');
+  }
+
+  /**
+   * Show pause menu with the current run
+   */
+  show(info: PauseMenuInfo): void
+  {
+    this.info = info;
+
+    this.noticeText.text = info.notice ?? '';
+    this.statsText.text = `Time: ${info.time}\nLevel ${info.level}  -  Wave ${info.wave}\nKills: ${info.kills}`;
+
+    const rows = info.build
+      .slice(0, this.BUILD_ROWS)
+      .map(p => `${p.name}  ${p.level >= p.maxLevel ? 'MAX' : `Lv.${p.level}`}`);
+    if (info.build.length > this.BUILD_ROWS)
+    {
+      rows.push(`+${info.build.length - this.BUILD_ROWS} more`);
+    }
+    this.buildText.text = rows.length > 0 ? rows.join('\n') : 'Nothing yet';
+
+    this.refreshButtons();
+    this.refreshSettings();
+    this.visible = true;
+  }
+
+  /**
+   * Hide pause menu
+   */
+  hide(): void
+  {
+    this.visible = false;
+  }
+
+  /**
+   * Resume / Restart / Quit (Quit only once the run has started)
+   */
+  private refreshButtons(): void
+  {
+    for (const child of this.buttonsContainer.removeChildren())
+    {
+      child.destroy({ children: true });
+    }
+
+    const buttons: Array<{ label: string; color: number; onClick: () => void }> = [
+      { label: 'RESUME', color: 0xFFCC33, onClick: this.config.onResume },
+      { label: 'RESTART', color: 0x2a2a4e, onClick: this.config.onRestart }
+    ];
+
+    if (this.info?.canQuit)
+    {
+      buttons.push({ label: 'QUIT RUN', color: 0x8B0000, onClick: this.config.onQuit });
+    }
+
+    buttons.forEach((button, index) => {
+      const container = this.createButton(button.label, 180, 40, button.color, button.onClick);
+      container.y = index * 52;
+      this.buttonsContainer.addChild(container);
+    });
+  }
+
+  /**
+   * Volume rows (- / +), mute toggle and the controls screen button
+   */
+  private refreshSettings(): void
+  {
+    const audio = AudioManager.getInstance();
+
+    for (const child of this.settingsContainer.removeChildren())
+    {
+      child.destroy({ children: true });
+    }
+
+    const volumes: VolumeSetting[] = [
+      { label: 'Master', get: () => audio.getMasterVolume(), set: v => audio.setMasterVolume(v) },
+      { label: 'Music', get: () => audio.getMusicVolume(), set: v => audio.setMusicVolume(v) },
+      { label: 'Effects', get: () => audio.getSfxVolume(), set: v => audio.setSfxVolume(v) }
+    ];
+
+    volumes.forEach((volume, index) => {
+      const row = new Container();
+      row.y = index * 30;
+
+      const label = new Text({
+        text: `${volume.label}: ${Math.round(volume.get() * 100)}%`,
+        style: new TextStyle({ fontFamily: 'Arial, sans-serif', fontSize: 15, fontWeight: 'bold', fill: '#FFFFFF' })
+      });
+      label.anchor.set(0, 0.5);
+      label.x = -140;
+      row.addChild(label);
+
+      const change = (step: number) => {
+        volume.set(Math.round((volume.get() + step) * 10) / 10);
+        this.refreshSettings();
+      };
+
+      const minus = this.createButton('-', 32, 24, 0x2a2a4e, () => change(-VOLUME_STEP));
+      minus.x = 70;
+      row.addChild(minus);
+
+      const plus = this.createButton('+', 32, 24, 0x2a2a4e, () => change(VOLUME_STEP));
+      plus.x = 110;
+      row.addChild(plus);
+
+      this.settingsContainer.addChild(row);
+    });
+
+    const bottomY = volumes.length * 30 + 6;
+    const muteButton = this.createButton(audio.isMuted() ? 'UNMUTE' : 'MUTE', 110, 28, 0x2a2a4e, () => {
+      audio.toggleMute();
+      this.refreshSettings();
+    });
+    muteButton.position.set(this.info?.showControls ? -60 : 0, bottomY);
+    this.settingsContainer.addChild(muteButton);
+
+    if (this.info?.showControls)
+    {
+      const controlsButton = this.createButton('CONTROLS', 110, 28, 0x2a2a4e, this.config.onOpenControls);
+      controlsButton.position.set(60, bottomY);
+      this.settingsContainer.addChild(controlsButton);
+    }
+  }
+
+  /**
+   * Create a clickable button centered on 0,0
+   */
+  private createButton(label: string, width: number, height: number, color: number, onClick: () => void): Container
+  {
+    const button = new Container();
+    button.eventMode = 'static';
+    button.cursor = 'pointer';
+
+    const buttonBg = new Graphics();
+    buttonBg.roundRect(-width / 2, -height / 2, width, height, 6);
+    buttonBg.fill({ color });
+    buttonBg.stroke({ color: 0x000000, width: 2 });
+    button.addChild(buttonBg);
+
+    const buttonText = new Text({
+      text: label,
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 16,
+        fontWeight: 'bold',
+        fill: color === 0xFFCC33 ? '#1a1a2e' : '#FFFFFF'
+      })
+    });
+    buttonText.anchor.set(0.5, 0.5);
+    button.addChild(buttonText);
+
+    button.on('pointerover', () => { button.alpha = 0.85; });
+    button.on('pointerout', () => { button.alpha = 1; });
+    button.on('pointerdown', onClick);
+    return button;
+  }
+
+  /**
+   * Update positions based on screen size (panel scaled down on small screens)
+   */
+  resize(width: number, height: number): void
+  {
+    this.screenWidth = width;
+    this.screenHeight = height;
+
+    this.background.clear();
+    this.background.rect(0, 0, this.screenWidth, this.screenHeight);
+    this.background.fill({ color: 0x000000, alpha: 0.75 });
+
+    const scale = Math.min(1, (width - 20) / this.PANEL_WIDTH, (height - 20) / this.PANEL_HEIGHT);
+    this.frameContainer.scale.set(scale);
+    this.frameContainer.position.set(width / 2, height / 2);
+  }
+
+  /**
+   * Cleanup
+   */
+  destroy(options?: any): void
+  {
+    this.info = null;
+    super.destroy({ children: true, ...options });
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * ResumeRunUI.ts - Offer to continue the run saved when the player left the home page
+ */
+
+import { Container, Graphics, Text, TextStyle } from 'pixi.js';
+
+export interface ResumeRunConfig
+{
+  onResume: () => void;
+  onNewRun: () => void;
+}
+
+/**
+ * Summary of the saved run
+ */
+export interface ResumeRunInfo
+{
+  time: string;
+  level: number;
+  wave: number;
+  kills: number;
+}
+
+export class ResumeRunUI extends Container
+{
+  private background: Graphics;
+  private frameContainer: Container; // Panel contents, centered and scaled to fit
+  private panel: Graphics;
+  private titleText: Text;
+  private summaryText: Text;
+
+  private readonly PANEL_WIDTH = 420;
+  private readonly PANEL_HEIGHT = 240;
+
+  constructor(config: ResumeRunConfig)
+  {
+    super();
+
+    this.visible = false;
+    this.zIndex = 15000; // Same layer as the pause menu
+
+    this.background = new Graphics();
+    this.background.eventMode = 'static'; // Block clicks to the game underneath
+    this.addChild(this.background);
+
+    this.frameContainer = new Container();
+    this.addChild(this.frameContainer);
+
+    this.panel = new Graphics();
+    this.panel.rect(-this.PANEL_WIDTH / 2, -this.PANEL_HEIGHT / 2, this.PANEL_WIDTH, this.PANEL_HEIGHT);
+    this.panel.fill({ color: 0x1a1a2e });
+    this.panel.stroke({ color: 0xffcc33, width: 4 });
+    this.frameContainer.addChild(this.panel);
+
+    const top = -this.PANEL_HEIGHT / 2;
+
+    this.titleText = new Text({
+      text: 'RESUME RUN?',
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 36,
+        fontWeight: 'bold',
+        fill: '#FFCC33',
+        stroke: { color: '#000000', width: 4 }
+      })
+    });
+    this.titleText.anchor.set(0.5, 0.5);
+    this.titleText.position.set(0, top + 40);
+    this.frameContainer.addChild(this.titleText);
+
+    this.summaryText = new Text({
+      text: '',
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 16,
+        fill: '#FFFFFF',
+        align: 'center',
+        lineHeight: 22
+      })
+    });
+    this.summaryText.anchor.set(0.5, 0);
+    this.summaryText.position.set(0, top + 72);
+    this.frameContainer.addChild(this.summaryText);
+
+    const resumeButton = this.createButton('RESUME', 0xFFCC33, config.onResume);
+    resumeButton.position.set(-100, top + this.PANEL_HEIGHT - 44);
+    this.frameContainer.addChild(resumeButton);
+
+    const newRunButton = this.createButton('NEW RUN', 0x2a2a4e, config.onNewRun);
+    newRunButton.position.set(100, top + this.PANEL_HEIGHT - 44);
+    this.frameContainer.addChild(newRunButton);
+
+    console.log('[ResumeRunUI] Initialized');
+  }
+
+  /**
+   * Show the saved run
+   */
+  show(info: ResumeRunInfo): void
+  {
+    this.summaryText.text = `You left a run in progress\nTime: ${info.time}  -  Level ${info.level}\nWave ${info.wave}  -  Kills: ${info.kills}`;
+    this.visible = true;
+  }
+
+  /**
+   * Hide prompt
+   */
+  hide(): void
+  {
+    this.visible = false;
+  }
+
+  /**
+   * Create a clickable button centered on 0,0
+   */
+  private createButton(label: string, color: number, onClick: () => void): Container
+  {
+    const button = new Container();
+    button.eventMode = 'static';
+    button.cursor = 'pointer';
+
+    const buttonBg = new Graphics();
+    buttonBg.roundRect(-80, -20, 160, 40, 6);
+    buttonBg.fill({ color });
+    buttonBg.stroke({ color: 0x000000, width: 2 });
+    button.addChild(buttonBg);
+
+    const buttonText = new Text({
+      text: label,
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 18,
+        fontWeight: 'bold',
+        fill: color === 0xFFCC33 ? '#1a1a2e' : '#FFFFFF'
+      })
+    });
+    buttonText.anchor.set(0.5, 0.5);
+    button.addChild(buttonText);
+
+    button.on('pointerover', () => { button.alpha = 0.85; });
+    button.on('pointerout', () => { button.alpha = 1; });
+    button.on('pointerdown', onClick);
+    return button;
+  }
+
+  /**
+   * Update positions based on screen size (panel scaled down on small screens)
+   */
+  resize(width: number, height: number): void
+  {
+    this.background.clear();
+    this.background.rect(0, 0, width, height);
+    this.background.fill({ color: 0x000000, alpha: 0.75 });
+
+    const scale = Math.min(1, (width - 20) / this.PANEL_WIDTH, (height - 20) / this.PANEL_HEIGHT);
+    this.frameContainer.scale.set(scale);
+    this.frameContainer.position.set(width / 2, height / 2);
+  }
+
+  /**
+   * Cleanup
+   */
+  destroy(options?: any): void
+  {
+    super.destroy({ children: true, ...options });
+  }
+}
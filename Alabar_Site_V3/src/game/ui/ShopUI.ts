@@ -0,0 +1,290 @@
+/**
+ * ShopUI.ts - Meta progression shop modal
+ * Spend gold on permanent upgrades and weapon/power unlocks (applies from the next run)
+ */
+
+import { Container, Graphics, Text, TextStyle } from 'pixi.js';
+import { MetaProgression } from '../core/MetaProgression';
+import { SHOP_UNLOCKS, SHOP_UPGRADES } from '../configs/MetaShop';
+
+interface ShopRow
+{
+  name: string;
+  detail: string;
+  cost: number | null; // null = maxed / owned
+  onBuy: () => boolean;
+}
+
+export class ShopUI extends Container
+{
+  private background: Graphics;
+  private panel: Graphics;
+  private titleText: Text;
+  private goldText: Text;
+  private rowsContainer: Container;
+  private closeButton: Container;
+  private closeButtonBg: Graphics;
+
+  private onCloseCallback: (() => void) | null = null;
+
+  private screenWidth: number = 0;
+  private screenHeight: number = 0;
+
+  private readonly PANEL_WIDTH = 520;
+  private readonly ROW_HEIGHT = 34;
+
+  constructor()
+  {
+    super();
+
+    this.visible = false;
+    this.zIndex = 21000; // Above game over UI
+
+    this.background = new Graphics();
+    this.background.eventMode = 'static'; // Block clicks to the game over UI underneath
+    this.addChild(this.background);
+
+    this.panel = new Graphics();
+    this.addChild(this.panel);
+
+    this.titleText = new Text({
+      text: 'SHOP',
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 36,
+        fontWeight: 'bold',
+        fill: '#FFCC33',
+        stroke: { color: '#000000', width: 4 }
+      })
+    });
+    this.titleText.anchor.set(0.5, 0.5);
+    this.addChild(this.titleText);
+
+    this.goldText = new Text({
+      text: 'Gold: 0',
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 18,
+        fontWeight: 'bold',
+        fill: '#FFFFFF'
+      })
+    });
+    this.goldText.anchor.set(0.5, 0.5);
+    this.addChild(this.goldText);
+
+    this.rowsContainer = new Container();
+    this.addChild(this.rowsContainer);
+
+    // Close button
+    this.closeButton = new Container();
+    this.closeButton.eventMode = 'static';
+    this.closeButton.cursor = 'pointer';
+
+    this.closeButtonBg = new Graphics();
+    this.drawButton(this.closeButtonBg, 120, 36, 0xFFCC33);
+    this.closeButton.addChild(this.closeButtonBg);
+
+    const closeText = new Text({
+      text: 'BACK',
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 18,
+        fontWeight: 'bold',
+        fill: '#1a1a2e'
+      })
+    });
+    closeText.anchor.set(0.5, 0.5);
+    this.closeButton.addChild(closeText);
+    this.addChild(this.closeButton);
+
+    this.closeButton.on('pointerover', () => this.drawButton(this.closeButtonBg, 120, 36, 0xFFDD55));
+    this.closeButton.on('pointerout', () => this.drawButton(this.closeButtonBg, 120, 36, 0xFFCC33));
+    this.closeButton.on('pointerdown', () => {
+      this.hide();
+      if (this.onCloseCallback)
+      {
+        this.onCloseCallback();
+      }
+    });
+
+    console.log('[ShopUI] Initialized');
+  }
+
+  /**
+   * Show shop
+   */
+  show(onClose?: () => void): void
+  {
+    this.onCloseCallback = onClose ?? null;
+    this.refresh();
+    this.visible = true;
+  }
+
+  /**
+   * Hide shop
+   */
+  hide(): void
+  {
+    this.visible = false;
+  }
+
+  /**
+   * Rebuild rows from current save (after every purchase)
+   */
+  private refresh(): void
+  {
+    const meta = MetaProgression.getInstance();
+
+    this.goldText.text = `Gold: ${meta.getGold()}`;
+
+    const rows: ShopRow[] = [];
+
+    for (const upgrade of SHOP_UPGRADES)
+    {
+      const rank = meta.getUpgradeRank(upgrade.id);
+      rows.push({
+        name: `${upgrade.name} ${rank}/${upgrade.costs.length}`,
+        detail: upgrade.description,
+        cost: meta.getNextUpgradeCost(upgrade),
+        onBuy: () => meta.buyUpgrade(upgrade)
+      });
+    }
+
+    for (const unlock of SHOP_UNLOCKS)
+    {
+      rows.push({
+        name: unlock.name,
+        detail: unlock.description,
+        cost: meta.isUnlocked(unlock.id) ? null : unlock.cost,
+        onBuy: () => meta.buyUnlock(unlock)
+      });
+    }
+
+    for (const child of this.rowsContainer.removeChildren())
+    {
+      child.destroy({ children: true });
+    }
+
+    rows.forEach((row, index) => {
+      const rowContainer = this.createRow(row, meta.getGold());
+      rowContainer.y = index * this.ROW_HEIGHT;
+      this.rowsContainer.addChild(rowContainer);
+    });
+
+    this.layout();
+  }
+
+  /**
+   * Create one shop row (name, description, buy button)
+   */
+  private createRow(row: ShopRow, gold: number): Container
+  {
+    const container = new Container();
+    const left = -this.PANEL_WIDTH / 2 + 24;
+
+    const nameText = new Text({
+      text: row.name,
+      style: new TextStyle({ fontFamily: 'Arial, sans-serif', fontSize: 16, fontWeight: 'bold', fill: '#FFFFFF' })
+    });
+    nameText.position.set(left, -14);
+    container.addChild(nameText);
+
+    const detailText = new Text({
+      text: row.detail,
+      style: new TextStyle({ fontFamily: 'Arial, sans-serif', fontSize: 12, fill: '#AAAAAA' })
+    });
+    detailText.position.set(left, 2);
+    container.addChild(detailText);
+
+    const button = new Container();
+    button.position.set(this.PANEL_WIDTH / 2 - 80, 0);
+
+    const affordable = row.cost !== null && row.cost <= gold;
+    const buttonBg = new Graphics();
+    this.drawButton(buttonBg, 100, 28, row.cost === null ? 0x2a4e2a : affordable ? 0xFFCC33 : 0x444444);
+    button.addChild(buttonBg);
+
+    const buttonText = new Text({
+      text: row.cost === null ? 'OWNED' : `${row.cost} G`,
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 14,
+        fontWeight: 'bold',
+        fill: affordable ? '#1a1a2e' : '#CCCCCC'
+      })
+    });
+    buttonText.anchor.set(0.5, 0.5);
+    button.addChild(buttonText);
+
+    if (affordable)
+    {
+      button.eventMode = 'static';
+      button.cursor = 'pointer';
+      button.on('pointerdown', () => {
+        if (row.onBuy())
+        {
+          this.refresh();
+        }
+      });
+    }
+
+    container.addChild(button);
+    return container;
+  }
+
+  /**
+   * Draw a rounded button background centered on 0,0
+   */
+  private drawButton(graphics: Graphics, width: number, height: number, color: number): void
+  {
+    graphics.clear();
+    graphics.roundRect(-width / 2, -height / 2, width, height, 6);
+    graphics.fill({ color });
+    graphics.stroke({ color: 0x000000, width: 2 });
+  }
+
+  /**
+   * Position everything for the current screen size
+   */
+  private layout(): void
+  {
+    const centerX = this.screenWidth / 2;
+    const centerY = this.screenHeight / 2;
+    const rowCount = this.rowsContainer.children.length;
+    const panelHeight = 130 + rowCount * this.ROW_HEIGHT;
+    const top = centerY - panelHeight / 2;
+
+    this.background.clear();
+    this.background.rect(0, 0, this.screenWidth, this.screenHeight);
+    this.background.fill({ color: 0x000000, alpha: 0.85 });
+
+    this.panel.clear();
+    this.panel.rect(centerX - this.PANEL_WIDTH / 2, top, this.PANEL_WIDTH, panelHeight);
+    this.panel.fill({ color: 0x1a1a2e });
+    this.panel.stroke({ color: 0xffcc33, width: 4 });
+
+    this.titleText.position.set(centerX, top + 26);
+    this.goldText.position.set(centerX, top + 54);
+    this.rowsContainer.position.set(centerX, top + 86);
+    this.closeButton.position.set(centerX, top + panelHeight - 26);
+  }
+
+  /**
+   * Update positions based on screen size
+   */
+  resize(width: number, height: number): void
+  {
+    this.screenWidth = width;
+    this.screenHeight = height;
+    this.layout();
+  }
+
+  /**
+   * Cleanup
+   */
+  destroy(options?: any): void
+  {
+    this.onCloseCallback = null;
+    super.destroy({ children: true, ...options });
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * TouchControls.ts - On-canvas virtual joystick and attack button
+ * Shown on touch screens; feeds InputManager so touch runs record and replay like keyboard ones
+ */
+
+import { Container, FederatedPointerEvent, Graphics, Text, TextStyle } from 'pixi.js';
+import { InputManager } from '../core/Input';
+import { MoveVector } from '../systems/Movement';
+
+export class TouchControls extends Container
+{
+  private joystickBase: Graphics;
+  private joystickKnob: Graphics;
+  private attackButton: Container;
+  private attackButtonBg: Graphics;
+
+  // Active touches (multi-touch: move and attack at the same time)
+  private joystickPointerId: number | null = null;
+  private attackPointerId: number | null = null;
+
+  private move: MoveVector = { x: 0, y: 0 };
+  private attacking: boolean = false;
+
+  private readonly JOYSTICK_RADIUS = 60;
+  private readonly KNOB_RADIUS = 26;
+  private readonly ATTACK_RADIUS = 44;
+  private readonly DEADZONE = 0.3; // Fraction of the joystick radius
+  private readonly MARGIN = 30;
+
+  constructor()
+  {
+    super();
+
+    this.zIndex = 9000; // Above the game, below level-up / game over UI
+    this.eventMode = 'static';
+
+    // Joystick
+    this.joystickBase = new Graphics();
+    this.joystickBase.circle(0, 0, this.JOYSTICK_RADIUS);
+    this.joystickBase.fill({ color: 0x000000, alpha: 0.25 });
+    this.joystickBase.stroke({ color: 0xFFCC33, width: 3, alpha: 0.6 });
+    this.joystickBase.eventMode = 'static';
+    this.addChild(this.joystickBase);
+
+    this.joystickKnob = new Graphics();
+    this.joystickKnob.circle(0, 0, this.KNOB_RADIUS);
+    this.joystickKnob.fill({ color: 0xFFCC33, alpha: 0.7 });
+    this.joystickBase.addChild(this.joystickKnob);
+
+    // Attack button
+    this.attackButton = new Container();
+    this.attackButton.eventMode = 'static';
+
+    this.attackButtonBg = new Graphics();
+    this.drawAttackButton(false);
+    this.attackButton.addChild(this.attackButtonBg);
+
+    const attackText = new Text({
+      text: 'ATK',
+      style: new TextStyle({
+        fontFamily: 'Arial, sans-serif',
+        fontSize: 20,
+        fontWeight: 'bold',
+        fill: '#FFFFFF',
+        stroke: { color: '#000000', width: 3 }
+      })
+    });
+    attackText.anchor.set(0.5, 0.5);
+    this.attackButton.addChild(attackText);
+    this.addChild(this.attackButton);
+
+    this.joystickBase.on('pointerdown', this.onJoystickDown, this);
+    this.attackButton.on('pointerdown', this.onAttackDown, this);
+    this.on('globalpointermove', this.onPointerMove, this);
+    this.on('pointerup', this.onPointerUp, this);
+    this.on('pointerupoutside', this.onPointerUp, this);
+
+    console.log('[TouchControls] Initialized');
+  }
+
+  /**
+   * True on devices whose main pointer is a finger
+   */
+  static isTouchDevice(): boolean
+  {
+    return typeof window !== 'undefined' &&
+      typeof window.matchMedia === 'function' &&
+      window.matchMedia('(pointer: coarse)').matches;
+  }
+
+  private drawAttackButton(pressed: boolean): void
+  {
+    this.attackButtonBg.clear();
+    this.attackButtonBg.circle(0, 0, this.ATTACK_RADIUS);
+    this.attackButtonBg.fill({ color: pressed ? 0xFFCC33 : 0x8B0000, alpha: pressed ? 0.8 : 0.5 });
+    this.attackButtonBg.stroke({ color: 0xFFCC33, width: 3, alpha: 0.6 });
+  }
+
+  private onJoystickDown(event: FederatedPointerEvent): void
+  {
+    this.joystickPointerId = event.pointerId;
+    this.updateKnob(event);
+  }
+
+  private onAttackDown(event: FederatedPointerEvent): void
+  {
+    this.attackPointerId = event.pointerId;
+    this.attacking = true;
+    this.drawAttackButton(true);
+    this.pushInput();
+  }
+
+  private onPointerMove(event: FederatedPointerEvent): void
+  {
+    if (event.pointerId === this.joystickPointerId)
+    {
+      this.updateKnob(event);
+    }
+  }
+
+  private onPointerUp(event: FederatedPointerEvent): void
+  {
+    if (event.pointerId === this.joystickPointerId)
+    {
+      this.joystickPointerId = null;
+      this.joystickKnob.position.set(0, 0);
+      this.move = { x: 0, y: 0 };
+      this.pushInput();
+    }
+
+    if (event.pointerId === this.attackPointerId)
+    {
+      this.attackPointerId = null;
+      this.attacking = false;
+      this.drawAttackButton(false);
+      this.pushInput();
+    }
+  }
+
+  /**
+   * Move the knob under the finger and derive an analog move (knob offset / radius)
+   */
+  private updateKnob(event: FederatedPointerEvent): void
+  {
+    const local = this.joystickBase.toLocal(event.global);
+    const distance = Math.sqrt(local.x * local.x + local.y * local.y);
+    const clamp = distance > this.JOYSTICK_RADIUS ? this.JOYSTICK_RADIUS / distance : 1;
+
+    this.joystickKnob.position.set(local.x * clamp, local.y * clamp);
+
+    if (distance < this.JOYSTICK_RADIUS * this.DEADZONE)
+    {
+      this.move = { x: 0, y: 0 };
+    }
+    else
+    {
+      this.move = {
+        x: local.x * clamp / this.JOYSTICK_RADIUS,
+        y: local.y * clamp / this.JOYSTICK_RADIUS
+      };
+    }
+
+    this.pushInput();
+  }
+
+  private pushInput(): void
+  {
+    InputManager.getInstance().setTouchInput(this.move, this.attacking);
+  }
+
+  /**
+   * Release everything (controls hidden behind a menu)
+   */
+  release(): void
+  {
+    this.joystickPointerId = null;
+    this.attackPointerId = null;
+    this.joystickKnob.position.set(0, 0);
+    this.move = { x: 0, y: 0 };
+    this.attacking = false;
+    this.drawAttackButton(false);
+    this.pushInput();
+  }
+
+  /**
+   * Place joystick bottom-left and attack button bottom-right
+   */
+  resize(width: number, height: number): void
+  {
+    this.joystickBase.position.set(this.MARGIN + this.JOYSTICK_RADIUS, height - this.MARGIN - this.JOYSTICK_RADIUS);
+    this.attackButton.position.set(width - this.MARGIN - this.ATTACK_RADIUS, height - this.MARGIN - this.ATTACK_RADIUS);
+  }
+
+  /**
+   * Cleanup
+   */
+  destroy(options?: any): void
+  {
+    this.release();
+    this.removeAllListeners();
+    super.destroy({ children: true, ...options });
+  }
+}
@@ -3,7 +3,7 @@
  * Complete version with all game assets for Pixi.js 8.x
  */
 
-import { Assets, Texture, Spritesheet } from 'pixi.js';
+import { Assets, Texture, Spritesheet, UnresolvedAsset } from 'pixi.js';
 
 type MonsterInfo = { spritesheet: string; data: string };
 
@@ -24,6 +24,10 @@ interface AssetPaths
   };
   powers: { spritesheet: string; data: string };
   collectables: { spritesheet: string; data: string };
+  audio: {
+    sfx: Record<string, string>; // SfxName -> file
+    music: Partial<Record<'light' | 'dark', string>>; // Theme -> file
+  };
 }
 
 export class AssetManager
@@ -152,6 +156,12 @@ export class AssetManager
     collectables: {
       spritesheet: '/assets/images/collectables.webp',
       data: '/assets/images/collectables.json'
+    },
+    // List a sound only once its file is in public/assets/audio, unlisted sounds stay silent
+    // (e.g. sfx hit: '/assets/audio/sfx/hit.mp3', music light: '/assets/audio/music/day_theme.mp3')
+    audio: {
+      sfx: {},
+      music: {}
     }
   };
   
@@ -321,11 +331,28 @@ export class AssetManager
       { alias: 'cursor_night', src: this.assetPaths.ui.cursors.dark }
     );
     
+    // Audio (separate bundle, loaded by AudioManager after the game assets)
+    const audioAssets: UnresolvedAsset[] = [];
+    
+    for (const [key, path] of Object.entries(this.assetPaths.audio.sfx))
+    {
+      audioAssets.push({ alias: `sfx_${key}`, src: path });
+    }
+    
+    for (const [theme, path] of Object.entries(this.assetPaths.audio.music))
+    {
+      audioAssets.push({ alias: `music_${theme}`, src: path });
+    }
+    
     return {
       bundles: [
         {
           name: 'game-assets',
           assets: assets
+        },
+        {
+          name: 'audio-assets',
+          assets: audioAssets
         }
       ]
     };
@@ -400,6 +427,14 @@ export class AssetManager
     }
   }
   
+  /**
+   * Register a spritesheet built outside the loader (headless simulation)
+   */
+  registerSpritesheet(alias: string, spritesheet: Spritesheet): void
+  {
+    this.spritesheets.set(alias, spritesheet);
+  }
+  
   /**
    * Get a texture by alias
    */
@@ -0,0 +1,404 @@
+/**
+ * AudioManager - Background music and sound effects (Web Audio API)
+ * Sounds load through the AssetManager manifest ('audio-assets' bundle)
+ * Volumes and mute are persisted in localStorage
+ */
+
+import { Assets, DOMAdapter, ExtensionType, LoaderParser, LoaderParserPriority, extensions } from 'pixi.js';
+import { AssetManager } from './AssetManager';
+
+type Theme = 'light' | 'dark';
+
+export type SfxName =
+  | 'throw' | 'hit'
+  | 'pickup_crystal' | 'pickup_food' | 'pickup_star' | 'pickup_skull'
+  | 'level_up' | 'chest_break' | 'player_death';
+
+interface AudioSettings
+{
+  master: number;
+  music: number;
+  sfx: number;
+  muted: boolean;
+}
+
+const STORAGE_KEY = 'alabar_audio';
+const DEFAULT_SETTINGS: AudioSettings = { master: 0.8, music: 0.5, sfx: 0.8, muted: false };
+
+const AUDIO_EXTENSIONS = ['.mp3', '.ogg', '.wav'];
+
+/**
+ * Minimum time between two plays of the same effect (ms) - hits land many per frame
+ */
+const SFX_COOLDOWNS: Partial<Record<SfxName, number>> = {
+  throw: 60,
+  hit: 50,
+  pickup_crystal: 40
+};
+
+/**
+ * Pixi loader parser: fetch + decode audio files into AudioBuffers
+ */
+const loadAudio: LoaderParser<AudioBuffer> = {
+  name: 'loadAudio',
+  id: 'audio',
+  extension: {
+    type: ExtensionType.LoadParser,
+    priority: LoaderParserPriority.Normal,
+    name: 'loadAudio'
+  },
+  test(url: string): boolean
+  {
+    const path = url.split('?')[0].toLowerCase();
+    return AUDIO_EXTENSIONS.some(ext => path.endsWith(ext));
+  },
+  async load<T>(url: string): Promise<AudioBuffer | T>
+  {
+    const context = AudioManager.getInstance().getContext();
+    if (!context)
+    {
+      throw new Error('Web Audio not available');
+    }
+
+    const response = await DOMAdapter.get().fetch(url);
+    return context.decodeAudioData(await response.arrayBuffer());
+  }
+};
+
+extensions.add(loadAudio);
+
+export class AudioManager
+{
+  private static instance: AudioManager;
+
+  private context: AudioContext | null = null;
+  private masterGain: GainNode | null = null;
+  private musicGain: GainNode | null = null;
+  private sfxGain: GainNode | null = null;
+
+  private settings: AudioSettings;
+  private sfxBuffers: Map<SfxName, AudioBuffer> = new Map();
+  private musicBuffers: Map<Theme, AudioBuffer> = new Map();
+  private lastPlayed: Map<SfxName, number> = new Map();
+
+  // Current music track (kept so it can be faded out)
+  private currentMusic: { theme: Theme; source: AudioBufferSourceNode; gain: GainNode } | null = null;
+  private requestedTheme: Theme | null = null;
+
+  // Positional SFX: listener is the player, volume falls off with distance
+  private listenerX: number = 0;
+  private listenerY: number = 0;
+  private hasListener: boolean = false;
+
+  private readonly CROSSFADE_DURATION = 1.5; // Seconds
+  private readonly FALLOFF_DISTANCE = 900; // Pixels at which SFX reach minimum volume
+  private readonly MIN_POSITIONAL_VOLUME = 0.15;
+  private readonly MAX_PAN = 0.6;
+
+  private unlockListener = (): void =>
+  {
+    this.context?.resume();
+    window.removeEventListener('pointerdown', this.unlockListener);
+    window.removeEventListener('keydown', this.unlockListener);
+  };
+
+  private constructor()
+  {
+    this.settings = this.loadSettings();
+
+    if (typeof AudioContext === 'undefined')
+    {
+      console.warn('[AudioManager] Web Audio not available, running silent');
+      return;
+    }
+
+    this.context = new AudioContext();
+
+    this.masterGain = this.context.createGain();
+    this.masterGain.connect(this.context.destination);
+
+    this.musicGain = this.context.createGain();
+    this.musicGain.connect(this.masterGain);
+
+    this.sfxGain = this.context.createGain();
+    this.sfxGain.connect(this.masterGain);
+
+    this.applyVolumes();
+
+    // Browsers keep the context suspended until the first user gesture
+    window.addEventListener('pointerdown', this.unlockListener);
+    window.addEventListener('keydown', this.unlockListener);
+  }
+
+  static getInstance(): AudioManager
+  {
+    if (!AudioManager.instance)
+    {
+      AudioManager.instance = new AudioManager();
+    }
+    return AudioManager.instance;
+  }
+
+  getContext(): AudioContext | null
+  {
+    return this.context;
+  }
+
+  /**
+   * Load every sound in the audio bundle (missing files are skipped, the game stays silent for them)
+   */
+  async loadAll(): Promise<void>
+  {
+    if (!this.context)
+    {
+      return;
+    }
+
+    const audioPaths = AssetManager.getInstance().getAssetPaths().audio;
+
+    const sfxLoads = Object.keys(audioPaths.sfx).map(async (name) =>
+    {
+      const buffer = await Assets.load<AudioBuffer>(`sfx_${name}`);
+      this.sfxBuffers.set(name as SfxName, buffer);
+    });
+
+    const musicLoads = (Object.keys(audioPaths.music) as Theme[]).map(async (theme) =>
+    {
+      const buffer = await Assets.load<AudioBuffer>(`music_${theme}`);
+      this.musicBuffers.set(theme, buffer);
+    });
+
+    const results = await Promise.allSettled([...sfxLoads, ...musicLoads]);
+    const failed = results.filter(r => r.status === 'rejected').length;
+
+    if (failed > 0)
+    {
+      console.warn(`[AudioManager] ${failed} sounds failed to load`);
+    }
+
+    console.log(`[AudioManager] Loaded ${this.sfxBuffers.size} SFX, ${this.musicBuffers.size} music tracks`);
+
+    // Music may have been requested before its track finished loading
+    if (this.requestedTheme && !this.currentMusic)
+    {
+      this.playMusic(this.requestedTheme);
+    }
+  }
+
+  /**
+   * Play a sound effect, optionally at a world position (volume/pan relative to the listener)
+   */
+  playSfx(name: SfxName, position?: { x: number; y: number }): void
+  {
+    if (!this.context || !this.sfxGain || this.settings.muted)
+    {
+      return;
+    }
+
+    const buffer = this.sfxBuffers.get(name);
+    if (!buffer)
+    {
+      return;
+    }
+
+    const now = performance.now();
+    const cooldown = SFX_COOLDOWNS[name] ?? 0;
+    if (now - (this.lastPlayed.get(name) ?? -Infinity) < cooldown)
+    {
+      return;
+    }
+    this.lastPlayed.set(name, now);
+
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+
+    const gain = this.context.createGain();
+    const panner = this.context.createStereoPanner();
+
+    if (position && this.hasListener)
+    {
+      const dx = position.x - this.listenerX;
+      const dy = position.y - this.listenerY;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+
+      gain.gain.value = Math.max(this.MIN_POSITIONAL_VOLUME, 1 - distance / this.FALLOFF_DISTANCE);
+      panner.pan.value = Math.max(-1, Math.min(1, dx / this.FALLOFF_DISTANCE)) * this.MAX_PAN;
+    }
+
+    source.connect(gain);
+    gain.connect(panner);
+    panner.connect(this.sfxGain);
+    source.start();
+  }
+
+  /**
+   * Set listener position for positional SFX (player position)
+   */
+  setListenerPosition(x: number, y: number): void
+  {
+    this.listenerX = x;
+    this.listenerY = y;
+    this.hasListener = true;
+  }
+
+  /**
+   * Clear listener (no game running - SFX play at full volume)
+   */
+  clearListener(): void
+  {
+    this.hasListener = false;
+  }
+
+  /**
+   * Play the music track for a theme, crossfading from the current one
+   */
+  playMusic(theme: Theme): void
+  {
+    this.requestedTheme = theme;
+
+    if (!this.context || !this.musicGain || this.currentMusic?.theme === theme)
+    {
+      return;
+    }
+
+    const buffer = this.musicBuffers.get(theme);
+    if (!buffer)
+    {
+      return;
+    }
+
+    const now = this.context.currentTime;
+
+    // Fade out the old track, then stop it
+    if (this.currentMusic)
+    {
+      const old = this.currentMusic;
+      old.gain.gain.cancelScheduledValues(now);
+      old.gain.gain.setValueAtTime(old.gain.gain.value, now);
+      old.gain.gain.linearRampToValueAtTime(0, now + this.CROSSFADE_DURATION);
+      old.source.stop(now + this.CROSSFADE_DURATION);
+    }
+
+    // Fade in the new track
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+
+    const gain = this.context.createGain();
+    gain.gain.setValueAtTime(0, now);
+    gain.gain.linearRampToValueAtTime(1, now + this.CROSSFADE_DURATION);
+
+    source.connect(gain);
+    gain.connect(this.musicGain);
+    source.start(now);
+
+    this.currentMusic = { theme, source, gain };
+    console.log(`[AudioManager] Music: ${theme}`);
+  }
+
+  getMasterVolume(): number
+  {
+    return this.settings.master;
+  }
+
+  getMusicVolume(): number
+  {
+    return this.settings.music;
+  }
+
+  getSfxVolume(): number
+  {
+    return this.settings.sfx;
+  }
+
+  isMuted(): boolean
+  {
+    return this.settings.muted;
+  }
+
+  setMasterVolume(volume: number): void
+  {
+    this.settings.master = this.clampVolume(volume);
+    this.applyVolumes();
+    this.saveSettings();
+  }
+
+  setMusicVolume(volume: number): void
+  {
+    this.settings.music = this.clampVolume(volume);
+    this.applyVolumes();
+    this.saveSettings();
+  }
+
+  setSfxVolume(volume: number): void
+  {
+    this.settings.sfx = this.clampVolume(volume);
+    this.applyVolumes();
+    this.saveSettings();
+  }
+
+  setMuted(muted: boolean): void
+  {
+    this.settings.muted = muted;
+    this.applyVolumes();
+    this.saveSettings();
+  }
+
+  toggleMute(): boolean
+  {
+    this.setMuted(!this.settings.muted);
+    return this.settings.muted;
+  }
+
+  private clampVolume(volume: number): number
+  {
+    return Math.max(0, Math.min(1, volume));
+  }
+
+  /**
+   * Push settings into the gain nodes
+   */
+  private applyVolumes(): void
+  {
+    if (!this.masterGain || !this.musicGain || !this.sfxGain)
+    {
+      return;
+    }
+
+    this.masterGain.gain.value = this.settings.muted ? 0 : this.settings.master;
+    this.musicGain.gain.value = this.settings.music;
+    this.sfxGain.gain.value = this.settings.sfx;
+  }
+
+  /**
+   * Read settings from localStorage (defaults if missing/corrupt)
+   */
+  private loadSettings(): AudioSettings
+  {
+    if (typeof localStorage === 'undefined')
+    {
+      return { ...DEFAULT_SETTINGS };
+    }
+
+    try
+    {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : { ...DEFAULT_SETTINGS };
+    }
+    catch (error)
+    {
+      console.error('[AudioManager] Failed to load settings:', error);
+      return { ...DEFAULT_SETTINGS };
+    }
+  }
+
+  private saveSettings(): void
+  {
+    if (typeof localStorage === 'undefined')
+    {
+      return;
+    }
+
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+  }
+}
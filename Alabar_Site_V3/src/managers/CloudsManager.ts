@@ -5,6 +5,7 @@
 import { Application, Container, Sprite, Spritesheet, Ticker } from 'pixi.js';
 import { lerp } from '../utils/MathUtils';
 import { AssetManager } from './AssetManager';
+import { SeededRandom } from '../utils/Random';
 
 // Extend Container to include custom properties
 interface CloudSprite extends Sprite
@@ -85,13 +86,17 @@ export class CloudsManager
   // Lifecycle interval
   private cloudLifecycleInterval: number | null;
   
-  constructor(app: Application, backgroundGroup: Container, assetManager: AssetManager, sceneManager?: any)
+  // Random source for cloud placement
+  private random: SeededRandom;
+  
+  constructor(app: Application, backgroundGroup: Container, assetManager: AssetManager, sceneManager?: any, random?: SeededRandom)
   {
     // Store PixiJS references
     this.app = app;
     this.backgroundGroup = backgroundGroup;
     this.assetManager = assetManager;
     this.sceneManager = sceneManager;
+    this.random = random ?? new SeededRandom();
     
     // Cloud container
     this.cloudsContainer = new Container();
@@ -362,7 +367,7 @@ export class CloudsManager
     
     // Determine target number of clouds
     const targetCount = this.config.minClouds +
-      Math.floor(Math.random() * (this.config.maxClouds - this.config.minClouds + 1));
+      this.random.int(this.config.maxClouds - this.config.minClouds + 1);
     
     // Add new clouds if needed
     if (visibleCount < targetCount)
@@ -440,7 +445,7 @@ export class CloudsManager
   {
     // Get random cloud texture from spritesheet
     const textureNames = Object.keys(spritesheet.textures);
-    const randomTextureName = textureNames[Math.floor(Math.random() * textureNames.length)];
+    const randomTextureName = this.random.pick(textureNames);
     const texture = spritesheet.textures[randomTextureName];
     
     if (!texture)
@@ -452,16 +457,16 @@ export class CloudsManager
     const cloud = new Sprite(texture) as CloudSprite;
     
     // Random animation type
-    const animType = this.animationTypes[Math.floor(Math.random() * this.animationTypes.length)];
+    const animType = this.random.pick(this.animationTypes);
     
     // Random formation speed
-    const formationSpeed = this.formationSpeeds[Math.floor(Math.random() * this.formationSpeeds.length)];
+    const formationSpeed = this.random.pick(this.formationSpeeds);
     
     // Random opacity
-    const opacity = this.opacityLevels[Math.floor(Math.random() * this.opacityLevels.length)];
+    const opacity = this.random.pick(this.opacityLevels);
     
     // Random scale
-    const baseScale = this.config.minScale + Math.random() * (this.config.maxScale - this.config.minScale);
+    const baseScale = this.config.minScale + this.random.next() * (this.config.maxScale - this.config.minScale);
     const sceneScale = this.getSceneScale();
     const finalScale = baseScale * sceneScale;
     
@@ -488,7 +493,7 @@ export class CloudsManager
       sceneScale: sceneScale,
       startPosition: startPos,
       endPosition: endPos,
-      driftSlowState: { phase: Math.random() * Math.PI * 2 }
+      driftSlowState: { phase: this.random.next() * Math.PI * 2 }
     };
     
     // Add to container
@@ -511,27 +516,27 @@ export class CloudsManager
     {
       case 'driftLeftToRight':
         x = -200;
-        y = Math.random() * containerHeight * 0.6;
+        y = this.random.next() * containerHeight * 0.6;
         break;
         
       case 'driftRightToLeft':
         x = screenWidth + 200;
-        y = Math.random() * containerHeight * 0.6;
+        y = this.random.next() * containerHeight * 0.6;
         break;
         
       case 'driftDiagonalUp':
         x = -200;
-        y = containerHeight * 0.4 + Math.random() * containerHeight * 0.4;
+        y = containerHeight * 0.4 + this.random.next() * containerHeight * 0.4;
         break;
         
       case 'driftSlow':
-        x = Math.random() * screenWidth;
-        y = Math.random() * containerHeight * 0.5;
+        x = this.random.next() * screenWidth;
+        y = this.random.next() * containerHeight * 0.5;
         break;
         
       default:
-        x = Math.random() * screenWidth;
-        y = Math.random() * containerHeight * 0.5;
+        x = this.random.next() * screenWidth;
+        y = this.random.next() * containerHeight * 0.5;
     }
     
     return { x, y };
@@ -570,7 +575,7 @@ export class CloudsManager
     this.hideAllClouds();
     
     const targetCount = this.config.minClouds +
-      Math.floor(Math.random() * (this.config.maxClouds - this.config.minClouds + 1));
+      this.random.int(this.config.maxClouds - this.config.minClouds + 1);
     
     this.addNewClouds(targetCount);
   }
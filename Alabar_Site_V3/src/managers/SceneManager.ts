@@ -6,6 +6,7 @@
 import { Application, Container, Sprite, Texture, Ticker } from 'pixi.js';
 import { AssetManager } from './AssetManager';
 import { CloudsManager } from './CloudsManager';
+import { AudioManager } from './AudioManager';
 
 interface LayerConfig
 {
@@ -227,6 +228,9 @@ export class SceneManager
     this.currentTheme = theme;
     localStorage.setItem('theme', theme);
     
+    // Crossfade to the theme's music
+    AudioManager.getInstance().playMusic(theme);
+    
     // Update body attribute for CSS
     document.body.setAttribute('data-theme', theme);
   }
@@ -1,10 +1,33 @@
 /**
  * HomePage - Main landing page with game
+ * Dropping a replay file (.json) on the page plays it back in the game
  */
 
 import { BaseComponent } from '@components/BaseComponent';
+import { App } from '../App';
+import { parseReplay } from '../game/core/Replay';
 
 export default class HomePage extends BaseComponent {
+  private handleDragOver = (event: DragEvent): void => {
+    event.preventDefault();
+  };
+
+  private handleDrop = (event: DragEvent): void => {
+    event.preventDefault();
+
+    const file = event.dataTransfer?.files[0];
+    if (!file || !file.name.endsWith('.json')) {
+      return;
+    }
+
+    file.text().then((json) => {
+      const replay = parseReplay(json);
+      if (replay) {
+        App.getInstance().playReplay(replay);
+      }
+    });
+  };
+
   render(): string {
     // Empty because content is handled by PIXI
     return '';
@@ -12,5 +35,12 @@ export default class HomePage extends BaseComponent {
 
   mount(_selector: string): void {
     // PIXI ContentManager handles the home page content
+    window.addEventListener('dragover', this.handleDragOver);
+    window.addEventListener('drop', this.handleDrop);
+  }
+
+  dispose(): void {
+    window.removeEventListener('dragover', this.handleDragOver);
+    window.removeEventListener('drop', this.handleDrop);
   }
 }
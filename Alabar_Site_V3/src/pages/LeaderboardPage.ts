@@ -0,0 +1,237 @@
+/**
+ * LeaderboardPage.ts - Local high scores with run breakdown
+ * Board can be exported to / imported from a JSON file
+ */
+
+import { BaseComponent } from '../components/BaseComponent';
+import { Leaderboard, LeaderboardEntry, downloadLeaderboard, getTotalKills } from '../game/core/Leaderboard';
+
+/**
+ * Escape text from the board (imported files are untrusted)
+ */
+function escapeHtml(text: string): string
+{
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export class LeaderboardPage extends BaseComponent
+{
+  private listElement: HTMLElement | null = null;
+  private statusElement: HTMLElement | null = null;
+  private exportButton: HTMLButtonElement | null = null;
+  private importButton: HTMLButtonElement | null = null;
+  private fileInput: HTMLInputElement | null = null;
+
+  private handleExport = (): void =>
+  {
+    downloadLeaderboard(Leaderboard.getInstance().export());
+  };
+
+  private handleImportClick = (): void =>
+  {
+    this.fileInput?.click();
+  };
+
+  private handleFileChange = (): void =>
+  {
+    const file = this.fileInput?.files?.[0];
+    if (!file)
+    {
+      return;
+    }
+
+    file.text().then((json) =>
+    {
+      const imported = Leaderboard.getInstance().import(json);
+
+      this.showStatus(imported ? 'Leaderboard imported!' : 'Invalid leaderboard file.');
+      this.renderEntries();
+
+      if (this.fileInput)
+      {
+        this.fileInput.value = '';
+      }
+    });
+  };
+
+  render(): string
+  {
+    return `
+      <div class="leaderboard-grimoire-wrapper">
+        <div class="grimoire-container">
+          <div class="grimoire-content">
+            <header class="text-center mb-6">
+              <h1 class="font-pixel pixel-font pixel-shadow text-2xl text-rpg-accent mb-3">LEADERBOARD</h1>
+              <p class="font-game pixel-shadow text-2xl text-rpg-accent">Your best runs on this device</p>
+            </header>
+
+            <div class="content-wrapper">
+              <div class="card-rpg mb-6">
+                <div id="leaderboard-list" class="space-y-3"></div>
+              </div>
+
+              <div class="flex flex-wrap items-center justify-center gap-4">
+                <button id="leaderboard-export" class="btn-pixel">EXPORT</button>
+                <button id="leaderboard-import" class="btn-pixel">IMPORT</button>
+                <input id="leaderboard-file" type="file" accept=".json,application/json" class="hidden" />
+              </div>
+              <p id="leaderboard-status" class="font-game pixel-shadow text-rpg-accent text-center mt-4"></p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <style>
+        /* Wrapper - centers the grimoire */
+        .leaderboard-grimoire-wrapper
+        {
+          min-height: 100vh;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          padding: 1rem;
+        }
+
+        /* Grimoire container with background */
+        .grimoire-container
+        {
+          width: 100%;
+          max-width: 900px;
+          min-height: 600px;
+          padding: 3rem 2.5rem;
+          background-image: url('/assets/images/grimorypg1.png');
+          background-size: 100% 100%;
+          background-repeat: no-repeat;
+          background-position: center;
+        }
+
+        /* Content wrapper inside grimoire */
+        .grimoire-content
+        {
+          max-width: 100%;
+          height: 100%;
+        }
+
+        /* Content constrained area */
+        .content-wrapper
+        {
+          max-width: 650px;
+          margin: 0 auto;
+        }
+
+        /* Responsive adjustments */
+        @media (max-width: 768px)
+        {
+          .grimoire-container
+          {
+            padding: 2rem 1.5rem;
+            min-height: 500px;
+          }
+
+          .leaderboard-grimoire-wrapper
+          {
+            padding: 0.5rem;
+          }
+        }
+      </style>
+    `;
+  }
+
+  mount(): void
+  {
+    this.listElement = document.getElementById('leaderboard-list');
+    this.statusElement = document.getElementById('leaderboard-status');
+    this.exportButton = document.getElementById('leaderboard-export') as HTMLButtonElement;
+    this.importButton = document.getElementById('leaderboard-import') as HTMLButtonElement;
+    this.fileInput = document.getElementById('leaderboard-file') as HTMLInputElement;
+
+    this.exportButton?.addEventListener('click', this.handleExport);
+    this.importButton?.addEventListener('click', this.handleImportClick);
+    this.fileInput?.addEventListener('change', this.handleFileChange);
+
+    this.renderEntries();
+  }
+
+  /**
+   * Fill the list from the current board
+   */
+  private renderEntries(): void
+  {
+    if (!this.listElement)
+    {
+      return;
+    }
+
+    const entries = Leaderboard.getInstance().getEntries();
+
+    if (entries.length === 0)
+    {
+      this.listElement.innerHTML = `
+        <p class="font-game pixel-shadow text-rpg-text text-center">No runs yet. Play a game on the home page!</p>
+      `;
+      return;
+    }
+
+    this.listElement.innerHTML = entries.map((entry, index) => this.renderEntry(entry, index)).join('');
+  }
+
+  /**
+   * One run: headline stats, kills by monster, build
+   */
+  private renderEntry(entry: LeaderboardEntry, index: number): string
+  {
+    const minutes = Math.floor(entry.survivalTime / 60);
+    const seconds = Math.floor(entry.survivalTime % 60);
+    const time = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+
+    const kills = Object.entries(entry.kills)
+      .sort((a, b) => (b[1] ?? 0) - (a[1] ?? 0))
+      .map(([type, count]) => `${escapeHtml(type)} x${Number(count)}`)
+      .join(', ');
+
+    const build = entry.build
+      .map(p => `${escapeHtml(String(p.name))} ${Number(p.level)}`)
+      .join(', ');
+
+    return `
+      <details class="border-b border-rpg-accent/30 pb-2">
+        <summary class="font-game pixel-shadow text-rpg-text cursor-pointer">
+          <span class="text-rpg-accent">#${index + 1}</span>
+          ${time} - Lv ${entry.level} - Wave ${entry.wave} - ${getTotalKills(entry)} kills
+        </summary>
+        <div class="font-game pixel-shadow text-rpg-text text-sm mt-2 space-y-1">
+          <p>Kills: <span class="text-rpg-accent">${kills || 'none'}</span></p>
+          <p>Build: <span class="text-rpg-accent">${build || 'none'}</span></p>
+          <p>Seed: <span class="text-rpg-accent">${entry.seed}</span> - ${new Date(entry.date).toLocaleDateString()}</p>
+        </div>
+      </details>
+    `;
+  }
+
+  private showStatus(message: string): void
+  {
+    if (this.statusElement)
+    {
+      this.statusElement.textContent = message;
+    }
+  }
+
+  dispose(): void
+  {
+    this.exportButton?.removeEventListener('click', this.handleExport);
+    this.importButton?.removeEventListener('click', this.handleImportClick);
+    this.fileInput?.removeEventListener('change', this.handleFileChange);
+
+    this.listElement = null;
+    this.statusElement = null;
+    this.exportButton = null;
+    this.importButton = null;
+    this.fileInput = null;
+
+    console.log('LeaderboardPage destroyed');
+  }
+}
@@ -110,6 +110,13 @@ const routeConfig: Record<string, any> =
     layout: 'default',
     headerType: 'default'
   },
+  '/leaderboard':
+  {
+    component: () => import('../pages/LeaderboardPage'),
+    title: 'Leaderboard - ALABAR V3',
+    layout: 'default',
+    headerType: 'default'
+  },
   '/projects':
   {
     component: () => import('../pages/ProjectsPage'),
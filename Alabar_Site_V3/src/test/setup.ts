@@ -0,0 +1,12 @@
+/**
+ * setup.ts - Vitest setup
+ * Game code runs under Node: no requestAnimationFrame, and every system logs freely
+ */
+
+import { vi } from 'vitest';
+import { setupHeadlessPixi } from '../game/headless/HeadlessAssets';
+
+setupHeadlessPixi();
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+vi.spyOn(console, 'warn').mockImplementation(() => {});
@@ -0,0 +1,58 @@
+/**
+ * stubs.ts - Light stand-ins for browser/asset dependencies in tests
+ */
+
+import { Texture } from 'pixi.js';
+import { AssetManager } from '../managers/AssetManager';
+import { InputSource } from '../game/core/Input';
+import { MoveVector, isZeroMove } from '../game/systems/Movement';
+
+/**
+ * Spritesheet stand-in: every frame name resolves to a blank texture,
+ * every animation to a short run of blank frames
+ */
+function createStubSpritesheet(frameCount: number)
+{
+  const frames = Array.from({ length: frameCount }, () => Texture.EMPTY);
+
+  return {
+    textures: new Proxy({}, { get: () => Texture.EMPTY }),
+    animations: new Proxy({}, { get: () => frames })
+  };
+}
+
+/**
+ * AssetManager stand-in - entities only ever ask it for spritesheets
+ */
+export function createStubAssetManager(frameCount: number = 4): AssetManager
+{
+  const spritesheet = createStubSpritesheet(frameCount);
+
+  return {
+    getSpritesheet: () => spritesheet
+  } as unknown as AssetManager;
+}
+
+/**
+ * Input stand-in the test drives directly
+ */
+export class StubInput implements InputSource
+{
+  move: MoveVector = { x: 0, y: 0 };
+  attack: boolean = false;
+
+  getMoveVector(): MoveVector
+  {
+    return this.move;
+  }
+
+  isAttackPressed(): boolean
+  {
+    return this.attack;
+  }
+
+  isMoving(): boolean
+  {
+    return !isZeroMove(this.move);
+  }
+}
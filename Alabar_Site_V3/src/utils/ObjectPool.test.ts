@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { ObjectPool } from './ObjectPool';
+
+function createPool(maxSize?: number)
+{
+  const disposed: Array<{ id: number; used: boolean }> = [];
+  let nextId = 0;
+
+  const pool = new ObjectPool({
+    name: 'test',
+    create: () => ({ id: nextId++, used: false }),
+    reset: item => { item.used = false; },
+    dispose: item => { disposed.push(item); },
+    maxSize
+  });
+
+  return { pool, disposed };
+}
+
+describe('ObjectPool', () =>
+{
+  it('reuses released objects instead of creating new ones', () =>
+  {
+    const { pool } = createPool();
+
+    const first = pool.acquire();
+    first.used = true;
+    pool.release(first);
+
+    const second = pool.acquire();
+    expect(second).toBe(first);
+    expect(second.used).toBe(false);
+    expect(pool.getStats()).toMatchObject({ active: 1, free: 0, created: 1 });
+
+    pool.destroy();
+  });
+
+  it('disposes objects released past the max size', () =>
+  {
+    const { pool, disposed } = createPool(1);
+
+    const items = [pool.acquire(), pool.acquire()];
+    pool.release(items[0]);
+    pool.release(items[1]);
+
+    expect(disposed).toEqual([items[1]]);
+    expect(pool.getStats()).toMatchObject({ active: 0, free: 1, created: 2 });
+
+    pool.destroy();
+  });
+
+  it('lists live pools until they are destroyed', () =>
+  {
+    const { pool, disposed } = createPool();
+    pool.release(pool.acquire());
+
+    expect(ObjectPool.getAllStats()).toContainEqual({ name: 'test', active: 0, free: 1, created: 1 });
+
+    pool.destroy();
+    expect(disposed).toHaveLength(1);
+    expect(ObjectPool.getAllStats()).toEqual([]);
+  });
+});
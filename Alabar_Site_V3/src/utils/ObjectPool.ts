@@ -0,0 +1,113 @@
+/**
+ * ObjectPool.ts - Generic pool of reusable objects
+ * Pixi objects are expensive to create, and destroying them in bulk causes GC stutter,
+ * so short-lived objects (projectiles, pickups, particles) are released here and reused
+ */
+
+export interface ObjectPoolConfig<T>
+{
+  name: string; // Shown in pool stats
+  create: () => T;
+  reset?: (item: T) => void; // Called on release, before the object is stored for reuse
+  dispose?: (item: T) => void; // Called for objects the pool drops (over maxSize, or on destroy)
+  maxSize?: number; // Free objects kept for reuse (default 256)
+}
+
+export interface PoolStats
+{
+  name: string;
+  active: number; // Acquired and not released yet
+  free: number; // Waiting for reuse
+  created: number; // Created since the pool was made
+}
+
+export class ObjectPool<T>
+{
+  // Every live pool, for debugging (see getAllStats)
+  private static pools: Set<ObjectPool<unknown>> = new Set();
+
+  private config: ObjectPoolConfig<T>;
+  private free: T[] = [];
+  private active: number = 0;
+  private created: number = 0;
+  private maxSize: number;
+
+  constructor(config: ObjectPoolConfig<T>)
+  {
+    this.config = config;
+    this.maxSize = config.maxSize ?? 256;
+
+    ObjectPool.pools.add(this as ObjectPool<unknown>);
+  }
+
+  /**
+   * Take an object from the pool (created if none is free)
+   */
+  acquire(): T
+  {
+    this.active++;
+
+    const item = this.free.pop();
+    if (item !== undefined)
+    {
+      return item;
+    }
+
+    this.created++;
+    return this.config.create();
+  }
+
+  /**
+   * Give an object back for reuse
+   */
+  release(item: T): void
+  {
+    this.active = Math.max(0, this.active - 1);
+
+    if (this.free.length >= this.maxSize)
+    {
+      this.config.dispose?.(item);
+      return;
+    }
+
+    this.config.reset?.(item);
+    this.free.push(item);
+  }
+
+  /**
+   * Current pool sizes
+   */
+  getStats(): PoolStats
+  {
+    return {
+      name: this.config.name,
+      active: this.active,
+      free: this.free.length,
+      created: this.created
+    };
+  }
+
+  /**
+   * Dispose every free object and unregister the pool
+   * (objects still acquired belong to their owner)
+   */
+  destroy(): void
+  {
+    for (const item of this.free)
+    {
+      this.config.dispose?.(item);
+    }
+
+    this.free = [];
+    this.active = 0;
+    ObjectPool.pools.delete(this as ObjectPool<unknown>);
+  }
+
+  /**
+   * Stats of every live pool
+   */
+  static getAllStats(): PoolStats[]
+  {
+    return [...ObjectPool.pools].map(pool => pool.getStats());
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Random.ts - Seedable pseudo-random number generator
+ * Mulberry32 implementation so a whole game run can be reproduced from a single seed
+ */
+
+export class SeededRandom
+{
+  private seed: number;
+  private state: number;
+
+  constructor(seed?: number)
+  {
+    this.seed = (seed ?? SeededRandom.generateSeed()) >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Generate a fresh random seed (uses Math.random only to pick the seed)
+   */
+  static generateSeed(): number
+  {
+    return Math.floor(Math.random() * 0xFFFFFFFF) >>> 0;
+  }
+
+  /**
+   * Parse a seed from user input
+   * Numeric strings are used as-is, any other text is hashed (FNV-1a)
+   */
+  static parseSeed(value: string | null | undefined): number | null
+  {
+    if (!value)
+    {
+      return null;
+    }
+
+    const trimmed = value.trim();
+
+    if (trimmed.length === 0)
+    {
+      return null;
+    }
+
+    if (/^\d+$/.test(trimmed))
+    {
+      return Number(trimmed) >>> 0;
+    }
+
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < trimmed.length; i++)
+    {
+      hash ^= trimmed.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+
+    return hash >>> 0;
+  }
+
+  /**
+   * Next float in range [0, 1)
+   */
+  next(): number
+  {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Float in range [min, max)
+   */
+  range(min: number, max: number): number
+  {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Integer in range [0, max)
+   */
+  int(max: number): number
+  {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Pick a random element from an array
+   */
+  pick<T>(items: readonly T[]): T
+  {
+    return items[this.int(items.length)];
+  }
+
+  /**
+   * Roll a probability (0-1)
+   */
+  chance(probability: number): boolean
+  {
+    return this.next() < probability;
+  }
+
+  /**
+   * Get the seed this generator was created with
+   */
+  getSeed(): number
+  {
+    return this.seed;
+  }
+
+  /**
+   * Get the current position in the sequence (saved runs)
+   */
+  getState(): number
+  {
+    return this.state;
+  }
+
+  /**
+   * Continue the sequence from a saved position
+   */
+  setState(state: number): void
+  {
+    this.state = state >>> 0;
+  }
+
+  /**
+   * Restart the sequence from the original seed
+   */
+  reset(): void
+  {
+    this.state = this.seed;
+  }
+}
+
+/**
+ * Read the run seed from the page URL (?seed=...)
+ */
+export function getSeedFromURL(): number | null
+{
+  const params = new URLSearchParams(window.location.search);
+  return SeededRandom.parseSeed(params.get('seed'));
+}